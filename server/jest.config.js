@@ -0,0 +1,10 @@
+// The server shares the sync types and merge rules with the app in ../src, so Babel compiles both
+module.exports = {
+  testEnvironment: '<rootDir>/jest.environment.js',
+  roots: ['<rootDir>/src'],
+  transform: {
+    '\\.ts$': ['babel-jest', {
+      presets: [['@babel/preset-env', { targets: { node: 'current' } }], '@babel/preset-typescript'],
+    }],
+  },
+};
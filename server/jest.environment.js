@@ -0,0 +1,11 @@
+const NodeEnvironment = require('jest-environment-node');
+
+// Jest 27 predates Node's built-in fetch and doesn't hand it on to the tests, which talk to a real server
+class FetchEnvironment extends NodeEnvironment {
+  constructor(config, context) {
+    super(config, context);
+    Object.assign(this.global, { fetch, Headers, Request, Response });
+  }
+}
+
+module.exports = FetchEnvironment;
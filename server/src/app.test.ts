@@ -0,0 +1,231 @@
+import { promises as fs } from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { SyncResponse } from '../../src/types/sync';
+import { createSyncServer, SyncServerOptions } from './app';
+import { openJsonFileStore } from './store';
+
+const decision = { question: 'Should I move to Lisbon?', balanceScore: 60, options: ['Move', 'Stay'] };
+
+const journalEntry = {
+  createdAt: '2026-03-01T10:00:00.000Z',
+  analysis: { recommendation: 'Move', factors: [], sentiment: { positive: 0.5, negative: 0.1, neutral: 0.4 } },
+  tags: ['Life'],
+  notes: '',
+};
+
+const checkIn = {
+  entryId: 'entry-1',
+  createdAt: '2026-03-01T10:00:00.000Z',
+  scheduledFor: '2026-03-08T10:00:00.000Z',
+  remind: true,
+};
+
+const valueProfile = { values: [{ id: 'v1', name: 'Family', priority: 1 }] };
+
+let dataFile: string;
+let server: http.Server;
+let baseUrl: string;
+
+// A server on a random local port with its data in a fresh temporary file
+const start = async (options: Partial<SyncServerOptions> = {}) => {
+  server = createSyncServer({ store: await openJsonFileStore(dataFile), ...options });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const stop = () => new Promise<void>(resolve => server.close(() => resolve()));
+
+const request = async (method: string, url: string, body?: unknown, headers: Record<string, string> = {}) => {
+  const response = await fetch(`${baseUrl}${url}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    ...(body === undefined ? {} : { body: JSON.stringify(body) }),
+  });
+  const text = await response.text();
+  return { status: response.status, headers: response.headers, body: text ? JSON.parse(text) : undefined };
+};
+
+beforeEach(async () => {
+  dataFile = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'anchor-sync-')), 'data.json');
+});
+
+afterEach(async () => {
+  await stop();
+  await fs.rm(path.dirname(dataFile), { recursive: true, force: true });
+});
+
+describe('REST endpoints', () => {
+  it.each([
+    ['decisions', decision, { question: 'Should I move to Porto?' }],
+    ['journal', journalEntry, { notes: 'Visited in May' }],
+    ['check-ins', checkIn, { remind: false }],
+    ['value-profiles', valueProfile, { values: [{ id: 'v2', name: 'Health', priority: 1 }] }],
+  ])('create, read, update and delete %s', async (collection, document, patch) => {
+    await start();
+
+    const created = await request('POST', `/api/${collection}`, { id: 'doc-1', ...document });
+    expect(created).toMatchObject({ status: 201, body: { id: 'doc-1', ...document } });
+    expect(await request('GET', `/api/${collection}/doc-1`)).toMatchObject({ status: 200, body: created.body });
+    expect((await request('GET', `/api/${collection}`)).body).toEqual([created.body]);
+
+    const patched = await request('PATCH', `/api/${collection}/doc-1`, patch);
+    expect(patched).toMatchObject({ status: 200, body: { ...document, ...patch, id: 'doc-1' } });
+
+    const replaced = await request('PUT', `/api/${collection}/doc-1`, document);
+    expect(replaced).toMatchObject({ status: 200, body: { ...document, id: 'doc-1' } });
+
+    expect((await request('DELETE', `/api/${collection}/doc-1`)).status).toBe(204);
+    expect((await request('GET', `/api/${collection}/doc-1`)).status).toBe(404);
+    expect((await request('GET', `/api/${collection}`)).body).toEqual([]);
+  });
+
+  it('gives new documents an id and creates them with PUT too', async () => {
+    await start({ generateId: () => 'generated' });
+
+    expect(await request('POST', '/api/decisions', decision)).toMatchObject({ status: 201, body: { id: 'generated' } });
+    expect(await request('PUT', '/api/decisions/chosen', decision)).toMatchObject({ status: 201, body: { id: 'chosen' } });
+    expect((await request('POST', '/api/decisions', { id: 'chosen', ...decision })).status).toBe(409);
+  });
+
+  it('clears fields patched to null and ones left out of a PUT', async () => {
+    await start();
+    await request('PUT', '/api/decisions/d1', { ...decision, stakes: 'My job' });
+
+    expect((await request('PATCH', '/api/decisions/d1', { stakes: null })).body).toEqual({ id: 'd1', ...decision });
+    expect((await request('PUT', '/api/decisions/d1', { question: 'Move?', balanceScore: 50 })).body)
+      .toEqual({ id: 'd1', question: 'Move?', balanceScore: 50 });
+  });
+
+  it('rejects invalid documents and explains why', async () => {
+    await start();
+
+    const response = await request('POST', '/api/decisions', { question: 42, balanceScore: 'high' });
+    expect(response).toEqual({
+      status: 400,
+      headers: expect.anything(),
+      body: {
+        error: 'Invalid document',
+        problems: expect.arrayContaining([expect.stringContaining('question must be a string')]),
+      },
+    });
+    expect((await request('PATCH', '/api/decisions/missing', { question: 'Move?' })).status).toBe(404);
+    expect((await request('PUT', '/api/journal/e1', { ...journalEntry, decision })).body.problems)
+      .toEqual([expect.stringContaining('decision belongs in the decisions collection')]);
+    expect((await request('PUT', '/api/decisions/d1', { id: 'd2', ...decision })).status).toBe(400);
+    expect((await request('GET', '/api/drafts')).status).toBe(404);
+  });
+
+  it('answers an oversized body with 413', async () => {
+    await start({ maxBodyBytes: 1024 });
+
+    const response = await request('PUT', '/api/decisions/d1', { ...decision, stakes: 'x'.repeat(64 * 1024) });
+    expect(response.status).toBe(413);
+    expect(response.body.error).toContain('larger than 1024 bytes');
+  });
+
+  it('rejects ids that are not valid URL encoding', async () => {
+    await start();
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const response = await request('GET', '/api/documents/%E0%A4%A');
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain('not a valid URL-encoded id');
+    expect((await request('PUT', '/api/decisions/%ZZ', decision)).status).toBe(400);
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('filters lists by field, e.g. the check-ins of one entry', async () => {
+    await start();
+    await request('PUT', '/api/check-ins/c1', checkIn);
+    await request('PUT', '/api/check-ins/c2', { ...checkIn, entryId: 'entry-2' });
+
+    const { body } = await request('GET', '/api/check-ins?entryId=entry-2');
+    expect(body.map(({ id }: { id: string }) => id)).toEqual(['c2']);
+  });
+
+  it('keeps everything in its data file across restarts', async () => {
+    await start();
+    await request('PUT', '/api/decisions/d1', decision);
+    await stop();
+
+    await start();
+    expect((await request('GET', '/api/decisions/d1')).body).toEqual({ id: 'd1', ...decision });
+  });
+
+  it('asks for the token when started with one, but not for preflights or health checks', async () => {
+    await start({ token: 'secret', allowedOrigin: 'https://anchor.example.com' });
+
+    expect((await request('GET', '/api/decisions')).status).toBe(401);
+    expect((await request('GET', '/api/decisions', undefined, { Authorization: 'Bearer wrong' })).status).toBe(401);
+    expect((await request('GET', '/api/decisions', undefined, { Authorization: 'Bearer secret' })).status).toBe(200);
+    expect((await request('GET', '/api/health')).status).toBe(200);
+
+    const preflight = await request('OPTIONS', '/api/sync');
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get('access-control-allow-origin')).toBe('https://anchor.example.com');
+    expect(preflight.headers.get('access-control-allow-headers')).toContain('Authorization');
+  });
+});
+
+describe('POST /api/sync', () => {
+  const sync = async (since: number, changes: unknown[]) =>
+    (await request('POST', '/api/sync', { since, changes })) as { status: number; body: SyncResponse };
+
+  it('merges changes field by field, the latest write winning', async () => {
+    await start();
+    await sync(0, [{ collection: 'decisions', id: 'd1', changedAt: '2026-03-01T10:00:00.000Z', fields: decision }]);
+
+    const laptop = { collection: 'decisions', id: 'd1', changedAt: '2026-03-01T10:05:00.000Z', fields: { stakes: 'Job' } };
+    const phone = { collection: 'decisions', id: 'd1', changedAt: '2026-03-01T10:01:00.000Z', fields: { stakes: 'Home', balanceScore: 20 } };
+    await sync(1, [laptop]);
+    const { body } = await sync(2, [phone]);
+
+    expect(body.revision).toBe(3);
+    expect(body.records).toHaveLength(1);
+    expect((await request('GET', '/api/decisions/d1')).body).toEqual({ id: 'd1', ...decision, stakes: 'Job', balanceScore: 20 });
+  });
+
+  it('answers with every record changed since the revision asked about', async () => {
+    await start();
+    await request('PUT', '/api/decisions/d1', decision);
+    await request('PUT', '/api/decisions/d2', decision);
+    await request('DELETE', '/api/decisions/d1');
+
+    const { body } = await sync(2, []);
+    expect(body.revision).toBe(3);
+    expect(body.records).toEqual([expect.objectContaining({ id: 'd1', deletedAt: expect.any(String), revision: 3 })]);
+    expect((await sync(99, [])).body.records).toHaveLength(2); // A device ahead of the server starts over
+  });
+
+  it('brings back a deleted document whole when another device edits it later', async () => {
+    await start();
+    const entry = { ...journalEntry };
+    await sync(0, [{ collection: 'journal', id: 'e1', changedAt: '2026-03-01T10:00:00.000Z', fields: entry }]);
+    await sync(1, [{ collection: 'journal', id: 'e1', changedAt: '2026-03-01T11:00:00.000Z', deleted: true }]);
+
+    const { status, body } = await sync(2, [
+      { collection: 'journal', id: 'e1', changedAt: '2026-03-01T12:00:00.000Z', fields: { notes: 'Still deciding' } },
+    ]);
+    expect(status).toBe(200);
+    expect(body.rejected).toBeUndefined();
+    expect((await request('GET', '/api/journal/e1')).body).toEqual({ id: 'e1', ...entry, notes: 'Still deciding' });
+  });
+
+  it('refuses a document the changes would leave invalid and applies the rest', async () => {
+    await start();
+
+    const { status, body } = await sync(0, [
+      { collection: 'decisions', id: 'd1', changedAt: '2026-03-01T10:00:00.000Z', fields: decision },
+      { collection: 'decisions', id: 'd2', changedAt: '2026-03-01T10:00:00.000Z', fields: { question: 'No score' } },
+    ]);
+    expect(status).toBe(200);
+    expect(body.rejected).toEqual([{ collection: 'decisions', id: 'd2', problems: ['balanceScore must be a number'] }]);
+    expect((await request('GET', '/api/decisions')).body).toEqual([{ id: 'd1', ...decision }]);
+
+    expect((await sync(0, [{ collection: 'drafts', id: 'x', changedAt: 'yesterday' }])).status).toBe(400);
+  });
+});
@@ -0,0 +1,300 @@
+import http from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import {
+  FieldChange,
+  RejectedDocument,
+  SyncCollection,
+  SyncedRecord,
+  SyncFields,
+  SyncRequest,
+  SyncResponse,
+} from '../../src/types/sync';
+import {
+  applyChange,
+  changedFields,
+  currentFields,
+  isSyncCollection,
+  recordKey,
+} from '../../src/services/sync/fieldMerge';
+import { validateDocument } from './documents';
+import { SyncStore } from './store';
+
+export interface SyncServerOptions {
+  store: SyncStore;
+  token?: string; // When set, every request needs "Authorization: Bearer <token>"
+  allowedOrigin?: string; // Where the app is served from, for CORS; "*" allows any origin
+  maxBodyBytes?: number;
+  now?: () => Date; // Times edits made through the REST endpoints
+  generateId?: () => string; // For documents POSTed without an id
+}
+
+// Ends the request with this status; `problems` explain a rejected document
+class HttpError extends Error {
+  status: number;
+  problems?: string[];
+
+  constructor(status: number, message: string, problems?: string[]) {
+    super(message);
+    this.status = status;
+    this.problems = problems;
+  }
+}
+
+interface Reply {
+  status: number;
+  body?: unknown;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const decodeId = (encodedId: string): string => {
+  try {
+    return decodeURIComponent(encodedId);
+  } catch {
+    throw new HttpError(400, `"${encodedId}" is not a valid URL-encoded id`);
+  }
+};
+
+const withoutId = ({ id, ...fields }: Record<string, unknown>): SyncFields => fields;
+
+const toDocument = (record: SyncedRecord) => {
+  const fields = currentFields(record);
+  return fields && { id: record.id, ...fields };
+};
+
+const readBody = (req: http.IncomingMessage, maxBytes: number): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        // The rest is read and thrown away, so the socket stays open long enough to carry the 413
+        req.removeAllListeners('data');
+        req.resume();
+        reject(new HttpError(413, `Request body is larger than ${maxBytes} bytes`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, 'Request body must be JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const parseSyncRequest = (body: unknown): SyncRequest => {
+  if (!isPlainObject(body) || !Number.isInteger(body.since) || (body.since as number) < 0 ||
+    !Array.isArray(body.changes)) {
+    throw new HttpError(400, 'A sync request needs `since` (a revision) and `changes` (an array)');
+  }
+  const problems = body.changes.flatMap((change: unknown, index): string[] => {
+    if (!isPlainObject(change) || !isSyncCollection(change.collection) || typeof change.id !== 'string' ||
+      !change.id || typeof change.changedAt !== 'string' || Number.isNaN(Date.parse(change.changedAt)) ||
+      (change.fields !== undefined && !isPlainObject(change.fields)) ||
+      (change.deleted !== undefined && typeof change.deleted !== 'boolean')) {
+      return [`changes[${index}] must have a known collection, an id, a changedAt timestamp and fields or deleted`];
+    }
+    return [];
+  });
+  if (problems.length > 0) {
+    throw new HttpError(400, 'Invalid sync request', problems);
+  }
+  return body as unknown as SyncRequest;
+};
+
+/**
+ * The sync server's HTTP interface. Under /api/<collection> it offers plain
+ * CRUD on decisions, journal entries, check-ins and value profiles; edits made
+ * that way are timed by the server's clock. /api/sync is what the app uses:
+ * it takes a device's queued field changes, merges them last-write-wins per
+ * field, and answers with every record changed since the device last asked.
+ */
+export const createSyncServer = ({
+  store,
+  token,
+  allowedOrigin = '*',
+  maxBodyBytes = 5 * 1024 * 1024,
+  now = () => new Date(),
+  generateId = randomUUID,
+}: SyncServerOptions): http.Server => {
+  const authorized = (header: string | undefined) => {
+    if (!token) {
+      return true;
+    }
+    const expected = Buffer.from(`Bearer ${token}`);
+    const given = Buffer.from(header || '');
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  };
+
+  const current = (collection: SyncCollection, id: string) => {
+    const record = store.get(collection, id);
+    return record && currentFields(record);
+  };
+
+  // The documents the changes would leave invalid; each is judged with all of its changes applied
+  const invalidDocuments = (changes: FieldChange[]): RejectedDocument[] => {
+    const preview = new Map<string, SyncedRecord>();
+    changes.forEach((change) => {
+      const key = recordKey(change.collection, change.id);
+      preview.set(key, applyChange(preview.get(key) || store.get(change.collection, change.id), change));
+    });
+    return Array.from(preview.values()).flatMap((record) => {
+      const fields = currentFields(record);
+      const problems = fields ? validateDocument(record.collection, fields) : [];
+      return problems.length > 0 ? [{ collection: record.collection, id: record.id, problems }] : [];
+    });
+  };
+
+  // For the REST endpoints, which change one document: either it stays valid or nothing happens
+  const applyValid = async (changes: FieldChange[]) => {
+    const rejected = invalidDocuments(changes);
+    if (rejected.length > 0) {
+      throw new HttpError(400, 'Invalid document', rejected.flatMap(({ problems }) => problems));
+    }
+    await store.apply(changes);
+  };
+
+  const edit = (collection: SyncCollection, id: string, fields: SyncFields): FieldChange =>
+    ({ collection, id, changedAt: now().toISOString(), fields });
+
+  const sync = async (body: unknown): Promise<Reply> => {
+    const { since, changes } = parseSyncRequest(body);
+    // A device ahead of the server (say, after the data file was restored from a backup) gets everything again
+    const from = since > store.revision() ? 0 : since;
+    // An invalid document is refused on its own, so it can't hold up the rest of the device's queue
+    const rejected = invalidDocuments(changes);
+    const isRejected = (change: FieldChange) =>
+      rejected.some(({ collection, id }) => collection === change.collection && id === change.id);
+    await store.apply(changes.filter(change => !isRejected(change)));
+    const response: SyncResponse = {
+      revision: store.revision(),
+      records: store.changedSince(from),
+      ...(rejected.length > 0 ? { rejected } : {}),
+    };
+    return { status: 200, body: response };
+  };
+
+  const route = async (req: http.IncomingMessage, url: URL): Promise<Reply> => {
+    const [prefix, collection, encodedId, ...rest] = url.pathname.split('/').filter(Boolean);
+    const id = encodedId && decodeId(encodedId);
+    if (prefix !== 'api' || !collection || rest.length > 0) {
+      throw new HttpError(404, 'Not found');
+    }
+    if (collection === 'health' && !id) {
+      return { status: 200, body: { ok: true } };
+    }
+    if (!authorized(req.headers.authorization)) {
+      throw new HttpError(401, 'Missing or wrong token');
+    }
+    if (collection === 'sync' && !id) {
+      if (req.method !== 'POST') {
+        throw new HttpError(405, 'Use POST');
+      }
+      return sync(await readBody(req, maxBodyBytes));
+    }
+    if (!isSyncCollection(collection)) {
+      throw new HttpError(404, `There is no "${collection}" collection`);
+    }
+
+    const body = ['POST', 'PUT', 'PATCH'].includes(req.method || '') ? await readBody(req, maxBodyBytes) : undefined;
+    if (body !== undefined && !isPlainObject(body)) {
+      throw new HttpError(400, 'The document must be a JSON object');
+    }
+    if (body && id && body.id !== undefined && body.id !== id) {
+      throw new HttpError(400, 'The document\'s id doesn\'t match the URL');
+    }
+
+    if (!id) {
+      if (req.method === 'GET') {
+        // Query parameters filter on fields, e.g. /api/check-ins?entryId=…
+        const filters = Array.from(url.searchParams.entries());
+        const documents = store.list(collection)
+          .map(toDocument)
+          .filter((document): document is SyncFields & { id: string } => !!document)
+          .filter(document => filters.every(([field, value]) => document[field] === value));
+        return { status: 200, body: documents };
+      }
+      if (req.method === 'POST' && body) {
+        const newId = body.id === undefined ? generateId() : body.id;
+        if (typeof newId !== 'string' || !newId) {
+          throw new HttpError(400, 'id must be a string');
+        }
+        if (current(collection, newId)) {
+          throw new HttpError(409, `${collection}/${newId} already exists`);
+        }
+        await applyValid([edit(collection, newId, withoutId(body))]);
+        return { status: 201, body: toDocument(store.get(collection, newId) as SyncedRecord) };
+      }
+      throw new HttpError(405, 'Use GET or POST');
+    }
+
+    const existing = current(collection, id);
+    if (req.method === 'PUT' && body) {
+      // Replaces the whole document; only the fields that differ count as edits
+      const changed = changedFields(existing, withoutId(body));
+      await applyValid([edit(collection, id, existing ? changed : withoutId(body))]);
+      return { status: existing ? 200 : 201, body: toDocument(store.get(collection, id) as SyncedRecord) };
+    }
+    if (!existing) {
+      throw new HttpError(404, `${collection}/${id} does not exist`);
+    }
+    switch (req.method) {
+      case 'GET':
+        return { status: 200, body: { id, ...existing } };
+      case 'PATCH': // Sets the fields given; null clears one
+        await applyValid([edit(collection, id, withoutId(body as Record<string, unknown>))]);
+        return { status: 200, body: toDocument(store.get(collection, id) as SyncedRecord) };
+      case 'DELETE':
+        await store.apply([{ collection, id, changedAt: now().toISOString(), deleted: true }]);
+        return { status: 204 };
+      default:
+        throw new HttpError(405, 'Use GET, PUT, PATCH or DELETE');
+    }
+  };
+
+  return http.createServer(async (req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+    if (allowedOrigin !== '*') {
+      res.setHeader('Vary', 'Origin');
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE',
+        'Access-Control-Allow-Headers': 'Authorization, Content-Type, Accept',
+        'Access-Control-Max-Age': '86400',
+      });
+      res.end();
+      return;
+    }
+
+    let reply: Reply;
+    try {
+      reply = await route(req, new URL(req.url || '/', 'http://localhost'));
+    } catch (err) {
+      if (!(err instanceof HttpError)) {
+        console.error(err);
+      }
+      reply = err instanceof HttpError
+        ? { status: err.status, body: { error: err.message, ...(err.problems ? { problems: err.problems } : {}) } }
+        : { status: 500, body: { error: 'Internal server error' } };
+    }
+
+    if (reply.body === undefined) {
+      res.writeHead(reply.status);
+      res.end();
+      return;
+    }
+    res.writeHead(reply.status, {
+      'Content-Type': 'application/json',
+      // After an oversized body the connection isn't reused, so the client stops sending the rest
+      ...(reply.status === 413 ? { Connection: 'close' } : {}),
+    });
+    res.end(JSON.stringify(reply.body));
+  });
+};
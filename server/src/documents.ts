@@ -0,0 +1,65 @@
+import { SyncCollection, SyncFields } from '../../src/types/sync';
+import { isNumber, isObject, isStringArray, validateAnalysis } from '../../src/services/analysis/validateAnalysis';
+import { validateDecision } from '../../src/services/decision/validateDecision';
+
+const isTimestamp = (value: unknown) => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+const requireTimestamps = (fields: SyncFields, required: string[], optional: string[] = []) => [
+  ...required.filter(key => !isTimestamp(fields[key])),
+  ...optional.filter(key => fields[key] !== undefined && !isTimestamp(fields[key])),
+].map(key => `${key} must be an ISO timestamp`);
+
+const validateJournalEntry = (fields: SyncFields): string[] => {
+  const problems = [...requireTimestamps(fields, ['createdAt'], ['updatedAt']), ...validateAnalysis(fields.analysis)];
+  if (!isStringArray(fields.tags)) {
+    problems.push('tags must be an array of strings');
+  }
+  if (typeof fields.notes !== 'string') {
+    problems.push('notes must be a string');
+  }
+  if (fields.finalRevision !== undefined && !isNumber(fields.finalRevision)) {
+    problems.push('finalRevision must be a number');
+  }
+  if (fields.decision !== undefined) {
+    problems.push('decision belongs in the decisions collection, under the entry\'s id');
+  }
+  if (fields.checkIns !== undefined) {
+    problems.push('checkIns belong in the check-ins collection, each with the entry\'s id as entryId');
+  }
+  return problems;
+};
+
+const validateCheckIn = (fields: SyncFields): string[] => {
+  const problems = requireTimestamps(fields, ['createdAt', 'scheduledFor'], ['notifiedAt']);
+  if (typeof fields.entryId !== 'string' || !fields.entryId) {
+    problems.push('entryId must be the id of a journal entry');
+  }
+  if (typeof fields.remind !== 'boolean') {
+    problems.push('remind must be true or false');
+  }
+  if (fields.reflection !== undefined && !isObject(fields.reflection)) {
+    problems.push('reflection must be an object');
+  }
+  return problems;
+};
+
+const validateValueProfile = (fields: SyncFields): string[] => {
+  if (!Array.isArray(fields.values)) {
+    return ['values must be an array'];
+  }
+  return fields.values.flatMap((value, index) => (isObject(value) && typeof value.id === 'string' &&
+    typeof value.name === 'string' && isNumber(value.priority)
+    ? []
+    : [`values[${index}] must have an id, a name and a numeric priority`]));
+};
+
+const VALIDATORS: Record<SyncCollection, (fields: SyncFields) => string[]> = {
+  decisions: validateDecision,
+  journal: validateJournalEntry,
+  'check-ins': validateCheckIn,
+  'value-profiles': validateValueProfile,
+};
+
+// Problems with a document about to be stored; an empty list means it is valid
+export const validateDocument = (collection: SyncCollection, fields: SyncFields): string[] =>
+  VALIDATORS[collection](fields);
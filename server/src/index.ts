@@ -0,0 +1,28 @@
+import path from 'path';
+import { createSyncServer } from './app';
+import { openJsonFileStore } from './store';
+
+const LOCAL_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+
+// Configured through the environment; see README.md
+const main = async () => {
+  const port = Number(process.env.PORT) || 4000;
+  const host = process.env.HOST || '127.0.0.1';
+  const dataFile = path.resolve(process.env.DATA_FILE || 'data/anchor-sync.json');
+  const token = process.env.SYNC_TOKEN || undefined;
+
+  const store = await openJsonFileStore(dataFile);
+  const server = createSyncServer({ store, token, allowedOrigin: process.env.ALLOWED_ORIGIN || '*' });
+
+  server.listen(port, host, () => {
+    console.log(`Anchor sync server listening on http://${host}:${port}, storing data in ${dataFile}`);
+    if (!token && !LOCAL_HOSTS.includes(host)) {
+      console.warn('No SYNC_TOKEN is set: anyone who can reach this server can read and change your decisions.');
+    }
+  });
+};
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
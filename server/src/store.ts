@@ -0,0 +1,75 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FieldChange, SyncCollection, SyncedRecord } from '../../src/types/sync';
+import { applyChange, recordKey } from '../../src/services/sync/fieldMerge';
+
+// The layout of the data file
+interface StoreFile {
+  revision: number;
+  records: SyncedRecord[];
+}
+
+export interface SyncStore {
+  revision: () => number; // Goes up by one for every change applied
+  get: (collection: SyncCollection, id: string) => SyncedRecord | undefined; // Deleted records included
+  list: (collection: SyncCollection) => SyncedRecord[];
+  changedSince: (revision: number) => SyncedRecord[];
+  apply: (changes: FieldChange[]) => Promise<SyncedRecord[]>; // Resolves once the changes are on disk
+}
+
+/**
+ * Keeps every record in memory and all of them in one JSON file, which is
+ * plenty for one person's decisions. Saving writes a temporary file and
+ * renames it over the old one, so a crash never leaves half a file behind.
+ */
+export const openJsonFileStore = async (file: string): Promise<SyncStore> => {
+  const records = new Map<string, SyncedRecord>();
+  let revision = 0;
+
+  try {
+    const saved = JSON.parse(await fs.readFile(file, 'utf8')) as StoreFile;
+    revision = saved.revision;
+    saved.records.forEach(record => records.set(recordKey(record.collection, record.id), record));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw err;
+    }
+  }
+
+  // Saves run one after another, each with the state from when it was asked for
+  let saving: Promise<void> = Promise.resolve();
+  const save = () => {
+    const contents = JSON.stringify({ revision, records: Array.from(records.values()) } as StoreFile);
+    saving = saving.catch(() => undefined).then(async () => {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      const temporary = `${file}.tmp`;
+      await fs.writeFile(temporary, contents);
+      await fs.rename(temporary, file);
+    });
+    return saving;
+  };
+
+  return {
+    revision: () => revision,
+
+    get: (collection, id) => records.get(recordKey(collection, id)),
+
+    list: (collection) => Array.from(records.values()).filter(record => record.collection === collection),
+
+    changedSince: (since) => Array.from(records.values()).filter(record => record.revision > since),
+
+    apply: async (changes) => {
+      const applied = new Map<string, SyncedRecord>();
+      changes.forEach((change) => {
+        const key = recordKey(change.collection, change.id);
+        const record = { ...applyChange(records.get(key), change), revision: ++revision };
+        records.set(key, record);
+        applied.set(key, record);
+      });
+      if (changes.length > 0) {
+        await save();
+      }
+      return Array.from(applied.values());
+    },
+  };
+};
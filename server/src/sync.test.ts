@@ -0,0 +1,146 @@
+import { promises as fs } from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { Value } from '../../src/types/decision';
+import { JournalEntry } from '../../src/types/journal';
+import { createLocalStorageStore, StoredRecord } from '../../src/services/storage/recordStore';
+import { createSyncClient } from '../../src/services/sync/syncClient';
+import { journalSyncMapping, valueProfileSyncMapping } from '../../src/services/sync/syncMappings';
+import { createSyncServer } from './app';
+import { openJsonFileStore } from './store';
+
+// Node has no localStorage; each device gets its own in memory
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length() {
+    return this.items.size;
+  }
+
+  clear() {
+    this.items.clear();
+  }
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number) {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+}
+
+const entry = (id: string, notes: string): JournalEntry => ({
+  id,
+  createdAt: '2026-03-01T10:00:00.000Z',
+  decision: { id, question: 'Should I move to Lisbon?', balanceScore: 60, options: ['Move', 'Stay'] },
+  analysis: { recommendation: 'Move', factors: [], sentiment: { positive: 0.5, negative: 0.1, neutral: 0.4 } },
+  tags: [],
+  notes,
+});
+
+let directory: string;
+let server: http.Server;
+let baseUrl: string;
+let time: number;
+
+const createDevice = () => {
+  const storage = new MemoryStorage();
+  const store = <T extends StoredRecord>(name: string) => createLocalStorageStore<T>(name, storage);
+  const client = createSyncClient({
+    baseUrl,
+    token: 'secret',
+    queue: store('sync-queue'),
+    replica: store('sync-replica'),
+    state: store('sync-state'),
+    now: () => new Date(time),
+    isOnline: () => true,
+  });
+  return {
+    client,
+    journal: client.track(store<JournalEntry>('journal'), journalSyncMapping),
+    values: client.track(store<Value>('values'), valueProfileSyncMapping),
+  };
+};
+
+beforeEach(async () => {
+  time = Date.parse('2026-03-01T10:00:00.000Z');
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'anchor-sync-'));
+  server = createSyncServer({ store: await openJsonFileStore(path.join(directory, 'data.json')), token: 'secret' });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+describe('syncing the app with the server', () => {
+  it('brings a journal written on one device to another, and edits from both back together', async () => {
+    const laptop = createDevice();
+    const phone = createDevice();
+    await laptop.journal.put(entry('e1', 'Written on the laptop'));
+    await laptop.values.put({ id: 'v1', name: 'Family', priority: 1 });
+    await laptop.client.sync();
+    await phone.client.sync();
+
+    expect(await phone.journal.getAll()).toEqual([entry('e1', 'Written on the laptop')]);
+    expect(await phone.values.getAll()).toEqual([{ id: 'v1', name: 'Family', priority: 1 }]);
+
+    time += 60 * 1000;
+    await laptop.journal.put({ ...entry('e1', 'Written on the laptop'), tags: ['Life'] });
+    time += 60 * 1000;
+    await phone.journal.put({ ...entry('e1', 'Edited on the phone'), decision: { ...entry('e1', '').decision, stakes: 'Job' } });
+    await laptop.client.sync();
+    await phone.client.sync();
+    await laptop.client.sync();
+
+    const merged = { ...entry('e1', 'Edited on the phone'), tags: ['Life'], decision: { ...entry('e1', '').decision, stakes: 'Job' } };
+    expect(await laptop.journal.getAll()).toEqual([merged]);
+    expect(await phone.journal.getAll()).toEqual([merged]);
+  });
+
+  it('serves what the app synced through the REST endpoints', async () => {
+    const laptop = createDevice();
+    await laptop.journal.put({
+      ...entry('e1', ''),
+      checkIns: [{ id: 'c1', createdAt: '2026-03-01T10:00:00.000Z', scheduledFor: '2026-03-08T10:00:00.000Z', remind: true }],
+    });
+    await laptop.client.sync();
+
+    const get = async (url: string) =>
+      (await fetch(`${baseUrl}${url}`, { headers: { Authorization: 'Bearer secret' } })).json();
+    expect(await get('/api/decisions/e1')).toEqual(entry('e1', '').decision);
+    expect(await get('/api/check-ins?entryId=e1')).toEqual([expect.objectContaining({ id: 'c1', remind: true })]);
+    expect(await get('/api/journal/e1')).not.toHaveProperty('decision');
+  });
+
+  it('keeps changes queued while the server is down and delivers them later', async () => {
+    const laptop = createDevice();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    await laptop.journal.put(entry('e1', 'Written offline'));
+
+    await expect(laptop.client.sync()).rejects.toThrow('Sync request failed');
+    expect(await laptop.client.pendingChanges()).toBe(2);
+
+    server = createSyncServer({ store: await openJsonFileStore(path.join(directory, 'data.json')), token: 'secret' });
+    await new Promise<void>(resolve => server.listen(Number(new URL(baseUrl).port), '127.0.0.1', resolve));
+    await laptop.client.sync();
+
+    expect(await laptop.client.pendingChanges()).toBe(0);
+    const phone = createDevice();
+    await phone.client.sync();
+    expect(await phone.journal.getAll()).toEqual([entry('e1', 'Written offline')]);
+  });
+});
@@ -2,8 +2,8 @@ import React from 'react';
 import { render, screen } from '@testing-library/react';
 import App from './App';
 
-test('renders learn react link', () => {
+test('renders the decision wizard with navigation', () => {
   render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+  expect(screen.getByText(/what are you deciding\?/i)).toBeInTheDocument();
+  expect(screen.getByRole('link', { name: /journal/i })).toHaveAttribute('href', '/journal');
 });
@@ -1,6 +1,24 @@
-import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
+import { BrowserRouter as Router, Navigate, Routes, Route, useLocation } from 'react-router-dom';
 import { ThemeProvider, createTheme } from '@mui/material';
 import DecisionDashboard from './components/DecisionDashboard/DecisionDashboard';
+import JournalBrowser from './components/JournalBrowser/JournalBrowser';
+import JournalEntryDetail from './components/JournalEntryDetail/JournalEntryDetail';
+import NavBar from './components/NavBar/NavBar';
+import DueCheckInsBanner from './components/DueCheckInsBanner/DueCheckInsBanner';
+import ReflectionForm from './components/ReflectionForm/ReflectionForm';
+import CalibrationView from './components/CalibrationView/CalibrationView';
+import ValueProfileEditor from './components/ValueProfileEditor/ValueProfileEditor';
+import SharedDecisionView from './components/SharedDecisionView/SharedDecisionView';
+import InsightsView from './components/InsightsView/InsightsView';
+import GroupList from './components/GroupList/GroupList';
+import GroupDecisionView from './components/GroupDecisionView/GroupDecisionView';
+import GroupRespondView from './components/GroupRespondView/GroupRespondView';
+import I18nProvider from './components/I18nProvider/I18nProvider';
+import OfflineBanner from './components/OfflineBanner/OfflineBanner';
+import UpdatePrompt from './components/UpdatePrompt/UpdatePrompt';
+import VaultGate from './components/VaultGate/VaultGate';
+import SecuritySettings from './components/SecuritySettings/SecuritySettings';
+import { DECIDE_PATH } from './services/wizard/decisionWizard';
 
 const theme = createTheme({
   palette: {
@@ -13,15 +31,41 @@ const theme = createTheme({
   },
 });
 
+// Links from before the wizard had its own path, shared ones included, keep their fragment
+const WizardRedirect = () => {
+  const { hash } = useLocation();
+  return <Navigate to={{ pathname: DECIDE_PATH, hash }} replace />;
+};
+
 const App = () => {
   return (
-    <ThemeProvider theme={theme}>
-      <Router>
-        <Routes>
-          <Route path="/" element={<DecisionDashboard />} />
-        </Routes>
-      </Router>
-    </ThemeProvider>
+    <I18nProvider>
+      <ThemeProvider theme={theme}>
+        <Router>
+          <VaultGate>
+            <NavBar />
+            <OfflineBanner />
+            <DueCheckInsBanner />
+            <Routes>
+              <Route path="/" element={<WizardRedirect />} />
+              <Route path={`${DECIDE_PATH}/*`} element={<DecisionDashboard />} />
+              <Route path="/journal" element={<JournalBrowser />} />
+              <Route path="/journal/:id" element={<JournalEntryDetail />} />
+              <Route path="/journal/:id/check-ins/:checkInId" element={<ReflectionForm />} />
+              <Route path="/calibration" element={<CalibrationView />} />
+              <Route path="/insights" element={<InsightsView />} />
+              <Route path="/values" element={<ValueProfileEditor />} />
+              <Route path="/groups" element={<GroupList />} />
+              <Route path="/groups/respond" element={<GroupRespondView />} />
+              <Route path="/groups/:id" element={<GroupDecisionView />} />
+              <Route path="/shared" element={<SharedDecisionView />} />
+              <Route path="/security" element={<SecuritySettings />} />
+            </Routes>
+          </VaultGate>
+          <UpdatePrompt />
+        </Router>
+      </ThemeProvider>
+    </I18nProvider>
   );
 };
 
@@ -0,0 +1,297 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemText,
+  Paper,
+  Slider,
+  Stack,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Analysis, Decision, Emotion, Factor, OptionPosition } from '../../types/decision';
+import { biasName } from '../../services/analysis/biases';
+import { valueLabel } from '../../services/values/valueProfile';
+import { MessageKey } from '../../services/i18n/i18n';
+import DecisionCompass from '../DecisionCompass/DecisionCompass';
+import { useI18n } from '../I18nProvider/useI18n';
+
+const EMOTION_LABELS: Record<Emotion, { icon: string; label: MessageKey }> = {
+  joy: { icon: '😊', label: 'emotion.joy' },
+  trust: { icon: '🤝', label: 'emotion.trust' },
+  anticipation: { icon: '✨', label: 'emotion.anticipation' },
+  fear: { icon: '😟', label: 'emotion.fear' },
+  sadness: { icon: '😢', label: 'emotion.sadness' },
+  anger: { icon: '😠', label: 'emotion.anger' },
+};
+
+const FIELD_LABELS: Record<string, MessageKey> = {
+  question: 'analysisView.field.question',
+  intuition: 'analysisView.field.intuition',
+  options: 'analysisView.field.options',
+  stakes: 'analysisView.field.stakes',
+};
+
+interface AnalysisViewProps {
+  analysis: Analysis;
+  decision?: Decision; // Marks the user's own approach and corrections on the compass
+  onMoveOption?: (option: string, position: OptionPosition) => void; // Lets the user drag options on the compass
+  onResetPositions?: () => void;
+}
+
+// Rendering of an analysis, shared by the wizard and the journal; only the compass can be interactive
+const AnalysisView = ({ analysis, decision, onMoveOption, onResetPositions }: AnalysisViewProps) => {
+  const { t } = useI18n();
+  const [showBiasInfo, setShowBiasInfo] = useState<string | null>(null); // Stores the bias type being viewed
+  const [showThirdOption, setShowThirdOption] = useState(false);
+
+  // Strongest emotion first
+  const emotions = (Object.entries(analysis.sentiment.emotions || {}) as [Emotion, number][])
+    .sort(([, a], [, b]) => b - a);
+
+  return (
+    <>
+      <Typography variant="body1" sx={{ mb: 3, whiteSpace: 'pre-line' }}>
+        {analysis.recommendation}
+      </Typography>
+
+      {/* Decision Compass */}
+      {analysis.optionPositions && (
+        <DecisionCompass
+          positions={analysis.optionPositions}
+          reference={decision && { x: decision.balanceScore, y: decision.timeHorizon ?? 50 }}
+          corrections={decision?.positionCorrections}
+          onMove={onMoveOption}
+          onReset={onResetPositions}
+        />
+      )}
+
+      {/* Decision Matrix */}
+      {analysis.matrixRanking && analysis.matrixRanking.length > 0 && (
+        <Box sx={{ mb: 4 }}>
+          <Typography variant="h6" gutterBottom>
+            {t('analysisView.matrix')}
+          </Typography>
+
+          {analysis.matrixRanking.map((item) => (
+            <Box key={item.option} sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+              <Typography variant="body2" sx={{ width: '40%', pr: 1, fontWeight: item.rank === 1 ? 'bold' : 'normal' }}>
+                {item.rank}. {item.option}
+              </Typography>
+              <LinearProgress
+                variant="determinate"
+                value={item.score}
+                color={item.rank === 1 ? 'success' : 'primary'}
+                sx={{ flex: 1, height: 8, borderRadius: 4, mr: 1 }}
+              />
+              <Typography variant="body2">{t('common.score', { score: item.score })}</Typography>
+            </Box>
+          ))}
+        </Box>
+      )}
+
+      {/* Key Factors */}
+      <Typography variant="h6" gutterBottom>
+        {t('analysisView.factors')}
+      </Typography>
+
+      <List>
+        {analysis.factors.map((factor: Factor, index: number) => (
+          <ListItem key={index}>
+            <ListItemText
+              primary={factor.name}
+              secondary={
+                <>
+                  <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                    <Box sx={{ width: '60%', mr: 1 }}>
+                      <Slider
+                        value={factor.score}
+                        disabled
+                        sx={{
+                          '& .MuiSlider-thumb': {
+                            display: 'none',
+                          },
+                        }}
+                      />
+                    </Box>
+                    <Typography variant="body2">{t('common.score', { score: factor.score })}</Typography>
+                  </Box>
+                  {factor.option && (
+                    <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                      {t('analysisView.factorOption', { option: factor.option })}
+                    </Typography>
+                  )}
+                  {factor.valueAlignment && (
+                    <Typography variant="caption" color="primary">
+                      {t('analysisView.factorValue', { value: valueLabel(factor.valueAlignment, t) })}
+                    </Typography>
+                  )}
+                </>
+              }
+            />
+          </ListItem>
+        ))}
+      </List>
+
+      {/* Value Conflicts */}
+      {analysis.valueConflicts && analysis.valueConflicts.length > 0 && (
+        <Box sx={{ mb: 3 }}>
+          <Typography variant="h6" gutterBottom>
+            {t('analysisView.conflicts')}
+          </Typography>
+
+          {analysis.valueConflicts.map((conflict, index) => (
+            <Alert key={index} severity="info" sx={{ mb: 2 }}>
+              {conflict}
+            </Alert>
+          ))}
+        </Box>
+      )}
+
+      {/* Cognitive Biases */}
+      {analysis.detectedBiases && analysis.detectedBiases.length > 0 && (
+        <Box sx={{ mb: 3 }}>
+          <Typography variant="h6" gutterBottom>
+            {t('analysisView.biases')}
+          </Typography>
+
+          {analysis.detectedBiases.map((bias, index) => (
+            <Paper key={index} elevation={0} sx={{ p: 2, mb: 2, border: '1px solid #e0e0e0' }}>
+              <Typography variant="subtitle1" color="warning.main">
+                {biasName(bias.biasType, t)}
+              </Typography>
+
+              {bias.evidence && bias.evidence.length > 0 && (
+                <Box component="ul" sx={{ mt: 1, mb: 0, pl: 3 }}>
+                  {bias.evidence.map((item, evidenceIndex) => (
+                    <Typography key={evidenceIndex} component="li" variant="body2" color="text.secondary">
+                      {item}
+                    </Typography>
+                  ))}
+                </Box>
+              )}
+
+              {showBiasInfo === bias.biasType ? (
+                <>
+                  <Typography variant="body2" sx={{ mt: 1, mb: 2 }}>
+                    {bias.description}
+                  </Typography>
+
+                  <Typography variant="body2" sx={{ fontWeight: 'bold', mb: 1 }}>
+                    {t('analysisView.suggestion')}
+                  </Typography>
+
+                  <Typography variant="body2" sx={{ mb: 2 }}>
+                    {bias.suggestion}
+                  </Typography>
+
+                  <Button
+                    size="small"
+                    onClick={() => setShowBiasInfo(null)}
+                  >
+                    {t('analysisView.hideDetails')}
+                  </Button>
+                </>
+              ) : (
+                <Button
+                  size="small"
+                  onClick={() => setShowBiasInfo(bias.biasType)}
+                  sx={{ mt: 1 }}
+                >
+                  {t('analysisView.learnMore')}
+                </Button>
+              )}
+            </Paper>
+          ))}
+        </Box>
+      )}
+
+      {/* Third Option Suggestion */}
+      {analysis.thirdOption && (
+        <Box sx={{ mb: 3 }}>
+          <Typography variant="h6" gutterBottom>
+            {t('analysisView.alternative')}
+          </Typography>
+
+          <Alert severity="success" sx={{ mb: 2 }}>
+            {analysis.thirdOption}
+          </Alert>
+
+          {!showThirdOption && (
+            <Button
+              size="small"
+              onClick={() => setShowThirdOption(true)}
+              sx={{ mt: 1 }}
+            >
+              {t('analysisView.explore')}
+            </Button>
+          )}
+        </Box>
+      )}
+
+      {/* Sentiment Analysis */}
+      <Typography variant="h6" gutterBottom sx={{ mt: 2 }}>
+        {t('analysisView.sentiment')}
+      </Typography>
+
+      <Box sx={{ mb: 3 }}>
+        {analysis.sentiment.tone && (
+          <Typography variant="body1" sx={{ mb: 2 }}>
+            {analysis.sentiment.tone}
+          </Typography>
+        )}
+
+        <Stack direction="row" spacing={1} sx={{ mb: 3 }}>
+          <Chip
+            label={t('analysisView.positive', { percent: Math.round(analysis.sentiment.positive * 100) })}
+            color="success"
+            variant="outlined"
+          />
+          <Chip
+            label={t('analysisView.negative', { percent: Math.round(analysis.sentiment.negative * 100) })}
+            color="error"
+            variant="outlined"
+          />
+          <Chip
+            label={t('analysisView.neutral', { percent: Math.round(analysis.sentiment.neutral * 100) })}
+            color="default"
+            variant="outlined"
+          />
+        </Stack>
+
+        {emotions.length > 0 && (
+          <Typography variant="body2" sx={{ mb: 2 }}>
+            <strong>{t('analysisView.emotions')}</strong>{' '}
+            {emotions.map(([emotion, share]) => `${EMOTION_LABELS[emotion].icon} ${t(EMOTION_LABELS[emotion].label)} ${Math.round(share * 100)}%`).join(' · ')}
+          </Typography>
+        )}
+
+        {analysis.sentiment.highlights && analysis.sentiment.highlights.length > 0 && (
+          <>
+            <Typography variant="body2" sx={{ mb: 1 }}>
+              <strong>{t('analysisView.highlights')}</strong>
+            </Typography>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+              {analysis.sentiment.highlights.map((highlight, index) => (
+                <Tooltip key={index} title={t('analysisView.highlightFrom', { field: FIELD_LABELS[highlight.field] ? t(FIELD_LABELS[highlight.field]) : highlight.field })}>
+                  <Chip
+                    size="small"
+                    label={`"${highlight.phrase}"`}
+                    color={highlight.score > 0 ? 'success' : 'error'}
+                  />
+                </Tooltip>
+              ))}
+            </Box>
+          </>
+        )}
+      </Box>
+    </>
+  );
+};
+
+export default AnalysisView;
@@ -0,0 +1,61 @@
+import { Box, ButtonBase, LinearProgress, Typography } from '@mui/material';
+
+export interface BarChartBar {
+  key: string;
+  label: string;
+  value: number;
+  detail?: string; // Shown after the value, e.g. how many decisions it covers
+}
+
+interface BarChartProps {
+  bars: BarChartBar[];
+  max?: number; // Defaults to the largest value
+  formatValue?: (value: number) => string;
+  selectedKey?: string;
+  onSelect?: (key: string) => void; // Makes each bar a button
+}
+
+// Horizontal bars drawn with MUI, so they need no chart library
+const BarChart = ({ bars, max, formatValue = value => String(value), selectedKey, onSelect }: BarChartProps) => {
+  const scale = max ?? Math.max(1, ...bars.map(bar => bar.value));
+
+  return (
+    <Box>
+      {bars.map((bar) => {
+        const row = (
+          <Box sx={{ display: 'flex', alignItems: 'center', width: '100%', py: 0.5 }}>
+            <Typography
+              variant="body2"
+              sx={{ width: '35%', pr: 1, textAlign: 'left', fontWeight: bar.key === selectedKey ? 'bold' : 'normal' }}
+            >
+              {bar.label}
+            </Typography>
+            <LinearProgress
+              variant="determinate"
+              value={Math.min(100, (bar.value / scale) * 100)}
+              color={bar.key === selectedKey ? 'secondary' : 'primary'}
+              sx={{ flex: 1, height: 10, borderRadius: 5, mr: 1 }}
+            />
+            <Typography variant="body2" sx={{ minWidth: 96, textAlign: 'right' }}>
+              {formatValue(bar.value)}{bar.detail && ` · ${bar.detail}`}
+            </Typography>
+          </Box>
+        );
+        return onSelect ? (
+          <ButtonBase
+            key={bar.key}
+            onClick={() => onSelect(bar.key)}
+            aria-pressed={bar.key === selectedKey}
+            sx={{ display: 'block', width: '100%', borderRadius: 1, px: 1, '&:hover': { bgcolor: 'action.hover' } }}
+          >
+            {row}
+          </ButtonBase>
+        ) : (
+          <Box key={bar.key} sx={{ px: 1 }}>{row}</Box>
+        );
+      })}
+    </Box>
+  );
+};
+
+export default BarChart;
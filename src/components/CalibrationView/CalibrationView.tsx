@@ -0,0 +1,217 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  CircularProgress,
+  Container,
+  Paper,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { JournalEntry } from '../../types/journal';
+import { journalStorage as defaultJournalStorage, JournalStorage } from '../../services/journal/journalStorage';
+import { BALANCE_BANDS } from '../../services/journal/journalFilters';
+import {
+  brierScoreOverTime,
+  calibrationByBalanceBand,
+  calibrationByTimeHorizon,
+  CalibrationGroup,
+  collectCalibrationPoints,
+  MIN_POINTS_FOR_VERDICT,
+  reliabilityBuckets,
+  summarizeCalibration,
+  TIME_HORIZON_BANDS,
+} from '../../services/calibration/calibration';
+import ReliabilityDiagram from '../ReliabilityDiagram/ReliabilityDiagram';
+import LineChart from '../LineChart/LineChart';
+import { MessageKey } from '../../services/i18n/i18n';
+import { useI18n } from '../I18nProvider/useI18n';
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const VERDICT_MESSAGES = {
+  'insufficient-data': { severity: 'info' as const, message: 'calibration.verdict.insufficient' as MessageKey },
+  'over-confident': { severity: 'warning' as const, message: 'calibration.verdict.over' as MessageKey },
+  'under-confident': { severity: 'info' as const, message: 'calibration.verdict.under' as MessageKey },
+  'well-calibrated': { severity: 'success' as const, message: 'calibration.verdict.well' as MessageKey },
+};
+
+const BreakdownTable = ({ title, groups, labelFor }: {
+  title: string;
+  groups: CalibrationGroup<string>[];
+  labelFor: (key: string) => string;
+}) => {
+  const { t } = useI18n();
+
+  return (
+    <Box sx={{ mb: 4 }}>
+      <Typography variant="h6" gutterBottom>
+        {title}
+      </Typography>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>{t('calibration.table.group')}</TableCell>
+            <TableCell align="right">{t('calibration.table.decisions')}</TableCell>
+            <TableCell align="right">{t('calibration.table.confidence')}</TableCell>
+            <TableCell align="right">{t('calibration.table.success')}</TableCell>
+            <TableCell align="right">{t('calibration.table.brier')}</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {groups.map(group => (
+            <TableRow key={group.key}>
+              <TableCell>{labelFor(group.key)}</TableCell>
+              <TableCell align="right">{group.count}</TableCell>
+              <TableCell align="right">{group.count ? percent(group.meanConfidence) : '–'}</TableCell>
+              <TableCell align="right">{group.count ? percent(group.successRate) : '–'}</TableCell>
+              <TableCell align="right">{group.count ? group.brierScore.toFixed(2) : '–'}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Box>
+  );
+};
+
+interface CalibrationViewProps {
+  journal?: JournalStorage;
+}
+
+const CalibrationView = ({ journal = defaultJournalStorage }: CalibrationViewProps) => {
+  const { t, formatDate } = useI18n();
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    journal.listEntries()
+      .then((loaded) => {
+        if (!cancelled) {
+          setEntries(loaded);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(t('journal.error.load'));
+        }
+        console.error(err);
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [journal, t]);
+
+  const points = useMemo(() => collectCalibrationPoints(entries), [entries]);
+  const summary = summarizeCalibration(points);
+  const verdict = VERDICT_MESSAGES[summary.verdict];
+
+  const bandLabel = (bands: { band: string; label: MessageKey }[], key: string) => {
+    const label = bands.find(band => band.band === key)?.label;
+    return label ? t(label) : key;
+  };
+
+  return (
+    <Container maxWidth="md">
+      <Paper elevation={3} sx={{ p: 4, mt: 4 }}>
+        <Typography variant="h4" gutterBottom>
+          {t('calibration.title')}
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          {t('calibration.help')}
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : points.length === 0 ? (
+          <Alert severity="info">
+            {t('calibration.empty')}
+          </Alert>
+        ) : (
+          <>
+            <Stack direction="row" spacing={4} sx={{ mb: 3, flexWrap: 'wrap' }}>
+              <Box>
+                <Typography variant="h5">{summary.count}</Typography>
+                <Typography variant="caption" color="text.secondary">{t('calibration.summary.count')}</Typography>
+              </Box>
+              <Box>
+                <Typography variant="h5">{percent(summary.meanConfidence)}</Typography>
+                <Typography variant="caption" color="text.secondary">{t('calibration.summary.confidence')}</Typography>
+              </Box>
+              <Box>
+                <Typography variant="h5">{percent(summary.successRate)}</Typography>
+                <Typography variant="caption" color="text.secondary">{t('calibration.table.success')}</Typography>
+              </Box>
+              <Box>
+                <Typography variant="h5">{summary.brierScore.toFixed(2)}</Typography>
+                <Typography variant="caption" color="text.secondary">{t('calibration.summary.brier')}</Typography>
+              </Box>
+            </Stack>
+
+            <Alert severity={verdict.severity} sx={{ mb: 4 }}>
+              {t(verdict.message, { min: MIN_POINTS_FOR_VERDICT })}
+            </Alert>
+
+            <Typography variant="h6" gutterBottom>
+              {t('calibration.reliability')}
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              {t('calibration.reliabilityHelp')}
+            </Typography>
+            <Box sx={{ mb: 4 }}>
+              <ReliabilityDiagram buckets={reliabilityBuckets(points)} />
+            </Box>
+
+            <Typography variant="h6" gutterBottom>
+              {t('calibration.overTime')}
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              {t('calibration.overTimeHelp')}
+            </Typography>
+            <Box sx={{ mb: 4 }}>
+              <LineChart
+                ariaLabel={t('calibration.overTimeLabel')}
+                points={brierScoreOverTime(points).map(point => ({
+                  label: formatDate(point.recordedAt),
+                  value: point.brierScore,
+                }))}
+              />
+            </Box>
+
+            <BreakdownTable
+              title={t('calibration.byApproach')}
+              groups={calibrationByBalanceBand(points)}
+              labelFor={key => bandLabel(BALANCE_BANDS, key)}
+            />
+            <BreakdownTable
+              title={t('calibration.byTimeHorizon')}
+              groups={calibrationByTimeHorizon(points)}
+              labelFor={key => bandLabel(TIME_HORIZON_BANDS, key)}
+            />
+          </>
+        )}
+      </Paper>
+    </Container>
+  );
+};
+
+export default CalibrationView;
@@ -0,0 +1,311 @@
+import React, { useRef, useState } from 'react';
+import { Box, Button, Chip, Paper, Typography } from '@mui/material';
+import { OptionPosition } from '../../types/decision';
+import { optionLetter } from '../../services/decision/options';
+import { roundPosition, spreadPoints } from '../../services/compass/compassLayout';
+import { MessageKey, Translate } from '../../services/i18n/i18n';
+import { useI18n } from '../I18nProvider/useI18n';
+
+// Distinct colours for up to eight options, then they repeat
+const OPTION_COLORS = ['#2196f3', '#f50057', '#4caf50', '#ff9800', '#9c27b0', '#00bcd4', '#795548', '#607d8b'];
+
+const optionColor = (index: number) => OPTION_COLORS[index % OPTION_COLORS.length];
+
+// SVG layout: a square plot with room for tick labels on the left and bottom
+const VIEW_SIZE = 400;
+const PAD_LEFT = 56;
+const PAD_TOP = 16;
+const PLOT = VIEW_SIZE - PAD_LEFT - PAD_TOP;
+const TICKS = [0, 25, 50, 75, 100];
+const MARKER_RADIUS = 14;
+const MIN_GAP = (MARKER_RADIUS * 2.2 * 100) / PLOT; // In compass units, so markers never overlap
+const KEY_STEP = 5;
+
+const QUADRANTS: { label: MessageKey; x: number; y: number; anchor: string }[] = [
+  { label: 'compass.quadrant.gutFuture', x: 0, y: 100, anchor: 'start' },
+  { label: 'compass.quadrant.headFuture', x: 100, y: 100, anchor: 'end' },
+  { label: 'compass.quadrant.gutNow', x: 0, y: 0, anchor: 'start' },
+  { label: 'compass.quadrant.headNow', x: 100, y: 0, anchor: 'end' },
+];
+
+const toSvgX = (x: number) => PAD_LEFT + (x / 100) * PLOT;
+const toSvgY = (y: number) => PAD_TOP + ((100 - y) / 100) * PLOT; // Long-term at the top
+
+const describePosition = ({ x, y }: OptionPosition, t: Translate) =>
+  t('compass.position', { side: x < 50 ? 'emotional' : 'logical', focus: y < 50 ? 'short' : 'long' });
+
+interface DecisionCompassProps {
+  positions: Record<string, OptionPosition>;
+  reference?: OptionPosition; // The user's own balanceScore and timeHorizon
+  referenceLabel?: string; // Marker text, e.g. "Group" for a group's average
+  referenceDescription?: string;
+  markers?: 'option' | 'participant'; // What each marker stands for
+  corrections?: Record<string, OptionPosition>; // Options the user has moved themselves
+  onMove?: (option: string, position: OptionPosition) => void; // Makes options draggable
+  onReset?: () => void;
+}
+
+const DecisionCompass = ({
+  positions,
+  reference,
+  referenceLabel,
+  referenceDescription,
+  markers = 'option',
+  corrections = {},
+  onMove,
+  onReset,
+}: DecisionCompassProps) => {
+  const { t } = useI18n();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState<{ option: string; position: OptionPosition } | null>(null);
+
+  const options = Object.keys(positions);
+  if (options.length === 0) {
+    return null;
+  }
+
+  const current = dragging ? { ...positions, [dragging.option]: dragging.position } : positions;
+  const displayed = spreadPoints(current, MIN_GAP);
+  if (dragging) {
+    displayed[dragging.option] = dragging.position; // The dragged marker stays under the pointer
+  }
+
+  const pointerPosition = (event: React.PointerEvent): OptionPosition => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const svgX = ((event.clientX - rect.left) / rect.width) * VIEW_SIZE;
+    const svgY = ((event.clientY - rect.top) / rect.height) * VIEW_SIZE;
+    return roundPosition({ x: ((svgX - PAD_LEFT) / PLOT) * 100, y: 100 - ((svgY - PAD_TOP) / PLOT) * 100 });
+  };
+
+  const handlePointerDown = (event: React.PointerEvent, option: string) => {
+    if (!onMove) {
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDragging({ option, position: positions[option] });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (dragging) {
+      setDragging({ ...dragging, position: pointerPosition(event) });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!dragging) {
+      return;
+    }
+    const { option, position } = dragging;
+    setDragging(null);
+    if (position.x !== positions[option].x || position.y !== positions[option].y) {
+      onMove?.(option, position);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent, option: string) => {
+    const steps: Record<string, [number, number]> = {
+      ArrowLeft: [-KEY_STEP, 0],
+      ArrowRight: [KEY_STEP, 0],
+      ArrowUp: [0, KEY_STEP],
+      ArrowDown: [0, -KEY_STEP],
+    };
+    const step = steps[event.key];
+    if (!onMove || !step) {
+      return;
+    }
+    event.preventDefault();
+    const { x, y } = positions[option];
+    onMove(option, roundPosition({ x: x + step[0], y: y + step[1] }));
+  };
+
+  const hasCorrections = options.some(option => corrections[option]);
+  const referenceName = referenceLabel || t('compass.you');
+
+  return (
+    <Box sx={{ mb: 4 }}>
+      <Typography variant="h6" gutterBottom>
+        {t('compass.title')}
+      </Typography>
+
+      {onMove && (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          {t('compass.help')}
+        </Typography>
+      )}
+
+      <Paper elevation={0} sx={{ p: 1, border: '1px solid #e0e0e0', mb: 2, maxWidth: 480, mx: 'auto' }}>
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${VIEW_SIZE} ${VIEW_SIZE}`}
+          width="100%"
+          role="img"
+          aria-label={t('compass.label', { markers })}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => setDragging(null)}
+          style={{ display: 'block', touchAction: onMove ? 'none' : undefined, userSelect: 'none' }}
+        >
+          {/* Grid and axes */}
+          {TICKS.map((tick) => (
+            <g key={tick}>
+              <line
+                x1={toSvgX(tick)} y1={toSvgY(0)} x2={toSvgX(tick)} y2={toSvgY(100)}
+                stroke={tick === 50 ? '#bdbdbd' : '#eeeeee'}
+              />
+              <line
+                x1={toSvgX(0)} y1={toSvgY(tick)} x2={toSvgX(100)} y2={toSvgY(tick)}
+                stroke={tick === 50 ? '#bdbdbd' : '#eeeeee'}
+              />
+              <text x={toSvgX(tick)} y={toSvgY(0) + 14} fontSize={10} textAnchor="middle" fill="#757575">
+                {tick}
+              </text>
+              <text x={PAD_LEFT - 6} y={toSvgY(tick) + 3} fontSize={10} textAnchor="end" fill="#757575">
+                {tick}
+              </text>
+            </g>
+          ))}
+
+          <text x={toSvgX(50)} y={VIEW_SIZE - 6} fontSize={12} fontWeight="bold" textAnchor="middle" fill="#424242">
+            ← {t('compass.axis.balance')} →
+          </text>
+          <text
+            x={14}
+            y={toSvgY(50)}
+            fontSize={12}
+            fontWeight="bold"
+            textAnchor="middle"
+            fill="#424242"
+            transform={`rotate(-90 14 ${toSvgY(50)})`}
+          >
+            ← {t('compass.axis.horizon')} →
+          </text>
+
+          {/* Quadrant labels */}
+          {QUADRANTS.map(({ label, x, y, anchor }) => (
+            <text
+              key={label}
+              x={toSvgX(x) + (x === 0 ? 6 : -6)}
+              y={toSvgY(y) + (y === 100 ? 16 : -8)}
+              fontSize={12}
+              textAnchor={anchor}
+              fill="#9e9e9e"
+            >
+              {t(label)}
+            </text>
+          ))}
+
+          {/* The user's own balance and time horizon */}
+          {reference && (
+            <g>
+              <title>{t('compass.reference', { name: referenceName, logical: reference.x, longTerm: reference.y })}</title>
+              <rect
+                x={toSvgX(reference.x) - 7}
+                y={toSvgY(reference.y) - 7}
+                width={14}
+                height={14}
+                transform={`rotate(45 ${toSvgX(reference.x)} ${toSvgY(reference.y)})`}
+                fill="none"
+                stroke="#424242"
+                strokeWidth={2}
+              />
+              <text x={toSvgX(reference.x)} y={toSvgY(reference.y) - 12} fontSize={11} textAnchor="middle" fill="#424242">
+                {referenceName}
+              </text>
+            </g>
+          )}
+
+          {/* Options; a thin line leads to the true position when a marker was nudged aside */}
+          {options.map((option, index) => {
+            const actual = current[option];
+            const shown = displayed[option];
+            const nudged = Math.hypot(actual.x - shown.x, actual.y - shown.y) > 1;
+            const corrected = !!corrections[option];
+            return (
+              <g
+                key={option}
+                tabIndex={onMove ? 0 : undefined}
+                role={onMove ? 'button' : undefined}
+                aria-label={t('compass.marker', {
+                  markers,
+                  letter: optionLetter(index),
+                  option,
+                  logical: Math.round(actual.x),
+                  longTerm: Math.round(actual.y),
+                  placed: corrected ? 'yes' : 'no',
+                })}
+                onPointerDown={(event) => handlePointerDown(event, option)}
+                onKeyDown={(event) => handleKeyDown(event, option)}
+                style={{ cursor: onMove ? (dragging?.option === option ? 'grabbing' : 'grab') : 'default', outline: 'none' }}
+              >
+                <title>{option}</title>
+                {nudged && (
+                  <>
+                    <line
+                      x1={toSvgX(actual.x)} y1={toSvgY(actual.y)} x2={toSvgX(shown.x)} y2={toSvgY(shown.y)}
+                      stroke={optionColor(index)}
+                    />
+                    <circle cx={toSvgX(actual.x)} cy={toSvgY(actual.y)} r={3} fill={optionColor(index)} />
+                  </>
+                )}
+                <circle
+                  cx={toSvgX(shown.x)}
+                  cy={toSvgY(shown.y)}
+                  r={MARKER_RADIUS}
+                  fill={optionColor(index)}
+                  stroke={corrected ? '#212121' : '#fff'}
+                  strokeWidth={2}
+                  strokeDasharray={corrected ? '4 2' : undefined}
+                />
+                <text
+                  x={toSvgX(shown.x)}
+                  y={toSvgY(shown.y) + 4}
+                  fontSize={12}
+                  fontWeight="bold"
+                  textAnchor="middle"
+                  fill="#fff"
+                  pointerEvents="none"
+                >
+                  {optionLetter(index)}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </Paper>
+
+      <Box sx={{ mb: 2 }}>
+        {options.map((option, index) => (
+          <Box key={option} sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+            <Chip
+              label={optionLetter(index)}
+              size="small"
+              sx={{ mr: 1, bgcolor: optionColor(index), color: '#fff' }}
+            />
+            <Typography variant="body2">
+              <strong>{option}</strong> - {describePosition(positions[option], t)}
+              {corrections[option] && ` ${t('compass.placedByYou')}`}
+            </Typography>
+          </Box>
+        ))}
+        {reference && (
+          <Typography variant="body2" color="text.secondary">
+            ◇ {t('compass.referenceKey', {
+              name: referenceName,
+              description: referenceDescription || t('compass.yourApproach'),
+              logical: reference.x,
+              longTerm: reference.y,
+            })}
+          </Typography>
+        )}
+      </Box>
+
+      {onReset && hasCorrections && (
+        <Button size="small" onClick={onReset}>
+          {t('compass.reset')}
+        </Button>
+      )}
+    </Box>
+  );
+};
+
+export default DecisionCompass;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { fireEvent, render, screen, waitForElementToBeRemoved, within } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { JournalEntry } from '../../types/journal';
+import { createLocalAnalysisProvider } from '../../services/analysis/providers/localAnalysisProvider';
+import { createJournalStorage } from '../../services/journal/journalStorage';
+import { shareFragment } from '../../services/share/shareLink';
+import { createLocalStorageStore } from '../../services/storage/recordStore';
+import { DECIDE_PATH } from '../../services/wizard/decisionWizard';
+import DecisionDashboard from './DecisionDashboard';
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+it('keeps every submission as a revision of the one journal entry', async () => {
+  const journal = createJournalStorage(createLocalStorageStore<JournalEntry>('journal'));
+  const fragment = shareFragment({
+    decision: {
+      question: 'Should I move abroad?',
+      balanceScore: 50,
+      timeHorizon: 50,
+      options: ['Move', 'Stay'],
+      values: [],
+      initialIntuition: 'Move',
+    },
+    step: 'matrix',
+  });
+  render(
+    <MemoryRouter initialEntries={[`${DECIDE_PATH}/matrix${fragment}`]}>
+      <Routes>
+        <Route
+          path={`${DECIDE_PATH}/*`}
+          element={<DecisionDashboard analysisProvider={createLocalAnalysisProvider()} journal={journal} />}
+        />
+      </Routes>
+    </MemoryRouter>
+  );
+
+  const submitAndSave = async () => {
+    fireEvent.click(await screen.findByRole('button', { name: 'Skip Matrix' }));
+    fireEvent.click(await screen.findByRole('button', { name: 'Save as Journal Entry' }));
+    const dialog = await screen.findByRole('dialog');
+    fireEvent.click(within(dialog).getByRole('button', { name: 'Save to Journal' }));
+    await waitForElementToBeRemoved(dialog);
+    await screen.findByRole('button', { name: /Saved to Journal/ });
+  };
+
+  await submitAndSave();
+  fireEvent.click(screen.getByRole('button', { name: /^Back to/ }));
+  await submitAndSave();
+
+  const entries = await journal.listEntries();
+  expect(entries).toHaveLength(1);
+  expect(entries[0].revisions!.map(revision => revision.number)).toEqual([1, 2]);
+}, 30000); // The whole wizard renders at every step
@@ -1,4 +1,5 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Link as RouterLink, useLocation, useNavigate, useParams } from 'react-router-dom';
 import {
   Box,
   TextField,
@@ -9,11 +10,7 @@ import {
   Button,
   CircularProgress,
   Divider,
-  List,
-  ListItem,
-  ListItemText,
   Chip,
-  Stack,
   Alert,
   FormControl,
   InputLabel,
@@ -27,87 +24,92 @@ import {
   DialogContentText,
   DialogActions,
   LinearProgress,
+  FormControlLabel,
+  Checkbox,
 } from '@mui/material';
 import InfoIcon from '@mui/icons-material/Info';
-import { Decision } from '../../types/decision';
-
-interface Factor {
-  name: string;
-  score: number;
-  valueAlignment?: string; // Which value this factor aligns with
-}
-
-interface Sentiment {
-  positive: number;
-  negative: number;
-  neutral: number;
-  tone?: string; // Descriptive tone like "Mostly Neutral with Slight Positivity"
-}
+import AddIcon from '@mui/icons-material/Add';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import ShareIcon from '@mui/icons-material/Share';
+import { Analysis, Decision, DecisionMatrix, OptionPosition, Value, ValueTension, WizardStep } from '../../types/decision';
+import { SharedDecision } from '../../types/share';
+import { Draft, NewDraft } from '../../types/draft';
+import { Revision } from '../../types/revision';
+import { CheckIn } from '../../types/journal';
+import { AnalysisProvider, createAnalysisProvider } from '../../services/analysis/providers';
+import { journalStorage as defaultJournalStorage, JournalStorage } from '../../services/journal/journalStorage';
+import { cleanOptions, hasAnyOption, MAX_OPTIONS, moveItem, optionLetter } from '../../services/decision/options';
+import { DEFAULT_JOURNAL_TAG, JOURNAL_TAGS, tagLabel, withDefaultTag } from '../../services/journal/journalTags';
+import {
+  CHECK_IN_DELAYS,
+  checkInService as defaultCheckInService,
+  CheckInService,
+  DEFAULT_CHECK_IN_DELAY_DAYS,
+} from '../../services/checkIns/checkInService';
+import { cleanMatrix, seedCriteria } from '../../services/analysis/decisionMatrix';
+import {
+  defaultSelection,
+  hasValue,
+  MAX_DECISION_VALUES,
+  rankSelection,
+  valueChoices,
+  valueLabel,
+} from '../../services/values/valueProfile';
+import { valueProfileStorage as defaultValueProfileStorage, ValueProfileStorage } from '../../services/values/valueProfileStorage';
+import {
+  valueTensionStorage as defaultValueTensionStorage,
+  ValueTensionStorage,
+} from '../../services/values/valueTensionStorage';
+import { notificationsSupported, requestNotificationPermission } from '../../services/checkIns/notifications';
+import { readShareFragment } from '../../services/share/shareLink';
+import { defaultDraftName, draftStorage as defaultDraftStorage, DraftStorage } from '../../services/drafts/draftStorage';
+import { generateId } from '../../services/storage/generateId';
+import { decisionWizard, stepPath } from '../../services/wizard/decisionWizard';
+import { addRevision, chosenRevision, reviseLatest } from '../../services/revisions/revisions';
+import { errorMessage, MessageKey } from '../../services/i18n/i18n';
+import AnalysisView from '../AnalysisView/AnalysisView';
+import DecisionSummary from '../DecisionSummary/DecisionSummary';
+import DecisionMatrixEditor from '../DecisionMatrixEditor/DecisionMatrixEditor';
+import DraftsDialog from '../DraftsDialog/DraftsDialog';
+import ExportMenu from '../ExportMenu/ExportMenu';
+import RevisionHistory from '../RevisionHistory/RevisionHistory';
+import SafetyDialog from '../SafetyDialog/SafetyDialog';
+import ShareDialog from '../ShareDialog/ShareDialog';
+import { useSafetyScreening } from '../SafetyDialog/useSafetyScreening';
+import { useI18n } from '../I18nProvider/useI18n';
+
+// Examples for the first few option fields
+const OPTION_PLACEHOLDERS: MessageKey[] = [
+  'dashboard.optionPlaceholder.first',
+  'dashboard.optionPlaceholder.second',
+  'dashboard.optionPlaceholder.third',
+];
 
-interface BiasDetection {
-  biasType: string; // e.g., "Loss Aversion", "Confirmation Bias"
-  description: string;
-  suggestion: string;
-}
+// Autosave waits for a pause in typing rather than writing on every keystroke
+const AUTOSAVE_DELAY_MS = 500;
 
-interface OptionPosition {
-  x: number; // Emotional (0) to Logical (100)
-  y: number; // Short-term (0) to Long-term (100)
-}
+const defaultAnalysisProvider = createAnalysisProvider();
 
-interface Analysis {
-  recommendation: string;
-  factors: Factor[];
-  sentiment: Sentiment;
-  detectedBiases?: BiasDetection[];
-  valueConflicts?: string[];
-  optionPositions?: Record<string, OptionPosition>; // Map option names to positions
-  thirdOption?: string;
+interface DecisionDashboardProps {
+  analysisProvider?: AnalysisProvider;
+  journal?: JournalStorage;
+  checkIns?: CheckInService;
+  valueProfile?: ValueProfileStorage;
+  valueTensions?: ValueTensionStorage;
+  drafts?: DraftStorage;
 }
 
-// List of potentially harmful or concerning keywords
-const HARMFUL_KEYWORDS = [
-  'kill', 'suicide', 'murder', 'hurt', 'harm', 'die', 'death', 'violent', 'weapon',
-  'gun', 'bomb', 'attack', 'destroy', 'revenge', 'illegal', 'crime'
-];
-
-// List of common values people consider in decisions
-const COMMON_VALUES = [
-  'Family', 'Health', 'Financial Security', 'Career Growth', 'Happiness',
-  'Freedom', 'Stability', 'Adventure', 'Learning', 'Relationships', 'Community',
-  'Spirituality', 'Creativity', 'Achievement', 'Balance'
-];
-
-// Common cognitive biases in decision making
-const COGNITIVE_BIASES = [
-  {
-    biasType: 'Loss Aversion',
-    description: 'The tendency to prefer avoiding losses over acquiring equivalent gains.',
-    suggestion: 'Try to evaluate potential gains with the same weight as potential losses.'
-  },
-  {
-    biasType: 'Confirmation Bias',
-    description: 'The tendency to search for or interpret information in a way that confirms one\'s preconceptions.',
-    suggestion: 'Actively seek out information that challenges your initial assumptions.'
-  },
-  {
-    biasType: 'Recency Bias',
-    description: 'The tendency to weigh recent events more heavily than earlier events.',
-    suggestion: 'Consider the full history and pattern of outcomes, not just recent experiences.'
-  },
-  {
-    biasType: 'Status Quo Bias',
-    description: 'The preference for the current state of affairs, leading to resistance to change.',
-    suggestion: 'Evaluate the status quo option as critically as you would any new option.'
-  },
-  {
-    biasType: 'Emotional Reasoning',
-    description: 'Making decisions based on how you feel rather than objective evidence.',
-    suggestion: 'Acknowledge your emotions, but also look for concrete facts to support your decision.'
-  }
-];
-
-const DecisionDashboard = () => {
+const DecisionDashboard = ({
+  analysisProvider = defaultAnalysisProvider,
+  journal = defaultJournalStorage,
+  checkIns = defaultCheckInService,
+  valueProfile = defaultValueProfileStorage,
+  valueTensions = defaultValueTensionStorage,
+  drafts = defaultDraftStorage,
+}: DecisionDashboardProps) => {
+  const { t, locale, formatDate } = useI18n();
   const [decision, setDecision] = useState<Partial<Decision>>({
     question: '',
     balanceScore: 50, // 0 = fully emotional, 100 = fully logical
@@ -118,44 +120,206 @@ const DecisionDashboard = () => {
   const [options, setOptions] = useState<string[]>(['', '']);
   const [stakes, setStakes] = useState('');
   const [selectedValues, setSelectedValues] = useState<string[]>([]);
+  const [profile, setProfile] = useState<Value[]>([]);
+  const [customTensions, setCustomTensions] = useState<ValueTension[]>([]);
   const [initialIntuition, setInitialIntuition] = useState('');
   const [confidenceScore, setConfidenceScore] = useState<number>(70);
+  const [matrix, setMatrix] = useState<DecisionMatrix | null>(null);
+  const [matrixSkipped, setMatrixSkipped] = useState(false);
+  const [positionCorrections, setPositionCorrections] = useState<Record<string, OptionPosition>>({});
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [finalRevision, setFinalRevision] = useState<number | null>(null);
 
   // UI state
   const [loading, setLoading] = useState(false);
   const [submitted, setSubmitted] = useState(false);
   const [analysis, setAnalysis] = useState<Analysis | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [currentStep, setCurrentStep] = useState<'question' | 'intuition' | 'context' | 'analysis' | 'confidence'>('question');
-
-  // Safety features
-  const [showSafetyDialog, setShowSafetyDialog] = useState(false);
-  const [safetyMessage, setSafetyMessage] = useState('');
 
   // Additional features
-  const [showBiasInfo, setShowBiasInfo] = useState<string | null>(null); // Stores the bias type being viewed
-  const [showThirdOption, setShowThirdOption] = useState(false);
   const [showTimeCapsule, setShowTimeCapsule] = useState(false);
-  const [timeCapsuleScheduled, setTimeCapsuleScheduled] = useState(false);
-  const [journalSaved, setJournalSaved] = useState(false);
+  const [checkInDelayDays, setCheckInDelayDays] = useState(DEFAULT_CHECK_IN_DELAY_DAYS);
+  const [checkInRemind, setCheckInRemind] = useState(false);
+  const [scheduledCheckIn, setScheduledCheckIn] = useState<CheckIn | null>(null);
+  const [checkInSaving, setCheckInSaving] = useState(false);
+  const [checkInError, setCheckInError] = useState<string | null>(null);
+  const timeCapsuleScheduled = scheduledCheckIn !== null;
   const [showJournalDialog, setShowJournalDialog] = useState(false);
+  const [journalTags, setJournalTags] = useState<string[]>([DEFAULT_JOURNAL_TAG]);
+  const [journalNotes, setJournalNotes] = useState('');
+  const [journalSaving, setJournalSaving] = useState(false);
+  const [journalError, setJournalError] = useState<string | null>(null);
+  const [savedEntryId, setSavedEntryId] = useState<string | null>(null);
+  const journalSaved = savedEntryId !== null;
+  // A revision made after saving is only in the journal once the user saves again
+  const [journalOutdated, setJournalOutdated] = useState(false);
+  const journalCurrent = journalSaved && !journalOutdated;
+  const [showShareDialog, setShowShareDialog] = useState(false);
+  const restoredState = useRef(false);
+
+  // Drafts: the wizard autosaves under draftId until the decision is saved or discarded
+  const [draftId, setDraftId] = useState(generateId);
+  const [draftName, setDraftName] = useState('');
+  const [savedDrafts, setSavedDrafts] = useState<Draft[]>([]);
+  const [draftsDialog, setDraftsDialog] = useState<'resume' | 'browse' | null>(null);
+  const [showDiscardDialog, setShowDiscardDialog] = useState(false);
+  const otherDrafts = savedDrafts.filter(draft => draft.id !== draftId);
+
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  // The URL names the step; the wizard definition decides whether the user may be there yet
+  const requestedStep = useParams()['*'];
+  const wizardState = {
+    question: decision.question || '',
+    initialIntuition,
+    options,
+    analysed: analysis !== null,
+  };
+  const currentStep = decisionWizard.resolve(decisionWizard.isStep(requestedStep) ? requestedStep : undefined, wizardState);
+
+  const goToStep = (step: WizardStep) => navigate(stepPath(step));
+
+  // Safety features: every free-text field is screened once the user pauses typing
+  const safety = useSafetyScreening({
+    question: decision.question,
+    intuition: initialIntuition,
+    stakes,
+    notes: journalNotes,
+    ...Object.fromEntries(options.map((option, index) => [`option ${optionLetter(index)}`, option])),
+    ...Object.fromEntries((matrix?.criteria || []).map((criterion, index) => [`criterion ${index + 1}`, criterion.name])),
+  });
 
-  const handleQuestionChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const question = event.target.value;
+  // Puts the wizard back into a shared or drafted state and opens the step it was on
+  const restoreWizard = useCallback((
+    snapshot: SharedDecision & Pick<Draft, 'revisions' | 'finalRevision'>,
+    skipped: boolean,
+    replace: boolean
+  ) => {
+    const { decision: restored, analysis: restoredAnalysis, step } = snapshot;
+    const restoredOptions = restored.options || [];
+    restoredState.current = true;
+
+    setDecision({
+      question: restored.question,
+      balanceScore: restored.balanceScore,
+      timeHorizon: restored.timeHorizon ?? 50,
+    });
+    setOptions(restoredOptions.length >= 2 ? restoredOptions : [...restoredOptions, '', ''].slice(0, 2));
+    setStakes(restored.stakes || '');
+    setSelectedValues(restored.values || []);
+    setInitialIntuition(restored.initialIntuition || '');
+    setConfidenceScore(restored.confidenceScore ?? 70);
+    setMatrix(restored.matrix || null);
+    setMatrixSkipped(skipped);
+    setPositionCorrections(restored.positionCorrections || {});
+    setAnalysis(restoredAnalysis || null);
+    // A shared analysis has no history; it becomes the first revision
+    setRevisions(snapshot.revisions ||
+      (restoredAnalysis ? addRevision([], restored, restoredAnalysis, new Date().toISOString()) : []));
+    setFinalRevision(snapshot.finalRevision ?? null);
+    setSubmitted(!!restoredAnalysis);
+    setError(null);
+    setSavedEntryId(null);
+    setJournalOutdated(false);
+    setScheduledCheckIn(null);
+    setJournalTags([DEFAULT_JOURNAL_TAG]);
+    setJournalNotes('');
+
+    navigate(stepPath(step || (restoredAnalysis ? 'analysis' : 'question')), { replace });
+  }, [navigate]);
+
+  // A shared link restores the wizard once; the fragment is then dropped so a reload keeps the user's edits
+  useEffect(() => {
+    let shared: SharedDecision | undefined;
+    try {
+      shared = readShareFragment(location.hash);
+    } catch (err) {
+      setError(errorMessage(err, t, 'dashboard.error.sharedLink'));
+      console.error(err);
+      navigate(location.pathname, { replace: true });
+      return;
+    }
+    if (!shared) {
+      return;
+    }
+
+    restoreWizard(shared, !!shared.analysis && !shared.decision.matrix, true);
+  }, [location.hash, location.pathname, navigate, restoreWizard, t]);
 
-    // Check for harmful content
-    const lowerQuestion = question.toLowerCase();
-    const foundHarmfulWord = HARMFUL_KEYWORDS.find(word => lowerQuestion.includes(word));
-
-    if (foundHarmfulWord) {
-      setSafetyMessage(
-        "It seems like your question might be about a concerning topic. " +
-        "If you're feeling overwhelmed or having harmful thoughts, " +
-        "please consider reaching out to a mental health professional or a trusted person in your life. " +
-        "You can also call or text a crisis helpline for immediate support."
-      );
-      setShowSafetyDialog(true);
+  // Unknown steps, and steps the user is not ready for, are replaced in the history by the step to show
+  useEffect(() => {
+    if (!location.hash && requestedStep !== currentStep) {
+      navigate(stepPath(currentStep), { replace: true });
     }
+  }, [location.hash, requestedStep, currentStep, navigate]);
+
+  // The matrix starts from the chosen values and stakes; later edits are kept
+  useEffect(() => {
+    if (currentStep === 'matrix') {
+      setMatrix(prev => prev || { criteria: seedCriteria(rankSelection(selectedValues, profile), stakes, generateId, t), scores: {} });
+    }
+  }, [currentStep, selectedValues, profile, stakes, t]);
+
+  // Unfinished decisions are offered on arrival, unless a shared link already filled the wizard
+  useEffect(() => {
+    let cancelled = false;
+    drafts.listDrafts()
+      .then((loaded) => {
+        if (!cancelled) {
+          setSavedDrafts(loaded);
+          if (loaded.length > 0 && !restoredState.current) {
+            setDraftsDialog('resume');
+          }
+        }
+      })
+      .catch((err) => {
+        // Drafts are a convenience; the wizard works without them
+        console.error(err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [drafts]);
+
+  // The value profile pre-selects its top values unless the user already picked some
+  useEffect(() => {
+    let cancelled = false;
+    valueProfile.getProfile()
+      .then((loaded) => {
+        if (!cancelled) {
+          setProfile(loaded);
+          setSelectedValues(prev => (prev.length > 0 || restoredState.current ? prev : defaultSelection(loaded)));
+        }
+      })
+      .catch((err) => {
+        // Deciding still works without a profile, just without the pre-selection
+        console.error(err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [valueProfile]);
+
+  useEffect(() => {
+    let cancelled = false;
+    valueTensions.listTensions()
+      .then((loaded) => {
+        if (!cancelled) {
+          setCustomTensions(loaded);
+        }
+      })
+      .catch((err) => {
+        // The built-in tensions still apply
+        console.error(err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [valueTensions]);
+
+  const handleQuestionChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const question = event.target.value;
 
     setDecision((prev: Partial<Decision>) => ({
       ...prev,
@@ -166,7 +330,6 @@ const DecisionDashboard = () => {
     if (submitted) {
       setSubmitted(false);
       setAnalysis(null);
-      setCurrentStep('question');
     }
   };
 
@@ -207,6 +370,22 @@ const DecisionDashboard = () => {
     setOptions(newOptions);
   };
 
+  const handleAddOption = () => {
+    if (options.length < MAX_OPTIONS) {
+      setOptions([...options, '']);
+    }
+  };
+
+  const handleRemoveOption = (index: number) => {
+    if (options.length > 1) {
+      setOptions(options.filter((option, i) => i !== index));
+    }
+  };
+
+  const handleMoveOption = (from: number, to: number) => {
+    setOptions(moveItem(options, from, to));
+  };
+
   const handleStakesChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     setStakes(event.target.value);
   };
@@ -216,258 +395,285 @@ const DecisionDashboard = () => {
   };
 
   const handleContinue = () => {
-    if (currentStep === 'question') {
-      if (!decision.question) {
-        setError('Please enter a decision question');
-        return;
-      }
-      setError(null);
-      setCurrentStep('intuition');
-    } else if (currentStep === 'intuition') {
-      if (!initialIntuition) {
-        setError('Please share your initial intuition');
-        return;
-      }
-      setError(null);
-      setCurrentStep('context');
-    } else if (currentStep === 'context') {
-      if (options[0] === '' && options[1] === '') {
-        setError('Please enter at least one option you are considering');
-        return;
-      }
-      setError(null);
-      handleSubmit();
+    const problem = decisionWizard.validate(currentStep, wizardState);
+    if (problem) {
+      setError(t(problem));
+      return;
+    }
+    setError(null);
+
+    const next = decisionWizard.next(currentStep);
+    if (next === 'analysis') {
+      // The analysis step shows a result, so reaching it means running the analysis
+      handleSubmit(false);
+    } else if (next) {
+      goToStep(next);
     }
   };
 
   const handleBack = () => {
-    if (currentStep === 'intuition') {
-      setCurrentStep('question');
-    } else if (currentStep === 'context') {
-      setCurrentStep('intuition');
-    } else if (currentStep === 'analysis') {
-      setCurrentStep('context');
+    const previous = decisionWizard.previous(currentStep);
+    if (previous) {
+      setError(null);
+      goToStep(previous);
     }
   };
 
-  const handleSubmit = async () => {
+  const buildDecision = (skipMatrix = matrixSkipped, corrections = positionCorrections): Decision => {
+    const scoredMatrix = skipMatrix ? undefined : cleanMatrix(matrix || undefined);
+    const currentOptions = cleanOptions(options);
+    // Corrections for options that were renamed or removed no longer apply
+    const currentCorrections = Object.entries(corrections).filter(([option]) => currentOptions.includes(option));
+    return {
+      question: decision.question || '',
+      balanceScore: decision.balanceScore ?? 50,
+      timeHorizon: decision.timeHorizon ?? 50,
+      options: currentOptions,
+      stakes,
+      values: selectedValues,
+      rankedValues: rankSelection(selectedValues, profile),
+      ...(customTensions.length > 0 ? { valueTensions: customTensions } : {}),
+      initialIntuition,
+      ...(scoredMatrix ? { matrix: scoredMatrix } : {}),
+      ...(currentCorrections.length > 0 ? { positionCorrections: Object.fromEntries(currentCorrections) } : {}),
+    };
+  };
+
+  // Moving an option on the compass re-runs the analysis with the user's placement
+  const handleCompassChange = async (corrections: Record<string, OptionPosition>) => {
+    setPositionCorrections(corrections);
+    setError(null);
+    try {
+      const revised = buildDecision(matrixSkipped, corrections);
+      const result = await analysisProvider.analyze(revised, locale);
+      setAnalysis(result);
+      setRevisions(prev => reviseLatest(prev, revised, result));
+      setJournalOutdated(true);
+    } catch (err) {
+      setError(t('dashboard.error.compass'));
+      console.error(err);
+    }
+  };
+
+  const handleSubmit = async (skipMatrix: boolean) => {
     setError(null);
     setLoading(true);
+    setMatrixSkipped(skipMatrix);
 
     try {
-      // In a real app, this would be an API call to the backend
-      // For now, we'll simulate a response
-      await new Promise(resolve => setTimeout(resolve, 1500));
-
-      // Mock analysis result
-      const balanceScore = decision.balanceScore || 50;
-      const timeHorizon = decision.timeHorizon || 50;
-      const isMoreLogical = balanceScore > 50;
-      const isLongTerm = timeHorizon > 50;
-
-      // Generate more insightful recommendations based on context
-      let recommendation = '';
-      if (isMoreLogical) {
-        recommendation = `Your approach to "${decision.question}" is primarily logical (${balanceScore}% logical). `;
-
-        if (selectedValues.length > 0) {
-          const emotionalValue = selectedValues[Math.floor(Math.random() * selectedValues.length)];
-          recommendation += `While your logical analysis is sound, consider how this decision aligns with your value of ${emotionalValue.toLowerCase()}. `;
-        }
-
-        if (options[0] && options[1]) {
-          recommendation += `Between ${options[0]} and ${options[1]}, which option better serves your emotional well-being in the long run?`;
-        } else {
-          recommendation += 'Remember that even the most logical decisions should account for emotional impact.';
-        }
-      } else {
-        recommendation = `Your approach to "${decision.question}" is primarily emotional (${100 - balanceScore}% emotional). `;
+      const submittedDecision = buildDecision(skipMatrix);
+      const result = await analysisProvider.analyze(submittedDecision, locale);
 
-        if (stakes) {
-          recommendation += `Given what's at stake (${stakes}), it may be helpful to balance your emotional intuition with some logical analysis. `;
-        }
+      setAnalysis(result);
+      // Resubmitting keeps the earlier analyses as revisions of the same decision
+      setRevisions(prev => addRevision(prev, submittedDecision, result, new Date().toISOString()));
+      setJournalOutdated(true);
+      setSubmitted(true);
+      goToStep('analysis');
+    } catch (err) {
+      setError(t('dashboard.error.analysis'));
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
 
-        if (options[0] && options[1]) {
-          recommendation += `Try creating a pros and cons list for ${options[0]} vs ${options[1]} to ensure you're not overlooking important practical factors.`;
-        } else {
-          recommendation += 'Consider writing down the practical pros and cons to complement your emotional intuition.';
-        }
-      }
+  const removeDraft = async (id: string) => {
+    await drafts.deleteDraft(id);
+    setSavedDrafts(prev => prev.filter(draft => draft.id !== id));
+  };
 
-      // Add intuition comparison
-      recommendation += `\n\nYour initial intuition was: "${initialIntuition}". `;
+  // Everything needed to pick the wizard up again, with options and matrix exactly as typed
+  const currentDraft = (): NewDraft => ({
+    id: draftId,
+    name: draftName.trim() || defaultDraftName(decision.question || ''),
+    step: currentStep,
+    decision: { ...buildDecision(), confidenceScore, options, ...(matrix ? { matrix } : {}) },
+    ...(analysis ? { analysis } : {}),
+    matrixSkipped,
+    revisions,
+    ...(finalRevision !== null ? { finalRevision } : {}),
+  });
 
-      if (isLongTerm) {
-        recommendation += `You're focusing on long-term outcomes, which is often beneficial for major life decisions.`;
-      } else {
-        recommendation += `You're focusing more on short-term outcomes. Consider if this aligns with the importance of this decision.`;
-      }
+  // Nothing worth keeping until the user has typed something; a saved decision is no longer a draft
+  const hasDraftContent = !!(decision.question || initialIntuition || stakes || hasAnyOption(options));
+  const draftJson = hasDraftContent && !journalSaved && draftsDialog !== 'resume' ? JSON.stringify(currentDraft()) : null;
 
-      // Generate factors based on selected values and context
-      const factors: Factor[] = [];
-
-      // Add value-based factors
-      if (selectedValues.length > 0) {
-        selectedValues.forEach(value => {
-          factors.push({
-            name: `${value} alignment`,
-            score: Math.floor(Math.random() * 40) + 60, // Higher scores for personal values
-            valueAlignment: value
-          });
+  useEffect(() => {
+    if (!draftJson) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      drafts.saveDraft(JSON.parse(draftJson))
+        .then(saved => setSavedDrafts(prev => [saved, ...prev.filter(draft => draft.id !== saved.id)]))
+        .catch((err) => {
+          // The wizard keeps working; the next edit tries again
+          console.error(err);
         });
-      }
-
-      // Add standard factors
-      const financialImpact = Math.floor(Math.random() * 100);
-      const emotionalWellbeing = Math.floor(Math.random() * 100);
-      const longTermConsequences = Math.floor(Math.random() * 100);
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draftJson, drafts]);
 
-      factors.push({ name: 'Financial impact', score: financialImpact });
-      factors.push({ name: 'Emotional well-being', score: emotionalWellbeing });
-      factors.push({ name: 'Long-term consequences', score: longTermConsequences });
-
-      // Add stakes-based factor if provided
-      if (stakes) {
-        factors.push({ name: `Impact on ${stakes}`, score: Math.floor(Math.random() * 100) });
-      }
-
-      // Detect potential biases
-      const detectedBiases: BiasDetection[] = [];
+  const resetWizard = () => {
+    setSubmitted(false);
+    setAnalysis(null);
+    setError(null);
+    goToStep('question');
+    setDecision({
+      question: '',
+      balanceScore: 50,
+      timeHorizon: 50,
+    });
+    setOptions(['', '']);
+    setStakes('');
+    setSelectedValues(defaultSelection(profile));
+    setInitialIntuition('');
+    setConfidenceScore(70);
+    setMatrix(null);
+    setMatrixSkipped(false);
+    setPositionCorrections({});
+    setRevisions([]);
+    setFinalRevision(null);
+
+    // Reset feature flags
+    setScheduledCheckIn(null);
+    setSavedEntryId(null);
+    setJournalOutdated(false);
+    setJournalTags([DEFAULT_JOURNAL_TAG]);
+    setJournalNotes('');
+
+    // The next decision is a new draft
+    setDraftId(generateId());
+    setDraftName('');
+  };
 
-      // Loss aversion detection
-      if (financialImpact > 70 && balanceScore < 40) {
-        detectedBiases.push(COGNITIVE_BIASES[0]); // Loss Aversion
-      }
+  const handleResumeDraft = async (draft: Draft) => {
+    // Switching drafts keeps the edits made in the last moments before the switch
+    if (draftJson) {
+      await drafts.saveDraft(JSON.parse(draftJson)).catch(err => console.error(err));
+    }
+    restoreWizard(draft, !!draft.matrixSkipped, false);
+    setDraftId(draft.id);
+    setDraftName(draft.name === defaultDraftName(draft.decision.question) ? '' : draft.name);
+    setDraftsDialog(null);
+  };
 
-      // Emotional reasoning detection
-      if (balanceScore < 30 && emotionalWellbeing > 80) {
-        detectedBiases.push(COGNITIVE_BIASES[4]); // Emotional Reasoning
+  const handleDeleteDraft = async (draft: Draft) => {
+    try {
+      await removeDraft(draft.id);
+      if (otherDrafts.length <= 1) {
+        setDraftsDialog(null);
       }
+    } catch (err) {
+      setError(t('dashboard.error.deleteDraft'));
+      console.error(err);
+    }
+  };
 
-      // Status quo bias detection
-      if (options[0]?.toLowerCase().includes('stay') || options[0]?.toLowerCase().includes('current')) {
-        detectedBiases.push(COGNITIVE_BIASES[3]); // Status Quo Bias
-      }
+  const handleDiscardDraft = async () => {
+    setShowDiscardDialog(false);
+    try {
+      await removeDraft(draftId);
+      resetWizard();
+    } catch (err) {
+      setError(t('dashboard.error.discardDraft'));
+      console.error(err);
+    }
+  };
 
-      // Generate sentiment tone
-      let sentimentTone = '';
-      const positive = Math.random() * 0.7 + 0.3;
-      const negative = Math.random() * 0.3;
-      const neutral = Math.random() * 0.2;
-
-      if (positive > 0.6) {
-        sentimentTone = '🌱 Growth-Oriented Language';
-      } else if (negative > 0.2) {
-        sentimentTone = '🔥 High Tension Detected';
-      } else {
-        sentimentTone = '🌤️ Mostly Neutral with Slight Positivity';
-      }
+  const handleJournalTagsChange = (event: React.ChangeEvent<{ value: unknown }>) => {
+    setJournalTags(withDefaultTag(event.target.value as string[]));
+  };
 
-      // Generate option positions for the decision compass
-      const optionPositions: Record<string, OptionPosition> = {};
-
-      // Helper function to ensure positions are well-distributed in the graph
-      const generatePosition = (baseX: number, baseY: number, isSecondOption = false): OptionPosition => {
-        // For the first option, stay closer to the user's input values
-        // For the second option, ensure it's in a different quadrant for better visualization
-        const xVariance = isSecondOption ? 40 : 20;
-        const yVariance = isSecondOption ? 40 : 20;
-
-        let x, y;
-
-        if (isSecondOption) {
-          // For second option, try to place it in a different quadrant
-          const firstQuadrantX = baseX > 50;
-          const firstQuadrantY = baseY > 50;
-
-          // Generate position likely to be in a different quadrant
-          x = firstQuadrantX ?
-            Math.max(10, Math.min(45, 30 + (Math.random() * 15))) :
-            Math.max(55, Math.min(90, 70 + (Math.random() * 15)));
-
-          y = firstQuadrantY ?
-            Math.max(10, Math.min(45, 30 + (Math.random() * 15))) :
-            Math.max(55, Math.min(90, 70 + (Math.random() * 15)));
-        } else {
-          // For first option, stay closer to the user's input values
-          x = Math.max(15, Math.min(85, baseX + (Math.random() * xVariance - xVariance/2)));
-          y = Math.max(15, Math.min(85, baseY + (Math.random() * yVariance - yVariance/2)));
-        }
+  // The journal and exports use the revision marked final, or the latest one
+  const chosen = chosenRevision(revisions, finalRevision);
+  const chosenDecision = (): Decision => ({ ...(chosen?.decision || buildDecision()), confidenceScore });
 
-        return { x, y };
-      };
+  const handleMarkFinal = async (number: number | null) => {
+    setFinalRevision(number);
+    if (!savedEntryId) {
+      return;
+    }
+    // An entry already in the journal follows the user's choice
+    const marked = chosenRevision(revisions, number);
+    try {
+      await journal.updateEntry(savedEntryId, {
+        ...(marked ? { decision: { ...marked.decision, id: savedEntryId, confidenceScore }, analysis: marked.analysis } : {}),
+        finalRevision: number ?? undefined,
+      });
+    } catch (err) {
+      setError(t('dashboard.error.finalRevision'));
+      console.error(err);
+    }
+  };
 
-      if (options[0]) {
-        optionPositions[options[0]] = generatePosition(balanceScore, timeHorizon);
-      }
+  // Saving again, after a revision or not, updates the entry instead of duplicating it
+  const saveJournalEntry = async (currentAnalysis: Analysis): Promise<string> => {
+    const saved = {
+      decision: chosenDecision(),
+      analysis: chosen?.analysis || currentAnalysis,
+      tags: journalTags,
+      notes: journalNotes,
+      revisions,
+    };
+    if (savedEntryId) {
+      await journal.updateEntry(savedEntryId, {
+        ...saved,
+        decision: { ...saved.decision, id: savedEntryId },
+        finalRevision: finalRevision ?? undefined,
+      });
+      setJournalOutdated(false);
+      return savedEntryId;
+    }
+    const entry = await journal.saveEntry({ ...saved, ...(finalRevision !== null ? { finalRevision } : {}) });
+    setSavedEntryId(entry.id);
+    setJournalOutdated(false);
+    // The decision lives in the journal now; a leftover draft would only offer it again
+    removeDraft(draftId).catch(err => console.error(err));
+    return entry.id;
+  };
 
-      if (options[1]) {
-        const firstX = options[0] ? optionPositions[options[0]].x : 50;
-        const firstY = options[0] ? optionPositions[options[0]].y : 50;
+  const handleSaveToJournal = async () => {
+    if (!analysis) {
+      return;
+    }
 
-        optionPositions[options[1]] = generatePosition(firstX, firstY, true);
-      }
+    setJournalSaving(true);
+    setJournalError(null);
 
-      // Generate value conflicts
-      const valueConflicts: string[] = [];
+    try {
+      await saveJournalEntry(analysis);
+      setShowJournalDialog(false);
+    } catch (err) {
+      setJournalError(t('dashboard.error.saveJournal'));
+      console.error(err);
+    } finally {
+      setJournalSaving(false);
+    }
+  };
 
-      if (selectedValues.length >= 2) {
-        // Randomly determine if there's a conflict
-        if (Math.random() > 0.5) {
-          const value1 = selectedValues[0];
-          const value2 = selectedValues[1];
-          valueConflicts.push(`Your values of ${value1} and ${value2} may be in tension for this decision.`);
-        }
-      }
+  const handleScheduleCheckIn = async () => {
+    if (!analysis) {
+      return;
+    }
 
-      // Generate third option suggestion
-      let thirdOption: string | undefined = undefined;
-      if (options[0] && options[1] && Math.random() > 0.7) {
-        thirdOption = `Have you considered a hybrid approach? Perhaps you could ${options[0].toLowerCase()} for a trial period before fully committing to ${options[1].toLowerCase()}.`;
-      }
+    setCheckInSaving(true);
+    setCheckInError(null);
 
-      const mockAnalysis: Analysis = {
-        recommendation,
-        factors,
-        sentiment: {
-          positive,
-          negative,
-          neutral,
-          tone: sentimentTone
-        },
-        detectedBiases,
-        valueConflicts,
-        optionPositions,
-        thirdOption
-      };
-
-      setAnalysis(mockAnalysis);
-      setSubmitted(true);
-      setCurrentStep('analysis');
+    try {
+      // A check-in lives on the journal entry, so scheduling one saves the decision first
+      const entryId = journalCurrent && savedEntryId ? savedEntryId : await saveJournalEntry(analysis);
+      const remind = checkInRemind && await requestNotificationPermission();
+      setScheduledCheckIn(await checkIns.scheduleCheckIn(entryId, { delayDays: checkInDelayDays, remind }));
+      setShowTimeCapsule(false);
     } catch (err) {
-      setError('An error occurred while analyzing your decision. Please try again.');
+      setCheckInError(t('dashboard.error.scheduleCheckIn'));
       console.error(err);
     } finally {
-      setLoading(false);
+      setCheckInSaving(false);
     }
   };
 
-  // Helper function to determine progress percentage based on current step
-  const getProgressPercentage = () => {
-    switch (currentStep) {
-      case 'question':
-        return 25;
-      case 'intuition':
-        return 50;
-      case 'context':
-        return 75;
-      case 'analysis':
-      case 'confidence':
-        return 100;
-      default:
-        return 0;
-    }
-  };
 
   return (
     <Container maxWidth="md">
@@ -476,50 +682,89 @@ const DecisionDashboard = () => {
         {!submitted && (
           <Box sx={{ width: '100%', mb: 3 }}>
             <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
-              <Typography variant="body2" color={currentStep === 'question' ? 'primary' : 'text.secondary'}>
-                Question
-              </Typography>
-              <Typography variant="body2" color={currentStep === 'intuition' ? 'primary' : 'text.secondary'}>
-                Intuition
-              </Typography>
-              <Typography variant="body2" color={currentStep === 'context' ? 'primary' : 'text.secondary'}>
-                Context
-              </Typography>
-              <Typography variant="body2" color={currentStep === 'analysis' ? 'primary' : 'text.secondary'}>
-                Analysis
-              </Typography>
+              {decisionWizard.steps.map(({ id, label }) => (
+                <Typography key={id} variant="body2" color={currentStep === id ? 'primary' : 'text.secondary'}>
+                  {t(label)}
+                </Typography>
+              ))}
             </Box>
             <LinearProgress
               variant="determinate"
-              value={getProgressPercentage()}
+              value={decisionWizard.progress(currentStep)}
               sx={{ height: 8, borderRadius: 4 }}
             />
           </Box>
         )}
 
-        <Typography variant="h4" gutterBottom>
-          What are you deciding?
-        </Typography>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
+          <Typography variant="h4" gutterBottom>
+            {t('dashboard.title')}
+          </Typography>
+          <Tooltip title={t('dashboard.share')}>
+            <span>
+              <IconButton
+                aria-label={t('dashboard.share')}
+                onClick={() => setShowShareDialog(true)}
+                disabled={!decision.question}
+              >
+                <ShareIcon />
+              </IconButton>
+            </span>
+          </Tooltip>
+        </Box>
+
+        {/* Draft bar */}
+        <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1, mb: 3 }}>
+          {!journalSaved && (
+            <>
+              <TextField
+                size="small"
+                label={t('dashboard.draftName')}
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                placeholder={decision.question ? defaultDraftName(decision.question) : t('dashboard.untitledDraft')}
+                slotProps={{ inputLabel: { shrink: true } }}
+                sx={{ flex: 1, minWidth: 200 }}
+              />
+              <Typography variant="caption" color="text.secondary">
+                {t(savedDrafts.some(draft => draft.id === draftId) ? 'dashboard.savedAsYouGo' : 'dashboard.savedOnceTyping')}
+              </Typography>
+              <Button
+                size="small"
+                color="error"
+                onClick={() => setShowDiscardDialog(true)}
+                disabled={!hasDraftContent || loading}
+              >
+                {t('dashboard.discardDraft')}
+              </Button>
+            </>
+          )}
+          {otherDrafts.length > 0 && (
+            <Button size="small" onClick={() => setDraftsDialog('browse')} disabled={loading}>
+              {t('dashboard.otherDrafts', { count: otherDrafts.length })}
+            </Button>
+          )}
+        </Box>
 
         {currentStep === 'question' && (
           <>
             <TextField
               fullWidth
-              label="Your Decision Question"
+              label={t('dashboard.question')}
               variant="outlined"
               value={decision.question}
               onChange={handleQuestionChange}
               sx={{ mb: 4 }}
               disabled={loading}
-              placeholder="e.g., Should I accept the new job offer?"
+              placeholder={t('dashboard.questionPlaceholder')}
             />
 
             <Box sx={{ mb: 4 }}>
               <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
                 <Typography gutterBottom sx={{ mr: 1 }}>
-                  How are you approaching this decision?
+                  {t('dashboard.approach')}
                 </Typography>
-                <Tooltip title="0 = Fully emotional (gut feeling, intuition, emotions), 100 = Fully logical (facts, analysis, pros/cons)">
+                <Tooltip title={t('dashboard.approachHelp')}>
                   <IconButton size="small">
                     <InfoIcon fontSize="small" />
                   </IconButton>
@@ -527,8 +772,8 @@ const DecisionDashboard = () => {
               </Box>
 
               <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
-                <Typography variant="body2">Emotional</Typography>
-                <Typography variant="body2">Logical</Typography>
+                <Typography variant="body2">{t('dashboard.emotional')}</Typography>
+                <Typography variant="body2">{t('dashboard.logical')}</Typography>
               </Box>
 
               <Slider
@@ -546,9 +791,9 @@ const DecisionDashboard = () => {
 
               <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
                 <Typography gutterBottom sx={{ mr: 1 }}>
-                  What's your time horizon for this decision?
+                  {t('dashboard.timeHorizon')}
                 </Typography>
-                <Tooltip title="0 = Short-term focus (immediate outcomes), 100 = Long-term focus (future impact)">
+                <Tooltip title={t('dashboard.timeHorizonHelp')}>
                   <IconButton size="small">
                     <InfoIcon fontSize="small" />
                   </IconButton>
@@ -556,8 +801,8 @@ const DecisionDashboard = () => {
               </Box>
 
               <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
-                <Typography variant="body2">Short-term</Typography>
-                <Typography variant="body2">Long-term</Typography>
+                <Typography variant="body2">{t('dashboard.shortTerm')}</Typography>
+                <Typography variant="body2">{t('dashboard.longTerm')}</Typography>
               </Box>
 
               <Slider
@@ -586,7 +831,7 @@ const DecisionDashboard = () => {
                 onClick={handleContinue}
                 disabled={loading}
               >
-                {loading ? <CircularProgress size={24} color="inherit" /> : 'Continue'}
+                {loading ? <CircularProgress size={24} color="inherit" /> : t('dashboard.continue')}
               </Button>
             </Box>
           </>
@@ -595,22 +840,22 @@ const DecisionDashboard = () => {
         {currentStep === 'intuition' && (
           <Box sx={{ mb: 4 }}>
             <Typography variant="h6" gutterBottom>
-              What's your gut telling you right now?
+              {t('dashboard.intuitionTitle')}
             </Typography>
 
             <Typography variant="body2" sx={{ mb: 3 }}>
-              Capture your raw first instinct about this decision. Later, you can compare this with your final choice.
+              {t('dashboard.intuitionHelp')}
             </Typography>
 
             <TextField
               fullWidth
-              label="Your Initial Intuition"
+              label={t('dashboard.intuition')}
               variant="outlined"
               value={initialIntuition}
               onChange={handleInitialIntuitionChange}
               sx={{ mb: 4 }}
               disabled={loading}
-              placeholder="e.g., I feel like I should take the job, but I'm nervous about the change"
+              placeholder={t('dashboard.intuitionPlaceholder')}
               multiline
               rows={3}
             />
@@ -627,7 +872,7 @@ const DecisionDashboard = () => {
                 onClick={handleBack}
                 disabled={loading}
               >
-                Back
+                {t('common.back')}
               </Button>
 
               <Button
@@ -636,7 +881,7 @@ const DecisionDashboard = () => {
                 onClick={handleContinue}
                 disabled={loading}
               >
-                {loading ? <CircularProgress size={24} color="inherit" /> : 'Continue'}
+                {loading ? <CircularProgress size={24} color="inherit" /> : t('dashboard.continue')}
               </Button>
             </Box>
           </Box>
@@ -645,71 +890,113 @@ const DecisionDashboard = () => {
         {currentStep === 'context' && (
           <Box sx={{ mb: 4 }}>
             <Typography variant="h6" gutterBottom>
-              Let's add some context to your decision
+              {t('dashboard.contextTitle')}
             </Typography>
 
             <Typography variant="body2" sx={{ mb: 3 }}>
-              Adding more details will help us provide a more insightful analysis
+              {t('dashboard.contextHelp')}
             </Typography>
 
-            <Typography gutterBottom>What options are you considering?</Typography>
-            <TextField
-              fullWidth
-              label="Option A"
-              variant="outlined"
-              value={options[0]}
-              onChange={(e) => handleOptionChange(0, e.target.value)}
-              sx={{ mb: 2 }}
-              disabled={loading}
-              placeholder="e.g., Accept the job offer"
-            />
+            <Typography gutterBottom>{t('dashboard.options')}</Typography>
+            {options.map((option, index) => (
+              <Box key={index} sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+                <TextField
+                  fullWidth
+                  label={t('dashboard.option', { letter: optionLetter(index) })}
+                  variant="outlined"
+                  value={option}
+                  onChange={(e) => handleOptionChange(index, e.target.value)}
+                  disabled={loading}
+                  placeholder={t(OPTION_PLACEHOLDERS[index] || 'dashboard.optionPlaceholder.other')}
+                />
+                <Tooltip title={t('dashboard.moveUp')}>
+                  <span>
+                    <IconButton
+                      aria-label={t('dashboard.moveOptionUp', { letter: optionLetter(index) })}
+                      onClick={() => handleMoveOption(index, index - 1)}
+                      disabled={loading || index === 0}
+                    >
+                      <ArrowUpwardIcon fontSize="small" />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+                <Tooltip title={t('dashboard.moveDown')}>
+                  <span>
+                    <IconButton
+                      aria-label={t('dashboard.moveOptionDown', { letter: optionLetter(index) })}
+                      onClick={() => handleMoveOption(index, index + 1)}
+                      disabled={loading || index === options.length - 1}
+                    >
+                      <ArrowDownwardIcon fontSize="small" />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+                <Tooltip title={t('common.remove')}>
+                  <span>
+                    <IconButton
+                      aria-label={t('dashboard.removeOption', { letter: optionLetter(index) })}
+                      onClick={() => handleRemoveOption(index)}
+                      disabled={loading || options.length === 1}
+                    >
+                      <DeleteOutlineIcon fontSize="small" />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+              </Box>
+            ))}
 
-            <TextField
-              fullWidth
-              label="Option B"
-              variant="outlined"
-              value={options[1]}
-              onChange={(e) => handleOptionChange(1, e.target.value)}
+            <Button
+              startIcon={<AddIcon />}
+              onClick={handleAddOption}
+              disabled={loading || options.length >= MAX_OPTIONS}
               sx={{ mb: 3 }}
-              disabled={loading}
-              placeholder="e.g., Stay at current job"
-            />
+            >
+              {t('dashboard.addOption')}
+            </Button>
 
-            <Typography gutterBottom>What's at stake in this decision?</Typography>
+            <Typography gutterBottom>{t('dashboard.stakes')}</Typography>
             <TextField
               fullWidth
-              label="What matters most in this decision"
+              label={t('dashboard.stakesLabel')}
               variant="outlined"
               value={stakes}
               onChange={handleStakesChange}
               sx={{ mb: 3 }}
               disabled={loading}
-              placeholder="e.g., My career growth and financial stability"
+              placeholder={t('dashboard.stakesPlaceholder')}
             />
 
-            <Typography gutterBottom>Which of your personal values are relevant to this decision?</Typography>
-            <FormControl fullWidth sx={{ mb: 4 }}>
-              <InputLabel>Select up to 3 values</InputLabel>
+            <Typography gutterBottom>{t('dashboard.values')}</Typography>
+            <FormControl fullWidth sx={{ mb: 1 }}>
+              <InputLabel>{t('dashboard.selectValues', { max: MAX_DECISION_VALUES })}</InputLabel>
               <Select
                 multiple
                 value={selectedValues}
                 onChange={handleValueChange as any}
                 renderValue={(selected) => (
                   <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
-                    {(selected as string[]).map((value) => (
-                      <Chip key={value} label={value} />
+                    {rankSelection(selected as string[], profile).map((value) => (
+                      <Chip
+                        key={value.name}
+                        label={hasValue(profile, value.name)
+                          ? t('dashboard.rankedValue', { priority: value.priority, value: valueLabel(value.name, t) })
+                          : valueLabel(value.name, t)}
+                      />
                     ))}
                   </Box>
                 )}
                 disabled={loading}
               >
-                {COMMON_VALUES.map((value) => (
-                  <MenuItem key={value} value={value} disabled={selectedValues.length >= 3 && !selectedValues.includes(value)}>
-                    {value}
+                {valueChoices(profile).map((value) => (
+                  <MenuItem key={value} value={value} disabled={selectedValues.length >= MAX_DECISION_VALUES && !selectedValues.includes(value)}>
+                    {valueLabel(value, t)}
                   </MenuItem>
                 ))}
               </Select>
             </FormControl>
+            <Button component={RouterLink} to="/values" size="small" sx={{ mb: 3 }}>
+              {t(profile.length > 0 ? 'dashboard.editValues' : 'dashboard.rankValues')}
+            </Button>
 
             {error && (
               <Alert severity="error" sx={{ mb: 2 }}>
@@ -723,7 +1010,7 @@ const DecisionDashboard = () => {
                 onClick={handleBack}
                 disabled={loading}
               >
-                Back
+                {t('common.back')}
               </Button>
 
               <Button
@@ -732,365 +1019,101 @@ const DecisionDashboard = () => {
                 onClick={handleContinue}
                 disabled={loading}
               >
-                {loading ? <CircularProgress size={24} color="inherit" /> : 'Analyze Decision'}
+                {t('dashboard.continue')}
               </Button>
             </Box>
           </Box>
         )}
 
-        {currentStep === 'analysis' && analysis && (
-          <Box sx={{ mt: 4 }}>
-            <Divider sx={{ mb: 3 }} />
-            <Typography variant="h5" gutterBottom>
-              Decision Analysis
+        {currentStep === 'matrix' && matrix && (
+          <Box sx={{ mb: 4 }}>
+            <Typography variant="h6" gutterBottom>
+              {t('dashboard.matrixTitle')}
             </Typography>
 
-            <Typography variant="body1" sx={{ mb: 3, whiteSpace: 'pre-line' }}>
-              {analysis.recommendation}
+            <Typography variant="body2" sx={{ mb: 3 }}>
+              {t('dashboard.matrixHelp')}
             </Typography>
 
-            {/* Decision Compass */}
-            {analysis.optionPositions && Object.keys(analysis.optionPositions).length > 0 && (
-              <Box sx={{ mb: 4 }}>
-                <Typography variant="h6" gutterBottom>
-                  Decision Compass
-                </Typography>
-
-                <Paper
-                  elevation={0}
-                  sx={{
-                    p: 3,
-                    border: '1px solid #e0e0e0',
-                    height: 320,
-                    position: 'relative',
-                    mb: 3,
-                    overflow: 'hidden'
-                  }}
-                >
-                  {/* Quadrant labels */}
-                  <Typography
-                    variant="caption"
-                    sx={{ position: 'absolute', left: 10, top: 10, color: 'text.secondary' }}
-                  >
-                    Emotional & Long-term
-                  </Typography>
-
-                  <Typography
-                    variant="caption"
-                    sx={{ position: 'absolute', right: 10, top: 10, color: 'text.secondary' }}
-                  >
-                    Logical & Long-term
-                  </Typography>
-
-                  <Typography
-                    variant="caption"
-                    sx={{ position: 'absolute', left: 10, bottom: 10, color: 'text.secondary' }}
-                  >
-                    Emotional & Short-term
-                  </Typography>
-
-                  <Typography
-                    variant="caption"
-                    sx={{ position: 'absolute', right: 10, bottom: 10, color: 'text.secondary' }}
-                  >
-                    Logical & Short-term
-                  </Typography>
-
-                  {/* X-axis labels */}
-                  <Typography
-                    variant="body2"
-                    sx={{ position: 'absolute', left: '25%', bottom: 10, transform: 'translateX(-50%)', fontWeight: 'bold' }}
-                  >
-                    Emotional
-                  </Typography>
-
-                  <Typography
-                    variant="body2"
-                    sx={{ position: 'absolute', left: '75%', bottom: 10, transform: 'translateX(-50%)', fontWeight: 'bold' }}
-                  >
-                    Logical
-                  </Typography>
-
-                  {/* Y-axis labels */}
-                  <Typography
-                    variant="body2"
-                    sx={{ position: 'absolute', top: '75%', left: 10, transform: 'translateY(-50%) rotate(-90deg)', fontWeight: 'bold' }}
-                  >
-                    Short-term
-                  </Typography>
-
-                  <Typography
-                    variant="body2"
-                    sx={{ position: 'absolute', top: '25%', left: 10, transform: 'translateY(-50%) rotate(-90deg)', fontWeight: 'bold' }}
-                  >
-                    Long-term
-                  </Typography>
-
-                  {/* Axes */}
-                  <Box sx={{
-                    position: 'absolute',
-                    left: '50%',
-                    top: 0,
-                    bottom: 0,
-                    width: 1,
-                    bgcolor: '#e0e0e0',
-                    zIndex: 1
-                  }} />
-
-                  <Box sx={{
-                    position: 'absolute',
-                    top: '50%',
-                    left: 0,
-                    right: 0,
-                    height: 1,
-                    bgcolor: '#e0e0e0',
-                    zIndex: 1
-                  }} />
-
-                  {/* Grid lines */}
-                  <Box sx={{
-                    position: 'absolute',
-                    left: '25%',
-                    top: 0,
-                    bottom: 0,
-                    width: 1,
-                    bgcolor: '#f5f5f5',
-                    zIndex: 0
-                  }} />
-
-                  <Box sx={{
-                    position: 'absolute',
-                    left: '75%',
-                    top: 0,
-                    bottom: 0,
-                    width: 1,
-                    bgcolor: '#f5f5f5',
-                    zIndex: 0
-                  }} />
-
-                  <Box sx={{
-                    position: 'absolute',
-                    top: '25%',
-                    left: 0,
-                    right: 0,
-                    height: 1,
-                    bgcolor: '#f5f5f5',
-                    zIndex: 0
-                  }} />
-
-                  <Box sx={{
-                    position: 'absolute',
-                    top: '75%',
-                    left: 0,
-                    right: 0,
-                    height: 1,
-                    bgcolor: '#f5f5f5',
-                    zIndex: 0
-                  }} />
-
-                  {/* Plot points */}
-                  {Object.entries(analysis.optionPositions).map(([option, position], index) => (
-                    <Tooltip key={index} title={option}>
-                      <Chip
-                        label={`${index + 1}`}
-                        color={index === 0 ? 'primary' : 'secondary'}
-                        sx={{
-                          position: 'absolute',
-                          left: `${position.x}%`,
-                          top: `${100 - position.y}%`, // Invert Y-axis for correct positioning
-                          transform: 'translate(-50%, -50%)',
-                          zIndex: 2,
-                          fontWeight: 'bold'
-                        }}
-                      />
-                    </Tooltip>
-                  ))}
-                </Paper>
+            <DecisionMatrixEditor
+              options={cleanOptions(options)}
+              matrix={matrix}
+              onChange={setMatrix}
+              disabled={loading}
+            />
 
-                <Box sx={{ mb: 2 }}>
-                  {Object.entries(analysis.optionPositions).map(([option, position], index) => (
-                    <Box key={index} sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
-                      <Chip
-                        label={`${index + 1}`}
-                        color={index === 0 ? 'primary' : 'secondary'}
-                        size="small"
-                        sx={{ mr: 1 }}
-                      />
-                      <Typography variant="body2">
-                        <strong>{option}</strong> -
-                        {position.x < 50 ? ' More emotional' : ' More logical'},
-                        {position.y < 50 ? ' short-term focused' : ' long-term focused'}
-                      </Typography>
-                    </Box>
-                  ))}
-                </Box>
-              </Box>
+            {error && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {error}
+              </Alert>
             )}
 
-            {/* Key Factors */}
-            <Typography variant="h6" gutterBottom>
-              Key Factors
-            </Typography>
-
-            <List>
-              {analysis.factors.map((factor: Factor, index: number) => (
-                <ListItem key={index}>
-                  <ListItemText
-                    primary={factor.name}
-                    secondary={
-                      <>
-                        <Box sx={{ display: 'flex', alignItems: 'center' }}>
-                          <Box sx={{ width: '60%', mr: 1 }}>
-                            <Slider
-                              value={factor.score}
-                              disabled
-                              sx={{
-                                '& .MuiSlider-thumb': {
-                                  display: 'none',
-                                },
-                              }}
-                            />
-                          </Box>
-                          <Typography variant="body2">{factor.score}/100</Typography>
-                        </Box>
-                        {factor.valueAlignment && (
-                          <Typography variant="caption" color="primary">
-                            Aligns with your value: {factor.valueAlignment}
-                          </Typography>
-                        )}
-                      </>
-                    }
-                  />
-                </ListItem>
-              ))}
-            </List>
-
-            {/* Value Conflicts */}
-            {analysis.valueConflicts && analysis.valueConflicts.length > 0 && (
-              <Box sx={{ mb: 3 }}>
-                <Typography variant="h6" gutterBottom>
-                  Value Conflicts
-                </Typography>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+              <Button
+                variant="outlined"
+                onClick={handleBack}
+                disabled={loading}
+              >
+                {t('common.back')}
+              </Button>
 
-                {analysis.valueConflicts.map((conflict, index) => (
-                  <Alert key={index} severity="info" sx={{ mb: 2 }}>
-                    {conflict}
-                  </Alert>
-                ))}
+              <Box sx={{ display: 'flex', gap: 2 }}>
+                <Button
+                  onClick={() => handleSubmit(true)}
+                  disabled={loading}
+                >
+                  {t('dashboard.skipMatrix')}
+                </Button>
+                <Button
+                  variant="contained"
+                  color="primary"
+                  onClick={handleContinue}
+                  disabled={loading}
+                >
+                  {loading ? <CircularProgress size={24} color="inherit" /> : t('dashboard.analyze')}
+                </Button>
               </Box>
-            )}
+            </Box>
+          </Box>
+        )}
 
-            {/* Cognitive Biases */}
-            {analysis.detectedBiases && analysis.detectedBiases.length > 0 && (
-              <Box sx={{ mb: 3 }}>
-                <Typography variant="h6" gutterBottom>
-                  Potential Cognitive Biases
-                </Typography>
+        {currentStep === 'analysis' && analysis && (
+          <Box sx={{ mt: 4 }}>
+            <Divider sx={{ mb: 3 }} />
+            <Typography variant="h5" gutterBottom>
+              {t('dashboard.analysisTitle')}
+            </Typography>
 
-                {analysis.detectedBiases.map((bias, index) => (
-                  <Paper key={index} elevation={0} sx={{ p: 2, mb: 2, border: '1px solid #e0e0e0' }}>
-                    <Typography variant="subtitle1" color="warning.main">
-                      {bias.biasType}
-                    </Typography>
-
-                    {showBiasInfo === bias.biasType ? (
-                      <>
-                        <Typography variant="body2" sx={{ mt: 1, mb: 2 }}>
-                          {bias.description}
-                        </Typography>
-
-                        <Typography variant="body2" sx={{ fontWeight: 'bold', mb: 1 }}>
-                          Suggestion:
-                        </Typography>
-
-                        <Typography variant="body2" sx={{ mb: 2 }}>
-                          {bias.suggestion}
-                        </Typography>
-
-                        <Button
-                          size="small"
-                          onClick={() => setShowBiasInfo(null)}
-                        >
-                          Hide Details
-                        </Button>
-                      </>
-                    ) : (
-                      <Button
-                        size="small"
-                        onClick={() => setShowBiasInfo(bias.biasType)}
-                        sx={{ mt: 1 }}
-                      >
-                        Learn About This Bias
-                      </Button>
-                    )}
-                  </Paper>
-                ))}
-              </Box>
+            {error && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {error}
+              </Alert>
             )}
 
-            {/* Third Option Suggestion */}
-            {analysis.thirdOption && (
-              <Box sx={{ mb: 3 }}>
-                <Typography variant="h6" gutterBottom>
-                  Alternative Approach
-                </Typography>
-
-                <Alert severity="success" sx={{ mb: 2 }}>
-                  {analysis.thirdOption}
-                </Alert>
+            <AnalysisView
+              analysis={analysis}
+              decision={buildDecision()}
+              onMoveOption={(option, position) => handleCompassChange({ ...positionCorrections, [option]: position })}
+              onResetPositions={() => handleCompassChange({})}
+            />
 
-                {!showThirdOption && (
-                  <Button
-                    size="small"
-                    onClick={() => setShowThirdOption(true)}
-                    sx={{ mt: 1 }}
-                  >
-                    Explore This Option
-                  </Button>
-                )}
-              </Box>
+            {finalRevision !== null && chosen && chosen.number !== revisions[revisions.length - 1]?.number && (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                {t('dashboard.finalRevisionNote', { number: finalRevision })}
+              </Alert>
             )}
 
-            {/* Sentiment Analysis */}
-            <Typography variant="h6" gutterBottom sx={{ mt: 2 }}>
-              Sentiment Analysis
-            </Typography>
-
-            <Box sx={{ mb: 3 }}>
-              {analysis.sentiment.tone && (
-                <Typography variant="body1" sx={{ mb: 2 }}>
-                  {analysis.sentiment.tone}
-                </Typography>
-              )}
-
-              <Stack direction="row" spacing={1} sx={{ mb: 3 }}>
-                <Chip
-                  label={`Positive: ${Math.round(analysis.sentiment.positive * 100)}%`}
-                  color="success"
-                  variant="outlined"
-                />
-                <Chip
-                  label={`Negative: ${Math.round(analysis.sentiment.negative * 100)}%`}
-                  color="error"
-                  variant="outlined"
-                />
-                <Chip
-                  label={`Neutral: ${Math.round(analysis.sentiment.neutral * 100)}%`}
-                  color="default"
-                  variant="outlined"
-                />
-              </Stack>
-            </Box>
+            <RevisionHistory revisions={revisions} finalRevision={finalRevision} onMarkFinal={handleMarkFinal} />
 
             {/* Confidence Slider */}
             <Box sx={{ mb: 4 }}>
               <Typography variant="h6" gutterBottom>
-                How confident are you in acting on this decision?
+                {t('dashboard.confidence')}
               </Typography>
 
               <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
-                <Typography variant="body2">Not confident</Typography>
-                <Typography variant="body2">Very confident</Typography>
+                <Typography variant="body2">{t('dashboard.notConfident')}</Typography>
+                <Typography variant="body2">{t('dashboard.veryConfident')}</Typography>
               </Box>
 
               <Slider
@@ -1106,38 +1129,51 @@ const DecisionDashboard = () => {
               />
 
               <Typography variant="body2" color="text.secondary">
-                Your confidence level: {confidenceScore}%
+                {t('dashboard.confidenceLevel', { confidence: confidenceScore })}
               </Typography>
             </Box>
 
             {/* Action Buttons Section */}
-            <Box sx={{ mb: 4, display: 'flex', gap: 2 }}>
+            <Box sx={{ mb: 4, display: 'flex', flexDirection: { xs: 'column', md: 'row' }, gap: 2 }}>
               {/* Journal Entry Button */}
               <Box sx={{ flex: 1, p: 2, bgcolor: 'background.paper', border: '1px dashed #ccc', borderRadius: 2 }}>
                 <Typography variant="h6" gutterBottom>
-                  📓 Decision Journal
+                  📓 {t('dashboard.journalTitle')}
                 </Typography>
                 <Typography variant="body2" sx={{ mb: 2 }}>
-                  Save this decision as a journal entry to track your decision-making patterns over time.
+                  {t('dashboard.journalHelp')}
                 </Typography>
                 <Button
-                  variant={journalSaved ? 'contained' : 'outlined'}
+                  variant={journalCurrent ? 'contained' : 'outlined'}
                   onClick={() => setShowJournalDialog(true)}
                   fullWidth
-                  color={journalSaved ? 'success' : 'primary'}
-                  startIcon={journalSaved ? <>✅</> : null}
+                  color={journalCurrent ? 'success' : 'primary'}
+                  startIcon={journalCurrent ? <>✅</> : null}
                 >
-                  {journalSaved ? 'Saved to Journal' : 'Save as Journal Entry'}
+                  {t(journalCurrent ? 'dashboard.savedToJournal' : 'dashboard.saveJournalEntry')}
                 </Button>
+                {journalSaved && (
+                  <Button
+                    component={RouterLink}
+                    to={`/journal/${savedEntryId}`}
+                    size="small"
+                    fullWidth
+                    sx={{ mt: 1 }}
+                  >
+                    {t('dashboard.viewInJournal')}
+                  </Button>
+                )}
               </Box>
 
               {/* Time Capsule Button */}
               <Box sx={{ flex: 1, p: 2, bgcolor: 'background.paper', border: '1px dashed #ccc', borderRadius: 2 }}>
                 <Typography variant="h6" gutterBottom>
-                  🕰️ Decision Time Capsule
+                  🕰️ {t('dashboard.timeCapsuleTitle')}
                 </Typography>
                 <Typography variant="body2" sx={{ mb: 2 }}>
-                  Schedule a 7-day follow-up to reflect on how you feel about your choice.
+                  {scheduledCheckIn
+                    ? t('dashboard.checkInScheduledFor', { date: formatDate(scheduledCheckIn.scheduledFor) })
+                    : t('dashboard.timeCapsuleHelp')}
                 </Typography>
                 <Button
                   variant={timeCapsuleScheduled ? 'contained' : 'outlined'}
@@ -1147,9 +1183,27 @@ const DecisionDashboard = () => {
                   startIcon={timeCapsuleScheduled ? <>✅</> : null}
                   disabled={timeCapsuleScheduled}
                 >
-                  {timeCapsuleScheduled ? 'Check-in Scheduled' : 'Schedule a Check-in'}
+                  {t(timeCapsuleScheduled ? 'dashboard.checkInScheduled' : 'dashboard.scheduleCheckIn')}
                 </Button>
               </Box>
+
+              {/* Export Button */}
+              <Box sx={{ flex: 1, p: 2, bgcolor: 'background.paper', border: '1px dashed #ccc', borderRadius: 2 }}>
+                <Typography variant="h6" gutterBottom>
+                  📄 {t('dashboard.exportTitle')}
+                </Typography>
+                <Typography variant="body2" sx={{ mb: 2 }}>
+                  {t('dashboard.exportHelp')}
+                </Typography>
+                <ExportMenu
+                  report={{
+                    decision: chosenDecision(),
+                    analysis: chosen?.analysis || analysis,
+                    tags: journalTags,
+                    notes: journalNotes,
+                  }}
+                />
+              </Box>
             </Box>
 
             <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
@@ -1157,36 +1211,15 @@ const DecisionDashboard = () => {
                 variant="outlined"
                 onClick={handleBack}
               >
-                Back to Context
+                {t('dashboard.backTo', { step: t(decisionWizard.label(decisionWizard.previous(currentStep) || 'question')) })}
               </Button>
 
               <Button
                 variant="contained"
                 color="primary"
-                onClick={() => {
-                  // Reset all state
-                  setSubmitted(false);
-                  setAnalysis(null);
-                  setCurrentStep('question');
-                  setDecision({
-                    question: '',
-                    balanceScore: 50,
-                    timeHorizon: 50,
-                  });
-                  setOptions(['', '']);
-                  setStakes('');
-                  setSelectedValues([]);
-                  setInitialIntuition('');
-                  setConfidenceScore(70);
-
-                  // Reset feature flags
-                  setShowBiasInfo(null);
-                  setShowThirdOption(false);
-                  setTimeCapsuleScheduled(false);
-                  setJournalSaved(false);
-                }}
+                onClick={resetWizard}
               >
-                Start New Decision
+                {t('dashboard.startNew')}
               </Button>
             </Box>
           </Box>
@@ -1194,29 +1227,59 @@ const DecisionDashboard = () => {
       </Paper>
 
       {/* Safety Dialog */}
+      {safety.prompt && (
+        <SafetyDialog
+          open
+          severity={safety.prompt.severity}
+          onClose={safety.dismiss}
+        />
+      )}
+
+      {/* Share Dialog */}
+      {showShareDialog && (
+        <ShareDialog
+          open
+          shared={{
+            decision: { ...buildDecision(), confidenceScore },
+            ...(currentStep === 'analysis' && analysis ? { analysis } : {}),
+            step: currentStep,
+          }}
+          onClose={() => setShowShareDialog(false)}
+        />
+      )}
+
+      {/* Drafts Dialog */}
+      <DraftsDialog
+        open={draftsDialog !== null && otherDrafts.length > 0}
+        title={t(draftsDialog === 'resume' ? 'dashboard.drafts.resumeTitle' : 'dashboard.drafts.title')}
+        description={t(draftsDialog === 'resume' ? 'dashboard.drafts.resumeDescription' : 'dashboard.drafts.description')}
+        drafts={otherDrafts}
+        closeLabel={t(draftsDialog === 'resume' ? 'dashboard.drafts.startFresh' : 'common.cancel')}
+        onResume={handleResumeDraft}
+        onDelete={handleDeleteDraft}
+        onClose={() => setDraftsDialog(null)}
+      />
+
+      {/* Discard Draft Dialog */}
       <Dialog
-        open={showSafetyDialog}
-        onClose={() => setShowSafetyDialog(false)}
-        aria-labelledby="safety-dialog-title"
-        aria-describedby="safety-dialog-description"
+        open={showDiscardDialog}
+        onClose={() => setShowDiscardDialog(false)}
+        aria-labelledby="discard-draft-dialog-title"
       >
-        <DialogTitle id="safety-dialog-title">
-          We're here to help
+        <DialogTitle id="discard-draft-dialog-title">
+          {t('dashboard.discard.title')}
         </DialogTitle>
         <DialogContent>
-          <DialogContentText id="safety-dialog-description">
-            {safetyMessage}
+          <DialogContentText>
+            {t('dashboard.discard.description')}
           </DialogContentText>
         </DialogContent>
         <DialogActions>
-          <Button onClick={() => setShowSafetyDialog(false)} color="primary" autoFocus>
-            I understand
+          <Button onClick={() => setShowDiscardDialog(false)} color="primary">
+            {t('dashboard.discard.keep')}
           </Button>
-          <Button
-            onClick={() => window.open('https://988lifeline.org/', '_blank')}
-            color="primary"
-          >
-            Find Support Resources
+          <Button onClick={handleDiscardDraft} color="error" variant="contained">
+            {t('dashboard.discard.confirm')}
           </Button>
         </DialogActions>
       </Dialog>
@@ -1228,34 +1291,59 @@ const DecisionDashboard = () => {
         aria-labelledby="time-capsule-dialog-title"
       >
         <DialogTitle id="time-capsule-dialog-title">
-          Schedule a Decision Check-in
+          {t('dashboard.checkIn.title')}
         </DialogTitle>
         <DialogContent>
           <DialogContentText sx={{ mb: 2 }}>
-            Would you like to revisit this decision in 7 days to reflect on how you feel about it?
+            {t('dashboard.checkIn.when')}
           </DialogContentText>
+          <FormControl fullWidth sx={{ mb: 2 }}>
+            <InputLabel>{t('dashboard.checkIn.delay')}</InputLabel>
+            <Select
+              label={t('dashboard.checkIn.delay')}
+              value={checkInDelayDays}
+              onChange={(e) => setCheckInDelayDays(Number(e.target.value))}
+            >
+              {CHECK_IN_DELAYS.map(({ days, label }) => (
+                <MenuItem key={days} value={days}>{t(label)}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
           <DialogContentText variant="body2" color="text.secondary">
-            We'll save your decision details and analysis. You'll receive a reminder to reflect on:
+            {t('dashboard.checkIn.explanation')}
             <ul>
-              <li>Did you follow through with your decision?</li>
-              <li>How do you feel about the outcome?</li>
-              <li>Did your initial intuition match the reality?</li>
+              <li>{t('dashboard.checkIn.followThrough')}</li>
+              <li>{t('dashboard.checkIn.outcome')}</li>
+              <li>{t('dashboard.checkIn.intuition')}</li>
             </ul>
           </DialogContentText>
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={checkInRemind}
+                onChange={(e) => setCheckInRemind(e.target.checked)}
+                disabled={!notificationsSupported()}
+              />
+            }
+            label={t('dashboard.checkIn.remind')}
+          />
+          {checkInError && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {checkInError}
+            </Alert>
+          )}
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setShowTimeCapsule(false)} color="primary">
-            Not now
+            {t('dashboard.checkIn.notNow')}
           </Button>
           <Button
-            onClick={() => {
-              setTimeCapsuleScheduled(true);
-              setShowTimeCapsule(false);
-            }}
+            onClick={handleScheduleCheckIn}
             color="primary"
             variant="contained"
+            disabled={checkInSaving}
           >
-            Schedule Check-in
+            {checkInSaving ? <CircularProgress size={24} color="inherit" /> : t('dashboard.checkIn.schedule')}
           </Button>
         </DialogActions>
       </Dialog>
@@ -1269,84 +1357,68 @@ const DecisionDashboard = () => {
         fullWidth
       >
         <DialogTitle id="journal-dialog-title">
-          Save as Journal Entry
+          {t('dashboard.saveJournalEntry')}
         </DialogTitle>
         <DialogContent>
           <DialogContentText sx={{ mb: 2 }}>
-            Your decision will be saved to your journal for future reference.
+            {t('dashboard.journal.description')}
           </DialogContentText>
 
           <Typography variant="subtitle1" gutterBottom>
-            Decision Summary
+            {t('dashboard.journal.summary')}
           </Typography>
 
-          <Box sx={{ mb: 2, p: 2, bgcolor: '#f5f5f5', borderRadius: 1 }}>
-            <Typography variant="body2" gutterBottom><strong>Question:</strong> {decision.question}</Typography>
-            <Typography variant="body2" gutterBottom><strong>Approach:</strong> {decision.balanceScore && decision.balanceScore > 50 ? 'Primarily Logical' : 'Primarily Emotional'}</Typography>
-            <Typography variant="body2" gutterBottom><strong>Time Horizon:</strong> {decision.timeHorizon && decision.timeHorizon > 50 ? 'Long-term Focus' : 'Short-term Focus'}</Typography>
-            <Typography variant="body2" gutterBottom><strong>Initial Intuition:</strong> {initialIntuition}</Typography>
-            <Typography variant="body2" gutterBottom><strong>Confidence Level:</strong> {confidenceScore}%</Typography>
-            {options[0] && <Typography variant="body2" gutterBottom><strong>Option A:</strong> {options[0]}</Typography>}
-            {options[1] && <Typography variant="body2" gutterBottom><strong>Option B:</strong> {options[1]}</Typography>}
-            {selectedValues.length > 0 && (
-              <Typography variant="body2" gutterBottom>
-                <strong>Values:</strong> {selectedValues.join(', ')}
-              </Typography>
-            )}
-          </Box>
+          <DecisionSummary decision={chosenDecision()} />
 
           <FormControl fullWidth sx={{ mb: 2 }}>
-            <InputLabel>Tags</InputLabel>
+            <InputLabel>{t('dashboard.journal.tags')}</InputLabel>
             <Select
               multiple
-              value={['Decision']}
+              value={journalTags}
+              onChange={handleJournalTagsChange as any}
               renderValue={(selected) => (
                 <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
                   {(selected as string[]).map((value) => (
-                    <Chip key={value} label={value} />
+                    <Chip key={value} label={tagLabel(value, t)} />
                   ))}
                 </Box>
               )}
             >
-              <MenuItem value="Decision" disabled>
-                Decision
-              </MenuItem>
-              <MenuItem value="Career">
-                Career
-              </MenuItem>
-              <MenuItem value="Relationships">
-                Relationships
-              </MenuItem>
-              <MenuItem value="Finance">
-                Finance
-              </MenuItem>
-              <MenuItem value="Health">
-                Health
-              </MenuItem>
+              {JOURNAL_TAGS.map((tag) => (
+                <MenuItem key={tag} value={tag} disabled={tag === DEFAULT_JOURNAL_TAG}>
+                  {tagLabel(tag, t)}
+                </MenuItem>
+              ))}
             </Select>
           </FormControl>
 
           <TextField
             fullWidth
-            label="Additional Notes"
+            label={t('dashboard.journal.notes')}
             multiline
             rows={3}
-            placeholder="Add any additional thoughts or context about this decision..."
+            value={journalNotes}
+            onChange={(e) => setJournalNotes(e.target.value)}
+            placeholder={t('dashboard.journal.notesPlaceholder')}
           />
+
+          {journalError && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {journalError}
+            </Alert>
+          )}
         </DialogContent>
         <DialogActions>
           <Button onClick={() => setShowJournalDialog(false)} color="primary">
-            Cancel
+            {t('common.cancel')}
           </Button>
           <Button
-            onClick={() => {
-              setJournalSaved(true);
-              setShowJournalDialog(false);
-            }}
+            onClick={handleSaveToJournal}
             color="primary"
             variant="contained"
+            disabled={journalSaving}
           >
-            Save to Journal
+            {journalSaving ? <CircularProgress size={24} color="inherit" /> : t('dashboard.journal.save')}
           </Button>
         </DialogActions>
       </Dialog>
@@ -0,0 +1,183 @@
+import {
+  Box,
+  Button,
+  IconButton,
+  LinearProgress,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import { Criterion, DecisionMatrix } from '../../types/decision';
+import { optionLetter } from '../../services/decision/options';
+import { generateId } from '../../services/storage/generateId';
+import {
+  DEFAULT_WEIGHT,
+  getScore,
+  MAX_SCORE,
+  MAX_WEIGHT,
+  MIN_WEIGHT,
+  rankOptions,
+  setScore,
+} from '../../services/analysis/decisionMatrix';
+import { MessageKey } from '../../services/i18n/i18n';
+import { useI18n } from '../I18nProvider/useI18n';
+
+const WEIGHT_LABELS: Record<number, MessageKey> = {
+  1: 'matrixEditor.weight.minor',
+  3: 'matrixEditor.weight.important',
+  5: 'matrixEditor.weight.critical',
+};
+
+const WEIGHT_CHOICES = Array.from({ length: MAX_WEIGHT - MIN_WEIGHT + 1 }, (_, index) => MIN_WEIGHT + index);
+
+const SCORE_CHOICES = Array.from({ length: MAX_SCORE + 1 }, (_, score) => score);
+
+interface DecisionMatrixEditorProps {
+  options: string[];
+  matrix: DecisionMatrix;
+  onChange: (matrix: DecisionMatrix) => void;
+  disabled?: boolean;
+}
+
+const DecisionMatrixEditor = ({ options, matrix, onChange, disabled = false }: DecisionMatrixEditorProps) => {
+  const { t } = useI18n();
+  const ranking = rankOptions(matrix, options);
+
+  const updateCriterion = (id: string, changes: Partial<Criterion>) => {
+    onChange({
+      ...matrix,
+      criteria: matrix.criteria.map(criterion => (criterion.id === id ? { ...criterion, ...changes } : criterion)),
+    });
+  };
+
+  const handleAddCriterion = () => {
+    onChange({
+      ...matrix,
+      criteria: [...matrix.criteria, { id: generateId(), name: '', weight: DEFAULT_WEIGHT }],
+    });
+  };
+
+  const handleRemoveCriterion = (id: string) => {
+    onChange({ ...matrix, criteria: matrix.criteria.filter(criterion => criterion.id !== id) });
+  };
+
+  return (
+    <Box>
+      <Box sx={{ overflowX: 'auto', mb: 2 }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>{t('matrixEditor.criterion')}</TableCell>
+              <TableCell>{t('matrixEditor.weight')}</TableCell>
+              {options.map((option, index) => (
+                <TableCell key={option} align="center">
+                  <Tooltip title={option}>
+                    <span>{t('dashboard.option', { letter: optionLetter(index) })}</span>
+                  </Tooltip>
+                </TableCell>
+              ))}
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {matrix.criteria.map((criterion) => (
+              <TableRow key={criterion.id}>
+                <TableCell sx={{ minWidth: 160 }}>
+                  <TextField
+                    size="small"
+                    variant="standard"
+                    value={criterion.name}
+                    placeholder={t('matrixEditor.criterionPlaceholder')}
+                    onChange={(e) => updateCriterion(criterion.id, { name: e.target.value })}
+                    disabled={disabled}
+                    slotProps={{ htmlInput: { 'aria-label': t('matrixEditor.criterionName') } }}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Select
+                    size="small"
+                    variant="standard"
+                    value={criterion.weight}
+                    onChange={(e) => updateCriterion(criterion.id, { weight: Number(e.target.value) })}
+                    disabled={disabled}
+                    inputProps={{ 'aria-label': t('matrixEditor.weightOf', { criterion: criterion.name || t('matrixEditor.unnamed') }) }}
+                  >
+                    {WEIGHT_CHOICES.map((weight) => (
+                      <MenuItem key={weight} value={weight}>
+                        {WEIGHT_LABELS[weight] ? `${weight} · ${t(WEIGHT_LABELS[weight])}` : weight}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </TableCell>
+                {options.map((option, index) => (
+                  <TableCell key={option} align="center">
+                    <Select
+                      size="small"
+                      variant="standard"
+                      value={getScore(matrix, option, criterion.id)}
+                      onChange={(e) => onChange(setScore(matrix, option, criterion.id, Number(e.target.value)))}
+                      disabled={disabled}
+                      inputProps={{
+                        'aria-label': t('matrixEditor.scoreOf', {
+                          letter: optionLetter(index),
+                          criterion: criterion.name || t('matrixEditor.unnamed'),
+                        }),
+                      }}
+                    >
+                      {SCORE_CHOICES.map((score) => (
+                        <MenuItem key={score} value={score}>{score}</MenuItem>
+                      ))}
+                    </Select>
+                  </TableCell>
+                ))}
+                <TableCell padding="none">
+                  <Tooltip title={t('matrixEditor.removeCriterion')}>
+                    <span>
+                      <IconButton
+                        aria-label={t('matrixEditor.removeCriterionNamed', { criterion: criterion.name })}
+                        onClick={() => handleRemoveCriterion(criterion.id)}
+                        disabled={disabled}
+                      >
+                        <DeleteOutlineIcon fontSize="small" />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Box>
+
+      <Button startIcon={<AddIcon />} onClick={handleAddCriterion} disabled={disabled} sx={{ mb: 3 }}>
+        {t('matrixEditor.addCriterion')}
+      </Button>
+
+      {ranking.length > 0 && (
+        <Box sx={{ mb: 2 }}>
+          <Typography gutterBottom>{t('matrixEditor.ranking')}</Typography>
+          {ranking.map((item) => (
+            <Box key={item.option} sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+              <Typography variant="body2" sx={{ width: '40%', pr: 1 }}>
+                {item.rank}. {item.option}
+              </Typography>
+              <LinearProgress variant="determinate" value={item.score} sx={{ flex: 1, height: 8, borderRadius: 4, mr: 1 }} />
+              <Typography variant="body2">{t('common.score', { score: item.score })}</Typography>
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default DecisionMatrixEditor;
@@ -0,0 +1,48 @@
+import { Box, Typography } from '@mui/material';
+import { Decision } from '../../types/decision';
+import { optionLetter } from '../../services/decision/options';
+import { valueLabel } from '../../services/values/valueProfile';
+import { useI18n } from '../I18nProvider/useI18n';
+
+interface DecisionSummaryProps {
+  decision: Decision;
+}
+
+const DecisionSummary = ({ decision }: DecisionSummaryProps) => {
+  const { t } = useI18n();
+  const options = decision.options || [];
+  const values = decision.values || [];
+  const criteria = decision.matrix?.criteria || [];
+
+  return (
+    <Box sx={{ mb: 2, p: 2, bgcolor: '#f5f5f5', borderRadius: 1 }}>
+      <Typography variant="body2" gutterBottom><strong>{t('summary.question')}</strong> {decision.question}</Typography>
+      <Typography variant="body2" gutterBottom><strong>{t('summary.approach')}</strong> {t(decision.balanceScore > 50 ? 'summary.logical' : 'summary.emotional')}</Typography>
+      <Typography variant="body2" gutterBottom><strong>{t('summary.timeHorizon')}</strong> {t(decision.timeHorizon && decision.timeHorizon > 50 ? 'summary.longTerm' : 'summary.shortTerm')}</Typography>
+      {decision.initialIntuition && (
+        <Typography variant="body2" gutterBottom><strong>{t('summary.intuition')}</strong> {decision.initialIntuition}</Typography>
+      )}
+      {decision.confidenceScore !== undefined && (
+        <Typography variant="body2" gutterBottom><strong>{t('summary.confidence')}</strong> {t('common.percent', { percent: decision.confidenceScore })}</Typography>
+      )}
+      {options.map((option, index) => (
+        <Typography key={index} variant="body2" gutterBottom><strong>{t('summary.option', { letter: optionLetter(index) })}</strong> {option}</Typography>
+      ))}
+      {decision.stakes && (
+        <Typography variant="body2" gutterBottom><strong>{t('summary.stakes')}</strong> {decision.stakes}</Typography>
+      )}
+      {values.length > 0 && (
+        <Typography variant="body2" gutterBottom>
+          <strong>{t('summary.values')}</strong> {values.map(value => valueLabel(value, t)).join(', ')}
+        </Typography>
+      )}
+      {criteria.length > 0 && (
+        <Typography variant="body2" gutterBottom>
+          <strong>{t('summary.criteria')}</strong> {criteria.map(criterion => t('matrix.factor', { criterion: criterion.name, weight: criterion.weight })).join(', ')}
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default DecisionSummary;
@@ -0,0 +1,79 @@
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  Tooltip,
+} from '@mui/material';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import { Draft } from '../../types/draft';
+import { decisionWizard } from '../../services/wizard/decisionWizard';
+import { useI18n } from '../I18nProvider/useI18n';
+
+interface DraftsDialogProps {
+  open: boolean;
+  title: string;
+  description: string;
+  drafts: Draft[];
+  closeLabel: string;
+  onResume: (draft: Draft) => void;
+  onDelete: (draft: Draft) => void;
+  onClose: () => void;
+}
+
+const DraftsDialog = ({ open, title, description, drafts, closeLabel, onResume, onDelete, onClose }: DraftsDialogProps) => {
+  const { t, formatDate } = useI18n();
+  const nameOf = (draft: Draft) => draft.name || t('dashboard.untitledDraft');
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm" aria-labelledby="drafts-dialog-title">
+      <DialogTitle id="drafts-dialog-title">
+        {title}
+      </DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{ mb: 1 }}>
+          {description}
+        </DialogContentText>
+        <List>
+          {drafts.map((draft) => (
+            <ListItem
+              key={draft.id}
+              disablePadding
+              secondaryAction={
+                <Tooltip title={t('drafts.delete')}>
+                  <IconButton edge="end" aria-label={t('drafts.deleteNamed', { name: nameOf(draft) })} onClick={() => onDelete(draft)}>
+                    <DeleteOutlineIcon />
+                  </IconButton>
+                </Tooltip>
+              }
+            >
+              <ListItemButton onClick={() => onResume(draft)}>
+                <ListItemText
+                  primary={nameOf(draft)}
+                  secondary={t('drafts.details', {
+                    step: t(decisionWizard.label(draft.step || 'question')),
+                    date: formatDate(draft.updatedAt, 'dateTime'),
+                  })}
+                />
+              </ListItemButton>
+            </ListItem>
+          ))}
+        </List>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} color="primary">
+          {closeLabel}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default DraftsDialog;
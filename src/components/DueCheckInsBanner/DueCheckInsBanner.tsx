@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link as RouterLink, useLocation, useNavigate } from 'react-router-dom';
+import { Alert, Box, Button, Container } from '@mui/material';
+import {
+  checkInService as defaultCheckInService,
+  CheckInService,
+  DueCheckIn,
+} from '../../services/checkIns/checkInService';
+import { showCheckInNotification } from '../../services/checkIns/notifications';
+import { useI18n } from '../I18nProvider/useI18n';
+
+const RECHECK_INTERVAL_MS = 60 * 1000;
+
+const reflectionPath = ({ entry, checkIn }: DueCheckIn) => `/journal/${entry.id}/check-ins/${checkIn.id}`;
+
+interface DueCheckInsBannerProps {
+  checkIns?: CheckInService;
+}
+
+// Surfaces check-ins that have come due, on load and periodically while the app is open
+const DueCheckInsBanner = ({ checkIns = defaultCheckInService }: DueCheckInsBannerProps) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { t } = useI18n();
+  const [due, setDue] = useState<DueCheckIn[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      const dueCheckIns = await checkIns.listDueCheckIns();
+      setDue(dueCheckIns);
+
+      // Each requested reminder is shown once; the banner stays until the reflection is done
+      for (const item of dueCheckIns) {
+        if (item.checkIn.remind && !item.checkIn.notifiedAt &&
+          showCheckInNotification(item, () => navigate(reflectionPath(item)), t)) {
+          await checkIns.markNotified(item.entry.id, item.checkIn.id);
+        }
+      }
+    } catch (err) {
+      console.error(err);
+    }
+  }, [checkIns, navigate, t]);
+
+  // Re-read on navigation too, so a completed reflection disappears straight away
+  useEffect(() => {
+    refresh();
+  }, [refresh, location.pathname]);
+
+  useEffect(() => {
+    const timer = setInterval(refresh, RECHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [refresh]);
+
+  const visible = due.filter(item => location.pathname !== reflectionPath(item));
+  if (visible.length === 0) {
+    return null;
+  }
+
+  const [next] = visible;
+  return (
+    <Container maxWidth="md">
+      <Alert
+        severity="info"
+        sx={{ mt: 2 }}
+        action={
+          <Button component={RouterLink} to={reflectionPath(next)} color="inherit" size="small">
+            {t('dueCheckIns.reflect')}
+          </Button>
+        }
+      >
+        🕰️ {t('dueCheckIns.due', { count: visible.length })}
+        <Box component="span" sx={{ display: 'block', fontWeight: 'bold' }}>
+          {next.entry.decision.question}
+        </Box>
+      </Alert>
+    </Container>
+  );
+};
+
+export default DueCheckInsBanner;
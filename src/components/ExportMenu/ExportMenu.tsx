@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { Alert, Button, ListItemIcon, ListItemText, Menu, MenuItem } from '@mui/material';
+import DataObjectIcon from '@mui/icons-material/DataObject';
+import DescriptionIcon from '@mui/icons-material/Description';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import PrintIcon from '@mui/icons-material/Print';
+import { DecisionReport } from '../../types/export';
+import { serializeDecisionFile } from '../../services/export/decisionFile';
+import { reportFileName, toHtml, toMarkdown } from '../../services/export/decisionReport';
+import { downloadFile, printHtml } from '../../services/export/download';
+import { useI18n } from '../I18nProvider/useI18n';
+
+interface ExportMenuProps {
+  report: DecisionReport;
+}
+
+// Export button shared by the analysis step and journal entries
+const ExportMenu = ({ report }: ExportMenuProps) => {
+  const { t, locale } = useI18n();
+  const [anchor, setAnchor] = useState<HTMLElement | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = (format: 'json' | 'markdown' | 'print') => {
+    setAnchor(null);
+    setError(null);
+    try {
+      if (format === 'json') {
+        downloadFile(serializeDecisionFile(report), reportFileName(report, 'json'), 'application/json');
+      } else if (format === 'markdown') {
+        downloadFile(toMarkdown(report, locale), reportFileName(report, 'md'), 'text/markdown');
+      } else if (!printHtml(toHtml(report, locale))) {
+        setError(t('export.error.blocked'));
+      }
+    } catch (err) {
+      setError(t('export.error.failed'));
+      console.error(err);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        startIcon={<FileDownloadIcon />}
+        onClick={(event) => setAnchor(event.currentTarget)}
+        aria-haspopup="menu"
+      >
+        {t('export.button')}
+      </Button>
+      <Menu anchorEl={anchor} open={!!anchor} onClose={() => setAnchor(null)}>
+        <MenuItem onClick={() => handleExport('json')}>
+          <ListItemIcon><DataObjectIcon fontSize="small" /></ListItemIcon>
+          <ListItemText primary="JSON" secondary={t('export.json')} />
+        </MenuItem>
+        <MenuItem onClick={() => handleExport('markdown')}>
+          <ListItemIcon><DescriptionIcon fontSize="small" /></ListItemIcon>
+          <ListItemText primary="Markdown" />
+        </MenuItem>
+        <MenuItem onClick={() => handleExport('print')}>
+          <ListItemIcon><PrintIcon fontSize="small" /></ListItemIcon>
+          <ListItemText primary={t('export.print')} />
+        </MenuItem>
+      </Menu>
+      {error && (
+        <Alert severity="error" sx={{ mt: 2 }}>
+          {error}
+        </Alert>
+      )}
+    </>
+  );
+};
+
+export default ExportMenu;
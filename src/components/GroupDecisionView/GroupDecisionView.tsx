@@ -0,0 +1,268 @@
+import React, { useEffect, useState } from 'react';
+import { Link as RouterLink, useNavigate, useParams } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Container,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  Divider,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Paper,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import { GroupDecision, NewGroupResponse } from '../../types/group';
+import { groupStorage as defaultGroupStorage, GroupStorage } from '../../services/group/groupStorage';
+import { groupFileName, invitationFor, parseResponse, serializeInvitation } from '../../services/group/groupFiles';
+import { downloadFile, readFileText } from '../../services/export/download';
+import { optionLetter } from '../../services/decision/options';
+import { errorMessage } from '../../services/i18n/i18n';
+import GroupResponseForm from '../GroupResponseForm/GroupResponseForm';
+import GroupResults from '../GroupResults/GroupResults';
+import { useI18n } from '../I18nProvider/useI18n';
+
+interface GroupDecisionViewProps {
+  groups?: GroupStorage;
+}
+
+const GroupDecisionView = ({ groups = defaultGroupStorage }: GroupDecisionViewProps) => {
+  const { id = '' } = useParams();
+  const navigate = useNavigate();
+  const { t, formatDate } = useI18n();
+
+  const [group, setGroup] = useState<GroupDecision | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [responding, setResponding] = useState(false);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    groups.getGroup(id)
+      .then((loaded) => {
+        if (!cancelled) {
+          setGroup(loaded || null);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(t('group.error.load'));
+        }
+        console.error(err);
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [groups, id, t]);
+
+  const handleAddResponse = async (response: NewGroupResponse) => {
+    setGroup(await groups.addResponse(id, response));
+    setResponding(false);
+  };
+
+  const handleImportResponse = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allows picking the same file again after fixing it
+    if (!file || !group) {
+      return;
+    }
+    setError(null);
+    try {
+      const response = parseResponse(await readFileText(file), group);
+      setGroup(await groups.importResponse(id, response));
+    } catch (err) {
+      setError(errorMessage(err, t, 'group.error.import'));
+      console.error(err);
+    }
+  };
+
+  const handleRemoveResponse = async (responseId: string) => {
+    setError(null);
+    try {
+      setGroup(await groups.removeResponse(id, responseId));
+    } catch (err) {
+      setError(t('group.error.remove'));
+      console.error(err);
+    }
+  };
+
+  const handleDownloadInvitation = () => {
+    if (group) {
+      downloadFile(serializeInvitation(invitationFor(group)), groupFileName(group.question, 'invitation'), 'application/json');
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await groups.deleteGroup(id);
+      navigate('/groups');
+    } catch (err) {
+      setShowDeleteDialog(false);
+      setError(t('group.error.delete'));
+      console.error(err);
+    }
+  };
+
+  return (
+    <Container maxWidth="md">
+      <Paper elevation={3} sx={{ p: 4, mt: 4 }}>
+        <Button component={RouterLink} to="/groups" sx={{ mb: 2 }}>
+          ← {t('group.back')}
+        </Button>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : !group ? (
+          <Alert severity="warning">
+            {t('group.missing')}
+          </Alert>
+        ) : (
+          <>
+            <Typography variant="h4" gutterBottom>
+              {group.question}
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              {t('group.startedBy', { owner: group.owner, date: formatDate(group.createdAt) })}
+            </Typography>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mb: 3 }}>
+              {group.options.map((option, index) => (
+                <Chip key={option} label={`${optionLetter(index)}. ${option}`} />
+              ))}
+            </Box>
+
+            <Typography variant="h6" gutterBottom>
+              {t('group.participants')}
+            </Typography>
+            {group.responses.length === 0 ? (
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                {t('group.noResponses')}
+              </Typography>
+            ) : (
+              <List dense sx={{ mb: 1 }}>
+                {group.responses.map(response => (
+                  <ListItem
+                    key={response.id}
+                    secondaryAction={
+                      <Tooltip title={t('group.removeResponse')}>
+                        <IconButton
+                          edge="end"
+                          aria-label={t('group.removeResponseOf', { participant: response.participant })}
+                          onClick={() => handleRemoveResponse(response.id)}
+                        >
+                          <DeleteOutlineIcon />
+                        </IconButton>
+                      </Tooltip>
+                    }
+                  >
+                    <ListItemText
+                      primary={response.participant}
+                      secondary={t('group.responded', { date: formatDate(response.submittedAt, 'dateTime') })}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 3 }}>
+              <Button variant="contained" onClick={() => setResponding(true)} disabled={responding}>
+                {t('group.addResponse')}
+              </Button>
+              <Button variant="outlined" startIcon={<FileDownloadIcon />} onClick={handleDownloadInvitation}>
+                {t('group.downloadInvitation')}
+              </Button>
+              <Button component="label" variant="outlined" startIcon={<FileUploadIcon />}>
+                {t('group.importResponse')}
+                <input type="file" accept="application/json,.json" hidden onChange={handleImportResponse} />
+              </Button>
+            </Box>
+
+            {responding && (
+              <Paper elevation={0} sx={{ p: 2, mb: 3, border: '1px solid #e0e0e0' }}>
+                <Typography variant="subtitle1" gutterBottom>
+                  {t('group.yourResponse')}
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                  {t('group.passDevice')}
+                </Typography>
+                <GroupResponseForm
+                  key={group.responses.length}
+                  options={group.options}
+                  submitLabel={t('group.saveResponse')}
+                  onSubmit={handleAddResponse}
+                  onCancel={() => setResponding(false)}
+                />
+              </Paper>
+            )}
+
+            {group.responses.length > 0 && (
+              <>
+                <Divider sx={{ mb: 3 }} />
+                <Typography variant="h5" gutterBottom>
+                  {t('group.analysis')}
+                </Typography>
+                <GroupResults group={group} />
+              </>
+            )}
+
+            <Divider sx={{ mb: 3 }} />
+            <Button color="error" variant="outlined" onClick={() => setShowDeleteDialog(true)}>
+              {t('group.delete')}
+            </Button>
+          </>
+        )}
+      </Paper>
+
+      <Dialog
+        open={showDeleteDialog}
+        onClose={() => setShowDeleteDialog(false)}
+        aria-labelledby="delete-group-dialog-title"
+      >
+        <DialogTitle id="delete-group-dialog-title">
+          {t('group.deleteTitle')}
+        </DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            {t('group.deleteDescription')}
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setShowDeleteDialog(false)} color="primary">
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleDelete} color="error" variant="contained">
+            {t('common.delete')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Container>
+  );
+};
+
+export default GroupDecisionView;
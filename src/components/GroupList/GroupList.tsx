@@ -0,0 +1,195 @@
+import { useEffect, useState } from 'react';
+import { Link as RouterLink, useNavigate } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Container,
+  Divider,
+  IconButton,
+  List,
+  ListItemButton,
+  ListItemText,
+  Paper,
+  TextField,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import { GroupDecision } from '../../types/group';
+import { groupStorage as defaultGroupStorage, GroupStorage } from '../../services/group/groupStorage';
+import { cleanOptions, MAX_OPTIONS, optionLetter } from '../../services/decision/options';
+import SafetyDialog from '../SafetyDialog/SafetyDialog';
+import { useSafetyScreening } from '../SafetyDialog/useSafetyScreening';
+import { useI18n } from '../I18nProvider/useI18n';
+
+interface GroupListProps {
+  groups?: GroupStorage;
+}
+
+const GroupList = ({ groups = defaultGroupStorage }: GroupListProps) => {
+  const { t, formatDate } = useI18n();
+  const [existing, setExisting] = useState<GroupDecision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [owner, setOwner] = useState('');
+  const [question, setQuestion] = useState('');
+  const [options, setOptions] = useState<string[]>(['', '']);
+  const [creating, setCreating] = useState(false);
+  const navigate = useNavigate();
+
+  const safety = useSafetyScreening({
+    question,
+    ...Object.fromEntries(options.map((option, index) => [`option ${optionLetter(index)}`, option])),
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    groups.listGroups()
+      .then((loaded) => {
+        if (!cancelled) {
+          setExisting(loaded);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(t('groups.error.load'));
+        }
+        console.error(err);
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [groups, t]);
+
+  const handleCreate = async () => {
+    if (!owner.trim() || !question.trim()) {
+      setError(t('groups.error.question'));
+      return;
+    }
+    if (cleanOptions(options).length < 2) {
+      setError(t('groups.error.options'));
+      return;
+    }
+    setError(null);
+    setCreating(true);
+    try {
+      const group = await groups.createGroup({ owner, question, options });
+      navigate(`/groups/${group.id}`);
+    } catch (err) {
+      setError(t('groups.error.create'));
+      console.error(err);
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Container maxWidth="md">
+      <Paper elevation={3} sx={{ p: 4, mt: 4 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 2 }}>
+          <Typography variant="h4" gutterBottom>
+            {t('groups.title')}
+          </Typography>
+          <Button component={RouterLink} to="/groups/respond" variant="outlined">
+            {t('groups.respond')}
+          </Button>
+        </Box>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          {t('groups.help')}
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : existing.length > 0 && (
+          <List sx={{ mb: 2 }}>
+            {existing.map((group) => (
+              <ListItemButton key={group.id} component={RouterLink} to={`/groups/${group.id}`}>
+                <ListItemText
+                  primary={group.question}
+                  secondary={`${formatDate(group.createdAt)} · ${t('groups.responses', { count: group.responses.length })}`}
+                />
+              </ListItemButton>
+            ))}
+          </List>
+        )}
+
+        <Divider sx={{ mb: 3 }} />
+        <Typography variant="h6" gutterBottom>
+          {t('groups.start')}
+        </Typography>
+
+        <TextField
+          fullWidth
+          label={t('groups.owner')}
+          value={owner}
+          onChange={(e) => setOwner(e.target.value)}
+          sx={{ mb: 2 }}
+          disabled={creating}
+        />
+        <TextField
+          fullWidth
+          label={t('groups.question')}
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder={t('groups.questionPlaceholder')}
+          sx={{ mb: 2 }}
+          disabled={creating}
+        />
+
+        {options.map((option, index) => (
+          <Box key={index} sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+            <TextField
+              fullWidth
+              label={t('dashboard.option', { letter: optionLetter(index) })}
+              value={option}
+              onChange={(e) => setOptions(options.map((existingOption, i) => (i === index ? e.target.value : existingOption)))}
+              disabled={creating}
+            />
+            <IconButton
+              aria-label={t('dashboard.removeOption', { letter: optionLetter(index) })}
+              onClick={() => setOptions(options.filter((existingOption, i) => i !== index))}
+              disabled={creating || options.length <= 2}
+            >
+              <DeleteOutlineIcon fontSize="small" />
+            </IconButton>
+          </Box>
+        ))}
+        <Button
+          startIcon={<AddIcon />}
+          onClick={() => setOptions([...options, ''])}
+          disabled={creating || options.length >= MAX_OPTIONS}
+          sx={{ mb: 3 }}
+        >
+          {t('dashboard.addOption')}
+        </Button>
+
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+          <Button variant="contained" onClick={handleCreate} disabled={creating}>
+            {creating ? <CircularProgress size={24} color="inherit" /> : t('groups.create')}
+          </Button>
+        </Box>
+      </Paper>
+
+      {safety.prompt && (
+        <SafetyDialog open severity={safety.prompt.severity} onClose={safety.dismiss} />
+      )}
+    </Container>
+  );
+};
+
+export default GroupList;
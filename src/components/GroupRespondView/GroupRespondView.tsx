@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import { Alert, Box, Button, Chip, Container, Paper, Typography } from '@mui/material';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import { GroupInvitation, GroupResponse, NewGroupResponse } from '../../types/group';
+import { groupFileName, parseInvitation, serializeResponse } from '../../services/group/groupFiles';
+import { downloadFile, readFileText } from '../../services/export/download';
+import { optionLetter } from '../../services/decision/options';
+import { errorMessage } from '../../services/i18n/i18n';
+import { generateId } from '../../services/storage/generateId';
+import GroupResponseForm from '../GroupResponseForm/GroupResponseForm';
+import { useI18n } from '../I18nProvider/useI18n';
+
+// Answering someone else's group decision: nothing is stored here, the response goes back as a file
+const GroupRespondView = () => {
+  const { t } = useI18n();
+  const [invitation, setInvitation] = useState<GroupInvitation | null>(null);
+  const [submitted, setSubmitted] = useState<GroupResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenInvitation = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allows picking the same file again after fixing it
+    if (!file) {
+      return;
+    }
+    setError(null);
+    try {
+      setInvitation(parseInvitation(await readFileText(file)));
+      setSubmitted(null);
+    } catch (err) {
+      setError(errorMessage(err, t, 'respond.error.open'));
+      console.error(err);
+    }
+  };
+
+  const downloadResponse = (response: GroupResponse) => {
+    if (invitation) {
+      downloadFile(
+        serializeResponse(invitation.groupId, response),
+        groupFileName(invitation.question, 'response', response.participant),
+        'application/json'
+      );
+    }
+  };
+
+  const handleSubmit = async (answers: NewGroupResponse) => {
+    const response: GroupResponse = { ...answers, id: generateId(), submittedAt: new Date().toISOString() };
+    downloadResponse(response);
+    setSubmitted(response);
+  };
+
+  return (
+    <Container maxWidth="md">
+      <Paper elevation={3} sx={{ p: 4, mt: 4 }}>
+        <Button component={RouterLink} to="/groups" sx={{ mb: 2 }}>
+          ← {t('group.back')}
+        </Button>
+        <Typography variant="h4" gutterBottom>
+          {t('respond.title')}
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {!invitation ? (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+              {t('respond.help')}
+            </Typography>
+            <Button component="label" variant="contained" startIcon={<FileUploadIcon />}>
+              {t('respond.open')}
+              <input type="file" accept="application/json,.json" hidden onChange={handleOpenInvitation} />
+            </Button>
+          </>
+        ) : (
+          <>
+            <Typography variant="h6" gutterBottom>
+              {invitation.question}
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              {t('respond.askedBy', { owner: invitation.owner })}
+            </Typography>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mb: 3 }}>
+              {invitation.options.map((option, index) => (
+                <Chip key={option} label={`${optionLetter(index)}. ${option}`} />
+              ))}
+            </Box>
+
+            {submitted ? (
+              <>
+                <Alert severity="success" sx={{ mb: 2 }}>
+                  {t('respond.downloaded', { owner: invitation.owner })}
+                </Alert>
+                <Button variant="outlined" startIcon={<FileDownloadIcon />} onClick={() => downloadResponse(submitted)}>
+                  {t('respond.downloadAgain')}
+                </Button>
+              </>
+            ) : (
+              <GroupResponseForm
+                options={invitation.options}
+                submitLabel={t('respond.submit')}
+                onSubmit={handleSubmit}
+                onCancel={() => setInvitation(null)}
+              />
+            )}
+          </>
+        )}
+      </Paper>
+    </Container>
+  );
+};
+
+export default GroupRespondView;
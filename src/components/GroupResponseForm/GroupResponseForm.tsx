@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Slider,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { NewGroupResponse } from '../../types/group';
+import { optionLetter } from '../../services/decision/options';
+import { MAX_DECISION_VALUES, valueChoices, valueLabel } from '../../services/values/valueProfile';
+import SafetyDialog from '../SafetyDialog/SafetyDialog';
+import { useSafetyScreening } from '../SafetyDialog/useSafetyScreening';
+import { useI18n } from '../I18nProvider/useI18n';
+
+const DEFAULT_OPTION_SCORE = 5;
+
+const PERCENT_MARKS = [
+  { value: 0, label: '0%' },
+  { value: 50, label: '50%' },
+  { value: 100, label: '100%' },
+];
+
+interface GroupResponseFormProps {
+  options: string[];
+  submitLabel: string;
+  onSubmit: (response: NewGroupResponse) => Promise<void>;
+  onCancel?: () => void;
+}
+
+// One participant's answers; each person fills it in for themselves
+const GroupResponseForm = ({ options, submitLabel, onSubmit, onCancel }: GroupResponseFormProps) => {
+  const { t } = useI18n();
+  const [participant, setParticipant] = useState('');
+  const [balanceScore, setBalanceScore] = useState(50);
+  const [timeHorizon, setTimeHorizon] = useState(50);
+  const [values, setValues] = useState<string[]>([]);
+  const [initialIntuition, setInitialIntuition] = useState('');
+  const [optionScores, setOptionScores] = useState<Record<string, number>>(
+    () => Object.fromEntries(options.map(option => [option, DEFAULT_OPTION_SCORE]))
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const safety = useSafetyScreening({ intuition: initialIntuition });
+
+  const handleSubmit = async () => {
+    if (!participant.trim()) {
+      setError(t('responseForm.error.name'));
+      return;
+    }
+    if (!initialIntuition.trim()) {
+      setError(t('wizard.error.intuition'));
+      return;
+    }
+    setError(null);
+    setSaving(true);
+    try {
+      await onSubmit({ participant: participant.trim(), balanceScore, timeHorizon, values, initialIntuition, optionScores });
+    } catch (err) {
+      setError(t('responseForm.error.save'));
+      console.error(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Box>
+      <TextField
+        fullWidth
+        label={t('groups.owner')}
+        value={participant}
+        onChange={(e) => setParticipant(e.target.value)}
+        sx={{ mb: 3 }}
+        disabled={saving}
+      />
+
+      <Typography gutterBottom>{t('dashboard.approach')}</Typography>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+        <Typography variant="body2">{t('dashboard.emotional')}</Typography>
+        <Typography variant="body2">{t('dashboard.logical')}</Typography>
+      </Box>
+      <Slider
+        value={balanceScore}
+        onChange={(e, value) => setBalanceScore(value as number)}
+        valueLabelDisplay="auto"
+        marks={PERCENT_MARKS}
+        sx={{ mb: 3 }}
+        disabled={saving}
+      />
+
+      <Typography gutterBottom>{t('dashboard.timeHorizon')}</Typography>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+        <Typography variant="body2">{t('dashboard.shortTerm')}</Typography>
+        <Typography variant="body2">{t('dashboard.longTerm')}</Typography>
+      </Box>
+      <Slider
+        value={timeHorizon}
+        onChange={(e, value) => setTimeHorizon(value as number)}
+        valueLabelDisplay="auto"
+        marks={PERCENT_MARKS}
+        sx={{ mb: 3 }}
+        disabled={saving}
+      />
+
+      <FormControl fullWidth sx={{ mb: 3 }}>
+        <InputLabel>{t('responseForm.values', { max: MAX_DECISION_VALUES })}</InputLabel>
+        <Select
+          multiple
+          label={t('responseForm.values', { max: MAX_DECISION_VALUES })}
+          value={values}
+          onChange={(e) => setValues(e.target.value as string[])}
+          renderValue={(selected) => (
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+              {(selected as string[]).map(value => <Chip key={value} label={valueLabel(value, t)} size="small" />)}
+            </Box>
+          )}
+          disabled={saving}
+        >
+          {valueChoices([]).map((value) => (
+            <MenuItem key={value} value={value} disabled={values.length >= MAX_DECISION_VALUES && !values.includes(value)}>
+              {valueLabel(value, t)}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      <TextField
+        fullWidth
+        label={t('dashboard.intuition')}
+        value={initialIntuition}
+        onChange={(e) => setInitialIntuition(e.target.value)}
+        placeholder={t('dashboard.intuitionTitle')}
+        multiline
+        rows={2}
+        sx={{ mb: 3 }}
+        disabled={saving}
+      />
+
+      <Typography gutterBottom>{t('responseForm.scores')}</Typography>
+      {options.map((option, index) => (
+        <Box key={option} sx={{ mb: 1 }}>
+          <Typography variant="body2">
+            {optionLetter(index)}. {option}: <strong>{optionScores[option]}</strong>
+          </Typography>
+          <Slider
+            value={optionScores[option]}
+            onChange={(e, value) => setOptionScores(prev => ({ ...prev, [option]: value as number }))}
+            min={0}
+            max={10}
+            step={1}
+            marks
+            aria-label={t('responseForm.scoreFor', { option })}
+            disabled={saving}
+          />
+        </Box>
+      ))}
+
+      {error && (
+        <Alert severity="error" sx={{ my: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 2, mt: 2 }}>
+        {onCancel && (
+          <Button onClick={onCancel} disabled={saving}>
+            {t('common.cancel')}
+          </Button>
+        )}
+        <Button variant="contained" onClick={handleSubmit} disabled={saving}>
+          {saving ? <CircularProgress size={24} color="inherit" /> : submitLabel}
+        </Button>
+      </Box>
+
+      {safety.prompt && (
+        <SafetyDialog open severity={safety.prompt.severity} onClose={safety.dismiss} />
+      )}
+    </Box>
+  );
+};
+
+export default GroupResponseForm;
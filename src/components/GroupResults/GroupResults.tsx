@@ -0,0 +1,173 @@
+import { useEffect, useState } from 'react';
+import { Box, Chip, List, ListItem, ListItemText, Paper, Typography } from '@mui/material';
+import { ValueTension } from '../../types/decision';
+import { GroupDecision } from '../../types/group';
+import { Agreement, analyzeGroup } from '../../services/group/groupAnalysis';
+import { builtInTensions } from '../../services/analysis/valueConflicts';
+import { valueLabel } from '../../services/values/valueProfile';
+import {
+  valueTensionStorage as defaultValueTensionStorage,
+  ValueTensionStorage,
+} from '../../services/values/valueTensionStorage';
+import { MessageKey } from '../../services/i18n/i18n';
+import BarChart from '../BarChart/BarChart';
+import DecisionCompass from '../DecisionCompass/DecisionCompass';
+import { useI18n } from '../I18nProvider/useI18n';
+
+const AGREEMENT_LABELS: Record<Agreement, MessageKey> = {
+  agree: 'groupResults.agreement.agree',
+  mixed: 'groupResults.agreement.mixed',
+  disagree: 'groupResults.agreement.disagree',
+};
+
+interface GroupResultsProps {
+  group: GroupDecision;
+  valueTensions?: ValueTensionStorage;
+}
+
+const GroupResults = ({ group, valueTensions = defaultValueTensionStorage }: GroupResultsProps) => {
+  const { t } = useI18n();
+  const [customTensions, setCustomTensions] = useState<ValueTension[]>([]);
+
+  // The tensions the user defined apply between participants just as they do in a solo analysis
+  useEffect(() => {
+    let cancelled = false;
+    valueTensions.listTensions()
+      .then((loaded) => {
+        if (!cancelled) {
+          setCustomTensions(loaded);
+        }
+      })
+      .catch((err) => {
+        // The built-in tensions still apply
+        console.error(err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [valueTensions]);
+
+  const analysis = analyzeGroup(group, [...builtInTensions(t), ...customTensions], t);
+  if (!analysis) {
+    return null;
+  }
+
+  return (
+    <Box>
+      <DecisionCompass
+        positions={analysis.points}
+        reference={analysis.average}
+        referenceLabel={t('groupResults.group')}
+        referenceDescription={t('groupResults.groupApproach')}
+        markers="participant"
+      />
+
+      <Box sx={{ mb: 4 }}>
+        <Typography variant="h6" gutterBottom>
+          {t('groupResults.optionScores')}
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          {t('groupResults.optionScoresHelp')}
+        </Typography>
+        <BarChart
+          bars={analysis.options.map(consensus => ({
+            key: consensus.option,
+            label: consensus.option,
+            value: consensus.mean,
+            detail: group.responses.length > 1
+              ? `${consensus.min}–${consensus.max}, ${t(AGREEMENT_LABELS[consensus.agreement])}`
+              : undefined,
+          }))}
+          max={10}
+          formatValue={value => t('groupResults.score', { score: value })}
+        />
+      </Box>
+
+      {group.responses.length < 2 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 4 }}>
+          {t('groupResults.needsSecond')}
+        </Typography>
+      ) : (
+        <Box sx={{ display: 'flex', flexDirection: { xs: 'column', md: 'row' }, gap: 2, mb: 4 }}>
+          {[
+            { title: t('groupResults.agree'), items: analysis.agreements, empty: t('groupResults.agreeEmpty') },
+            { title: t('groupResults.differ'), items: analysis.disagreements, empty: t('groupResults.differEmpty') },
+          ].map(({ title, items, empty }) => (
+            <Paper key={title} elevation={0} sx={{ flex: 1, p: 2, border: '1px solid #e0e0e0' }}>
+              <Typography variant="subtitle1" gutterBottom>
+                {title}
+              </Typography>
+              {items.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">{empty}</Typography>
+              ) : (
+                <List dense disablePadding>
+                  {items.map(item => (
+                    <ListItem key={item} disableGutters>
+                      <ListItemText primary={item} />
+                    </ListItem>
+                  ))}
+                </List>
+              )}
+            </Paper>
+          ))}
+        </Box>
+      )}
+
+      <Box sx={{ mb: 4 }}>
+        <Typography variant="h6" gutterBottom>
+          {t('groupResults.values')}
+        </Typography>
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mb: 2 }}>
+          {analysis.values.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">{t('groupResults.noValues')}</Typography>
+          ) : analysis.values.map(support => (
+            <Chip
+              key={support.value}
+              label={`${valueLabel(support.value, t)} · ${support.participants.join(', ')}`}
+              color={support.participants.length === group.responses.length && group.responses.length > 1 ? 'success' : 'default'}
+              variant="outlined"
+            />
+          ))}
+        </Box>
+
+        {analysis.conflicts.length > 0 && (
+          <>
+            <Typography variant="subtitle1" gutterBottom>
+              {t('groupResults.conflicts')}
+            </Typography>
+            {analysis.conflicts.map(({ tension, participants }) => (
+              <Paper
+                key={`${tension.id}-${participants.join('-')}`}
+                elevation={0}
+                sx={{ p: 2, mb: 1, bgcolor: '#fff8e1' }}
+              >
+                <Typography variant="body2">
+                  {t('groupResults.conflict', {
+                    first: participants[0],
+                    firstValue: valueLabel(tension.values[0], t),
+                    second: participants[1],
+                    secondValue: valueLabel(tension.values[1], t),
+                  })}
+                  {tension.reason && ` ${tension.reason}`}
+                </Typography>
+              </Paper>
+            ))}
+          </>
+        )}
+      </Box>
+
+      <Box sx={{ mb: 4 }}>
+        <Typography variant="h6" gutterBottom>
+          {t('groupResults.intuitions')}
+        </Typography>
+        {group.responses.map(response => (
+          <Typography key={response.id} variant="body2" sx={{ mb: 1 }}>
+            <strong>{response.participant}:</strong> "{response.initialIntuition}"
+          </Typography>
+        ))}
+      </Box>
+    </Box>
+  );
+};
+
+export default GroupResults;
@@ -0,0 +1,52 @@
+import React, { createContext, useEffect, useMemo, useState } from 'react';
+import {
+  createTranslator,
+  DateStyle,
+  DEFAULT_LOCALE,
+  detectLocale,
+  formatDate,
+  loadLocalePreference,
+  Locale,
+  saveLocalePreference,
+  Translate,
+} from '../../services/i18n/i18n';
+
+export interface I18n {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+  formatDate: (value: string | Date, style?: DateStyle) => string;
+}
+
+const i18nFor = (locale: Locale, setLocale: (locale: Locale) => void): I18n => ({
+  locale,
+  setLocale,
+  t: createTranslator(locale),
+  formatDate: (value, style) => formatDate(value, locale, style),
+});
+
+// English until a provider says otherwise, so components also render on their own
+export const I18nContext = createContext<I18n>(i18nFor(DEFAULT_LOCALE, () => undefined));
+
+interface I18nProviderProps {
+  children: React.ReactNode;
+  initialLocale?: Locale;
+}
+
+// Starts from the remembered language, then the browser's, and remembers every switch
+const I18nProvider = ({ children, initialLocale }: I18nProviderProps) => {
+  const [locale, setLocale] = useState<Locale>(() => initialLocale || loadLocalePreference() || detectLocale());
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo(() => i18nFor(locale, (next: Locale) => {
+    setLocale(next);
+    saveLocalePreference(next);
+  }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
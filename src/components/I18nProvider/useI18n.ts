@@ -0,0 +1,5 @@
+import { useContext } from 'react';
+import { I18nContext } from './I18nProvider';
+
+// The current language with its translator and date formatting
+export const useI18n = () => useContext(I18nContext);
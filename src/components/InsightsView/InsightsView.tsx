@@ -0,0 +1,349 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  CircularProgress,
+  Container,
+  List,
+  ListItemButton,
+  ListItemText,
+  Paper,
+  Stack,
+  Typography,
+} from '@mui/material';
+import { IntuitionMatch, JournalEntry } from '../../types/journal';
+import { journalStorage as defaultJournalStorage, JournalStorage } from '../../services/journal/journalStorage';
+import { BALANCE_BANDS } from '../../services/journal/journalFilters';
+import { TIME_HORIZON_BANDS } from '../../services/calibration/calibration';
+import { choiceLabel, INTUITION_CHOICES } from '../../services/checkIns/reflectionChoices';
+import {
+  balanceDistribution,
+  biasFrequency,
+  confidenceByTag,
+  InsightGroup,
+  intuitionMatches,
+  timeHorizonDistribution,
+  trendPoints,
+  valueFrequency,
+} from '../../services/insights/insights';
+import { biasName } from '../../services/analysis/biases';
+import { valueLabel } from '../../services/values/valueProfile';
+import { tagLabel } from '../../services/journal/journalTags';
+import { MessageKey, Translate } from '../../services/i18n/i18n';
+import BarChart from '../BarChart/BarChart';
+import LineChart from '../LineChart/LineChart';
+import { useI18n } from '../I18nProvider/useI18n';
+
+// Long tails of values and biases would drown out the ones that matter
+const MAX_BARS = 8;
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const decisionCount = (count: number, t: Translate) => t('insights.decisions', { count });
+
+const bandLabel = (bands: { band: string; label: MessageKey }[], key: string, t: Translate) => {
+  const label = bands.find(band => band.band === key)?.label;
+  return label ? t(label) : key;
+};
+
+// Which bar of which chart the user picked to see the entries behind it
+interface Selection {
+  chart: string;
+  key: string;
+}
+
+interface ChartSectionProps {
+  id: string;
+  title: string;
+  description: string;
+  groups: InsightGroup[];
+  labelFor?: (key: string) => string;
+  formatValue?: (value: number) => string;
+  showCount?: boolean;
+  max?: number;
+  entries: JournalEntry[];
+  selection: Selection | null;
+  onSelect: (selection: Selection | null) => void;
+  emptyMessage?: string;
+}
+
+const EntryLinks = ({ title, entries }: { title: string; entries: JournalEntry[] }) => {
+  const { formatDate } = useI18n();
+
+  return (
+    <Paper elevation={0} sx={{ mt: 1, border: '1px solid #e0e0e0' }}>
+      <Typography variant="subtitle2" sx={{ px: 2, pt: 1 }}>
+        {title}
+      </Typography>
+      <List dense>
+        {entries.map((entry) => (
+          <ListItemButton key={entry.id} component={RouterLink} to={`/journal/${entry.id}`}>
+            <ListItemText
+              primary={entry.decision.question}
+              secondary={formatDate(entry.createdAt)}
+            />
+          </ListItemButton>
+        ))}
+      </List>
+    </Paper>
+  );
+};
+
+// A bar chart whose bars reveal links to the journal entries they count
+const ChartSection = ({
+  id,
+  title,
+  description,
+  groups,
+  labelFor = key => key,
+  formatValue,
+  showCount = false,
+  max,
+  entries,
+  selection,
+  onSelect,
+  emptyMessage,
+}: ChartSectionProps) => {
+  const { t } = useI18n();
+  const selectedKey = selection?.chart === id ? selection.key : undefined;
+  const selectedGroup = groups.find(group => group.key === selectedKey);
+  const selectedEntries = (selectedGroup?.entryIds || [])
+    .map(entryId => entries.find(entry => entry.id === entryId))
+    .filter((entry): entry is JournalEntry => !!entry);
+
+  return (
+    <Box sx={{ mb: 4 }}>
+      <Typography variant="h6" gutterBottom>
+        {title}
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+        {description}
+      </Typography>
+
+      {groups.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          {emptyMessage}
+        </Typography>
+      ) : (
+        <BarChart
+          bars={groups.slice(0, MAX_BARS).map(group => ({
+            key: group.key,
+            label: labelFor(group.key),
+            value: group.value,
+            ...(showCount ? { detail: decisionCount(group.count, t) } : {}),
+          }))}
+          max={max}
+          formatValue={formatValue}
+          selectedKey={selectedKey}
+          onSelect={(key) => onSelect(key === selectedKey ? null : { chart: id, key })}
+        />
+      )}
+
+      {selectedGroup && (
+        <EntryLinks
+          title={`${labelFor(selectedGroup.key)}: ${decisionCount(selectedEntries.length, t)}`}
+          entries={selectedEntries}
+        />
+      )}
+    </Box>
+  );
+};
+
+interface InsightsViewProps {
+  journal?: JournalStorage;
+}
+
+const InsightsView = ({ journal = defaultJournalStorage }: InsightsViewProps) => {
+  const { t, formatDate } = useI18n();
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selection, setSelection] = useState<Selection | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    journal.listEntries()
+      .then((loaded) => {
+        if (!cancelled) {
+          setEntries(loaded);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(t('journal.error.load'));
+        }
+        console.error(err);
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [journal, t]);
+
+  const trend = useMemo(() => trendPoints(entries), [entries]);
+  const intuition = useMemo(() => intuitionMatches(entries), [entries]);
+  const tagConfidence = useMemo(() => confidenceByTag(entries), [entries]);
+
+  const rated = entries.filter(entry => entry.decision.confidenceScore !== undefined);
+  const averageConfidence = rated.reduce((sum, entry) => sum + entry.decision.confidenceScore!, 0) / (rated.length || 1);
+
+  const sectionProps = { entries, selection, onSelect: setSelection };
+  const formatCount = (count: number) => decisionCount(count, t);
+
+  return (
+    <Container maxWidth="md">
+      <Paper elevation={3} sx={{ p: 4, mt: 4 }}>
+        <Typography variant="h4" gutterBottom>
+          {t('insights.title')}
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          {t('insights.help')}
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : entries.length === 0 ? (
+          <Alert severity="info">
+            {t('insights.empty')}
+          </Alert>
+        ) : (
+          <>
+            <Stack direction="row" spacing={4} sx={{ mb: 4, flexWrap: 'wrap' }}>
+              <Box>
+                <Typography variant="h5">{entries.length}</Typography>
+                <Typography variant="caption" color="text.secondary">{t('calibration.table.decisions')}</Typography>
+              </Box>
+              <Box>
+                <Typography variant="h5">{rated.length > 0 ? `${Math.round(averageConfidence)}%` : '–'}</Typography>
+                <Typography variant="caption" color="text.secondary">{t('calibration.summary.confidence')}</Typography>
+              </Box>
+              <Box>
+                <Typography variant="h5">{intuition.compared > 0 ? percent(intuition.matchRate) : '–'}</Typography>
+                <Typography variant="caption" color="text.secondary">{t('insights.intuitionMatched')}</Typography>
+              </Box>
+            </Stack>
+
+            <Typography variant="h6" gutterBottom>
+              {t('insights.approachOverTime')}
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              {t('insights.approachOverTimeHelp')}
+            </Typography>
+            <Box sx={{ mb: 2 }}>
+              <LineChart
+                ariaLabel={t('insights.approachOverTimeLabel')}
+                min={0}
+                max={100}
+                formatValue={value => String(Math.round(value))}
+                points={trend.map(point => ({
+                  label: `${formatDate(point.createdAt)} · ${point.question}`,
+                  value: point.balanceScore,
+                  to: `/journal/${point.entryId}`,
+                }))}
+              />
+            </Box>
+            <ChartSection
+              id="balance"
+              title={t('insights.approach')}
+              description={t('insights.approachHelp')}
+              groups={balanceDistribution(entries)}
+              labelFor={key => bandLabel(BALANCE_BANDS, key, t)}
+              formatValue={formatCount}
+              {...sectionProps}
+            />
+
+            <Typography variant="h6" gutterBottom>
+              {t('insights.timeHorizonOverTime')}
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              {t('insights.timeHorizonOverTimeHelp')}
+            </Typography>
+            <Box sx={{ mb: 2 }}>
+              <LineChart
+                ariaLabel={t('insights.timeHorizonOverTimeLabel')}
+                min={0}
+                max={100}
+                formatValue={value => String(Math.round(value))}
+                points={trend.map(point => ({
+                  label: `${formatDate(point.createdAt)} · ${point.question}`,
+                  value: point.timeHorizon,
+                  to: `/journal/${point.entryId}`,
+                }))}
+              />
+            </Box>
+            <ChartSection
+              id="time-horizon"
+              title={t('insights.timeHorizon')}
+              description={t('insights.timeHorizonHelp')}
+              groups={timeHorizonDistribution(entries)}
+              labelFor={key => bandLabel(TIME_HORIZON_BANDS, key, t)}
+              formatValue={formatCount}
+              {...sectionProps}
+            />
+
+            <ChartSection
+              id="values"
+              title={t('insights.values')}
+              description={t('insights.valuesHelp')}
+              groups={valueFrequency(entries)}
+              labelFor={key => valueLabel(key, t)}
+              formatValue={formatCount}
+              emptyMessage={t('insights.valuesEmpty')}
+              {...sectionProps}
+            />
+
+            <ChartSection
+              id="biases"
+              title={t('insights.biases')}
+              description={t('insights.biasesHelp')}
+              groups={biasFrequency(entries)}
+              labelFor={key => biasName(key, t)}
+              formatValue={formatCount}
+              emptyMessage={t('insights.biasesEmpty')}
+              {...sectionProps}
+            />
+
+            <ChartSection
+              id="confidence"
+              title={t('insights.confidence')}
+              description={t('insights.confidenceHelp')}
+              groups={tagConfidence}
+              labelFor={key => tagLabel(key, t)}
+              max={100}
+              formatValue={value => `${Math.round(value)}%`}
+              showCount
+              emptyMessage={t('insights.confidenceEmpty')}
+              {...sectionProps}
+            />
+
+            <ChartSection
+              id="intuition"
+              title={t('insights.intuition')}
+              description={t('insights.intuitionHelp')}
+              groups={intuition.compared > 0 ? intuition.groups : []}
+              labelFor={key => choiceLabel(INTUITION_CHOICES, key as IntuitionMatch, t)}
+              formatValue={formatCount}
+              emptyMessage={t('insights.intuitionEmpty')}
+              {...sectionProps}
+            />
+          </>
+        )}
+      </Paper>
+    </Container>
+  );
+};
+
+export default InsightsView;
@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react';
+import { Button, Dialog, DialogActions, DialogContent, DialogContentText, DialogTitle } from '@mui/material';
+import InstallMobileIcon from '@mui/icons-material/InstallMobile';
+import { BeforeInstallPromptEvent, isStandalone, needsManualInstall } from '../../services/pwa/installPrompt';
+import { useI18n } from '../I18nProvider/useI18n';
+
+// Offers to install the app where the browser allows it, and explains the steps on iOS
+const InstallButton = () => {
+  const { t } = useI18n();
+  const [installEvent, setInstallEvent] = useState<BeforeInstallPromptEvent | null>(null);
+  const [installed, setInstalled] = useState(isStandalone);
+  const [showSteps, setShowSteps] = useState(false);
+
+  useEffect(() => {
+    const handleInstallable = (event: Event) => {
+      event.preventDefault(); // Keeps the browser's own banner away; the button offers it instead
+      setInstallEvent(event as BeforeInstallPromptEvent);
+    };
+    const handleInstalled = () => {
+      setInstallEvent(null);
+      setInstalled(true);
+    };
+    window.addEventListener('beforeinstallprompt', handleInstallable);
+    window.addEventListener('appinstalled', handleInstalled);
+    return () => {
+      window.removeEventListener('beforeinstallprompt', handleInstallable);
+      window.removeEventListener('appinstalled', handleInstalled);
+    };
+  }, []);
+
+  const handleInstall = async () => {
+    if (!installEvent) {
+      setShowSteps(true);
+      return;
+    }
+    try {
+      await installEvent.prompt();
+      await installEvent.userChoice;
+    } catch (err) {
+      console.error(err);
+    }
+    setInstallEvent(null); // The browser's prompt can only be shown once
+  };
+
+  if (installed || (!installEvent && !needsManualInstall())) {
+    return null;
+  }
+
+  return (
+    <>
+      <Button color="inherit" startIcon={<InstallMobileIcon />} onClick={handleInstall}>
+        {t('pwa.install')}
+      </Button>
+
+      <Dialog open={showSteps} onClose={() => setShowSteps(false)}>
+        <DialogTitle>{t('pwa.installTitle')}</DialogTitle>
+        <DialogContent>
+          <DialogContentText>{t('pwa.installSteps')}</DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setShowSteps(false)}>{t('common.close')}</Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
+
+export default InstallButton;
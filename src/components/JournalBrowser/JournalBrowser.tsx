@@ -0,0 +1,290 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link as RouterLink, useNavigate } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Container,
+  FormControl,
+  InputLabel,
+  List,
+  ListItemButton,
+  ListItemText,
+  MenuItem,
+  Paper,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import { JournalEntry } from '../../types/journal';
+import { journalStorage as defaultJournalStorage, JournalStorage } from '../../services/journal/journalStorage';
+import {
+  BALANCE_BANDS,
+  BalanceBand,
+  collectFacets,
+  filterJournalEntries,
+  JournalFilters,
+  JournalSort,
+} from '../../services/journal/journalFilters';
+import { tagLabel, withDefaultTag } from '../../services/journal/journalTags';
+import { valueLabel } from '../../services/values/valueProfile';
+import { parseDecisionFile } from '../../services/export/decisionFile';
+import { readFileText } from '../../services/export/download';
+import { errorMessage, MessageKey } from '../../services/i18n/i18n';
+import { useI18n } from '../I18nProvider/useI18n';
+
+const SORT_OPTIONS: { sort: JournalSort; label: MessageKey }[] = [
+  { sort: 'newest', label: 'journal.sort.newest' },
+  { sort: 'oldest', label: 'journal.sort.oldest' },
+  { sort: 'most-confident', label: 'journal.sort.mostConfident' },
+  { sort: 'least-confident', label: 'journal.sort.leastConfident' },
+];
+
+interface JournalBrowserProps {
+  journal?: JournalStorage;
+}
+
+const renderChips = (selected: unknown, labelFor: (value: string) => string = value => value) => (
+  <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+    {(selected as string[]).map((value) => (
+      <Chip key={value} label={labelFor(value)} size="small" />
+    ))}
+  </Box>
+);
+
+const JournalBrowser = ({ journal = defaultJournalStorage }: JournalBrowserProps) => {
+  const { t, formatDate } = useI18n();
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [filters, setFilters] = useState<JournalFilters>({});
+  const [sort, setSort] = useState<JournalSort>('newest');
+  const [importing, setImporting] = useState(false);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    let cancelled = false;
+    journal.listEntries()
+      .then((loaded) => {
+        if (!cancelled) {
+          setEntries(loaded);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(t('journal.error.load'));
+        }
+        console.error(err);
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [journal, t]);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allows picking the same file again after fixing it
+    if (!file) {
+      return;
+    }
+
+    setImporting(true);
+    setError(null);
+    try {
+      const report = parseDecisionFile(await readFileText(file));
+      const entry = await journal.importEntry({
+        decision: report.decision,
+        analysis: report.analysis,
+        tags: withDefaultTag(report.tags || []),
+        notes: report.notes || '',
+        createdAt: report.createdAt || new Date().toISOString(),
+        ...(report.checkIns ? { checkIns: report.checkIns } : {}),
+        ...(report.revisions ? { revisions: report.revisions } : {}),
+        ...(report.finalRevision !== undefined ? { finalRevision: report.finalRevision } : {}),
+      });
+      navigate(`/journal/${entry.id}`);
+    } catch (err) {
+      setError(errorMessage(err, t, 'journal.error.import'));
+      console.error(err);
+      setImporting(false);
+    }
+  };
+
+  const facets = useMemo(() => collectFacets(entries), [entries]);
+  const visibleEntries = useMemo(() => filterJournalEntries(entries, filters, sort), [entries, filters, sort]);
+
+  const updateFilter = <K extends keyof JournalFilters>(key: K, value: JournalFilters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const bandLabel = (band: string) => {
+    const label = BALANCE_BANDS.find(option => option.band === band)?.label;
+    return label ? t(label) : band;
+  };
+
+  return (
+    <Container maxWidth="md">
+      <Paper elevation={3} sx={{ p: 4, mt: 4 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 1 }}>
+          <Typography variant="h4" gutterBottom>
+            {t('journal.title')}
+          </Typography>
+          <Button component="label" variant="outlined" startIcon={<FileUploadIcon />} disabled={importing}>
+            {t('journal.import')}
+            <input type="file" accept="application/json,.json" hidden onChange={handleImport} />
+          </Button>
+        </Box>
+
+        <TextField
+          fullWidth
+          label={t('journal.search')}
+          variant="outlined"
+          value={filters.search || ''}
+          onChange={(e) => updateFilter('search', e.target.value)}
+          sx={{ mb: 2 }}
+        />
+
+        <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2, mb: 2 }}>
+          <FormControl fullWidth>
+            <InputLabel>{t('journal.tags')}</InputLabel>
+            <Select
+              multiple
+              label={t('journal.tags')}
+              value={filters.tags || []}
+              onChange={(e) => updateFilter('tags', e.target.value as string[])}
+              renderValue={(selected) => renderChips(selected, tag => tagLabel(tag, t))}
+            >
+              {facets.tags.map((tag) => (
+                <MenuItem key={tag} value={tag}>{tagLabel(tag, t)}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControl fullWidth>
+            <InputLabel>{t('journal.values')}</InputLabel>
+            <Select
+              multiple
+              label={t('journal.values')}
+              value={filters.values || []}
+              onChange={(e) => updateFilter('values', e.target.value as string[])}
+              renderValue={(selected) => renderChips(selected, value => valueLabel(value, t))}
+            >
+              {facets.values.map((value) => (
+                <MenuItem key={value} value={value}>{valueLabel(value, t)}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <TextField
+            label={t('journal.from')}
+            type="date"
+            value={filters.from || ''}
+            onChange={(e) => updateFilter('from', e.target.value || undefined)}
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+
+          <TextField
+            label={t('journal.to')}
+            type="date"
+            value={filters.to || ''}
+            onChange={(e) => updateFilter('to', e.target.value || undefined)}
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+
+          <FormControl fullWidth>
+            <InputLabel>{t('journal.approach')}</InputLabel>
+            <Select
+              multiple
+              label={t('journal.approach')}
+              value={filters.balanceBands || []}
+              onChange={(e) => updateFilter('balanceBands', e.target.value as BalanceBand[])}
+              renderValue={(selected) => renderChips(selected, bandLabel)}
+            >
+              {BALANCE_BANDS.map(({ band, label }) => (
+                <MenuItem key={band} value={band}>{t(label)}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControl fullWidth>
+            <InputLabel>{t('journal.sortBy')}</InputLabel>
+            <Select
+              label={t('journal.sortBy')}
+              value={sort}
+              onChange={(e) => setSort(e.target.value as JournalSort)}
+            >
+              {SORT_OPTIONS.map((option) => (
+                <MenuItem key={option.sort} value={option.sort}>{t(option.label)}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
+
+        <Button size="small" onClick={() => setFilters({})} sx={{ mb: 2 }}>
+          {t('journal.clearFilters')}
+        </Button>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : entries.length === 0 ? (
+          <Alert severity="info">
+            {t('journal.empty')}
+          </Alert>
+        ) : visibleEntries.length === 0 ? (
+          <Alert severity="info">
+            {t('journal.noMatches')}
+          </Alert>
+        ) : (
+          <List>
+            {visibleEntries.map((entry) => (
+              <ListItemButton
+                key={entry.id}
+                component={RouterLink}
+                to={`/journal/${entry.id}`}
+                divider
+              >
+                <ListItemText
+                  primary={entry.decision.question}
+                  secondary={
+                    <React.Fragment>
+                      <Typography component="span" variant="body2" color="text.secondary">
+                        {formatDate(entry.createdAt)}
+                        {entry.decision.confidenceScore !== undefined &&
+                          ` · ${t('journal.confident', { confidence: entry.decision.confidenceScore })}`}
+                      </Typography>
+                      <Stack component="span" direction="row" spacing={0.5} sx={{ mt: 0.5, flexWrap: 'wrap' }}>
+                        {entry.tags.map((tag) => (
+                          <Chip key={tag} label={tagLabel(tag, t)} size="small" component="span" />
+                        ))}
+                      </Stack>
+                    </React.Fragment>
+                  }
+                />
+              </ListItemButton>
+            ))}
+          </List>
+        )}
+      </Paper>
+    </Container>
+  );
+};
+
+export default JournalBrowser;
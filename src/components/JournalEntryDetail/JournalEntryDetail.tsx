@@ -0,0 +1,346 @@
+import { useEffect, useState } from 'react';
+import { Link as RouterLink, useNavigate, useParams } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Container,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  Divider,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { JournalEntry } from '../../types/journal';
+import { journalStorage as defaultJournalStorage, JournalStorage } from '../../services/journal/journalStorage';
+import { DEFAULT_JOURNAL_TAG, JOURNAL_TAGS, tagLabel, withDefaultTag } from '../../services/journal/journalTags';
+import { isCheckInDue } from '../../services/checkIns/checkInService';
+import { chosenRevision } from '../../services/revisions/revisions';
+import {
+  choiceLabel,
+  FOLLOW_THROUGH_CHOICES,
+  INTUITION_CHOICES,
+  SATISFACTION_LABELS,
+} from '../../services/checkIns/reflectionChoices';
+import AnalysisView from '../AnalysisView/AnalysisView';
+import DecisionSummary from '../DecisionSummary/DecisionSummary';
+import ExportMenu from '../ExportMenu/ExportMenu';
+import RevisionHistory from '../RevisionHistory/RevisionHistory';
+import SafetyDialog from '../SafetyDialog/SafetyDialog';
+import { useSafetyScreening } from '../SafetyDialog/useSafetyScreening';
+import { useI18n } from '../I18nProvider/useI18n';
+
+interface JournalEntryDetailProps {
+  journal?: JournalStorage;
+}
+
+const JournalEntryDetail = ({ journal = defaultJournalStorage }: JournalEntryDetailProps) => {
+  const { id = '' } = useParams();
+  const navigate = useNavigate();
+  const { t, formatDate } = useI18n();
+
+  const [entry, setEntry] = useState<JournalEntry | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Editable fields
+  const [tags, setTags] = useState<string[]>([]);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    journal.getEntry(id)
+      .then((loaded) => {
+        if (cancelled) {
+          return;
+        }
+        setEntry(loaded || null);
+        setTags(loaded?.tags || []);
+        setNotes(loaded?.notes || '');
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(t('entry.error.load'));
+        }
+        console.error(err);
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [journal, id, t]);
+
+  // Only what the user types now is screened, not notes saved earlier
+  const safety = useSafetyScreening({ notes: entry && notes !== entry.notes ? notes : '' });
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      setEntry(await journal.updateEntry(id, { tags, notes }));
+      setSaved(true);
+    } catch (err) {
+      setError(t('entry.error.save'));
+      console.error(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Settling on another revision makes it the entry's decision and analysis
+  const handleMarkFinal = async (number: number | null) => {
+    if (!entry) {
+      return;
+    }
+    const marked = chosenRevision(entry.revisions || [], number);
+    setError(null);
+    try {
+      setEntry(await journal.updateEntry(id, {
+        ...(marked ? {
+          decision: { ...marked.decision, id: entry.id, confidenceScore: entry.decision.confidenceScore },
+          analysis: marked.analysis,
+        } : {}),
+        finalRevision: number ?? undefined,
+      }));
+    } catch (err) {
+      setError(t('entry.error.finalRevision'));
+      console.error(err);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await journal.deleteEntry(id);
+      navigate('/journal');
+    } catch (err) {
+      setShowDeleteDialog(false);
+      setError(t('entry.error.delete'));
+      console.error(err);
+    }
+  };
+
+  // Tags already on the entry stay selectable even if they are no longer offered
+  const tagChoices = Array.from(new Set([...JOURNAL_TAGS, ...(entry?.tags || [])]));
+  const hasChanges = !!entry && (notes !== entry.notes || tags.join() !== entry.tags.join());
+
+  return (
+    <Container maxWidth="md">
+      <Paper elevation={3} sx={{ p: 4, mt: 4 }}>
+        <Button component={RouterLink} to="/journal" sx={{ mb: 2 }}>
+          ← {t('entry.back')}
+        </Button>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : !entry ? (
+          <Alert severity="warning">
+            {t('entry.missing')}
+          </Alert>
+        ) : (
+          <>
+            <Typography variant="h4" gutterBottom>
+              {entry.decision.question}
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+              {t('entry.saved', { date: formatDate(entry.createdAt, 'dateTime') })}
+              {entry.updatedAt && ` · ${t('entry.edited', { date: formatDate(entry.updatedAt, 'dateTime') })}`}
+            </Typography>
+
+            <Box sx={{ mb: 3 }}>
+              <ExportMenu
+                report={{
+                  decision: entry.decision,
+                  analysis: entry.analysis,
+                  tags: entry.tags,
+                  notes: entry.notes,
+                  checkIns: entry.checkIns,
+                  createdAt: entry.createdAt,
+                  revisions: entry.revisions,
+                  finalRevision: entry.finalRevision,
+                }}
+              />
+            </Box>
+
+            <DecisionSummary decision={entry.decision} />
+
+            <Divider sx={{ my: 3 }} />
+            <Typography variant="h5" gutterBottom>
+              {t('dashboard.analysisTitle')}
+            </Typography>
+
+            <AnalysisView analysis={entry.analysis} decision={entry.decision} />
+
+            <RevisionHistory
+              revisions={entry.revisions || []}
+              finalRevision={entry.finalRevision}
+              onMarkFinal={handleMarkFinal}
+            />
+
+            {entry.checkIns && entry.checkIns.length > 0 && (
+              <>
+                <Divider sx={{ my: 3 }} />
+                <Typography variant="h6" gutterBottom>
+                  🕰️ {t('entry.checkIns')}
+                </Typography>
+
+                {entry.checkIns.map((checkIn) => (
+                  <Paper key={checkIn.id} elevation={0} sx={{ p: 2, mb: 2, border: '1px solid #e0e0e0' }}>
+                    <Typography variant="subtitle2" gutterBottom>
+                      {formatDate(checkIn.scheduledFor)}
+                    </Typography>
+                    {checkIn.reflection ? (
+                      <>
+                        <Typography variant="body2">
+                          <strong>{t('entry.followedThrough')}</strong>{' '}
+                          {choiceLabel(FOLLOW_THROUGH_CHOICES, checkIn.reflection.followedThrough, t)}
+                        </Typography>
+                        <Typography variant="body2">
+                          <strong>{t('entry.outcome')}</strong> {t(SATISFACTION_LABELS[checkIn.reflection.outcomeSatisfaction])}
+                        </Typography>
+                        <Typography variant="body2">
+                          <strong>{t('entry.intuitionMatched')}</strong>{' '}
+                          {choiceLabel(INTUITION_CHOICES, checkIn.reflection.intuitionMatched, t)}
+                        </Typography>
+                        {checkIn.reflection.notes && (
+                          <Typography variant="body2" sx={{ mt: 1 }}>
+                            {checkIn.reflection.notes}
+                          </Typography>
+                        )}
+                      </>
+                    ) : isCheckInDue(checkIn, new Date()) ? (
+                      <Button
+                        component={RouterLink}
+                        to={`/journal/${entry.id}/check-ins/${checkIn.id}`}
+                        variant="contained"
+                        size="small"
+                      >
+                        {t('entry.reflect')}
+                      </Button>
+                    ) : (
+                      <Typography variant="body2" color="text.secondary">
+                        {t('entry.upcoming')}
+                      </Typography>
+                    )}
+                  </Paper>
+                ))}
+              </>
+            )}
+
+            <Divider sx={{ my: 3 }} />
+            <Typography variant="h6" gutterBottom>
+              {t('entry.notes')}
+            </Typography>
+
+            <FormControl fullWidth sx={{ mb: 2 }}>
+              <InputLabel>{t('journal.tags')}</InputLabel>
+              <Select
+                multiple
+                value={tags}
+                onChange={(e) => {
+                  setTags(withDefaultTag(e.target.value as string[]));
+                  setSaved(false);
+                }}
+                renderValue={(selected) => (
+                  <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                    {(selected as string[]).map((value) => (
+                      <Chip key={value} label={tagLabel(value, t)} />
+                    ))}
+                  </Box>
+                )}
+              >
+                {tagChoices.map((tag) => (
+                  <MenuItem key={tag} value={tag} disabled={tag === DEFAULT_JOURNAL_TAG}>
+                    {tagLabel(tag, t)}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <TextField
+              fullWidth
+              label={t('dashboard.journal.notes')}
+              multiline
+              rows={3}
+              value={notes}
+              onChange={(e) => {
+                setNotes(e.target.value);
+                setSaved(false);
+              }}
+              sx={{ mb: 2 }}
+            />
+
+            {saved && !hasChanges && (
+              <Alert severity="success" sx={{ mb: 2 }}>
+                {t('entry.savedChanges')}
+              </Alert>
+            )}
+
+            <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+              <Button color="error" variant="outlined" onClick={() => setShowDeleteDialog(true)}>
+                {t('entry.delete')}
+              </Button>
+              <Button variant="contained" onClick={handleSave} disabled={saving || !hasChanges}>
+                {saving ? <CircularProgress size={24} color="inherit" /> : t('entry.save')}
+              </Button>
+            </Box>
+          </>
+        )}
+      </Paper>
+
+      <Dialog
+        open={showDeleteDialog}
+        onClose={() => setShowDeleteDialog(false)}
+        aria-labelledby="delete-entry-dialog-title"
+      >
+        <DialogTitle id="delete-entry-dialog-title">
+          {t('entry.deleteTitle')}
+        </DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            {t('entry.deleteDescription')}
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setShowDeleteDialog(false)} color="primary">
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleDelete} color="error" variant="contained">
+            {t('common.delete')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {safety.prompt && (
+        <SafetyDialog open severity={safety.prompt.severity} onClose={safety.dismiss} />
+      )}
+    </Container>
+  );
+};
+
+export default JournalEntryDetail;
@@ -0,0 +1,31 @@
+import { MenuItem, Select } from '@mui/material';
+import LanguageIcon from '@mui/icons-material/Language';
+import { isLocale, LOCALES } from '../../services/i18n/i18n';
+import { useI18n } from '../I18nProvider/useI18n';
+
+const LanguageSwitcher = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <Select
+      size="small"
+      variant="standard"
+      disableUnderline
+      value={locale}
+      onChange={(e) => {
+        if (isLocale(e.target.value)) {
+          setLocale(e.target.value);
+        }
+      }}
+      inputProps={{ 'aria-label': t('nav.language') }}
+      startAdornment={<LanguageIcon fontSize="small" sx={{ mr: 0.5 }} />}
+      sx={{ ml: 1 }}
+    >
+      {LOCALES.map(({ code, name }) => (
+        <MenuItem key={code} value={code} lang={code}>{name}</MenuItem>
+      ))}
+    </Select>
+  );
+};
+
+export default LanguageSwitcher;
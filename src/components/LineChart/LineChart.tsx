@@ -0,0 +1,67 @@
+import { Link as RouterLink } from 'react-router-dom';
+import { Box } from '@mui/material';
+
+export interface LineChartPoint {
+  label: string; // Shown on hover
+  value: number;
+  to?: string; // Makes the point a link, e.g. to its journal entry
+}
+
+interface LineChartProps {
+  points: LineChartPoint[];
+  min?: number;
+  max?: number;
+  width?: number;
+  height?: number;
+  ariaLabel: string;
+  formatValue?: (value: number) => string;
+}
+
+const PADDING = 32;
+
+// Small dependency-free SVG line chart; points are spaced evenly in order
+const LineChart = ({
+  points,
+  min = 0,
+  max = 1,
+  width = 480,
+  height = 200,
+  ariaLabel,
+  formatValue = value => value.toFixed(2),
+}: LineChartProps) => {
+  const plotWidth = width - PADDING * 2;
+  const plotHeight = height - PADDING * 2;
+  const range = max - min || 1;
+  const toX = (index: number) => PADDING + (points.length > 1 ? (index / (points.length - 1)) * plotWidth : plotWidth / 2);
+  const toY = (value: number) => height - PADDING - ((value - min) / range) * plotHeight;
+  const path = points.map((point, index) => `${index === 0 ? 'M' : 'L'}${toX(index)},${toY(point.value)}`).join(' ');
+
+  return (
+    <Box sx={{ width: '100%', maxWidth: width }}>
+      <svg viewBox={`0 0 ${width} ${height}`} width="100%" role="img" aria-label={ariaLabel}>
+        {[min, (min + max) / 2, max].map(tick => (
+          <g key={tick}>
+            <line x1={PADDING} y1={toY(tick)} x2={width - PADDING} y2={toY(tick)} stroke="#f5f5f5" />
+            <text x={PADDING - 6} y={toY(tick) + 3} fontSize={10} textAnchor="end" fill="#757575">
+              {formatValue(tick)}
+            </text>
+          </g>
+        ))}
+        <line x1={PADDING} y1={height - PADDING} x2={width - PADDING} y2={height - PADDING} stroke="#9e9e9e" />
+        <path d={path} fill="none" stroke="#2196f3" strokeWidth={2} />
+        {points.map((point, index) => {
+          const marker = (
+            <circle cx={toX(index)} cy={toY(point.value)} r={point.to ? 5 : 3} fill="#2196f3">
+              <title>{`${point.label}: ${formatValue(point.value)}`}</title>
+            </circle>
+          );
+          return point.to
+            ? <RouterLink key={index} to={point.to}>{marker}</RouterLink>
+            : <g key={index}>{marker}</g>;
+        })}
+      </svg>
+    </Box>
+  );
+};
+
+export default LineChart;
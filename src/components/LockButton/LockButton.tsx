@@ -0,0 +1,29 @@
+import { IconButton, Tooltip } from '@mui/material';
+import LockOutlinedIcon from '@mui/icons-material/LockOutlined';
+import { vault as defaultVault, Vault } from '../../services/encryption/vault';
+import { useI18n } from '../I18nProvider/useI18n';
+import { useVaultStatus } from '../VaultGate/useVaultStatus';
+
+interface LockButtonProps {
+  vault?: Vault;
+}
+
+// Locks encrypted data straight away; only shown once encryption is on
+const LockButton = ({ vault = defaultVault }: LockButtonProps) => {
+  const { t } = useI18n();
+  const status = useVaultStatus(vault);
+
+  if (status !== 'unlocked') {
+    return null;
+  }
+
+  return (
+    <Tooltip title={t('nav.lock')}>
+      <IconButton color="inherit" aria-label={t('nav.lock')} onClick={() => vault.lock()}>
+        <LockOutlinedIcon />
+      </IconButton>
+    </Tooltip>
+  );
+};
+
+export default LockButton;
@@ -0,0 +1,123 @@
+import { FormEvent, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Container,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  Paper,
+  TextField,
+  Typography,
+} from '@mui/material';
+import LockOutlinedIcon from '@mui/icons-material/LockOutlined';
+import { Vault } from '../../services/encryption/vault';
+import { useI18n } from '../I18nProvider/useI18n';
+import LanguageSwitcher from '../LanguageSwitcher/LanguageSwitcher';
+
+interface LockScreenProps {
+  vault: Vault;
+}
+
+const LockScreen = ({ vault }: LockScreenProps) => {
+  const { t } = useI18n();
+  const [passphrase, setPassphrase] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showEraseDialog, setShowEraseDialog] = useState(false);
+
+  const handleUnlock = async (event: FormEvent) => {
+    event.preventDefault();
+    setUnlocking(true);
+    setError(null);
+    try {
+      // On success the gate swaps this screen for the app
+      if (!(await vault.unlock(passphrase))) {
+        setError(t('lock.wrongPassphrase'));
+        setUnlocking(false);
+      }
+    } catch (err) {
+      console.error(err);
+      setError(t('lock.error'));
+      setUnlocking(false);
+    }
+  };
+
+  const handleErase = async () => {
+    try {
+      await vault.erase();
+    } catch (err) {
+      console.error(err);
+      setShowEraseDialog(false);
+      setError(t('lock.error'));
+    }
+  };
+
+  return (
+    <Container maxWidth="sm">
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+        <LanguageSwitcher />
+      </Box>
+      <Paper component="form" onSubmit={handleUnlock} sx={{ p: 4, mt: 4, textAlign: 'center' }}>
+        <LockOutlinedIcon color="primary" sx={{ fontSize: 48 }} />
+        <Typography variant="h5" gutterBottom>
+          {t('lock.title')}
+        </Typography>
+        <Typography color="text.secondary" paragraph>
+          {t('lock.intro')}
+        </Typography>
+        {error && <Alert severity="error" sx={{ mb: 2, textAlign: 'left' }}>{error}</Alert>}
+        <TextField
+          type="password"
+          label={t('lock.passphrase')}
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          autoComplete="current-password"
+          autoFocus
+          fullWidth
+          sx={{ mb: 2 }}
+        />
+        <Button
+          type="submit"
+          variant="contained"
+          size="large"
+          disabled={!passphrase || unlocking}
+          startIcon={unlocking ? <CircularProgress size={20} color="inherit" /> : undefined}
+        >
+          {t('lock.unlock')}
+        </Button>
+      </Paper>
+
+      <Alert
+        severity="warning"
+        sx={{ mt: 3 }}
+        action={
+          <Button color="inherit" size="small" onClick={() => setShowEraseDialog(true)}>
+            {t('lock.erase')}
+          </Button>
+        }
+      >
+        {t('lock.forgotten')}
+      </Alert>
+
+      <Dialog open={showEraseDialog} onClose={() => setShowEraseDialog(false)} aria-labelledby="erase-dialog-title">
+        <DialogTitle id="erase-dialog-title">{t('lock.eraseTitle')}</DialogTitle>
+        <DialogContent>
+          <DialogContentText>{t('lock.eraseBody')}</DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setShowEraseDialog(false)}>{t('common.cancel')}</Button>
+          <Button onClick={handleErase} color="error">
+            {t('common.delete')}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Container>
+  );
+};
+
+export default LockScreen;
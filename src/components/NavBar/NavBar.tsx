@@ -0,0 +1,51 @@
+import { NavLink } from 'react-router-dom';
+import { AppBar, Button, Toolbar, Typography } from '@mui/material';
+import { DECIDE_PATH } from '../../services/wizard/decisionWizard';
+import { MessageKey } from '../../services/i18n/i18n';
+import { useI18n } from '../I18nProvider/useI18n';
+import LanguageSwitcher from '../LanguageSwitcher/LanguageSwitcher';
+import InstallButton from '../InstallButton/InstallButton';
+import LockButton from '../LockButton/LockButton';
+import SyncButton from '../SyncButton/SyncButton';
+
+const NAV_ITEMS: { to: string; label: MessageKey; end: boolean }[] = [
+  { to: DECIDE_PATH, label: 'nav.decide', end: false },
+  { to: '/journal', label: 'nav.journal', end: false },
+  { to: '/insights', label: 'nav.insights', end: false },
+  { to: '/groups', label: 'nav.groups', end: false },
+  { to: '/calibration', label: 'nav.calibration', end: false },
+  { to: '/values', label: 'nav.values', end: false },
+  { to: '/security', label: 'nav.security', end: false },
+];
+
+const NavBar = () => {
+  const { t } = useI18n();
+
+  return (
+    <AppBar position="static" color="default" elevation={0}>
+      <Toolbar>
+        <Typography variant="h6" component="div" sx={{ flexGrow: 1 }}>
+          ⚓ Anchor
+        </Typography>
+        {NAV_ITEMS.map(({ to, label, end }) => (
+          <Button
+            key={to}
+            component={NavLink}
+            to={to}
+            end={end}
+            sx={{ '&.active': { color: 'primary.main', fontWeight: 'bold' } }}
+            color="inherit"
+          >
+            {t(label)}
+          </Button>
+        ))}
+        <SyncButton />
+        <InstallButton />
+        <LockButton />
+        <LanguageSwitcher />
+      </Toolbar>
+    </AppBar>
+  );
+};
+
+export default NavBar;
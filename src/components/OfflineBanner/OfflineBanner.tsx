@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { Alert, Container } from '@mui/material';
+import CloudOffIcon from '@mui/icons-material/CloudOff';
+import { useI18n } from '../I18nProvider/useI18n';
+
+// Reassures the user while offline: nothing in the app needs the network
+const OfflineBanner = () => {
+  const { t } = useI18n();
+  const [online, setOnline] = useState(() => navigator.onLine !== false);
+
+  useEffect(() => {
+    const goOnline = () => setOnline(true);
+    const goOffline = () => setOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  if (online) {
+    return null;
+  }
+
+  return (
+    <Container maxWidth="md">
+      <Alert severity="info" icon={<CloudOffIcon />} sx={{ mt: 2 }}>
+        {t('pwa.offline')}
+      </Alert>
+    </Container>
+  );
+};
+
+export default OfflineBanner;
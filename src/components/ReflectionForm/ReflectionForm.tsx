@@ -0,0 +1,221 @@
+import { useEffect, useState } from 'react';
+import { Link as RouterLink, useNavigate, useParams } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Container,
+  FormControl,
+  FormControlLabel,
+  FormLabel,
+  Paper,
+  Radio,
+  RadioGroup,
+  Rating,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { FollowThrough, IntuitionMatch, JournalEntry } from '../../types/journal';
+import { journalStorage as defaultJournalStorage, JournalStorage } from '../../services/journal/journalStorage';
+import { checkInService as defaultCheckInService, CheckInService } from '../../services/checkIns/checkInService';
+import {
+  FOLLOW_THROUGH_CHOICES,
+  INTUITION_CHOICES,
+  SATISFACTION_LABELS,
+} from '../../services/checkIns/reflectionChoices';
+import SafetyDialog from '../SafetyDialog/SafetyDialog';
+import { useSafetyScreening } from '../SafetyDialog/useSafetyScreening';
+import { useI18n } from '../I18nProvider/useI18n';
+
+interface ReflectionFormProps {
+  journal?: JournalStorage;
+  checkIns?: CheckInService;
+}
+
+const ReflectionForm = ({ journal = defaultJournalStorage, checkIns = defaultCheckInService }: ReflectionFormProps) => {
+  const { id = '', checkInId = '' } = useParams();
+  const navigate = useNavigate();
+  const { t, formatDate } = useI18n();
+
+  const [entry, setEntry] = useState<JournalEntry | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [followedThrough, setFollowedThrough] = useState<FollowThrough | ''>('');
+  const [outcomeSatisfaction, setOutcomeSatisfaction] = useState<number | null>(null);
+  const [intuitionMatched, setIntuitionMatched] = useState<IntuitionMatch | ''>('');
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    journal.getEntry(id)
+      .then((loaded) => {
+        if (!cancelled) {
+          setEntry(loaded || null);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(t('reflect.error.load'));
+        }
+        console.error(err);
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [journal, id, t]);
+
+  const safety = useSafetyScreening({ notes });
+
+  const checkIn = entry?.checkIns?.find(item => item.id === checkInId);
+
+  const handleSubmit = async () => {
+    if (!followedThrough || !outcomeSatisfaction || !intuitionMatched) {
+      setError(t('reflect.error.incomplete'));
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await checkIns.recordReflection(id, checkInId, {
+        followedThrough,
+        outcomeSatisfaction,
+        intuitionMatched,
+        notes: notes.trim() || undefined,
+      });
+      navigate(`/journal/${id}`);
+    } catch (err) {
+      setError(t('reflect.error.save'));
+      console.error(err);
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Container maxWidth="md">
+      <Paper elevation={3} sx={{ p: 4, mt: 4 }}>
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : !entry || !checkIn ? (
+          <Alert severity="warning">
+            {t('reflect.missing')}
+          </Alert>
+        ) : checkIn.reflection ? (
+          <>
+            <Alert severity="success" sx={{ mb: 2 }}>
+              {t('reflect.alreadyDone', { date: formatDate(checkIn.reflection.recordedAt) })}
+            </Alert>
+            <Button component={RouterLink} to={`/journal/${id}`} variant="outlined">
+              {t('reflect.viewEntry')}
+            </Button>
+          </>
+        ) : (
+          <>
+            <Typography variant="h4" gutterBottom>
+              🕰️ {t('reflect.title')}
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+              {t('reflect.madeOn', { date: formatDate(entry.createdAt) })}
+            </Typography>
+
+            <Box sx={{ mb: 3, p: 2, bgcolor: '#f5f5f5', borderRadius: 1 }}>
+              <Typography variant="body1" gutterBottom><strong>{entry.decision.question}</strong></Typography>
+              {entry.decision.initialIntuition && (
+                <Typography variant="body2">
+                  {t('reflect.intuitionWas', { intuition: entry.decision.initialIntuition })}
+                </Typography>
+              )}
+            </Box>
+
+            <FormControl sx={{ mb: 3, display: 'block' }}>
+              <FormLabel id="followed-through-label">{t('dashboard.checkIn.followThrough')}</FormLabel>
+              <RadioGroup
+                row
+                aria-labelledby="followed-through-label"
+                value={followedThrough}
+                onChange={(e) => setFollowedThrough(e.target.value as FollowThrough)}
+              >
+                {FOLLOW_THROUGH_CHOICES.map(({ value, label }) => (
+                  <FormControlLabel key={value} value={value} control={<Radio />} label={t(label)} />
+                ))}
+              </RadioGroup>
+            </FormControl>
+
+            <Box sx={{ mb: 3 }}>
+              <Typography component="legend" color="text.secondary" id="satisfaction-label">
+                {t('dashboard.checkIn.outcome')}
+              </Typography>
+              <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                <Rating
+                  name="outcome-satisfaction"
+                  value={outcomeSatisfaction}
+                  onChange={(event, value) => setOutcomeSatisfaction(value)}
+                  getLabelText={(value) => (SATISFACTION_LABELS[value] ? t(SATISFACTION_LABELS[value]) : '')}
+                />
+                {outcomeSatisfaction && (
+                  <Typography variant="body2" sx={{ ml: 2 }}>
+                    {t(SATISFACTION_LABELS[outcomeSatisfaction])}
+                  </Typography>
+                )}
+              </Box>
+            </Box>
+
+            <FormControl sx={{ mb: 3, display: 'block' }}>
+              <FormLabel id="intuition-label">{t('dashboard.checkIn.intuition')}</FormLabel>
+              <RadioGroup
+                aria-labelledby="intuition-label"
+                value={intuitionMatched}
+                onChange={(e) => setIntuitionMatched(e.target.value as IntuitionMatch)}
+              >
+                {INTUITION_CHOICES.map(({ value, label }) => (
+                  <FormControlLabel key={value} value={value} control={<Radio />} label={t(label)} />
+                ))}
+              </RadioGroup>
+            </FormControl>
+
+            <TextField
+              fullWidth
+              label={t('reflect.learned')}
+              multiline
+              rows={3}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              sx={{ mb: 3 }}
+            />
+
+            {error && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {error}
+              </Alert>
+            )}
+
+            <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+              <Button component={RouterLink} to={`/journal/${id}`} variant="outlined">
+                {t('reflect.later')}
+              </Button>
+              <Button variant="contained" onClick={handleSubmit} disabled={saving}>
+                {saving ? <CircularProgress size={24} color="inherit" /> : t('reflect.save')}
+              </Button>
+            </Box>
+          </>
+        )}
+      </Paper>
+
+      {safety.prompt && (
+        <SafetyDialog open severity={safety.prompt.severity} onClose={safety.dismiss} />
+      )}
+    </Container>
+  );
+};
+
+export default ReflectionForm;
@@ -0,0 +1,70 @@
+import { Box } from '@mui/material';
+import { ReliabilityBucket } from '../../services/calibration/calibration';
+import { useI18n } from '../I18nProvider/useI18n';
+
+interface ReliabilityDiagramProps {
+  buckets: ReliabilityBucket[];
+  size?: number;
+}
+
+const PADDING = 40;
+
+// Confidence (x) against actual success rate (y); points on the diagonal are perfectly calibrated
+const ReliabilityDiagram = ({ buckets, size = 320 }: ReliabilityDiagramProps) => {
+  const { t } = useI18n();
+  const plot = size - PADDING * 2;
+  const toX = (value: number) => PADDING + value * plot;
+  const toY = (value: number) => size - PADDING - value * plot;
+  const maxCount = Math.max(1, ...buckets.map(bucket => bucket.count));
+  const ticks = [0, 0.25, 0.5, 0.75, 1];
+
+  return (
+    <Box sx={{ width: '100%', maxWidth: size }}>
+      <svg viewBox={`0 0 ${size} ${size}`} width="100%" role="img" aria-label={t('reliability.label')}>
+        {ticks.map(tick => (
+          <g key={tick}>
+            <line x1={toX(tick)} y1={toY(0)} x2={toX(tick)} y2={toY(1)} stroke="#f5f5f5" />
+            <line x1={toX(0)} y1={toY(tick)} x2={toX(1)} y2={toY(tick)} stroke="#f5f5f5" />
+            <text x={toX(tick)} y={size - PADDING + 16} fontSize={10} textAnchor="middle" fill="#757575">
+              {Math.round(tick * 100)}%
+            </text>
+            <text x={PADDING - 6} y={toY(tick) + 3} fontSize={10} textAnchor="end" fill="#757575">
+              {Math.round(tick * 100)}%
+            </text>
+          </g>
+        ))}
+
+        <line x1={toX(0)} y1={toY(0)} x2={toX(1)} y2={toY(0)} stroke="#9e9e9e" />
+        <line x1={toX(0)} y1={toY(0)} x2={toX(0)} y2={toY(1)} stroke="#9e9e9e" />
+        <line x1={toX(0)} y1={toY(0)} x2={toX(1)} y2={toY(1)} stroke="#bdbdbd" strokeDasharray="4 4" />
+
+        {buckets.filter(bucket => bucket.count > 0).map(bucket => (
+          <circle
+            key={bucket.from}
+            cx={toX(bucket.meanConfidence)}
+            cy={toY(bucket.successRate)}
+            r={4 + 8 * (bucket.count / maxCount)}
+            fill="#2196f3"
+            fillOpacity={0.7}
+          >
+            <title>
+              {t('reliability.bucket', {
+                from: Math.round(bucket.from * 100),
+                to: Math.round(bucket.to * 100),
+                success: Math.round(bucket.successRate * 100),
+                count: bucket.count,
+              })}
+            </title>
+          </circle>
+        ))}
+
+        <text x={size / 2} y={size - 6} fontSize={11} textAnchor="middle">{t('reliability.confidence')}</text>
+        <text x={12} y={size / 2} fontSize={11} textAnchor="middle" transform={`rotate(-90 12 ${size / 2})`}>
+          {t('calibration.table.success')}
+        </text>
+      </svg>
+    </Box>
+  );
+};
+
+export default ReliabilityDiagram;
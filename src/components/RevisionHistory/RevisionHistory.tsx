@@ -0,0 +1,231 @@
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { OptionPosition } from '../../types/decision';
+import { Revision } from '../../types/revision';
+import { compareRevisions } from '../../services/revisions/revisions';
+import { biasName } from '../../services/analysis/biases';
+import { Translate } from '../../services/i18n/i18n';
+import { useI18n } from '../I18nProvider/useI18n';
+
+const describeScore = (score?: number) => (score === undefined ? '–' : String(score));
+
+const describePosition = (t: Translate, position?: OptionPosition) =>
+  position ? t('revisions.position', { logical: Math.round(position.x), longTerm: Math.round(position.y) }) : '–';
+
+interface RevisionHistoryProps {
+  revisions: Revision[]; // Oldest first
+  finalRevision?: number | null;
+  onMarkFinal?: (number: number | null) => void; // Makes the final revision selectable
+}
+
+const RevisionHistory = ({ revisions, finalRevision, onMarkFinal }: RevisionHistoryProps) => {
+  const { t, formatDate } = useI18n();
+  const latest = revisions[revisions.length - 1]?.number || 0;
+  const [fromNumber, setFromNumber] = useState<number | null>(null);
+  const [toNumber, setToNumber] = useState<number | null>(null);
+
+  if (revisions.length < 2) {
+    return null;
+  }
+
+  // Until the user picks, the latest revision is compared with the one before it
+  const from = revisions.find(revision => revision.number === fromNumber) || revisions[revisions.length - 2];
+  const to = revisions.find(revision => revision.number === toNumber) || revisions[revisions.length - 1];
+  const comparison = compareRevisions(from, to, t);
+  const nothingChanged = comparison.inputs.length === 0 && !comparison.recommendationChanged &&
+    comparison.factors.length === 0 && comparison.positions.length === 0 &&
+    comparison.biasesAdded.length === 0 && comparison.biasesRemoved.length === 0;
+
+  return (
+    <Box sx={{ mb: 4 }}>
+      <Typography variant="h6" gutterBottom>
+        {t('revisions.title')}
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        {t('revisions.help')}
+        {onMarkFinal && ` ${t('revisions.markHelp')}`}
+      </Typography>
+
+      {revisions.slice().reverse().map((revision) => (
+        <Box key={revision.number} sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1, flexWrap: 'wrap' }}>
+          <Typography variant="body2" sx={{ minWidth: 100 }}>
+            <strong>{t('revisions.revision', { number: revision.number })}</strong>
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>
+            {formatDate(revision.createdAt, 'dateTime')}
+          </Typography>
+          {revision.number === latest && <Chip label={t('revisions.latest')} size="small" />}
+          {revision.number === finalRevision && <Chip label={t('revisions.final')} size="small" color="success" />}
+          {onMarkFinal && (
+            <Button size="small" onClick={() => onMarkFinal(revision.number === finalRevision ? null : revision.number)}>
+              {t(revision.number === finalRevision ? 'revisions.unmarkFinal' : 'revisions.markFinal')}
+            </Button>
+          )}
+        </Box>
+      ))}
+
+      <Paper elevation={0} sx={{ p: 2, mt: 2, border: '1px solid #e0e0e0' }}>
+        <Typography variant="subtitle1" gutterBottom>
+          {t('revisions.compare')}
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+          {[
+            { label: t('revisions.from'), value: from.number, onChange: setFromNumber },
+            { label: t('revisions.to'), value: to.number, onChange: setToNumber },
+          ].map(({ label, value, onChange }) => (
+            <FormControl key={label} size="small" sx={{ minWidth: 140 }}>
+              <InputLabel>{label}</InputLabel>
+              <Select label={label} value={value} onChange={(e) => onChange(Number(e.target.value))}>
+                {revisions.map(revision => (
+                  <MenuItem key={revision.number} value={revision.number}>
+                    {t('revisions.revision', { number: revision.number })}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          ))}
+        </Box>
+
+        {nothingChanged ? (
+          <Typography variant="body2" color="text.secondary">
+            {t('revisions.same')}
+          </Typography>
+        ) : (
+          <>
+            {comparison.inputs.length > 0 && (
+              <>
+                <Typography variant="subtitle2" gutterBottom>
+                  {t('revisions.inputs')}
+                </Typography>
+                <Table size="small" sx={{ mb: 2 }}>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>{t('revisions.input')}</TableCell>
+                      <TableCell>{t('revisions.revision', { number: from.number })}</TableCell>
+                      <TableCell>{t('revisions.revision', { number: to.number })}</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {comparison.inputs.map(change => (
+                      <TableRow key={change.label}>
+                        <TableCell>{change.label}</TableCell>
+                        <TableCell>{change.before}</TableCell>
+                        <TableCell>{change.after}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+
+            <Typography variant="subtitle2" gutterBottom>
+              {t('revisions.recommendation')}
+            </Typography>
+            {comparison.recommendationChanged ? (
+              <Box sx={{ mb: 2 }}>
+                <Typography variant="body2" color="text.secondary">{t('revisions.revision', { number: from.number })}</Typography>
+                <Typography variant="body2" sx={{ mb: 1 }}>{from.analysis.recommendation}</Typography>
+                <Typography variant="body2" color="text.secondary">{t('revisions.revision', { number: to.number })}</Typography>
+                <Typography variant="body2">{to.analysis.recommendation}</Typography>
+              </Box>
+            ) : (
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                {t('revisions.unchanged')}
+              </Typography>
+            )}
+            {comparison.topRanked.before !== comparison.topRanked.after && (
+              <Typography variant="body2" sx={{ mb: 2 }}>
+                {t('revisions.topRanked', { before: comparison.topRanked.before || '–', after: comparison.topRanked.after || '–' })}
+              </Typography>
+            )}
+
+            {comparison.factors.length > 0 && (
+              <>
+                <Typography variant="subtitle2" gutterBottom>
+                  {t('revisions.factors')}
+                </Typography>
+                <Table size="small" sx={{ mb: 2 }}>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>{t('revisions.factor')}</TableCell>
+                      <TableCell align="right">{t('revisions.revision', { number: from.number })}</TableCell>
+                      <TableCell align="right">{t('revisions.revision', { number: to.number })}</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {comparison.factors.map(shift => (
+                      <TableRow key={shift.name}>
+                        <TableCell>{shift.name}</TableCell>
+                        <TableCell align="right">{describeScore(shift.before)}</TableCell>
+                        <TableCell align="right">{describeScore(shift.after)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+
+            {(comparison.biasesAdded.length > 0 || comparison.biasesRemoved.length > 0) && (
+              <Box sx={{ mb: 2 }}>
+                <Typography variant="subtitle2" gutterBottom>
+                  {t('revisions.biases')}
+                </Typography>
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+                  {comparison.biasesAdded.map(bias => (
+                    <Chip key={bias} label={`+ ${biasName(bias, t)}`} size="small" color="warning" variant="outlined" />
+                  ))}
+                  {comparison.biasesRemoved.map(bias => (
+                    <Chip key={bias} label={`− ${biasName(bias, t)}`} size="small" color="success" variant="outlined" />
+                  ))}
+                </Box>
+              </Box>
+            )}
+
+            {comparison.positions.length > 0 && (
+              <>
+                <Typography variant="subtitle2" gutterBottom>
+                  {t('revisions.positions')}
+                </Typography>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>{t('revisions.option')}</TableCell>
+                      <TableCell>{t('revisions.revision', { number: from.number })}</TableCell>
+                      <TableCell>{t('revisions.revision', { number: to.number })}</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {comparison.positions.map(shift => (
+                      <TableRow key={shift.option}>
+                        <TableCell>{shift.option}</TableCell>
+                        <TableCell>{describePosition(t, shift.before)}</TableCell>
+                        <TableCell>{describePosition(t, shift.after)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </>
+        )}
+      </Paper>
+    </Box>
+  );
+};
+
+export default RevisionHistory;
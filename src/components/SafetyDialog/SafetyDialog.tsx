@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  Link,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Select,
+} from '@mui/material';
+import { SafetySeverity } from '../../types/safety';
+import { SAFETY_MESSAGES } from '../../services/safety/safetyScreening';
+import {
+  defaultRegionCode,
+  findRegion,
+  loadRegionPreference,
+  saveRegionPreference,
+  SUPPORT_REGIONS,
+} from '../../services/safety/supportResources';
+import { MessageKey } from '../../services/i18n/i18n';
+import { useI18n } from '../I18nProvider/useI18n';
+
+const TITLES: Record<SafetySeverity, MessageKey> = {
+  crisis: 'safety.title.crisis',
+  concerning: 'safety.title.concerning',
+  informational: 'safety.title.informational',
+};
+
+interface SafetyDialogProps {
+  open: boolean;
+  severity: SafetySeverity;
+  onClose: () => void;
+}
+
+const SafetyDialog = ({ open, severity, onClose }: SafetyDialogProps) => {
+  const { t } = useI18n();
+  const [regionCode, setRegionCode] = useState(() => loadRegionPreference() || defaultRegionCode());
+  const region = findRegion(regionCode);
+
+  const handleRegionChange = (code: string) => {
+    setRegionCode(code);
+    saveRegionPreference(code);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      aria-labelledby="safety-dialog-title"
+      aria-describedby="safety-dialog-description"
+    >
+      <DialogTitle id="safety-dialog-title">
+        {t(TITLES[severity])}
+      </DialogTitle>
+      <DialogContent>
+        {severity === 'crisis' ? (
+          <Alert severity="warning" id="safety-dialog-description" sx={{ mb: 2 }}>
+            {t(SAFETY_MESSAGES[severity])}
+          </Alert>
+        ) : (
+          <DialogContentText id="safety-dialog-description" sx={{ mb: 2 }}>
+            {t(SAFETY_MESSAGES[severity])}
+          </DialogContentText>
+        )}
+
+        {severity !== 'informational' && (
+          <>
+            <FormControl fullWidth size="small" sx={{ mt: 1 }}>
+              <InputLabel>{t('safety.region')}</InputLabel>
+              <Select
+                label={t('safety.region')}
+                value={regionCode}
+                onChange={(e) => handleRegionChange(e.target.value)}
+              >
+                {SUPPORT_REGIONS.map(({ code, name }) => (
+                  <MenuItem key={code} value={code}>
+                    {t(name)}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <List dense>
+              {region?.resources.map((resource) => (
+                <ListItem key={resource.name} disableGutters>
+                  <ListItemText
+                    primary={
+                      <Link href={resource.url} target="_blank" rel="noopener noreferrer">
+                        {resource.name}
+                      </Link>
+                    }
+                    secondary={resource.phone ? `${t(resource.description)} (${resource.phone})` : t(resource.description)}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} color="primary" autoFocus>
+          {t(severity === 'informational' ? 'safety.continue' : 'safety.understand')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SafetyDialog;
@@ -0,0 +1,41 @@
+import { useEffect, useRef, useState } from 'react';
+import { SafetyMatch, SafetySeverity } from '../../types/safety';
+import { findNewMatches, highestSeverity, matchKey, screenFields } from '../../services/safety/safetyScreening';
+
+export const SCREENING_DELAY_MS = 800;
+
+export interface SafetyPrompt {
+  severity: SafetySeverity;
+  matches: SafetyMatch[];
+}
+
+/**
+ * Screens free-text fields once the user pauses typing. Each match prompts
+ * only once: after the prompt is dismissed the same words stay quiet, while
+ * anything new (or more severe) prompts again.
+ */
+export const useSafetyScreening = (fields: Record<string, string | undefined>, delayMs = SCREENING_DELAY_MS) => {
+  const [prompt, setPrompt] = useState<SafetyPrompt | null>(null);
+  const acknowledged = useRef(new Set<string>());
+
+  // Fields are usually an inline object, so compare them by content
+  const fieldsKey = JSON.stringify(fields);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const fresh = findNewMatches(screenFields(JSON.parse(fieldsKey)), acknowledged.current);
+      const severity = highestSeverity(fresh);
+      if (severity) {
+        setPrompt({ severity, matches: fresh });
+      }
+    }, delayMs);
+    return () => clearTimeout(timer);
+  }, [fieldsKey, delayMs]);
+
+  const dismiss = () => {
+    prompt?.matches.forEach(match => acknowledged.current.add(matchKey(match)));
+    setPrompt(null);
+  };
+
+  return { prompt, dismiss };
+};
@@ -0,0 +1,275 @@
+import { FormEvent, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  CircularProgress,
+  Container,
+  Divider,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  TextField,
+  Typography,
+} from '@mui/material';
+import LockOutlinedIcon from '@mui/icons-material/LockOutlined';
+import { cryptoSupported } from '../../services/encryption/crypto';
+import {
+  AUTO_LOCK_CHOICES,
+  MIN_PASSPHRASE_LENGTH,
+  vault as defaultVault,
+  Vault,
+} from '../../services/encryption/vault';
+import { MessageKey } from '../../services/i18n/i18n';
+import { useI18n } from '../I18nProvider/useI18n';
+import { useVaultStatus } from '../VaultGate/useVaultStatus';
+
+type Action = 'enable' | 'change' | 'disable';
+
+// The problem with a new passphrase, if any
+const passphraseProblem = (passphrase: string, confirmation: string): MessageKey | null => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    return 'security.error.tooShort';
+  }
+  return passphrase === confirmation ? null : 'security.error.mismatch';
+};
+
+interface SecuritySettingsProps {
+  vault?: Vault;
+}
+
+const SecuritySettings = ({ vault = defaultVault }: SecuritySettingsProps) => {
+  const { t } = useI18n();
+  const status = useVaultStatus(vault);
+  const [busy, setBusy] = useState<Action | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [autoLockMinutes, setAutoLockMinutes] = useState(vault.autoLockMinutes);
+
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [disablePassphrase, setDisablePassphrase] = useState('');
+
+  const clearForms = () => {
+    setPassphrase('');
+    setConfirmation('');
+    setAcknowledged(false);
+    setCurrentPassphrase('');
+    setDisablePassphrase('');
+  };
+
+  // Runs one of the actions that rewrite every record; resolves to whether the passphrase was right
+  const run = async (action: Action, work: () => Promise<boolean>, done: MessageKey) => {
+    setBusy(action);
+    setError(null);
+    setNotice(null);
+    try {
+      if (await work()) {
+        clearForms();
+        setNotice(t(done));
+      } else {
+        setError(t('security.error.wrongPassphrase'));
+      }
+    } catch (err) {
+      console.error(err);
+      setError(t('security.error.failed'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleEnable = (event: FormEvent) => {
+    event.preventDefault();
+    const problem = passphraseProblem(passphrase, confirmation);
+    if (problem || !acknowledged) {
+      setError(t(problem || 'security.error.acknowledge', { min: MIN_PASSPHRASE_LENGTH }));
+      return;
+    }
+    run('enable', async () => {
+      await vault.enable(passphrase);
+      setAutoLockMinutes(vault.autoLockMinutes());
+      return true;
+    }, 'security.enabled');
+  };
+
+  const handleChange = (event: FormEvent) => {
+    event.preventDefault();
+    const problem = passphraseProblem(passphrase, confirmation);
+    if (problem) {
+      setError(t(problem, { min: MIN_PASSPHRASE_LENGTH }));
+      return;
+    }
+    run('change', () => vault.changePassphrase(currentPassphrase, passphrase), 'security.changed');
+  };
+
+  const handleDisable = (event: FormEvent) => {
+    event.preventDefault();
+    run('disable', () => vault.disable(disablePassphrase), 'security.disabled');
+  };
+
+  const handleAutoLockChange = (minutes: number) => {
+    vault.setAutoLockMinutes(minutes);
+    setAutoLockMinutes(minutes);
+  };
+
+  const progress = (action: Action) =>
+    busy === action ? <CircularProgress size={20} color="inherit" /> : undefined;
+
+  const passphraseFields = (labelKey: MessageKey, confirmKey: MessageKey) => (
+    <>
+      <TextField
+        type="password"
+        label={t(labelKey)}
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        helperText={t('security.passphraseHelp', { min: MIN_PASSPHRASE_LENGTH })}
+        autoComplete="new-password"
+        fullWidth
+        sx={{ mb: 2 }}
+      />
+      <TextField
+        type="password"
+        label={t(confirmKey)}
+        value={confirmation}
+        onChange={(e) => setConfirmation(e.target.value)}
+        autoComplete="new-password"
+        fullWidth
+        sx={{ mb: 2 }}
+      />
+    </>
+  );
+
+  return (
+    <Container maxWidth="md">
+      <Paper elevation={3} sx={{ p: 4, mt: 4 }}>
+        <Typography variant="h4" gutterBottom>
+          {t('security.title')}
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          {t('security.intro')}
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        {notice && (
+          <Alert severity="success" sx={{ mb: 2 }} onClose={() => setNotice(null)}>
+            {notice}
+          </Alert>
+        )}
+
+        {status === 'disabled' && !cryptoSupported() && (
+          <Alert severity="info">{t('security.unsupported')}</Alert>
+        )}
+
+        {status === 'disabled' && cryptoSupported() && (
+          <Box component="form" onSubmit={handleEnable}>
+            <Alert severity="warning" sx={{ mb: 3 }}>
+              {t('security.forgottenWarning')}
+            </Alert>
+            {passphraseFields('security.passphrase', 'security.confirmPassphrase')}
+            <FormControlLabel
+              control={<Checkbox checked={acknowledged} onChange={(e) => setAcknowledged(e.target.checked)} />}
+              label={t('security.acknowledge')}
+              sx={{ mb: 2 }}
+            />
+            <Box>
+              <Button type="submit" variant="contained" disabled={!!busy} startIcon={progress('enable')}>
+                {busy === 'enable' ? t('security.working') : t('security.enable')}
+              </Button>
+            </Box>
+          </Box>
+        )}
+
+        {status === 'unlocked' && (
+          <>
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2, mb: 3 }}>
+              <Typography sx={{ flexGrow: 1 }}>{t('security.enabled')}</Typography>
+              <Button variant="outlined" startIcon={<LockOutlinedIcon />} onClick={() => vault.lock()}>
+                {t('security.lockNow')}
+              </Button>
+            </Box>
+            <FormControl fullWidth size="small" sx={{ mb: 2 }}>
+              <InputLabel>{t('security.autoLock')}</InputLabel>
+              <Select
+                label={t('security.autoLock')}
+                value={autoLockMinutes}
+                onChange={(e) => handleAutoLockChange(Number(e.target.value))}
+              >
+                {AUTO_LOCK_CHOICES.map((minutes) => (
+                  <MenuItem key={minutes} value={minutes}>{t('security.autoLockAfter', { minutes })}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <Divider sx={{ my: 3 }} />
+            <Box component="form" onSubmit={handleChange}>
+              <Typography variant="h6" gutterBottom>
+                {t('security.change')}
+              </Typography>
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                {t('security.forgottenWarning')}
+              </Alert>
+              <TextField
+                type="password"
+                label={t('security.currentPassphrase')}
+                value={currentPassphrase}
+                onChange={(e) => setCurrentPassphrase(e.target.value)}
+                autoComplete="current-password"
+                fullWidth
+                sx={{ mb: 2 }}
+              />
+              {passphraseFields('security.newPassphrase', 'security.confirmNewPassphrase')}
+              <Button
+                type="submit"
+                variant="contained"
+                disabled={!!busy || !currentPassphrase}
+                startIcon={progress('change')}
+              >
+                {busy === 'change' ? t('security.working') : t('security.changeButton')}
+              </Button>
+            </Box>
+
+            <Divider sx={{ my: 3 }} />
+            <Box component="form" onSubmit={handleDisable}>
+              <Typography variant="h6" gutterBottom>
+                {t('security.disable')}
+              </Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                {t('security.disableHelp')}
+              </Typography>
+              <TextField
+                type="password"
+                label={t('security.currentPassphrase')}
+                value={disablePassphrase}
+                onChange={(e) => setDisablePassphrase(e.target.value)}
+                autoComplete="current-password"
+                fullWidth
+                sx={{ mb: 2 }}
+              />
+              <Button
+                type="submit"
+                color="error"
+                variant="outlined"
+                disabled={!!busy || !disablePassphrase}
+                startIcon={progress('disable')}
+              >
+                {t('security.disableButton')}
+              </Button>
+            </Box>
+          </>
+        )}
+      </Paper>
+    </Container>
+  );
+};
+
+export default SecuritySettings;
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  FormControlLabel,
+  Radio,
+  RadioGroup,
+  Switch,
+  TextField,
+} from '@mui/material';
+import { SharedDecision } from '../../types/share';
+import { LONG_LINK_LENGTH, shareUrl } from '../../services/share/shareLink';
+import { useI18n } from '../I18nProvider/useI18n';
+
+interface ShareDialogProps {
+  open: boolean;
+  shared: SharedDecision;
+  onClose: () => void;
+}
+
+const ShareDialog = ({ open, shared, onClose }: ShareDialogProps) => {
+  const { t } = useI18n();
+  const [readOnly, setReadOnly] = useState(true);
+  const [includeIntuition, setIncludeIntuition] = useState(true);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const url = shareUrl(shared, { readOnly, includeIntuition }, window.location.origin);
+
+  const handleCopy = async () => {
+    setError(null);
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch (err) {
+      setError(t('share.error.copy'));
+      console.error(err);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm" aria-labelledby="share-dialog-title">
+      <DialogTitle id="share-dialog-title">
+        {t('share.title')}
+      </DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{ mb: 2 }}>
+          {t('share.description')}
+        </DialogContentText>
+
+        <RadioGroup
+          value={readOnly ? 'view' : 'edit'}
+          onChange={(e) => {
+            setReadOnly(e.target.value === 'view');
+            setCopied(false);
+          }}
+        >
+          <FormControlLabel value="view" control={<Radio />} label={t('share.viewOnly')} />
+          <FormControlLabel value="edit" control={<Radio />} label={t('share.editable')} />
+        </RadioGroup>
+
+        <FormControlLabel
+          control={
+            <Switch
+              checked={includeIntuition}
+              onChange={(e) => {
+                setIncludeIntuition(e.target.checked);
+                setCopied(false);
+              }}
+            />
+          }
+          label={t('share.includeIntuition')}
+          sx={{ mb: 2 }}
+        />
+
+        <TextField
+          fullWidth
+          label={t('share.link')}
+          value={url}
+          slotProps={{ htmlInput: { readOnly: true } }}
+          onFocus={(e) => e.target.select()}
+        />
+
+        {url.length > LONG_LINK_LENGTH && (
+          <Alert severity="info" sx={{ mt: 2 }}>
+            {t('share.longLink')}
+          </Alert>
+        )}
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} color="primary">
+          {t('common.close')}
+        </Button>
+        <Button onClick={handleCopy} color="primary" variant="contained">
+          {t(copied ? 'share.copied' : 'share.copy')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ShareDialog;
@@ -0,0 +1,68 @@
+import { useMemo } from 'react';
+import { Link as RouterLink, useLocation } from 'react-router-dom';
+import { Alert, Box, Button, Container, Divider, Paper, Typography } from '@mui/material';
+import { SharedDecision } from '../../types/share';
+import { errorMessage } from '../../services/i18n/i18n';
+import { readShareFragment } from '../../services/share/shareLink';
+import { DECIDE_PATH } from '../../services/wizard/decisionWizard';
+import AnalysisView from '../AnalysisView/AnalysisView';
+import DecisionSummary from '../DecisionSummary/DecisionSummary';
+import { useI18n } from '../I18nProvider/useI18n';
+
+// Read-only view of a decision someone shared as a link
+const SharedDecisionView = () => {
+  const { hash } = useLocation();
+  const { t } = useI18n();
+
+  const { shared, error } = useMemo((): { shared?: SharedDecision; error?: string } => {
+    try {
+      const decoded = readShareFragment(hash);
+      return decoded ? { shared: decoded } : { error: t('shared.error.empty') };
+    } catch (err) {
+      console.error(err);
+      return { error: errorMessage(err, t, 'shared.error.open') };
+    }
+  }, [hash, t]);
+
+  return (
+    <Container maxWidth="md">
+      <Paper elevation={3} sx={{ p: 4, mt: 4 }}>
+        {error || !shared ? (
+          <Alert severity="error">
+            {error}
+          </Alert>
+        ) : (
+          <>
+            <Alert severity="info" sx={{ mb: 3 }}>
+              {t('shared.notice')}
+            </Alert>
+
+            <Typography variant="h4" gutterBottom>
+              {shared.decision.question}
+            </Typography>
+
+            <DecisionSummary decision={shared.decision} />
+
+            {shared.analysis && (
+              <>
+                <Divider sx={{ my: 3 }} />
+                <Typography variant="h5" gutterBottom>
+                  {t('dashboard.analysisTitle')}
+                </Typography>
+                <AnalysisView analysis={shared.analysis} decision={shared.decision} />
+              </>
+            )}
+
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+              <Button component={RouterLink} to={{ pathname: DECIDE_PATH, hash }} variant="contained">
+                {t('shared.openCopy')}
+              </Button>
+            </Box>
+          </>
+        )}
+      </Paper>
+    </Container>
+  );
+};
+
+export default SharedDecisionView;
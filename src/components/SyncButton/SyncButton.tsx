@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useState } from 'react';
+import { IconButton, Tooltip } from '@mui/material';
+import CloudDoneOutlinedIcon from '@mui/icons-material/CloudDoneOutlined';
+import CloudOffOutlinedIcon from '@mui/icons-material/CloudOffOutlined';
+import CloudSyncOutlinedIcon from '@mui/icons-material/CloudSyncOutlined';
+import CloudUploadOutlinedIcon from '@mui/icons-material/CloudUploadOutlined';
+import SyncProblemOutlinedIcon from '@mui/icons-material/SyncProblemOutlined';
+import { syncClient as defaultSyncClient, SyncClient } from '../../services/sync';
+import { useI18n } from '../I18nProvider/useI18n';
+
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+const PUSH_DELAY_MS = 2000; // Edits made in quick succession go out together
+
+interface SyncButtonProps {
+  client?: SyncClient;
+}
+
+// Syncs in the background while the app is open and shows how it went; hidden unless a sync server is set up
+const SyncButton = ({ client = defaultSyncClient }: SyncButtonProps) => {
+  const { t, formatDate } = useI18n();
+  const [online, setOnline] = useState(() => navigator.onLine !== false);
+  const [syncing, setSyncing] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const [pending, setPending] = useState(0);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | undefined>();
+
+  const syncNow = useCallback(async () => {
+    if (navigator.onLine === false) {
+      return; // The queue keeps the changes until the device is back online
+    }
+    setSyncing(true);
+    try {
+      const { rejected } = await client.sync();
+      if (rejected > 0) {
+        console.warn(`Sync server refused ${rejected} change(s); they wait until the document is edited again`);
+      }
+      setFailed(false);
+    } catch (err) {
+      console.warn('Sync failed:', (err as Error).message);
+      setFailed(true);
+    } finally {
+      setSyncing(false);
+    }
+  }, [client]);
+
+  useEffect(() => {
+    if (!client.enabled) {
+      return undefined;
+    }
+    let cancelled = false;
+    let pushTimer: number | undefined;
+
+    const refresh = async () => {
+      try {
+        const [count, syncedAt] = await Promise.all([client.pendingChanges(), client.lastSyncedAt()]);
+        if (!cancelled) {
+          setPending(count);
+          setLastSyncedAt(syncedAt);
+        }
+      } catch (err) {
+        console.error(err);
+      }
+    };
+
+    const unsubscribe = client.subscribe((event) => {
+      refresh();
+      if (event === 'queued') {
+        window.clearTimeout(pushTimer);
+        pushTimer = window.setTimeout(syncNow, PUSH_DELAY_MS);
+      }
+    });
+    const handleOnline = () => {
+      setOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    const timer = window.setInterval(syncNow, SYNC_INTERVAL_MS);
+
+    refresh();
+    syncNow();
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      window.clearInterval(timer);
+      window.clearTimeout(pushTimer);
+    };
+  }, [client, syncNow]);
+
+  if (!client.enabled) {
+    return null;
+  }
+
+  let icon = <CloudDoneOutlinedIcon />;
+  let label = lastSyncedAt ? t('sync.synced', { time: formatDate(lastSyncedAt, 'dateTime') }) : t('sync.never');
+  if (!online) {
+    icon = <CloudOffOutlinedIcon />;
+    label = t('sync.offline', { count: pending });
+  } else if (syncing) {
+    icon = <CloudSyncOutlinedIcon />;
+    label = t('sync.syncing');
+  } else if (failed) {
+    icon = <SyncProblemOutlinedIcon />;
+    label = t('sync.failed', { count: pending });
+  } else if (pending > 0) {
+    icon = <CloudUploadOutlinedIcon />;
+    label = t('sync.pending', { count: pending });
+  }
+
+  return (
+    <Tooltip title={label}>
+      <span>
+        <IconButton color="inherit" aria-label={label} onClick={syncNow} disabled={syncing || !online}>
+          {icon}
+        </IconButton>
+      </span>
+    </Tooltip>
+  );
+};
+
+export default SyncButton;
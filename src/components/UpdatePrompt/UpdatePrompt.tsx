@@ -0,0 +1,74 @@
+import { useEffect, useState } from 'react';
+import { Alert, Button, Snackbar } from '@mui/material';
+import { applyUpdate, registerServiceWorker } from '../../services/pwa/serviceWorker';
+import { useI18n } from '../I18nProvider/useI18n';
+
+// An installed app can stay open for days without navigating, so it looks for new versions itself
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+interface UpdatePromptProps {
+  register?: typeof registerServiceWorker;
+}
+
+// Registers the service worker and lets the user choose when a new version takes over
+const UpdatePrompt = ({ register = registerServiceWorker }: UpdatePromptProps) => {
+  const { t } = useI18n();
+  const [waiting, setWaiting] = useState<ServiceWorkerRegistration | null>(null);
+  const [offlineReady, setOfflineReady] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    register({
+      onUpdate: registration => setWaiting(registration),
+      onOfflineReady: () => setOfflineReady(true),
+    })
+      .then((registration) => {
+        if (registration && !cancelled) {
+          // Offline the check fails; the next one will try again
+          timer = setInterval(() => registration.update().catch(() => undefined), UPDATE_CHECK_INTERVAL_MS);
+        }
+      })
+      .catch(err => console.error(err));
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [register]);
+
+  return (
+    <>
+      <Snackbar open={!!waiting} anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}>
+        <Alert
+          severity="info"
+          variant="filled"
+          action={
+            <>
+              <Button color="inherit" size="small" onClick={() => setWaiting(null)}>
+                {t('pwa.later')}
+              </Button>
+              <Button color="inherit" size="small" onClick={() => waiting && applyUpdate(waiting)}>
+                {t('pwa.reload')}
+              </Button>
+            </>
+          }
+        >
+          {t('pwa.updateAvailable')}
+        </Alert>
+      </Snackbar>
+
+      <Snackbar
+        open={offlineReady}
+        autoHideDuration={6000}
+        onClose={() => setOfflineReady(false)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        <Alert severity="success" variant="filled" onClose={() => setOfflineReady(false)}>
+          {t('pwa.offlineReady')}
+        </Alert>
+      </Snackbar>
+    </>
+  );
+};
+
+export default UpdatePrompt;
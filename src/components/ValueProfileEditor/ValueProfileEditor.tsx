@@ -0,0 +1,343 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Container,
+  Divider,
+  FormControl,
+  IconButton,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  MenuItem,
+  Paper,
+  Select,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import DragIndicatorIcon from '@mui/icons-material/DragIndicator';
+import { Value, ValueTension } from '../../types/decision';
+import {
+  addValue,
+  BUILT_IN_VALUES,
+  hasValue,
+  MAX_DECISION_VALUES,
+  moveValue,
+  removeValue,
+  valueChoices,
+  valueLabel,
+} from '../../services/values/valueProfile';
+import { valueProfileStorage as defaultValueProfileStorage, ValueProfileStorage } from '../../services/values/valueProfileStorage';
+import {
+  valueTensionStorage as defaultValueTensionStorage,
+  ValueTensionStorage,
+} from '../../services/values/valueTensionStorage';
+import { builtInTensions } from '../../services/analysis/valueConflicts';
+import { useI18n } from '../I18nProvider/useI18n';
+
+interface ValueProfileEditorProps {
+  valueProfile?: ValueProfileStorage;
+  valueTensions?: ValueTensionStorage;
+}
+
+const ValueProfileEditor = ({
+  valueProfile = defaultValueProfileStorage,
+  valueTensions = defaultValueTensionStorage,
+}: ValueProfileEditorProps) => {
+  const { t } = useI18n();
+  const [profile, setProfile] = useState<Value[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [customValue, setCustomValue] = useState('');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const [tensions, setTensions] = useState<ValueTension[]>([]);
+  const [tensionValues, setTensionValues] = useState<[string, string]>(['', '']);
+  const [tensionReason, setTensionReason] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([valueProfile.getProfile(), valueTensions.listTensions()])
+      .then(([loadedProfile, loadedTensions]) => {
+        if (!cancelled) {
+          setProfile(loadedProfile);
+          setTensions(loadedTensions);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(t('values.error.load'));
+        }
+        console.error(err);
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [valueProfile, valueTensions, t]);
+
+  // Every change is saved straight away; the list updates first so dragging stays smooth
+  const updateProfile = async (next: Value[]) => {
+    setProfile(next);
+    setError(null);
+    try {
+      await valueProfile.saveProfile(next);
+    } catch (err) {
+      setError(t('values.error.save'));
+      console.error(err);
+    }
+  };
+
+  const handleAddCustom = () => {
+    if (!customValue.trim()) {
+      return;
+    }
+    if (hasValue(profile, customValue)) {
+      setError(t('values.error.duplicate', { value: customValue.trim() }));
+      return;
+    }
+    updateProfile(addValue(profile, customValue));
+    setCustomValue('');
+  };
+
+  const handleAddTension = async () => {
+    setError(null);
+    try {
+      await valueTensions.addTension(tensionValues, tensionReason);
+      setTensions(await valueTensions.listTensions());
+      setTensionValues(['', '']);
+      setTensionReason('');
+    } catch (err) {
+      setError(t('values.error.addTension'));
+      console.error(err);
+    }
+  };
+
+  const handleRemoveTension = async (id: string) => {
+    setError(null);
+    try {
+      await valueTensions.removeTension(id);
+      setTensions(prev => prev.filter(tension => tension.id !== id));
+    } catch (err) {
+      setError(t('values.error.removeTension'));
+      console.error(err);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent, index: number) => {
+    event.preventDefault();
+    if (dragIndex !== null && dragIndex !== index) {
+      updateProfile(moveValue(profile, dragIndex, index));
+    }
+    setDragIndex(null);
+  };
+
+  const availableBuiltIns = BUILT_IN_VALUES.filter(name => !hasValue(profile, name));
+
+  return (
+    <Container maxWidth="md">
+      <Paper elevation={3} sx={{ p: 4, mt: 4 }}>
+        <Typography variant="h4" gutterBottom>
+          {t('values.title')}
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          {t('values.help', { max: MAX_DECISION_VALUES })}
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <>
+            {profile.length === 0 ? (
+              <Alert severity="info" sx={{ mb: 3 }}>
+                {t('values.empty')}
+              </Alert>
+            ) : (
+              <List sx={{ mb: 3 }}>
+                {profile.map((value, index) => (
+                  <ListItem
+                    key={value.id}
+                    draggable
+                    onDragStart={() => setDragIndex(index)}
+                    onDragOver={(event) => event.preventDefault()}
+                    onDrop={(event) => handleDrop(event, index)}
+                    onDragEnd={() => setDragIndex(null)}
+                    divider
+                    sx={{ cursor: 'grab', opacity: dragIndex === index ? 0.5 : 1 }}
+                    secondaryAction={
+                      <>
+                        <Tooltip title={t('dashboard.moveUp')}>
+                          <span>
+                            <IconButton
+                              aria-label={t('values.moveUp', { value: valueLabel(value.name, t) })}
+                              onClick={() => updateProfile(moveValue(profile, index, index - 1))}
+                              disabled={index === 0}
+                            >
+                              <ArrowUpwardIcon fontSize="small" />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                        <Tooltip title={t('dashboard.moveDown')}>
+                          <span>
+                            <IconButton
+                              aria-label={t('values.moveDown', { value: valueLabel(value.name, t) })}
+                              onClick={() => updateProfile(moveValue(profile, index, index + 1))}
+                              disabled={index === profile.length - 1}
+                            >
+                              <ArrowDownwardIcon fontSize="small" />
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                        <Tooltip title={t('common.remove')}>
+                          <IconButton
+                            aria-label={t('values.remove', { value: valueLabel(value.name, t) })}
+                            onClick={() => updateProfile(removeValue(profile, value.id))}
+                          >
+                            <DeleteOutlineIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      </>
+                    }
+                  >
+                    <ListItemIcon>
+                      <DragIndicatorIcon />
+                    </ListItemIcon>
+                    <ListItemText
+                      primary={`${value.priority}. ${valueLabel(value.name, t)}`}
+                      secondary={index < MAX_DECISION_VALUES ? t('values.preselected') : undefined}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            )}
+
+            <Typography gutterBottom>{t('values.addOwn')}</Typography>
+            <Box sx={{ display: 'flex', gap: 2, mb: 3 }}>
+              <TextField
+                fullWidth
+                size="small"
+                label={t('values.custom')}
+                value={customValue}
+                onChange={(e) => setCustomValue(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    handleAddCustom();
+                  }
+                }}
+                placeholder={t('values.customPlaceholder')}
+              />
+              <Button variant="outlined" startIcon={<AddIcon />} onClick={handleAddCustom}>
+                {t('values.add')}
+              </Button>
+            </Box>
+
+            {availableBuiltIns.length > 0 && (
+              <>
+                <Typography gutterBottom>{t('values.common')}</Typography>
+                <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                  {availableBuiltIns.map((name) => (
+                    <Chip
+                      key={name}
+                      label={valueLabel(name, t)}
+                      icon={<AddIcon />}
+                      onClick={() => updateProfile(addValue(profile, name))}
+                      variant="outlined"
+                    />
+                  ))}
+                </Box>
+              </>
+            )}
+
+            <Divider sx={{ my: 3 }} />
+            <Typography variant="h6" gutterBottom>
+              {t('values.tensions')}
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              {t('values.tensionsHelp')}
+            </Typography>
+
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+              {builtInTensions(t).map((tension) => (
+                <Tooltip key={tension.id} title={tension.reason || ''}>
+                  <Chip label={tension.values.map(name => valueLabel(name, t)).join(' ↔ ')} size="small" />
+                </Tooltip>
+              ))}
+              {tensions.map((tension) => (
+                <Tooltip key={tension.id} title={tension.reason || ''}>
+                  <Chip
+                    label={tension.values.map(name => valueLabel(name, t)).join(' ↔ ')}
+                    size="small"
+                    color="primary"
+                    onDelete={() => handleRemoveTension(tension.id)}
+                  />
+                </Tooltip>
+              ))}
+            </Box>
+
+            <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2, mb: 2 }}>
+              {tensionValues.map((selected, index) => (
+                <FormControl key={index} fullWidth size="small">
+                  <InputLabel>{t(index === 0 ? 'values.firstValue' : 'values.secondValue')}</InputLabel>
+                  <Select
+                    label={t(index === 0 ? 'values.firstValue' : 'values.secondValue')}
+                    value={selected}
+                    onChange={(e) => {
+                      const next: [string, string] = [...tensionValues];
+                      next[index] = e.target.value;
+                      setTensionValues(next);
+                    }}
+                  >
+                    {valueChoices(profile).map((name) => (
+                      <MenuItem key={name} value={name}>{valueLabel(name, t)}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              ))}
+            </Box>
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                fullWidth
+                size="small"
+                label={t('values.tensionReason')}
+                value={tensionReason}
+                onChange={(e) => setTensionReason(e.target.value)}
+              />
+              <Button
+                variant="outlined"
+                startIcon={<AddIcon />}
+                onClick={handleAddTension}
+                disabled={!tensionValues[0] || !tensionValues[1]}
+              >
+                {t('values.add')}
+              </Button>
+            </Box>
+          </>
+        )}
+      </Paper>
+    </Container>
+  );
+};
+
+export default ValueProfileEditor;
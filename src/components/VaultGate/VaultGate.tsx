@@ -0,0 +1,46 @@
+import { ReactNode, useEffect } from 'react';
+import { vault as defaultVault, Vault } from '../../services/encryption/vault';
+import LockScreen from '../LockScreen/LockScreen';
+import { useVaultStatus } from './useVaultStatus';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'];
+const AUTO_LOCK_CHECK_MS = 15 * 1000;
+
+interface VaultGateProps {
+  vault?: Vault;
+  children: ReactNode;
+}
+
+// Shows the lock screen instead of the app while encrypted data is locked, and locks it after inactivity
+const VaultGate = ({ vault = defaultVault, children }: VaultGateProps) => {
+  const status = useVaultStatus(vault);
+
+  useEffect(() => {
+    if (status !== 'unlocked') {
+      return undefined;
+    }
+    let lastActivity = Date.now();
+    const markActive = () => {
+      lastActivity = Date.now();
+    };
+    // Timers are throttled in background tabs, so the check also runs when the tab is shown again
+    const lockIfIdle = () => {
+      if (Date.now() - lastActivity >= vault.autoLockMinutes() * 60 * 1000) {
+        vault.lock();
+      }
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+    document.addEventListener('visibilitychange', lockIfIdle);
+    const timer = window.setInterval(lockIfIdle, AUTO_LOCK_CHECK_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive));
+      document.removeEventListener('visibilitychange', lockIfIdle);
+      window.clearInterval(timer);
+    };
+  }, [status, vault]);
+
+  // Unmounting the app drops every decrypted record it held in its state
+  return status === 'locked' ? <LockScreen vault={vault} /> : <>{children}</>;
+};
+
+export default VaultGate;
@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+import { Vault, VaultStatus } from '../../services/encryption/vault';
+
+// Whether stored data is encrypted and, if so, locked; re-renders whenever that changes
+export const useVaultStatus = (vault: Vault): VaultStatus => {
+  const [status, setStatus] = useState(vault.status);
+
+  useEffect(() => {
+    setStatus(vault.status());
+    return vault.subscribe(setStatus);
+  }, [vault]);
+
+  return status;
+};
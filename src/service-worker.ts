@@ -0,0 +1,35 @@
+/// <reference lib="webworker" />
+import { clientsClaim } from 'workbox-core';
+import { cleanupOutdatedCaches, createHandlerBoundToURL, precacheAndRoute } from 'workbox-precaching';
+import { NavigationRoute, registerRoute } from 'workbox-routing';
+import { SKIP_WAITING_MESSAGE } from './services/pwa/serviceWorker';
+
+declare const self: ServiceWorkerGlobalScope & { __WB_MANIFEST: Array<string | { url: string; revision: string | null }> };
+
+/**
+ * Built into service-worker.js by the production build, which fills in the
+ * list of files to precache. Everything the app needs is in that list and all
+ * data lives on the device, so once installed the app works with no network.
+ */
+
+// Pages already open are taken over as soon as a new version is activated
+clientsClaim();
+
+precacheAndRoute(self.__WB_MANIFEST);
+cleanupOutdatedCaches();
+
+// Every route is rendered by the app, so navigations are answered with the cached shell.
+// Paths with a file extension and reserved /_ paths are left to the network.
+const FILE_EXTENSION = /\/[^/?]+\.[^/]+$/;
+registerRoute(
+  new NavigationRoute(createHandlerBoundToURL(`${process.env.PUBLIC_URL}/index.html`), {
+    denylist: [/^\/_/, FILE_EXTENSION],
+  })
+);
+
+// A new version waits until the user chooses to reload, so nothing changes under an open wizard
+self.addEventListener('message', (event) => {
+  if (event.data?.type === SKIP_WAITING_MESSAGE) {
+    self.skipWaiting();
+  }
+});
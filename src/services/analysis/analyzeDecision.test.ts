@@ -0,0 +1,150 @@
+import { Decision } from '../../types/decision';
+import { analyzeDecision } from './analyzeDecision';
+
+const decision: Decision = {
+  question: 'Should I accept the new job offer?',
+  balanceScore: 35,
+  timeHorizon: 70,
+  options: ['Stay at current job', 'Accept the offer'],
+  stakes: 'My salary and career growth',
+  values: ['Career Growth', 'Family', 'Financial Security'],
+  initialIntuition: 'I feel like I should take the job, but I am nervous',
+};
+
+describe('analyzeDecision', () => {
+  it('returns the same analysis for the same decision', () => {
+    expect(analyzeDecision(decision)).toEqual(analyzeDecision({ ...decision }));
+  });
+
+  it('does not use Math.random', () => {
+    const spy = jest.spyOn(Math, 'random');
+    analyzeDecision(decision, { seed: 42 });
+    expect(spy).not.toHaveBeenCalled();
+    spy.mockRestore();
+  });
+
+  it('varies only through the seed for identical inputs', () => {
+    const seeded = analyzeDecision(decision, { seed: 7 });
+    expect(analyzeDecision(decision, { seed: 7 })).toEqual(seeded);
+    expect(analyzeDecision(decision, { seed: 8 })).not.toEqual(seeded);
+  });
+
+  it('ignores fields outside the analysed inputs', () => {
+    const withMetadata = { ...decision, id: 'abc', createdAt: new Date(0), confidenceScore: 90 };
+    expect(analyzeDecision(withMetadata)).toEqual(analyzeDecision(decision));
+  });
+
+  it('produces factors, positions and normalised sentiment', () => {
+    const analysis = analyzeDecision(decision);
+    const { positive, negative, neutral } = analysis.sentiment;
+
+    expect(analysis.factors.map(factor => factor.name)).toEqual([
+      'Career Growth alignment',
+      'Family alignment',
+      'Financial Security alignment',
+      'Financial impact',
+      'Emotional well-being',
+      'Long-term consequences',
+      'Impact on My salary and career growth',
+      'Stay at current job: fit with your approach',
+      'Accept the offer: fit with your approach',
+    ]);
+    analysis.factors.forEach(factor => {
+      expect(factor.score).toBeGreaterThanOrEqual(0);
+      expect(factor.score).toBeLessThanOrEqual(100);
+    });
+    expect(Object.keys(analysis.optionPositions || {})).toEqual(decision.options);
+    expect(positive + negative + neutral).toBeCloseTo(1);
+  });
+
+  it('scores options from the decision matrix and names the winner', () => {
+    const analysis = analyzeDecision({
+      ...decision,
+      matrix: {
+        criteria: [{ id: 'growth', name: 'Career Growth', weight: 4, value: 'Career Growth' }],
+        scores: { 'Stay at current job': { growth: 3 }, 'Accept the offer': { growth: 9 } },
+      },
+    });
+
+    expect(analysis.matrixRanking).toEqual([
+      { option: 'Accept the offer', score: 90, rank: 1 },
+      { option: 'Stay at current job', score: 30, rank: 2 },
+    ]);
+    expect(analysis.factors.filter(factor => factor.valueAlignment)).toEqual([
+      { name: 'Career Growth (weight 4)', score: 30, option: 'Stay at current job', valueAlignment: 'Career Growth' },
+      { name: 'Career Growth (weight 4)', score: 90, option: 'Accept the offer', valueAlignment: 'Career Growth' },
+    ]);
+    expect(analysis.recommendation).toContain('ranks "Accept the offer" first with 90/100, a clear lead of 60 points');
+  });
+
+  it('weighs value alignment and conflicts by profile priority', () => {
+    const ranked = analyzeDecision({
+      ...decision,
+      rankedValues: [
+        { id: 'family', name: 'Family', priority: 1 },
+        { id: 'growth', name: 'Career Growth', priority: 9 },
+        { id: 'money', name: 'Financial Security', priority: 12 },
+      ],
+    });
+
+    const alignment = ranked.factors.filter(factor => factor.valueAlignment);
+    expect(alignment.map(factor => factor.valueAlignment)).toEqual(['Family', 'Career Growth', 'Financial Security']);
+    expect(alignment[0].score).toBeGreaterThan(alignment[1].score);
+    expect(ranked.valueConflicts).toEqual([
+      expect.stringContaining('"Accept the offer" favours Career Growth; none of your options clearly protects Family. You rank Family above Career Growth.'),
+    ]);
+  });
+
+  it('flags status quo bias when the first option keeps things as they are', () => {
+    const biases = analyzeDecision(decision).detectedBiases?.map(bias => bias.biasType);
+    expect(biases).toContain('Status Quo Bias');
+  });
+
+  it('handles any number of options', () => {
+    const options = ['Rent in the city', 'Buy in the suburbs', 'Move abroad', 'Stay with parents', 'Buy a van'];
+    const analysis = analyzeDecision({ ...decision, balanceScore: 70, options: [...options, '', ' Move abroad '] });
+    const positions = analysis.optionPositions || {};
+
+    expect(Object.keys(positions)).toEqual(options);
+    expect(analysis.factors.filter(factor => factor.option).map(factor => factor.option)).toEqual(options);
+    expect(analysis.recommendation).toContain('Between Rent in the city, Buy in the suburbs, Move abroad, Stay with parents and Buy a van');
+
+    // Options are spread out so none sit on top of each other
+    options.forEach((a, i) => options.slice(i + 1).forEach(b => {
+      expect(Math.hypot(positions[a].x - positions[b].x, positions[a].y - positions[b].y)).toBeGreaterThan(5);
+    }));
+  });
+
+  it('uses where the user moved an option on the compass', () => {
+    const original = analyzeDecision(decision);
+    const corrected = analyzeDecision({
+      ...decision,
+      positionCorrections: { 'Accept the offer': { x: 35, y: 70 }, 'Removed option': { x: 0, y: 0 } },
+    });
+
+    expect(corrected.optionPositions).toEqual({
+      ...original.optionPositions,
+      'Accept the offer': { x: 35, y: 70 },
+    });
+    expect(corrected.factors.find(factor => factor.name === 'Accept the offer: fit with your approach')?.score).toBe(100);
+    expect(corrected.recommendation).toContain(
+      'You moved "Accept the offer" on the compass. With your placements, "Accept the offer" sits closest to your own approach.'
+    );
+    // Everything the correction doesn't touch stays the same
+    expect(corrected.sentiment).toEqual(original.sentiment);
+    expect(corrected.factors.slice(0, 6)).toEqual(original.factors.slice(0, 6));
+  });
+
+  it('treats a zero balance score as fully emotional', () => {
+    const analysis = analyzeDecision({ ...decision, balanceScore: 0 });
+    expect(analysis.recommendation).toContain('(100% emotional)');
+  });
+
+  it('writes the analysis in the requested language without changing the scores', () => {
+    const english = analyzeDecision(decision);
+    const spanish = analyzeDecision(decision, { locale: 'es' });
+    expect(spanish.recommendation).toContain('Tu enfoque de «Should I accept the new job offer?» es sobre todo emocional');
+    expect(spanish.detectedBiases?.map(bias => bias.biasType)).toEqual(english.detectedBiases?.map(bias => bias.biasType));
+    expect(spanish.optionPositions).toEqual(english.optionPositions);
+  });
+});
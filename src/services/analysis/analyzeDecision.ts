@@ -0,0 +1,308 @@
+import {
+  Analysis,
+  Decision,
+  DecisionMatrix,
+  Factor,
+  OptionPosition,
+  RankedOption,
+  ValueTension,
+} from '../../types/decision';
+import { cleanOptions, formatList } from '../decision/options';
+import { createTranslator, DEFAULT_LOCALE, Locale, Translate } from '../i18n/i18n';
+import { BIAS_DETECTORS, detectBiases } from './biasDetectors';
+import { analyzeSentiment } from './sentiment';
+import { cleanMatrix, describeMargin, matrixFactors, rankOptions } from './decisionMatrix';
+import { findValueConflicts } from './valueConflicts';
+import { createRandom, hashString, randomInt, RandomSource } from './random';
+import { priorityWeight, rankSelection, valueLabel } from '../values/valueProfile';
+
+export interface AnalyzeOptions {
+  seed?: number; // Varies the output for the same inputs; omitted = 0
+  locale?: Locale; // Language the text is written in; it stays in that language once stored
+}
+
+// The subset of a decision the engine reads, with defaults filled in
+interface AnalysisInput {
+  question: string;
+  options: string[];
+  stakes: string;
+  values: string[]; // Most important first
+  priorities: Record<string, number>; // Value name -> profile priority
+  intuition: string;
+  balanceScore: number;
+  timeHorizon: number;
+  matrix?: DecisionMatrix;
+  tensions: ValueTension[];
+  corrections: Record<string, OptionPosition>; // Only for options that still exist
+}
+
+const FINANCIAL_WORDS = [
+  'money', 'salary', 'pay', 'cost', 'price', 'debt', 'rent', 'income', 'financial',
+  'finance', 'invest', 'savings', 'budget', 'mortgage', 'loan'
+];
+
+const FEELING_WORDS = [
+  'feel', 'love', 'happy', 'afraid', 'scared', 'nervous', 'anxious', 'excited',
+  'sad', 'worried', 'stress', 'hope', 'fear'
+];
+
+const clamp = (value: number, min = 0, max = 100) => Math.max(min, Math.min(max, value));
+
+const distance = (a: OptionPosition, b: OptionPosition) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const mentionsAny = (text: string, words: string[]) => {
+  const lower = text.toLowerCase();
+  return words.some(word => lower.includes(word));
+};
+
+/** What the engine reads from a decision, trimmed and with defaults filled in. */
+export const analysisInput = (decision: Decision): AnalysisInput => {
+  // Without a profile snapshot every value keeps the same, top priority
+  const ranked = decision.rankedValues
+    ? rankSelection(decision.values || [], decision.rankedValues)
+    : (decision.values || []).map(name => ({ id: name, name, priority: 1 }));
+
+  const options = cleanOptions(decision.options);
+
+  return {
+    question: decision.question.trim(),
+    options,
+    stakes: (decision.stakes || '').trim(),
+    values: ranked.map(value => value.name),
+    priorities: Object.fromEntries(ranked.map(value => [value.name, value.priority])),
+    intuition: (decision.initialIntuition || '').trim(),
+    balanceScore: decision.balanceScore ?? 50,
+    timeHorizon: decision.timeHorizon ?? 50,
+    matrix: cleanMatrix(decision.matrix),
+    tensions: decision.valueTensions || [],
+    corrections: Object.fromEntries(
+      Object.entries(decision.positionCorrections || {})
+        .filter(([option]) => options.includes(option))
+        .map(([option, { x, y }]) => [option, { x: clamp(x), y: clamp(y) }])
+    ),
+  };
+};
+
+const quotedList = (items: string[], t: Translate) => formatList(items.map(item => `"${item}"`), t('list.and'));
+
+// Names the matrix winner and how far ahead it is of the runner-up
+const describeRanking = (ranking: RankedOption[], t: Translate): string => {
+  const [winner, runnerUp] = ranking;
+  if (!runnerUp) {
+    return t('analysis.ranking.single', { option: winner.option, score: winner.score });
+  }
+
+  const tied = ranking.filter(item => item.rank === 1);
+  if (tied.length > 1) {
+    return t('analysis.ranking.tied', { options: quotedList(tied.map(item => item.option), t), score: winner.score });
+  }
+
+  const margin = Math.round((winner.score - runnerUp.score) * 10) / 10;
+  return t('analysis.ranking.lead', {
+    winner: winner.option,
+    score: winner.score,
+    margin: describeMargin(margin, t),
+    points: margin,
+    runnerUp: runnerUp.option,
+  });
+};
+
+// Paragraphs separated by blank lines, each built from whole sentences
+const buildRecommendation = (input: AnalysisInput, ranking: RankedOption[], random: RandomSource, t: Translate): string[] => {
+  const { question, options, stakes, values, intuition, balanceScore, timeHorizon } = input;
+  const isMoreLogical = balanceScore > 50;
+  const isLongTerm = timeHorizon > 50;
+
+  const approach: string[] = [];
+  if (isMoreLogical) {
+    approach.push(t('analysis.logical.approach', { question, percent: balanceScore }));
+
+    if (values.length > 0) {
+      const emotionalValue = values[Math.floor(random() * values.length)];
+      approach.push(t('analysis.logical.value', { value: valueLabel(emotionalValue, t).toLowerCase() }));
+    }
+
+    approach.push(options.length >= 2
+      ? t('analysis.logical.options', { options: formatList(options, t('list.and')) })
+      : t('analysis.logical.noOptions'));
+  } else {
+    approach.push(t('analysis.emotional.approach', { question, percent: 100 - balanceScore }));
+
+    if (stakes) {
+      approach.push(t('analysis.emotional.stakes', { stakes }));
+    }
+
+    approach.push(options.length >= 2
+      ? t('analysis.emotional.options', { options: options.join(` ${t('list.versus')} `) })
+      : t('analysis.emotional.noOptions'));
+  }
+
+  const paragraphs = [approach.join(' ')];
+  if (ranking.length > 0) {
+    paragraphs.push(describeRanking(ranking, t));
+  }
+
+  // Add intuition comparison
+  paragraphs.push([
+    t('analysis.intuition', { intuition }),
+    isLongTerm ? t('analysis.horizon.long') : t('analysis.horizon.short'),
+  ].join(' '));
+
+  return paragraphs;
+};
+
+const buildFactors = (
+  input: AnalysisInput,
+  positions: Record<string, OptionPosition>,
+  random: RandomSource,
+  t: Translate
+): Factor[] => {
+  const { question, options, stakes, values, priorities, intuition, balanceScore, timeHorizon, matrix } = input;
+  const allText = [question, intuition, stakes, ...options].join(' ');
+  const factors: Factor[] = [];
+
+  if (matrix) {
+    // The user's own per-option scores replace the estimated value alignment
+    factors.push(...matrixFactors(matrix, options, t));
+  } else {
+    // Personal values score higher since the user chose them as relevant, the
+    // more so the higher they rank in the profile
+    values.forEach(value => {
+      factors.push({
+        name: t('analysis.factor.valueAlignment', { value: valueLabel(value, t) }),
+        score: Math.round(clamp(55 + 40 * priorityWeight(priorities[value]) + randomInt(random, -5, 4))),
+        valueAlignment: value
+      });
+    });
+  }
+
+  // Standard factors start from what the user wrote and chose, with a little seeded spread
+  const financialBase = (mentionsAny(allText, FINANCIAL_WORDS) ? 65 : 35) +
+    (values.includes('Financial Security') ? 10 : 0);
+  const emotionalBase = 30 + (100 - balanceScore) * 0.4 + (mentionsAny(allText, FEELING_WORDS) ? 15 : 0);
+
+  factors.push({ name: t('analysis.factor.financial'), score: Math.round(clamp(financialBase + randomInt(random, -10, 10))) });
+  factors.push({ name: t('analysis.factor.emotional'), score: Math.round(clamp(emotionalBase + randomInt(random, -10, 10))) });
+  factors.push({ name: t('analysis.factor.longTerm'), score: Math.round(clamp(timeHorizon + randomInt(random, -10, 10))) });
+
+  if (stakes) {
+    factors.push({ name: t('analysis.factor.stakes', { stakes }), score: randomInt(random, 40, 90) });
+  }
+
+  // How close each option sits to the user's own approach on the compass
+  options.forEach(option => {
+    factors.push({
+      name: t('analysis.factor.fit', { option }),
+      score: Math.round(100 - Math.min(100, distance(positions[option], { x: balanceScore, y: timeHorizon }))),
+      option,
+    });
+  });
+
+  return factors;
+};
+
+const positionOptions = (input: AnalysisInput, random: RandomSource): Record<string, OptionPosition> => {
+  const { options, balanceScore, timeHorizon } = input;
+  const optionPositions: Record<string, OptionPosition> = {};
+  if (options.length === 0) {
+    return optionPositions;
+  }
+
+  // The first option stays close to the user's own balance and horizon
+  const variance = 20;
+  const first: OptionPosition = {
+    x: clamp(balanceScore + (random() * variance - variance / 2), 15, 85),
+    y: clamp(timeHorizon + (random() * variance - variance / 2), 15, 85),
+  };
+  optionPositions[options[0]] = first;
+
+  // The rest are spread evenly around the centre, starting opposite the first,
+  // so that every option is easy to tell apart however many there are
+  const others = options.slice(1);
+  const startAngle = Math.atan2(first.y - 50, first.x - 50) + Math.PI;
+  others.forEach((option, index) => {
+    const angle = startAngle + (index * 2 * Math.PI) / others.length + (random() - 0.5) * 0.3;
+    const radius = 30 + random() * 10;
+    optionPositions[option] = {
+      x: clamp(50 + radius * Math.cos(angle), 10, 90),
+      y: clamp(50 + radius * Math.sin(angle), 10, 90),
+    };
+  });
+
+  return optionPositions;
+};
+
+// Where the user placed an option on the compass wins over the estimate
+const applyCorrections = (
+  positions: Record<string, OptionPosition>,
+  corrections: Record<string, OptionPosition>
+): Record<string, OptionPosition> => ({ ...positions, ...corrections });
+
+// Which option the user's own placements put closest to their balance and horizon
+const describeCorrections = (input: AnalysisInput, positions: Record<string, OptionPosition>, t: Translate): string => {
+  const moved = Object.keys(input.corrections);
+  const own = { x: input.balanceScore, y: input.timeHorizon };
+  const closest = input.options.reduce((best, option) =>
+    distance(positions[option], own) < distance(positions[best], own) ? option : best
+  );
+  return t('analysis.corrections', { options: quotedList(moved, t), closest });
+};
+
+// Suggests a hybrid of the two options that differ most on the compass
+const suggestThirdOption = (
+  input: AnalysisInput,
+  positions: Record<string, OptionPosition>,
+  random: RandomSource,
+  t: Translate
+): string | undefined => {
+  const { options } = input;
+  if (options.length < 2 || random() <= 0.7) {
+    return undefined;
+  }
+
+  let pair: [string, string] = [options[0], options[1]];
+  let widest = -1;
+  options.forEach((a, i) => options.slice(i + 1).forEach(b => {
+    const gap = distance(positions[a], positions[b]);
+    if (gap > widest) {
+      widest = gap;
+      pair = [a, b];
+    }
+  }));
+
+  return t('analysis.thirdOption', { first: pair[0].toLowerCase(), second: pair[1].toLowerCase() });
+};
+
+/**
+ * Analyses a decision without side effects. The result depends only on the
+ * question, options, stakes, values with their ranking and tensions,
+ * intuition, balanceScore, timeHorizon, decision matrix, compass corrections and the optional seed, so the same
+ * decision always yields the same analysis. The locale only changes the language of the text.
+ */
+export const analyzeDecision = (decision: Decision, { seed = 0, locale = DEFAULT_LOCALE }: AnalyzeOptions = {}): Analysis => {
+  const t = createTranslator(locale);
+  const input = analysisInput(decision);
+  // Corrections are left out of the seed so that moving an option doesn't reshuffle everything else
+  const { corrections, ...seeded } = input;
+  const random = createRandom(hashString(JSON.stringify(seeded)) ^ seed);
+
+  const matrixRanking = input.matrix ? rankOptions(input.matrix, input.options) : [];
+  const recommendation = buildRecommendation(input, matrixRanking, random, t);
+  const optionPositions = applyCorrections(positionOptions(input, random), corrections);
+  if (Object.keys(corrections).length > 0) {
+    recommendation.push(describeCorrections(input, optionPositions, t));
+  }
+  const factors = buildFactors(input, optionPositions, random, t);
+
+  return {
+    recommendation: recommendation.join('\n\n'),
+    factors,
+    sentiment: analyzeSentiment(input, locale),
+    detectedBiases: detectBiases(input, BIAS_DETECTORS, undefined, t),
+    valueConflicts: findValueConflicts(input, t),
+    optionPositions,
+    thirdOption: suggestThirdOption(input, optionPositions, random, t),
+    ...(matrixRanking.length > 0 ? { matrixRanking } : {}),
+    locale,
+  };
+};
@@ -0,0 +1,97 @@
+import { BiasInput, BIAS_DETECTORS, detectBiases, findPhrases } from './biasDetectors';
+import { COGNITIVE_BIASES } from './biases';
+
+const neutral: BiasInput = {
+  question: 'Which city should I live in?',
+  options: ['Lisbon', 'Berlin'],
+  stakes: 'Cost of living and friends nearby',
+  intuition: 'Both have a lot going for them',
+  balanceScore: 50,
+  timeHorizon: 50,
+};
+
+const detected = (changes: Partial<BiasInput>) => {
+  const biases = detectBiases({ ...neutral, ...changes });
+  return Object.fromEntries(biases.map(bias => [bias.biasType, bias.evidence]));
+};
+
+describe('biasDetectors', () => {
+  it('has a catalogue entry for every detector and a detector for every entry', () => {
+    expect(BIAS_DETECTORS.map(detector => detector.biasType).sort())
+      .toEqual(COGNITIVE_BIASES.map(bias => bias.biasType).sort());
+  });
+
+  it('detects nothing in a balanced description', () => {
+    expect(detectBiases(neutral)).toEqual([]);
+  });
+
+  it('flags loss aversion when losses outweigh gains', () => {
+    expect(detected({ intuition: 'I would lose my friends and regret it' })['Loss Aversion']).toEqual([
+      'Your description dwells on what you could lose ("lose", "regret") more than on what you could gain.',
+    ]);
+    expect(detected({ intuition: 'I might lose a bit but gain a lot' })['Loss Aversion']).toBeUndefined();
+  });
+
+  it('flags confirmation bias when the intuition argues for only one option', () => {
+    expect(detected({ intuition: 'Lisbon is definitely the place, the sun and the sea' })['Confirmation Bias']).toEqual([
+      'Your intuition mentions only reasons for option A ("Lisbon"), none for the others.',
+      'It sounds settled already ("definitely").',
+    ]);
+    expect(detected({ intuition: 'Lisbon has sun, Berlin has my friends' })['Confirmation Bias']).toBeUndefined();
+  });
+
+  it('flags recency bias from references to recent events', () => {
+    expect(detected({ intuition: 'Last week my rent went up again', timeHorizon: 20 })['Recency Bias']).toEqual([
+      'Your description leans on recent events ("last week").',
+      'Your time horizon is short-term (20/100), which gives recent events even more weight.',
+    ]);
+  });
+
+  it('flags status quo bias for any option that keeps things as they are', () => {
+    const evidence = detected({
+      options: ['Move to Berlin', 'Stay in Lisbon'],
+      intuition: 'I am comfortable where I am',
+    })['Status Quo Bias'];
+    expect(evidence).toEqual([
+      'Option B ("Stay in Lisbon") keeps things as they are.',
+      'Your intuition voices unease about change ("comfortable").',
+    ]);
+    expect(detected({ options: ['Move to Berlin', 'Stay in Lisbon'] })['Status Quo Bias']).toBeUndefined();
+  });
+
+  it('flags emotional reasoning only with an emotional approach and feeling-based intuition', () => {
+    expect(detected({ intuition: 'My gut says Berlin', balanceScore: 20 })['Emotional Reasoning']).toHaveLength(2);
+    expect(detected({ intuition: 'My gut says Berlin', balanceScore: 60 })['Emotional Reasoning']).toBeUndefined();
+  });
+
+  it('flags sunk cost, anchoring and the planning fallacy', () => {
+    const evidence = detected({
+      question: 'Should I finish renovating the flat I have already invested in?',
+      stakes: 'The asking price was $250k',
+      intuition: 'It should be easy to finish quickly',
+    });
+    expect(evidence['Sunk Cost Fallacy']).toEqual([
+      'You point to what has already been invested ("already invested"), which can\'t be recovered either way.',
+    ]);
+    expect(evidence['Anchoring']).toEqual([
+      'You compare against a reference point ("asking price").',
+      'The decision revolves around specific figures ("$250k").',
+    ]);
+    expect(evidence['Planning Fallacy']).toEqual(['You expect things to go smoothly or fast ("quickly", "should be easy").']);
+  });
+
+  it('accepts new detectors registered with a catalogue entry', () => {
+    const bandwagon = { biasType: 'Bandwagon Effect', description: 'Following the crowd.', suggestion: 'Ask what you want.' };
+    const detector = { biasType: 'Bandwagon Effect', detect: () => ['Everyone else is doing it.'] };
+
+    expect(detectBiases(neutral, [detector], [bandwagon])).toEqual([{ ...bandwagon, evidence: ['Everyone else is doing it.'] }]);
+    expect(() => detectBiases(neutral, [detector])).toThrow('No catalogue entry for bias "Bandwagon Effect"');
+  });
+
+  it('matches phrases at word boundaries', () => {
+    expect(findPhrases('Start over', ['art'])).toEqual([]);
+    expect(findPhrases('Losing sleep', ['losing'])).toEqual(['losing']);
+    expect(findPhrases('I will surely regret it', ['sure', 'regret'])).toEqual(['regret']);
+    expect(findPhrases('Nevertheless, not staying', ['never', 'not '])).toEqual(['not ']);
+  });
+});
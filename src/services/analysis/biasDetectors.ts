@@ -0,0 +1,231 @@
+import { BiasDetection } from '../../types/decision';
+import { optionLetter } from '../decision/options';
+import { createTranslator, Translate } from '../i18n/i18n';
+import { biasCatalogue } from './biases';
+
+// The parts of a decision the detectors read
+export interface BiasInput {
+  question: string;
+  options: string[];
+  stakes: string;
+  intuition: string;
+  balanceScore: number;
+  timeHorizon: number;
+}
+
+/**
+ * One detector per bias. `detect` returns the evidence it found, phrased so it
+ * can follow "Why:"; an empty list means the bias was not detected.
+ */
+export interface BiasDetector {
+  biasType: string; // Must match an entry in the bias catalogue
+  detect: (input: BiasInput, t: Translate) => string[];
+}
+
+const LOSS_WORDS = ['lose', 'losing', 'loss', 'give up', 'miss out', 'regret', 'can\'t afford', 'risk', 'throw away'];
+const GAIN_WORDS = ['gain', 'opportunity', 'grow', 'benefit', 'improve', 'better', 'win', 'excited'];
+const CERTAINTY_WORDS = ['definitely', 'obviously', 'clearly', 'certainly', 'no doubt', 'always', 'never', 'i know'];
+const RECENT_WORDS = ['recently', 'lately', 'yesterday', 'last week', 'last month', 'this week', 'this month', 'today', 'just happened', 'latest'];
+const STATUS_QUO_WORDS = ['stay', 'current', 'keep', 'remain', 'continue', 'same', 'as it is', 'as is', 'do nothing', 'not '];
+const CHANGE_UNEASE_WORDS = ['nervous', 'scared', 'afraid', 'worried', 'comfortable', 'familiar', 'safe', 'used to', 'risky'];
+const FEELING_WORDS = ['i feel', 'feels', 'feeling', 'gut', 'heart', 'just know', 'sense', 'vibe'];
+const SUNK_COST_WORDS = [
+  'already invested', 'already spent', 'already put', 'so much time', 'so much money', 'years into',
+  'come this far', 'wasted', 'waste', 'put so much', 'all that work', 'too late to'
+];
+const ANCHOR_WORDS = ['first offer', 'asking price', 'original price', 'listed at', 'compared to', 'they offered', 'initial offer', 'market rate'];
+const OPTIMISTIC_TIMING_WORDS = [
+  'quickly', 'easily', 'in no time', 'won\'t take long', 'should be easy', 'straightforward',
+  'only take', 'just a few', 'by next week', 'by next month', 'overnight', 'in a couple of'
+];
+
+// Significant words that tell options apart
+const STOP_WORDS = ['the', 'and', 'for', 'with', 'into', 'from', 'that', 'this', 'then', 'than', 'my', 'a', 'an', 'to', 'of', 'at', 'in', 'on'];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Phrases from the list that occur in the text as whole words: "sure" doesn't match "surely". */
+export const findPhrases = (text: string, phrases: string[]): string[] =>
+  phrases.filter((phrase) => {
+    // A phrase ending in a space, like "not ", already ends at a word boundary
+    const end = /\w$/.test(phrase) ? '(?!\\w)' : '';
+    return new RegExp(`(^|\\W)${escapeRegExp(phrase)}${end}`, 'i').test(text);
+  });
+
+const quoted = (words: string[]) => words.map(word => `"${word.trim()}"`).join(', ');
+
+const wordsOf = (text: string) =>
+  text.toLowerCase().split(/[^a-z0-9']+/).filter(word => word.length > 2 && !STOP_WORDS.includes(word));
+
+// Options the intuition refers to, either by letter or by a word only that option uses
+export const optionsMentioned = (intuition: string, options: string[]): number[] => {
+  const intuitionWords = wordsOf(intuition);
+  return options
+    .map((option, index) => {
+      const others = options.filter((_, other) => other !== index).flatMap(wordsOf);
+      const distinctive = wordsOf(option).filter(word => !others.includes(word));
+      const byLetter = new RegExp(`\\boption ${optionLetter(index)}\\b`, 'i').test(intuition);
+      const byWord = distinctive.some(word => intuitionWords.some(used => used.startsWith(word.slice(0, 5))));
+      return byLetter || byWord ? index : -1;
+    })
+    .filter(index => index >= 0);
+};
+
+const lossAversion: BiasDetector = {
+  biasType: 'Loss Aversion',
+  detect: ({ question, intuition, stakes }, t) => {
+    const text = [question, intuition, stakes].join(' ');
+    const losses = findPhrases(text, LOSS_WORDS);
+    const gains = findPhrases(text, GAIN_WORDS);
+    if (losses.length === 0 || losses.length <= gains.length) {
+      return [];
+    }
+    return [t('bias.lossAversion.evidence', { phrases: quoted(losses) })];
+  },
+};
+
+const confirmationBias: BiasDetector = {
+  biasType: 'Confirmation Bias',
+  detect: ({ options, intuition }, t) => {
+    if (options.length < 2) {
+      return [];
+    }
+    const mentioned = optionsMentioned(intuition, options);
+    if (mentioned.length !== 1) {
+      return [];
+    }
+    const [index] = mentioned;
+    const evidence = [t('bias.confirmation.evidence', { letter: optionLetter(index), option: options[index] })];
+    const certainty = findPhrases(intuition, CERTAINTY_WORDS);
+    if (certainty.length > 0) {
+      evidence.push(t('bias.confirmation.certainty', { phrases: quoted(certainty) }));
+    }
+    return evidence;
+  },
+};
+
+const recencyBias: BiasDetector = {
+  biasType: 'Recency Bias',
+  detect: ({ question, intuition, stakes, timeHorizon }, t) => {
+    const recent = findPhrases([question, intuition, stakes].join(' '), RECENT_WORDS);
+    if (recent.length === 0) {
+      return [];
+    }
+    const evidence = [t('bias.recency.evidence', { phrases: quoted(recent) })];
+    if (timeHorizon < 40) {
+      evidence.push(t('bias.recency.shortTerm', { timeHorizon }));
+    }
+    return evidence;
+  },
+};
+
+const statusQuoBias: BiasDetector = {
+  biasType: 'Status Quo Bias',
+  detect: ({ options, intuition }, t) => {
+    const index = options.findIndex(option => findPhrases(option, STATUS_QUO_WORDS).length > 0);
+    if (index < 0 || options.length < 2) {
+      return [];
+    }
+    const unease = findPhrases(intuition, CHANGE_UNEASE_WORDS);
+    const favoured = optionsMentioned(intuition, options);
+    const leansToStay = favoured.length === 1 && favoured[0] === index;
+    if (unease.length === 0 && !leansToStay) {
+      return [];
+    }
+
+    const evidence = [t('bias.statusQuo.evidence', { letter: optionLetter(index), option: options[index] })];
+    if (leansToStay) {
+      evidence.push(t('bias.statusQuo.leaning'));
+    }
+    if (unease.length > 0) {
+      evidence.push(t('bias.statusQuo.unease', { phrases: quoted(unease) }));
+    }
+    return evidence;
+  },
+};
+
+const emotionalReasoning: BiasDetector = {
+  biasType: 'Emotional Reasoning',
+  detect: ({ intuition, balanceScore }, t) => {
+    const feelings = findPhrases(intuition, FEELING_WORDS);
+    if (balanceScore >= 35 || feelings.length === 0) {
+      return [];
+    }
+    return [
+      t('bias.emotionalReasoning.approach', { percent: 100 - balanceScore }),
+      t('bias.emotionalReasoning.evidence', { phrases: quoted(feelings) }),
+    ];
+  },
+};
+
+const sunkCostFallacy: BiasDetector = {
+  biasType: 'Sunk Cost Fallacy',
+  detect: ({ question, intuition, stakes, options }, t) => {
+    const invested = findPhrases([question, intuition, stakes, ...options].join(' '), SUNK_COST_WORDS);
+    return invested.length > 0
+      ? [t('bias.sunkCost.evidence', { phrases: quoted(invested) })]
+      : [];
+  },
+};
+
+const anchoring: BiasDetector = {
+  biasType: 'Anchoring',
+  detect: ({ question, intuition, stakes, options }, t) => {
+    const text = [question, intuition, stakes, ...options].join(' ');
+    const anchors = findPhrases(text, ANCHOR_WORDS);
+    const figures = text.match(/[$£€]\s?\d[\d,.]*\s?k?|\b\d[\d,.]*\s?(%|k\b|percent)/gi) || [];
+    if (anchors.length === 0) {
+      return [];
+    }
+    const evidence = [t('bias.anchoring.evidence', { phrases: quoted(anchors) })];
+    if (figures.length > 0) {
+      evidence.push(t('bias.anchoring.figures', { phrases: quoted(figures) }));
+    }
+    return evidence;
+  },
+};
+
+const planningFallacy: BiasDetector = {
+  biasType: 'Planning Fallacy',
+  detect: ({ question, intuition, stakes, options }, t) => {
+    const optimistic = findPhrases([question, intuition, stakes, ...options].join(' '), OPTIMISTIC_TIMING_WORDS);
+    return optimistic.length > 0
+      ? [t('bias.planningFallacy.evidence', { phrases: quoted(optimistic) })]
+      : [];
+  },
+};
+
+// To add a bias, add its catalogue entry in biases.ts and its detector here
+export const BIAS_DETECTORS: BiasDetector[] = [
+  lossAversion,
+  confirmationBias,
+  recencyBias,
+  statusQuoBias,
+  emotionalReasoning,
+  sunkCostFallacy,
+  anchoring,
+  planningFallacy,
+];
+
+/**
+ * Runs every detector and returns the catalogue entry for each bias that was
+ * detected, together with its evidence, both in the translator's language. A
+ * detector without a catalogue entry is a programming error, so it throws
+ * rather than silently skipping it.
+ */
+export const detectBiases = (
+  input: BiasInput,
+  detectors: BiasDetector[] = BIAS_DETECTORS,
+  catalogue?: BiasDetection[],
+  t: Translate = createTranslator()
+): BiasDetection[] => {
+  const entries = catalogue || biasCatalogue(t);
+  return detectors.flatMap(detector => {
+    const entry = entries.find(bias => bias.biasType === detector.biasType);
+    if (!entry) {
+      throw new Error(`No catalogue entry for bias "${detector.biasType}"`);
+    }
+    const evidence = detector.detect(input, t);
+    return evidence.length > 0 ? [{ ...entry, evidence }] : [];
+  });
+};
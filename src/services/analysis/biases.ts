@@ -0,0 +1,73 @@
+import { BiasDetection } from '../../types/decision';
+import { createTranslator, MessageKey, Translate } from '../i18n/i18n';
+
+// Common cognitive biases in decision making; biasType is the stored, English identifier
+const BIAS_MESSAGES: { biasType: string; name: MessageKey; description: MessageKey; suggestion: MessageKey }[] = [
+  {
+    biasType: 'Loss Aversion',
+    name: 'bias.lossAversion.name',
+    description: 'bias.lossAversion.description',
+    suggestion: 'bias.lossAversion.suggestion',
+  },
+  {
+    biasType: 'Confirmation Bias',
+    name: 'bias.confirmation.name',
+    description: 'bias.confirmation.description',
+    suggestion: 'bias.confirmation.suggestion',
+  },
+  {
+    biasType: 'Recency Bias',
+    name: 'bias.recency.name',
+    description: 'bias.recency.description',
+    suggestion: 'bias.recency.suggestion',
+  },
+  {
+    biasType: 'Status Quo Bias',
+    name: 'bias.statusQuo.name',
+    description: 'bias.statusQuo.description',
+    suggestion: 'bias.statusQuo.suggestion',
+  },
+  {
+    biasType: 'Emotional Reasoning',
+    name: 'bias.emotionalReasoning.name',
+    description: 'bias.emotionalReasoning.description',
+    suggestion: 'bias.emotionalReasoning.suggestion',
+  },
+  {
+    biasType: 'Sunk Cost Fallacy',
+    name: 'bias.sunkCost.name',
+    description: 'bias.sunkCost.description',
+    suggestion: 'bias.sunkCost.suggestion',
+  },
+  {
+    biasType: 'Anchoring',
+    name: 'bias.anchoring.name',
+    description: 'bias.anchoring.description',
+    suggestion: 'bias.anchoring.suggestion',
+  },
+  {
+    biasType: 'Planning Fallacy',
+    name: 'bias.planningFallacy.name',
+    description: 'bias.planningFallacy.description',
+    suggestion: 'bias.planningFallacy.suggestion',
+  },
+];
+
+// The catalogue with descriptions and suggestions in the translator's language
+export const biasCatalogue = (t: Translate = createTranslator()): BiasDetection[] =>
+  BIAS_MESSAGES.map(({ biasType, description, suggestion }) => ({
+    biasType,
+    description: t(description),
+    suggestion: t(suggestion),
+  }));
+
+export const COGNITIVE_BIASES: BiasDetection[] = biasCatalogue();
+
+// A bias's display name; biases outside the catalogue keep the name they were stored with
+export const biasName = (biasType: string, t: Translate): string => {
+  const messages = BIAS_MESSAGES.find(bias => bias.biasType === biasType);
+  return messages ? t(messages.name) : biasType;
+};
+
+export const findBias = (biasType: string, t: Translate = createTranslator()): BiasDetection | undefined =>
+  biasCatalogue(t).find(bias => bias.biasType === biasType);
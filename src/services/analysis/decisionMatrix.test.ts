@@ -0,0 +1,92 @@
+import { DecisionMatrix } from '../../types/decision';
+import { cleanMatrix, describeMargin, matrixFactors, rankOptions, seedCriteria, setScore } from './decisionMatrix';
+
+const sequentialIds = () => {
+  let next = 0;
+  return () => `c${++next}`;
+};
+
+const matrix: DecisionMatrix = {
+  criteria: [
+    { id: 'growth', name: 'Career Growth', weight: 5, value: 'Career Growth' },
+    { id: 'money', name: 'Salary', weight: 1 },
+  ],
+  scores: {
+    Stay: { growth: 2, money: 9 },
+    Leave: { growth: 8, money: 4 },
+  },
+};
+
+describe('seedCriteria', () => {
+  it('creates one criterion per value and per concern in the stakes', () => {
+    const family = { id: 'family', name: 'Family', priority: 1 };
+    expect(seedCriteria([family], 'my salary, commute and career growth', sequentialIds())).toEqual([
+      { id: 'c1', name: 'Family', weight: 5, value: 'Family' },
+      { id: 'c2', name: 'My salary', weight: 3 },
+      { id: 'c3', name: 'Commute', weight: 3 },
+      { id: 'c4', name: 'Career growth', weight: 3 },
+    ]);
+  });
+
+  it('skips stakes already covered by a value', () => {
+    const criteria = seedCriteria([{ id: 'growth', name: 'Career Growth', priority: 1 }], 'career growth', sequentialIds());
+    expect(criteria.map(criterion => criterion.name)).toEqual(['Career Growth']);
+  });
+
+  it('weights values by their priority', () => {
+    const values = [1, 2, 3, 5, 9].map(priority => ({ id: `v${priority}`, name: `Value ${priority}`, priority }));
+    expect(seedCriteria(values, '', sequentialIds()).map(criterion => criterion.weight)).toEqual([5, 5, 4, 3, 1]);
+  });
+});
+
+describe('rankOptions', () => {
+  it('ranks options by weighted total out of 100', () => {
+    expect(rankOptions(matrix, ['Stay', 'Leave'])).toEqual([
+      { option: 'Leave', score: 73.3, rank: 1 },
+      { option: 'Stay', score: 31.7, rank: 2 },
+    ]);
+  });
+
+  it('treats unscored cells as neutral and gives ties the same rank', () => {
+    const ranking = rankOptions(matrix, ['Move abroad', 'Go freelance']);
+    expect(ranking.map(item => [item.score, item.rank])).toEqual([[50, 1], [50, 1]]);
+  });
+
+  it('returns nothing when no criterion carries weight', () => {
+    expect(rankOptions({ criteria: [], scores: {} }, ['Stay'])).toEqual([]);
+  });
+});
+
+describe('cleanMatrix', () => {
+  it('drops unnamed criteria and empty matrices', () => {
+    const withBlank = { ...matrix, criteria: [...matrix.criteria, { id: 'blank', name: '  ', weight: 3 }] };
+    expect(cleanMatrix(withBlank)?.criteria).toEqual(matrix.criteria);
+    expect(cleanMatrix({ criteria: [{ id: 'blank', name: '', weight: 3 }], scores: {} })).toBeUndefined();
+    expect(cleanMatrix(undefined)).toBeUndefined();
+  });
+});
+
+describe('setScore', () => {
+  it('returns a new matrix with the cell updated', () => {
+    const updated = setScore(matrix, 'Stay', 'growth', 6);
+    expect(updated.scores.Stay).toEqual({ growth: 6, money: 9 });
+    expect(matrix.scores.Stay.growth).toBe(2);
+  });
+});
+
+describe('matrixFactors', () => {
+  it('produces one factor per option and criterion', () => {
+    expect(matrixFactors(matrix, ['Stay'])).toEqual([
+      { name: 'Career Growth (weight 5)', score: 20, option: 'Stay', valueAlignment: 'Career Growth' },
+      { name: 'Salary (weight 1)', score: 90, option: 'Stay' },
+    ]);
+  });
+});
+
+describe('describeMargin', () => {
+  it('grades the lead of the winner', () => {
+    expect(describeMargin(1)).toBe('a very close call');
+    expect(describeMargin(5)).toBe('a modest lead');
+    expect(describeMargin(40)).toBe('a clear lead');
+  });
+});
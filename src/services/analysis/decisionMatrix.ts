@@ -0,0 +1,113 @@
+import { Criterion, DecisionMatrix, Factor, RankedOption, Value } from '../../types/decision';
+import { createTranslator, Translate } from '../i18n/i18n';
+import { generateId } from '../storage/generateId';
+import { valueLabel } from '../values/valueProfile';
+
+export const MIN_WEIGHT = 1;
+export const MAX_WEIGHT = 5;
+export const DEFAULT_WEIGHT = 3;
+export const MAX_SCORE = 10;
+export const DEFAULT_SCORE = 5;
+
+// "My career growth and financial stability" -> ["My career growth", "financial stability"]
+const splitStakes = (stakes: string) =>
+  stakes
+    .split(/,|;|\band\b|&/i)
+    .map(part => part.trim())
+    .filter(part => part.length > 1);
+
+// Top-ranked values start as critical and every two places down drop a step
+const weightForPriority = (priority: number) => Math.max(MIN_WEIGHT, MAX_WEIGHT - Math.floor((priority - 1) / 2));
+
+/**
+ * Starting criteria for a decision: one per selected value, named in the
+ * translator's language and weighted by its priority, then one per distinct
+ * concern in the stakes, skipping anything already covered.
+ */
+export const seedCriteria = (
+  values: Value[] = [],
+  stakes = '',
+  createId: () => string = generateId,
+  t: Translate = createTranslator()
+): Criterion[] => {
+  const criteria: Criterion[] = values.map(value => ({
+    id: createId(),
+    name: valueLabel(value.name, t),
+    weight: weightForPriority(value.priority),
+    value: value.name,
+  }));
+  const seen = new Set(criteria.map(criterion => criterion.name.toLowerCase()));
+
+  splitStakes(stakes).forEach(concern => {
+    const key = concern.toLowerCase();
+    if (!Array.from(seen).some(name => key.includes(name) || name.includes(key))) {
+      seen.add(key);
+      criteria.push({ id: createId(), name: concern.charAt(0).toUpperCase() + concern.slice(1), weight: DEFAULT_WEIGHT });
+    }
+  });
+
+  return criteria;
+};
+
+export const getScore = (matrix: DecisionMatrix, option: string, criterionId: string): number =>
+  matrix.scores[option]?.[criterionId] ?? DEFAULT_SCORE;
+
+export const setScore = (matrix: DecisionMatrix, option: string, criterionId: string, score: number): DecisionMatrix => ({
+  ...matrix,
+  scores: {
+    ...matrix.scores,
+    [option]: { ...matrix.scores[option], [criterionId]: score },
+  },
+});
+
+// Drops unnamed criteria; a matrix without any weighted criterion says nothing
+export const cleanMatrix = (matrix: DecisionMatrix | undefined): DecisionMatrix | undefined => {
+  const criteria = (matrix?.criteria || [])
+    .map(criterion => ({ ...criterion, name: criterion.name.trim() }))
+    .filter(criterion => criterion.name && criterion.weight > 0);
+  return matrix && criteria.length > 0 ? { ...matrix, criteria } : undefined;
+};
+
+/**
+ * Weighted total per option, scaled to 0-100, best first. Unscored cells count
+ * as the neutral default so a half-filled matrix doesn't punish an option.
+ */
+export const rankOptions = (matrix: DecisionMatrix, options: string[]): RankedOption[] => {
+  const totalWeight = matrix.criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+  if (totalWeight === 0) {
+    return [];
+  }
+
+  const scored = options.map(option => {
+    const weighted = matrix.criteria.reduce(
+      (sum, criterion) => sum + criterion.weight * getScore(matrix, option, criterion.id), 0
+    );
+    return { option, score: Math.round((weighted / totalWeight / MAX_SCORE) * 1000) / 10 };
+  });
+
+  const sorted = [...scored].sort((a, b) => b.score - a.score);
+  return sorted.map(item => ({
+    ...item,
+    rank: sorted.findIndex(other => other.score === item.score) + 1,
+  }));
+};
+
+// One factor per option and criterion, so every score says which option it refers to
+export const matrixFactors = (matrix: DecisionMatrix, options: string[], t: Translate = createTranslator()): Factor[] =>
+  options.flatMap(option => matrix.criteria.map(criterion => ({
+    name: t('matrix.factor', { criterion: criterion.name, weight: criterion.weight }),
+    score: Math.round((getScore(matrix, option, criterion.id) / MAX_SCORE) * 100),
+    option,
+    ...(criterion.value ? { valueAlignment: criterion.value } : {}),
+  })));
+
+// Margin between the top two options, in points out of 100
+export const describeMargin = (margin: number, t: Translate = createTranslator()): string => {
+  if (margin < 3) {
+    return t('matrix.margin.close');
+  }
+  if (margin < 10) {
+    return t('matrix.margin.modest');
+  }
+  return t('matrix.margin.clear');
+};
@@ -0,0 +1,8 @@
+import { Analysis, Decision } from '../../../types/decision';
+import { Locale } from '../../i18n/i18n';
+
+// Anything that can turn a decision into an analysis, locally or remotely
+export interface AnalysisProvider {
+  name: string;
+  analyze: (decision: Decision, locale?: Locale) => Promise<Analysis>; // locale: language of the analysis text
+}
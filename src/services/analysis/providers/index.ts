@@ -0,0 +1,29 @@
+import { AnalysisProvider } from './AnalysisProvider';
+import { createLocalAnalysisProvider } from './localAnalysisProvider';
+import { createRestAnalysisProvider } from './restAnalysisProvider';
+
+export type { AnalysisProvider } from './AnalysisProvider';
+export { createLocalAnalysisProvider } from './localAnalysisProvider';
+export { createRestAnalysisProvider } from './restAnalysisProvider';
+
+const numberFromEnv = (value: string | undefined) =>
+  value !== undefined && value !== '' && !Number.isNaN(Number(value)) ? Number(value) : undefined;
+
+/**
+ * Picks the provider from the build environment: set REACT_APP_ANALYSIS_API_URL
+ * to use a backend (with REACT_APP_ANALYSIS_TIMEOUT_MS / REACT_APP_ANALYSIS_RETRIES),
+ * otherwise decisions are analysed locally.
+ */
+export const createAnalysisProvider = (env: NodeJS.ProcessEnv = process.env): AnalysisProvider => {
+  const baseUrl = env.REACT_APP_ANALYSIS_API_URL;
+  if (!baseUrl) {
+    return createLocalAnalysisProvider();
+  }
+
+  return createRestAnalysisProvider({
+    baseUrl,
+    timeoutMs: numberFromEnv(env.REACT_APP_ANALYSIS_TIMEOUT_MS),
+    retries: numberFromEnv(env.REACT_APP_ANALYSIS_RETRIES),
+    onFallback: (error) => console.warn('Falling back to local analysis:', error.message),
+  });
+};
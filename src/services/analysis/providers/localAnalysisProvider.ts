@@ -0,0 +1,8 @@
+import { analyzeDecision, AnalyzeOptions } from '../analyzeDecision';
+import { AnalysisProvider } from './AnalysisProvider';
+
+// Rule-based provider that runs the analysis engine in the browser
+export const createLocalAnalysisProvider = (options: AnalyzeOptions = {}): AnalysisProvider => ({
+  name: 'local',
+  analyze: async (decision, locale) => analyzeDecision(decision, { ...options, ...(locale ? { locale } : {}) }),
+});
@@ -0,0 +1,165 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Analysis, Decision } from '../../../types/decision';
+import { AnalysisProvider } from './AnalysisProvider';
+import { createRestAnalysisProvider } from './restAnalysisProvider';
+
+type Handler = (req: http.IncomingMessage, body: string, res: http.ServerResponse) => void;
+
+const decision: Decision = {
+  question: 'Should I move to a new city?',
+  balanceScore: 60,
+  timeHorizon: 80,
+  options: ['Move', 'Stay'],
+};
+
+const remoteAnalysis: Analysis = {
+  recommendation: 'From the backend',
+  factors: [{ name: 'Financial impact', score: 40 }],
+  sentiment: { positive: 0.5, negative: 0.2, neutral: 0.3 },
+  optionPositions: { Move: { x: 70, y: 80 } },
+};
+
+const localAnalysis: Analysis = {
+  recommendation: 'From the fallback',
+  factors: [],
+  sentiment: { positive: 0, negative: 0, neutral: 1 },
+};
+
+const fallback: AnalysisProvider = { name: 'stub', analyze: async () => localAnalysis };
+
+// A stand-in backend on a random local port; each test swaps in its own handler.
+// It answers CORS preflights itself because the test page runs on another origin.
+let handler: Handler;
+let requests: { method?: string; url?: string; body: string }[];
+let server: http.Server;
+let baseUrl: string;
+
+beforeAll((done) => {
+  server = http.createServer((req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Methods': 'POST',
+        'Access-Control-Allow-Headers': 'Content-Type, Accept',
+      });
+      res.end();
+      return;
+    }
+
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      requests.push({ method: req.method, url: req.url, body });
+      handler(req, body, res);
+    });
+  });
+  server.listen(0, '127.0.0.1', () => {
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    done();
+  });
+});
+
+afterAll((done) => {
+  server.close(() => done());
+});
+
+beforeEach(() => {
+  requests = [];
+});
+
+const respondJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+describe('createRestAnalysisProvider', () => {
+  it('POSTs the decision and returns the validated analysis', async () => {
+    handler = (req, body, res) => respondJson(res, 200, remoteAnalysis);
+    const provider = createRestAnalysisProvider({ baseUrl: `${baseUrl}/`, fallback });
+
+    await expect(provider.analyze(decision)).resolves.toEqual(remoteAnalysis);
+    expect(requests).toEqual([{ method: 'POST', url: '/analyze', body: JSON.stringify(decision) }]);
+  });
+
+  it('asks for the analysis text in the requested language', async () => {
+    let language: string | undefined;
+    handler = (req, body, res) => {
+      language = req.headers['accept-language'];
+      respondJson(res, 200, remoteAnalysis);
+    };
+    const provider = createRestAnalysisProvider({ baseUrl, fallback });
+
+    await provider.analyze(decision, 'es');
+    expect(language).toBe('es');
+  });
+
+  it('retries server errors before succeeding', async () => {
+    let calls = 0;
+    handler = (req, body, res) => {
+      calls++;
+      if (calls < 3) {
+        respondJson(res, 503, { error: 'busy' });
+      } else {
+        respondJson(res, 200, remoteAnalysis);
+      }
+    };
+    const provider = createRestAnalysisProvider({ baseUrl, retries: 2, retryDelayMs: 1, fallback });
+
+    await expect(provider.analyze(decision)).resolves.toEqual(remoteAnalysis);
+    expect(requests).toHaveLength(3);
+  });
+
+  it('falls back once retries are exhausted', async () => {
+    handler = (req, body, res) => respondJson(res, 500, {});
+    const onFallback = jest.fn();
+    const provider = createRestAnalysisProvider({ baseUrl, retries: 1, retryDelayMs: 1, fallback, onFallback });
+
+    await expect(provider.analyze(decision)).resolves.toEqual(localAnalysis);
+    expect(requests).toHaveLength(2);
+    expect(onFallback).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringContaining('500') }));
+  });
+
+  it('times out slow responses', async () => {
+    handler = (req, body, res) => {
+      setTimeout(() => respondJson(res, 200, remoteAnalysis), 200);
+    };
+    const provider = createRestAnalysisProvider({ baseUrl, timeoutMs: 20, retries: 0, fallback: null });
+
+    await expect(provider.analyze(decision)).rejects.toThrow('timed out after 20ms');
+  });
+
+  it('rejects responses that do not match the Analysis schema without retrying', async () => {
+    handler = (req, body, res) => respondJson(res, 200, { recommendation: 42, factors: 'none' });
+    const provider = createRestAnalysisProvider({ baseUrl, retries: 2, fallback: null });
+
+    await expect(provider.analyze(decision)).rejects.toThrow(/recommendation must be a string/);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('does not retry client errors', async () => {
+    handler = (req, body, res) => respondJson(res, 400, { error: 'bad request' });
+    const onFallback = jest.fn();
+    const provider = createRestAnalysisProvider({ baseUrl, retries: 2, fallback, onFallback });
+
+    await expect(provider.analyze(decision)).resolves.toEqual(localAnalysis);
+    expect(requests).toHaveLength(1);
+    expect(onFallback).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back when the backend is unreachable', async () => {
+    const provider = createRestAnalysisProvider({ baseUrl: 'http://127.0.0.1:1', retries: 0, fallback });
+
+    await expect(provider.analyze(decision)).resolves.toEqual(localAnalysis);
+  });
+
+  it('goes straight to the fallback while the device is offline', async () => {
+    handler = (req, body, res) => respondJson(res, 200, remoteAnalysis);
+    const onFallback = jest.fn();
+    const provider = createRestAnalysisProvider({ baseUrl, fallback, onFallback, isOnline: () => false });
+
+    await expect(provider.analyze(decision)).resolves.toEqual(localAnalysis);
+    expect(requests).toHaveLength(0);
+    expect(onFallback).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringContaining('offline') }));
+  });
+});
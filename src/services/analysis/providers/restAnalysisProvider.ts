@@ -0,0 +1,123 @@
+import { Analysis, Decision } from '../../../types/decision';
+import { Locale } from '../../i18n/i18n';
+import { validateAnalysis } from '../validateAnalysis';
+import { AnalysisProvider } from './AnalysisProvider';
+import { createLocalAnalysisProvider } from './localAnalysisProvider';
+
+export interface RestAnalysisProviderOptions {
+  baseUrl: string; // e.g. "https://api.example.com"; the provider POSTs to `${baseUrl}/analyze`
+  timeoutMs?: number; // Per attempt
+  retries?: number; // Extra attempts after the first one fails
+  retryDelayMs?: number; // Doubles after every failed attempt
+  fallback?: AnalysisProvider | null; // Used when the backend can't give a valid answer; null disables it
+  onFallback?: (error: Error) => void;
+  fetchImpl?: typeof fetch;
+  isOnline?: () => boolean; // While offline the backend isn't tried at all, so the fallback answers at once
+}
+
+// Thrown for failures that are worth another attempt (network, timeout, 5xx, 429)
+class RetryableError extends Error {}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const trimTrailingSlash = (url: string) => url.replace(/\/+$/, '');
+
+const browserIsOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+/**
+ * Analysis provider backed by a REST endpoint. It POSTs the Decision as JSON,
+ * with the language for the text in Accept-Language, and expects an Analysis
+ * JSON back, retrying transient failures and falling back to the local
+ * rule-based provider when the backend is unavailable.
+ */
+export const createRestAnalysisProvider = ({
+  baseUrl,
+  timeoutMs = 10000,
+  retries = 2,
+  retryDelayMs = 500,
+  fallback = createLocalAnalysisProvider(),
+  onFallback,
+  fetchImpl,
+  isOnline = browserIsOnline,
+}: RestAnalysisProviderOptions): AnalysisProvider => {
+  const endpoint = `${trimTrailingSlash(baseUrl)}/analyze`;
+
+  const requestOnce = async (decision: Decision, locale?: Locale): Promise<Analysis> => {
+    const doFetch = fetchImpl || fetch;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    let response: Response;
+    try {
+      response = await doFetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+          ...(locale ? { 'Accept-Language': locale } : {}),
+        },
+        body: JSON.stringify(decision),
+        signal: controller.signal,
+      });
+    } catch (err) {
+      const reason = controller.signal.aborted ? `timed out after ${timeoutMs}ms` : (err as Error).message;
+      throw new RetryableError(`Analysis request failed: ${reason}`);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (response.status >= 500 || response.status === 429) {
+      throw new RetryableError(`Analysis backend responded with ${response.status}`);
+    }
+    if (!response.ok) {
+      throw new Error(`Analysis backend rejected the request with ${response.status}`);
+    }
+
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch {
+      throw new Error('Analysis backend returned invalid JSON');
+    }
+
+    const problems = validateAnalysis(body);
+    if (problems.length > 0) {
+      throw new Error(`Analysis backend returned an invalid analysis: ${problems.join('; ')}`);
+    }
+    // The backend writes in the language asked for, whether or not it says so
+    const analysis = body as Analysis;
+    return locale && analysis.locale === undefined ? { ...analysis, locale } : analysis;
+  };
+
+  const requestWithRetries = async (decision: Decision, locale?: Locale): Promise<Analysis> => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await requestOnce(decision, locale);
+      } catch (err) {
+        if (!(err instanceof RetryableError) || attempt >= retries) {
+          throw err;
+        }
+        await delay(retryDelayMs * 2 ** attempt);
+      }
+    }
+  };
+
+  return {
+    name: 'rest',
+    analyze: async (decision, locale) => {
+      if (fallback && !isOnline()) {
+        onFallback?.(new Error('Analysis backend skipped: the device is offline'));
+        return fallback.analyze(decision, locale);
+      }
+      try {
+        return await requestWithRetries(decision, locale);
+      } catch (err) {
+        if (!fallback) {
+          throw err;
+        }
+        onFallback?.(err as Error);
+        return fallback.analyze(decision, locale);
+      }
+    },
+  };
+};
@@ -0,0 +1,27 @@
+export type RandomSource = () => number;
+
+// FNV-1a hash, used to turn decision inputs into a stable seed
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Mulberry32 PRNG: same seed, same sequence, values in [0, 1)
+export const createRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Integer in [min, max]
+export const randomInt = (random: RandomSource, min: number, max: number): number =>
+  Math.floor(random() * (max - min + 1)) + min;
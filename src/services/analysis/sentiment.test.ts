@@ -0,0 +1,84 @@
+import { analyzeSentiment, SentimentInput } from './sentiment';
+
+const input = (intuition: string, changes: Partial<SentimentInput> = {}): SentimentInput => ({
+  question: 'Should I change teams?',
+  intuition,
+  options: [],
+  stakes: '',
+  ...changes,
+});
+
+describe('analyzeSentiment', () => {
+  it('produces shares that sum to 1', () => {
+    const { positive, negative, neutral } = analyzeSentiment(input('I am excited but worried about the commute'));
+    expect(positive + negative + neutral).toBeCloseTo(1);
+  });
+
+  it('is neutral when there are no sentiment words', () => {
+    const sentiment = analyzeSentiment(input('', { question: '' }));
+    expect(sentiment).toMatchObject({ positive: 0, negative: 0, neutral: 1, compound: 0 });
+    expect(sentiment.tone).toBe('⚪ Neutral, Matter-of-Fact Language');
+  });
+
+  it('flips negated words and keeps the negation in the highlight', () => {
+    const sentiment = analyzeSentiment(input("I'm not happy in my current role"));
+    expect(sentiment.highlights).toEqual([{ phrase: 'not happy', field: 'intuition', score: -1.5 }]);
+    expect(sentiment.compound).toBeLessThan(0);
+    expect(sentiment.emotions).toEqual({});
+  });
+
+  it('scales words by intensifiers', () => {
+    const [strong] = analyzeSentiment(input('I am really excited')).highlights || [];
+    const [weak] = analyzeSentiment(input('I am slightly excited')).highlights || [];
+    expect(strong).toEqual({ phrase: 'really excited', field: 'intuition', score: 3 });
+    expect(weak).toEqual({ phrase: 'slightly excited', field: 'intuition', score: 1 });
+  });
+
+  it('reads every field and names where each phrase came from', () => {
+    const sentiment = analyzeSentiment({
+      question: 'Should I quit the job I hate?',
+      intuition: 'I would love the freedom',
+      options: ['Quit and travel', 'Stay and feel stuck'],
+      stakes: 'Risk of debt',
+    });
+    expect(sentiment.highlights?.map(item => [item.phrase, item.field])).toEqual([
+      ['hate', 'question'],
+      ['love', 'intuition'],
+      ['stuck', 'options'],
+      ['risk', 'stakes'],
+      ['debt', 'stakes'],
+    ]);
+  });
+
+  it('derives the tone from the scores', () => {
+    expect(analyzeSentiment(input('I love it and I am so excited')).tone).toBe('🌱 Growth-Oriented Language');
+    expect(analyzeSentiment(input('I am scared, anxious and stuck')).tone).toBe('🌧️ Worried or Discouraged Language');
+    expect(analyzeSentiment(input('I love the work but I hate the stress')).tone).toBe('🔥 High Tension Detected');
+  });
+
+  it('breaks emotional words down by emotion', () => {
+    const { emotions } = analyzeSentiment(input('I am afraid and sad'));
+    expect(emotions).toEqual({ fear: 0.5, sadness: 0.5 });
+  });
+
+  it('prefers the longest matching stem', () => {
+    const sentiment = analyzeSentiment(input('I feel hopelessly stuck, though still hopeful'));
+    expect(sentiment.highlights?.map(item => [item.phrase, item.score])).toEqual([
+      ['hopelessly', -3],
+      ['stuck', -2],
+      ['hopeful', 2],
+    ]);
+  });
+
+  it('reads Spanish with its own words, negations and intensifiers', () => {
+    const sentiment = analyzeSentiment(input('Estoy muy preocupada y no estoy segura de dejar el trabajo', {
+      question: '¿Debería cambiar de equipo?',
+    }), 'es');
+    expect(sentiment.highlights).toEqual([
+      { phrase: 'muy preocupada', field: 'intuition', score: -3 },
+      { phrase: 'no estoy segura', field: 'intuition', score: -0.75 },
+    ]);
+    expect(sentiment.emotions).toEqual({ fear: 1 });
+    expect(sentiment.tone).toBe('🌧️ Lenguaje preocupado o desanimado');
+  });
+});
@@ -0,0 +1,404 @@
+import { Emotion, Sentiment, SentimentHighlight } from '../../types/decision';
+import { createTranslator, DEFAULT_LOCALE, Locale, LOCALES } from '../i18n/i18n';
+
+interface LexiconEntry {
+  valence: number; // -3 (very negative) to 3 (very positive)
+  emotion?: Emotion;
+}
+
+type Field = SentimentHighlight['field'];
+
+export interface SentimentInput {
+  question: string;
+  intuition: string;
+  options: string[];
+  stakes: string;
+}
+
+// How one language expresses sentiment
+interface Language {
+  lexicon: Record<string, LexiconEntry>; // Stems end in * and match any ending; the longest matching stem wins
+  negations: string[];
+  negationSuffix?: string; // Turns any word into a negation, like "n't"
+  intensifiers: Record<string, number>; // Scale the sentiment word straight after them
+  stopWords: string[];
+}
+
+// Words people use when describing a decision
+const LEXICON: Record<string, LexiconEntry> = {
+  'happy': { valence: 2, emotion: 'joy' },
+  'happi*': { valence: 2, emotion: 'joy' },
+  'joy*': { valence: 2, emotion: 'joy' },
+  'love*': { valence: 3, emotion: 'joy' },
+  'enjoy*': { valence: 2, emotion: 'joy' },
+  'fun': { valence: 2, emotion: 'joy' },
+  'great': { valence: 2, emotion: 'joy' },
+  'wonderful': { valence: 3, emotion: 'joy' },
+  'amazing': { valence: 3, emotion: 'joy' },
+  'good': { valence: 1 },
+  'better': { valence: 1 },
+  'best': { valence: 2 },
+  'glad': { valence: 2, emotion: 'joy' },
+  'proud': { valence: 2, emotion: 'joy' },
+  'fulfil*': { valence: 2, emotion: 'joy' },
+  'excit*': { valence: 2, emotion: 'anticipation' },
+  'hope*': { valence: 2, emotion: 'anticipation' },
+  'hopeless*': { valence: -3, emotion: 'sadness' },
+  'eager': { valence: 2, emotion: 'anticipation' },
+  'opportunit*': { valence: 2, emotion: 'anticipation' },
+  'grow*': { valence: 1, emotion: 'anticipation' },
+  'adventure*': { valence: 2, emotion: 'anticipation' },
+  'curious': { valence: 1, emotion: 'anticipation' },
+  'inspir*': { valence: 2, emotion: 'anticipation' },
+  'confident': { valence: 2, emotion: 'trust' },
+  'secure': { valence: 1, emotion: 'trust' },
+  'safe': { valence: 1, emotion: 'trust' },
+  'stable': { valence: 1, emotion: 'trust' },
+  'trust*': { valence: 2, emotion: 'trust' },
+  'support*': { valence: 1, emotion: 'trust' },
+  'calm': { valence: 2, emotion: 'trust' },
+  'sure': { valence: 1, emotion: 'trust' },
+  'worr*': { valence: -2, emotion: 'fear' },
+  'afraid': { valence: -2, emotion: 'fear' },
+  'scared': { valence: -2, emotion: 'fear' },
+  'fear*': { valence: -2, emotion: 'fear' },
+  'nervous': { valence: -2, emotion: 'fear' },
+  'anxi*': { valence: -2, emotion: 'fear' },
+  'panic*': { valence: -3, emotion: 'fear' },
+  'risk*': { valence: -1, emotion: 'fear' },
+  'uncertain*': { valence: -1, emotion: 'fear' },
+  'unsure': { valence: -1, emotion: 'fear' },
+  'stress*': { valence: -2, emotion: 'fear' },
+  'overwhelm*': { valence: -2, emotion: 'fear' },
+  'terrif*': { valence: -3, emotion: 'fear' },
+  'doubt*': { valence: -1, emotion: 'fear' },
+  'sad': { valence: -2, emotion: 'sadness' },
+  'unhappy': { valence: -2, emotion: 'sadness' },
+  'miss': { valence: -1, emotion: 'sadness' },
+  'missing': { valence: -1, emotion: 'sadness' },
+  'lonely': { valence: -2, emotion: 'sadness' },
+  'regret*': { valence: -2, emotion: 'sadness' },
+  'lose': { valence: -2, emotion: 'sadness' },
+  'losing': { valence: -2, emotion: 'sadness' },
+  'loss': { valence: -2, emotion: 'sadness' },
+  'disappoint*': { valence: -2, emotion: 'sadness' },
+  'tired': { valence: -1, emotion: 'sadness' },
+  'exhaust*': { valence: -2, emotion: 'sadness' },
+  'bored': { valence: -1, emotion: 'sadness' },
+  'stuck': { valence: -2, emotion: 'sadness' },
+  'hate*': { valence: -3, emotion: 'anger' },
+  'angry': { valence: -2, emotion: 'anger' },
+  'frustrat*': { valence: -2, emotion: 'anger' },
+  'annoy*': { valence: -1, emotion: 'anger' },
+  'resent*': { valence: -2, emotion: 'anger' },
+  'unfair': { valence: -2, emotion: 'anger' },
+  'toxic': { valence: -3, emotion: 'anger' },
+  'bad': { valence: -2 },
+  'worse': { valence: -2 },
+  'worst': { valence: -3 },
+  'difficult': { valence: -1 },
+  'hard': { valence: -1 },
+  'problem*': { valence: -1 },
+  'wrong': { valence: -2 },
+  'mistake*': { valence: -2 },
+  'debt*': { valence: -1, emotion: 'fear' },
+};
+
+const NEGATIONS = ['not', 'no', 'never', 'nothing', 'without', 'hardly', 'barely', 'nor', 'cannot'];
+const NEGATION_SUFFIX = "n't";
+const NEGATION_WINDOW = 3; // A negation affects sentiment words up to this many words later
+const NEGATION_FACTOR = -0.75; // "not happy" is negative, but milder than "unhappy"
+
+const INTENSIFIERS: Record<string, number> = {
+  'very': 1.5,
+  'really': 1.5,
+  'so': 1.3,
+  'extremely': 2,
+  'incredibly': 2,
+  'totally': 1.5,
+  'truly': 1.5,
+  'deeply': 1.7,
+  'completely': 1.7,
+  'absolutely': 1.8,
+  'super': 1.5,
+  'slightly': 0.5,
+  'somewhat': 0.6,
+  'fairly': 0.8,
+  'little': 0.6,
+  'kinda': 0.6,
+};
+
+// Content words that carry no sentiment still dilute it, but less than a full word
+const NEUTRAL_WEIGHT = 0.25;
+const MAX_HIGHLIGHTS = 6;
+
+const STOP_WORDS = [
+  'i', 'a', 'an', 'the', 'and', 'or', 'but', 'to', 'of', 'in', 'on', 'at', 'for', 'my', 'me', 'it',
+  'is', 'am', 'are', 'be', 'should', 'would', 'could', 'will', 'do', 'that', 'this', 'with', 'as', 'if'
+];
+
+const SPANISH_LEXICON: Record<string, LexiconEntry> = {
+  'feliz': { valence: 2, emotion: 'joy' },
+  'felices': { valence: 2, emotion: 'joy' },
+  'felicidad': { valence: 2, emotion: 'joy' },
+  'alegr*': { valence: 2, emotion: 'joy' },
+  'amor': { valence: 3, emotion: 'joy' },
+  'encant*': { valence: 3, emotion: 'joy' },
+  'disfrut*': { valence: 2, emotion: 'joy' },
+  'divertid*': { valence: 2, emotion: 'joy' },
+  'genial': { valence: 2, emotion: 'joy' },
+  'maravillos*': { valence: 3, emotion: 'joy' },
+  'bien': { valence: 1 },
+  'buen': { valence: 1 },
+  'bueno': { valence: 1 },
+  'buena': { valence: 1 },
+  'mejor': { valence: 1 },
+  'mejores': { valence: 1 },
+  'orgullos*': { valence: 2, emotion: 'joy' },
+  'satisf*': { valence: 2, emotion: 'joy' },
+  'ilusi*': { valence: 2, emotion: 'anticipation' },
+  'emocionad*': { valence: 2, emotion: 'anticipation' },
+  'emocionante*': { valence: 2, emotion: 'anticipation' },
+  'esperanza*': { valence: 2, emotion: 'anticipation' },
+  'oportunidad*': { valence: 2, emotion: 'anticipation' },
+  'crec*': { valence: 1, emotion: 'anticipation' },
+  'aventura*': { valence: 2, emotion: 'anticipation' },
+  'curios*': { valence: 1, emotion: 'anticipation' },
+  'inspir*': { valence: 2, emotion: 'anticipation' },
+  'segur*': { valence: 1, emotion: 'trust' },
+  'confianza': { valence: 2, emotion: 'trust' },
+  'confío': { valence: 2, emotion: 'trust' },
+  'estable': { valence: 1, emotion: 'trust' },
+  'estabilidad': { valence: 1, emotion: 'trust' },
+  'tranquil*': { valence: 2, emotion: 'trust' },
+  'apoy*': { valence: 1, emotion: 'trust' },
+  'preocup*': { valence: -2, emotion: 'fear' },
+  'miedo*': { valence: -2, emotion: 'fear' },
+  'asustad*': { valence: -2, emotion: 'fear' },
+  'nervios*': { valence: -2, emotion: 'fear' },
+  'ansiedad': { valence: -2, emotion: 'fear' },
+  'ansios*': { valence: -2, emotion: 'fear' },
+  'pánico': { valence: -3, emotion: 'fear' },
+  'riesgo*': { valence: -1, emotion: 'fear' },
+  'arriesg*': { valence: -1, emotion: 'fear' },
+  'incertidumbre': { valence: -1, emotion: 'fear' },
+  'insegur*': { valence: -1, emotion: 'fear' },
+  'estrés': { valence: -2, emotion: 'fear' },
+  'estresad*': { valence: -2, emotion: 'fear' },
+  'agobi*': { valence: -2, emotion: 'fear' },
+  'aterrad*': { valence: -3, emotion: 'fear' },
+  'aterroriz*': { valence: -3, emotion: 'fear' },
+  'dud*': { valence: -1, emotion: 'fear' },
+  'deuda*': { valence: -1, emotion: 'fear' },
+  'trist*': { valence: -2, emotion: 'sadness' },
+  'infeliz': { valence: -2, emotion: 'sadness' },
+  'arrepent*': { valence: -2, emotion: 'sadness' },
+  'perder': { valence: -2, emotion: 'sadness' },
+  'pierdo': { valence: -2, emotion: 'sadness' },
+  'pérdida*': { valence: -2, emotion: 'sadness' },
+  'decepci*': { valence: -2, emotion: 'sadness' },
+  'cansad*': { valence: -1, emotion: 'sadness' },
+  'agotad*': { valence: -2, emotion: 'sadness' },
+  'aburrid*': { valence: -1, emotion: 'sadness' },
+  'estancad*': { valence: -2, emotion: 'sadness' },
+  'desesper*': { valence: -3, emotion: 'sadness' },
+  'odi*': { valence: -3, emotion: 'anger' },
+  'enfadad*': { valence: -2, emotion: 'anger' },
+  'enojad*': { valence: -2, emotion: 'anger' },
+  'frustr*': { valence: -2, emotion: 'anger' },
+  'molest*': { valence: -1, emotion: 'anger' },
+  'resentid*': { valence: -2, emotion: 'anger' },
+  'injust*': { valence: -2, emotion: 'anger' },
+  'tóxic*': { valence: -3, emotion: 'anger' },
+  'mal': { valence: -2 },
+  'malo': { valence: -2 },
+  'mala': { valence: -2 },
+  'peor*': { valence: -2 },
+  'pésim*': { valence: -3 },
+  'difícil*': { valence: -1 },
+  'duro': { valence: -1 },
+  'dura': { valence: -1 },
+  'problema*': { valence: -1 },
+  'error*': { valence: -2 },
+  'equivoc*': { valence: -2 },
+};
+
+const SPANISH_INTENSIFIERS: Record<string, number> = {
+  'muy': 1.5,
+  'realmente': 1.5,
+  'tan': 1.3,
+  'extremadamente': 2,
+  'increíblemente': 2,
+  'totalmente': 1.5,
+  'profundamente': 1.7,
+  'completamente': 1.7,
+  'absolutamente': 1.8,
+  'súper': 1.5,
+  'super': 1.5,
+  'ligeramente': 0.5,
+  'algo': 0.6,
+  'bastante': 0.8,
+};
+
+const LANGUAGES: Record<Locale, Language> = {
+  en: {
+    lexicon: LEXICON,
+    negations: NEGATIONS,
+    negationSuffix: NEGATION_SUFFIX,
+    intensifiers: INTENSIFIERS,
+    stopWords: STOP_WORDS,
+  },
+  es: {
+    lexicon: SPANISH_LEXICON,
+    negations: ['no', 'nunca', 'jamás', 'nada', 'nadie', 'sin', 'ni', 'tampoco'],
+    intensifiers: SPANISH_INTENSIFIERS,
+    stopWords: [
+      'yo', 'el', 'la', 'los', 'las', 'un', 'una', 'y', 'o', 'pero', 'de', 'del', 'a', 'al', 'en', 'con', 'por',
+      'para', 'que', 'me', 'mi', 'mis', 'lo', 'se', 'si', 'es', 'son', 'ser', 'estar', 'estoy', 'debo', 'debería', 'esto',
+    ],
+  },
+};
+
+const lookup = ({ lexicon }: Language, word: string): LexiconEntry | undefined => {
+  if (lexicon[word]) {
+    return lexicon[word];
+  }
+  // "hopelessly" is hopeless, not hopeful
+  const stem = Object.keys(lexicon)
+    .filter(key => key.endsWith('*') && word.startsWith(key.slice(0, -1)))
+    .sort((a, b) => b.length - a.length)[0];
+  return stem ? lexicon[stem] : undefined;
+};
+
+const isNegation = ({ negations, negationSuffix }: Language, word: string) =>
+  negations.includes(word) || (!!negationSuffix && word.endsWith(negationSuffix));
+
+const tokenize = (text: string) => text.toLowerCase().replace(/[’]/g, "'").match(/[a-záéíóúüñ']+/g) || [];
+
+interface ScoredText {
+  highlights: SentimentHighlight[];
+  neutralWords: number;
+}
+
+/**
+ * Scores one piece of text word by word. Intensifiers directly before a
+ * sentiment word scale it; a negation within the preceding few words flips it.
+ */
+const scoreText = (text: string, field: Field, emotions: Record<string, number>, language: Language): ScoredText => {
+  const { intensifiers, stopWords } = language;
+  const words = tokenize(text);
+  const highlights: SentimentHighlight[] = [];
+  let neutralWords = 0;
+
+  words.forEach((word, index) => {
+    const entry = lookup(language, word);
+    if (!entry) {
+      if (!stopWords.includes(word) && !isNegation(language, word) && intensifiers[word] === undefined) {
+        neutralWords += 1;
+      }
+      return;
+    }
+
+    let start = index;
+    let score = entry.valence;
+    const previous = words[index - 1];
+    if (previous && intensifiers[previous] !== undefined) {
+      score *= intensifiers[previous];
+      start = index - 1;
+    }
+
+    const window = words.slice(Math.max(0, start - NEGATION_WINDOW), start);
+    const negationAt = window.findIndex(word => isNegation(language, word));
+    if (negationAt >= 0) {
+      score *= NEGATION_FACTOR;
+      start = Math.max(0, start - NEGATION_WINDOW) + negationAt;
+    } else if (entry.emotion) {
+      // A negated emotion ("not afraid") doesn't say which emotion is present
+      emotions[entry.emotion] = (emotions[entry.emotion] || 0) + Math.abs(score);
+    }
+
+    highlights.push({ phrase: words.slice(start, index + 1).join(' '), field, score: Math.round(score * 100) / 100 });
+  });
+
+  return { highlights, neutralWords };
+};
+
+type Tone = 'tension' | 'growth' | 'worried' | 'positive' | 'uneasy' | 'neutral';
+
+const TONES: Tone[] = ['tension', 'growth', 'worried', 'positive', 'uneasy', 'neutral'];
+
+// The language a tone is written in, for analyses saved before they recorded their locale
+export const toneLocale = (tone: string | undefined): Locale | undefined =>
+  LOCALES.map(({ code }) => code).find((code) => {
+    const t = createTranslator(code);
+    return TONES.some(name => t('sentiment.tone', { tone: name }) === tone);
+  });
+
+const toneFor = ({ positive, negative, compound }: { positive: number; negative: number; compound: number }): Tone => {
+  if (positive >= 0.25 && negative >= 0.25) {
+    return 'tension';
+  }
+  if (compound >= 0.5) {
+    return 'growth';
+  }
+  if (compound <= -0.5) {
+    return 'worried';
+  }
+  if (compound > 0.05) {
+    return 'positive';
+  }
+  if (compound < -0.05) {
+    return 'uneasy';
+  }
+  return 'neutral';
+};
+
+/**
+ * Lexicon-based sentiment of the user's own words, read in the language they
+ * were written in. Positive, negative and neutral are shares that sum to 1;
+ * compound squashes the net valence into -1..1 the way VADER does, so a few
+ * strong words don't saturate it.
+ */
+export const analyzeSentiment = (
+  { question, intuition, options, stakes }: SentimentInput,
+  locale: Locale = DEFAULT_LOCALE
+): Sentiment => {
+  const t = createTranslator(locale);
+  const language = LANGUAGES[locale];
+  const emotions: Record<string, number> = {};
+  const scored = [
+    scoreText(question, 'question', emotions, language),
+    scoreText(intuition, 'intuition', emotions, language),
+    scoreText(options.join('. '), 'options', emotions, language),
+    scoreText(stakes, 'stakes', emotions, language),
+  ];
+
+  const highlights = scored.flatMap(item => item.highlights);
+  const rawPositive = highlights.filter(item => item.score > 0).reduce((sum, item) => sum + item.score, 0);
+  const rawNegative = highlights.filter(item => item.score < 0).reduce((sum, item) => sum - item.score, 0);
+  const rawNeutral = scored.reduce((sum, item) => sum + item.neutralWords, 0) * NEUTRAL_WEIGHT;
+  const total = rawPositive + rawNegative + rawNeutral;
+
+  const net = rawPositive - rawNegative;
+  const compound = Math.round((net / Math.sqrt(net * net + 15)) * 1000) / 1000;
+  const positive = total > 0 ? rawPositive / total : 0;
+  const negative = total > 0 ? rawNegative / total : 0;
+  const neutral = total > 0 ? rawNeutral / total : 1;
+
+  const emotionTotal = Object.values(emotions).reduce((sum, value) => sum + value, 0);
+  const emotionShares = Object.fromEntries(
+    Object.entries(emotions).map(([emotion, value]) => [emotion, value / emotionTotal])
+  ) as Sentiment['emotions'];
+
+  return {
+    positive,
+    negative,
+    neutral,
+    compound,
+    tone: t('sentiment.tone', { tone: toneFor({ positive, negative, compound }) }),
+    emotions: emotionShares,
+    highlights: [...highlights]
+      .sort((a, b) => Math.abs(b.score) - Math.abs(a.score))
+      .slice(0, MAX_HIGHLIGHTS),
+  };
+};
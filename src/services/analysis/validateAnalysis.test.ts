@@ -0,0 +1,36 @@
+import { Decision } from '../../types/decision';
+import { analyzeDecision } from './analyzeDecision';
+import { isAnalysis, validateAnalysis } from './validateAnalysis';
+
+const decision: Decision = {
+  question: 'Should I go back to school?',
+  balanceScore: 55,
+  options: ['Enrol this year', 'Wait a year'],
+  values: ['Learning', 'Financial Security'],
+};
+
+describe('validateAnalysis', () => {
+  it('accepts what the local engine produces, including after a JSON round trip', () => {
+    const analysis = analyzeDecision(decision);
+    expect(validateAnalysis(analysis)).toEqual([]);
+    expect(isAnalysis(JSON.parse(JSON.stringify(analysis)))).toBe(true);
+  });
+
+  it('reports every problem it finds', () => {
+    expect(validateAnalysis({
+      recommendation: 'ok',
+      factors: [{ name: 'Cost' }],
+      sentiment: { positive: 1, negative: 0 },
+      optionPositions: { A: { x: 1 } },
+    })).toEqual([
+      'factors[0] must have a name and a numeric score',
+      'sentiment must have numeric positive, negative and neutral scores',
+      'optionPositions["A"] must have numeric x and y',
+    ]);
+  });
+
+  it('rejects non-objects', () => {
+    expect(isAnalysis(null)).toBe(false);
+    expect(isAnalysis([])).toBe(false);
+  });
+});
@@ -0,0 +1,124 @@
+import { Analysis } from '../../types/decision';
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+export const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Checks that an untrusted value (e.g. a backend response) has the shape of an
+ * Analysis. Returns a list of problems; an empty list means the value is valid.
+ */
+export const validateAnalysis = (value: unknown): string[] => {
+  const problems: string[] = [];
+
+  if (!isObject(value)) {
+    return ['analysis must be an object'];
+  }
+
+  if (typeof value.recommendation !== 'string') {
+    problems.push('recommendation must be a string');
+  }
+
+  if (!Array.isArray(value.factors)) {
+    problems.push('factors must be an array');
+  } else {
+    value.factors.forEach((factor, index) => {
+      if (!isObject(factor) || typeof factor.name !== 'string' || !isNumber(factor.score)) {
+        problems.push(`factors[${index}] must have a name and a numeric score`);
+      } else if (factor.valueAlignment !== undefined && typeof factor.valueAlignment !== 'string') {
+        problems.push(`factors[${index}].valueAlignment must be a string`);
+      } else if (factor.option !== undefined && typeof factor.option !== 'string') {
+        problems.push(`factors[${index}].option must be a string`);
+      }
+    });
+  }
+
+  const sentiment = value.sentiment;
+  if (!isObject(sentiment) || !isNumber(sentiment.positive) || !isNumber(sentiment.negative) || !isNumber(sentiment.neutral)) {
+    problems.push('sentiment must have numeric positive, negative and neutral scores');
+  } else {
+    if (sentiment.tone !== undefined && typeof sentiment.tone !== 'string') {
+      problems.push('sentiment.tone must be a string');
+    }
+    if (sentiment.compound !== undefined && !isNumber(sentiment.compound)) {
+      problems.push('sentiment.compound must be a number');
+    }
+    if (sentiment.emotions !== undefined &&
+      (!isObject(sentiment.emotions) || !Object.values(sentiment.emotions).every(isNumber))) {
+      problems.push('sentiment.emotions must map emotions to numbers');
+    }
+    if (sentiment.highlights !== undefined) {
+      if (!Array.isArray(sentiment.highlights)) {
+        problems.push('sentiment.highlights must be an array');
+      } else {
+        sentiment.highlights.forEach((highlight, index) => {
+          if (!isObject(highlight) || typeof highlight.phrase !== 'string' ||
+            typeof highlight.field !== 'string' || !isNumber(highlight.score)) {
+            problems.push(`sentiment.highlights[${index}] must have a phrase, a field and a numeric score`);
+          }
+        });
+      }
+    }
+  }
+
+  if (value.detectedBiases !== undefined) {
+    if (!Array.isArray(value.detectedBiases)) {
+      problems.push('detectedBiases must be an array');
+    } else {
+      value.detectedBiases.forEach((bias, index) => {
+        if (!isObject(bias) || typeof bias.biasType !== 'string' ||
+          typeof bias.description !== 'string' || typeof bias.suggestion !== 'string') {
+          problems.push(`detectedBiases[${index}] must have biasType, description and suggestion`);
+        } else if (bias.evidence !== undefined && !isStringArray(bias.evidence)) {
+          problems.push(`detectedBiases[${index}].evidence must be an array of strings`);
+        }
+      });
+    }
+  }
+
+  if (value.valueConflicts !== undefined && !isStringArray(value.valueConflicts)) {
+    problems.push('valueConflicts must be an array of strings');
+  }
+
+  if (value.optionPositions !== undefined) {
+    if (!isObject(value.optionPositions)) {
+      problems.push('optionPositions must be an object');
+    } else {
+      Object.entries(value.optionPositions).forEach(([option, position]) => {
+        if (!isObject(position) || !isNumber(position.x) || !isNumber(position.y)) {
+          problems.push(`optionPositions["${option}"] must have numeric x and y`);
+        }
+      });
+    }
+  }
+
+  if (value.thirdOption !== undefined && typeof value.thirdOption !== 'string') {
+    problems.push('thirdOption must be a string');
+  }
+
+  if (value.locale !== undefined && typeof value.locale !== 'string') {
+    problems.push('locale must be a string');
+  }
+
+  if (value.matrixRanking !== undefined) {
+    if (!Array.isArray(value.matrixRanking)) {
+      problems.push('matrixRanking must be an array');
+    } else {
+      value.matrixRanking.forEach((item, index) => {
+        if (!isObject(item) || typeof item.option !== 'string' || !isNumber(item.score) || !isNumber(item.rank)) {
+          problems.push(`matrixRanking[${index}] must have an option, a numeric score and a rank`);
+        }
+      });
+    }
+  }
+
+  return problems;
+};
+
+export const isAnalysis = (value: unknown): value is Analysis =>
+  validateAnalysis(value).length === 0;
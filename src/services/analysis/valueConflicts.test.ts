@@ -0,0 +1,74 @@
+import { DecisionMatrix } from '../../types/decision';
+import { BUILT_IN_TENSIONS, findValueConflicts } from './valueConflicts';
+
+const evenly = (values: string[]) => Object.fromEntries(values.map(value => [value, 1]));
+
+describe('findValueConflicts', () => {
+  it('reports nothing for values without a defined tension', () => {
+    const values = ['Health', 'Creativity'];
+    expect(findValueConflicts({ values, priorities: evenly(values), options: ['Paint', 'Run'] })).toEqual([]);
+  });
+
+  it('checks every pair of selected values, not just the first two', () => {
+    const values = ['Health', 'Stability', 'Adventure'];
+    const conflicts = findValueConflicts({ values, priorities: evenly(values), options: [] });
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatch(/^Adventure and Stability may be in tension/);
+  });
+
+  it('explains which option favours which value from the option text', () => {
+    const values = ['Adventure', 'Stability'];
+    const [conflict] = findValueConflicts({
+      values,
+      priorities: evenly(values),
+      options: ['Move abroad for a year', 'Stay in my current flat'],
+    });
+    expect(conflict).toContain('"Move abroad for a year" favours Adventure, while "Stay in my current flat" favours Stability.');
+  });
+
+  it('prefers matrix scores over keywords', () => {
+    const values = ['Career Growth', 'Family'];
+    const matrix: DecisionMatrix = {
+      criteria: [
+        { id: 'career', name: 'Career Growth', weight: 3, value: 'Career Growth' },
+        { id: 'family', name: 'Family', weight: 3, value: 'Family' },
+      ],
+      scores: { 'Option one': { career: 2, family: 9 }, 'Option two': { career: 8, family: 3 } },
+    };
+    const [conflict] = findValueConflicts({ values, priorities: evenly(values), options: ['Option one', 'Option two'], matrix });
+    expect(conflict).toContain('"Option two" favours Career Growth, while "Option one" favours Family.');
+  });
+
+  it('says when no option protects one side', () => {
+    const values = ['Freedom', 'Financial Security'];
+    const [conflict] = findValueConflicts({ values, priorities: evenly(values), options: ['Go freelance', 'Think it over'] });
+    expect(conflict).toContain('"Go freelance" favours Freedom; none of your options clearly protects Financial Security.');
+  });
+
+  it('orders conflicts by priority and mentions the ranking', () => {
+    const conflicts = findValueConflicts({
+      values: ['Adventure', 'Stability', 'Career Growth', 'Family'],
+      priorities: { 'Family': 1, 'Career Growth': 2, 'Adventure': 7, 'Stability': 8 },
+      options: [],
+    });
+    expect(conflicts[0]).toMatch(/^Career Growth and Family/);
+    expect(conflicts[0]).toContain('You rank Family above Career Growth.');
+    expect(conflicts[1]).toMatch(/^Adventure and Stability/);
+  });
+
+  it('includes user-defined tensions once even if they repeat a built-in pair', () => {
+    const values = ['Creativity', 'Financial Security', 'Freedom'];
+    const conflicts = findValueConflicts({
+      values,
+      priorities: evenly(values),
+      options: [],
+      tensions: [
+        { id: 'custom', values: ['Creativity', 'Financial Security'], reason: 'Art rarely pays the bills.' },
+        { id: 'dup', values: ['Financial Security', 'Freedom'] },
+      ],
+    });
+    expect(conflicts).toHaveLength(2);
+    expect(conflicts.some(conflict => conflict.includes('Art rarely pays the bills.'))).toBe(true);
+    expect(BUILT_IN_TENSIONS.some(tension => tension.id === 'freedom-financial')).toBe(true);
+  });
+});
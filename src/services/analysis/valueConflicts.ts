@@ -0,0 +1,134 @@
+import { DecisionMatrix, ValueTension } from '../../types/decision';
+import { formatList } from '../decision/options';
+import { createTranslator, MessageKey, Translate } from '../i18n/i18n';
+import { priorityWeight, valueLabel } from '../values/valueProfile';
+import { getScore } from './decisionMatrix';
+
+// Pairs of values that commonly pull a decision in different directions
+const TENSION_MESSAGES: { id: string; values: [string, string]; reason: MessageKey }[] = [
+  { id: 'adventure-stability', values: ['Adventure', 'Stability'], reason: 'tension.adventureStability' },
+  { id: 'career-family', values: ['Career Growth', 'Family'], reason: 'tension.careerFamily' },
+  { id: 'freedom-financial', values: ['Freedom', 'Financial Security'], reason: 'tension.freedomFinancial' },
+  { id: 'freedom-stability', values: ['Freedom', 'Stability'], reason: 'tension.freedomStability' },
+  { id: 'adventure-financial', values: ['Adventure', 'Financial Security'], reason: 'tension.adventureFinancial' },
+  { id: 'career-balance', values: ['Career Growth', 'Balance'], reason: 'tension.careerBalance' },
+  { id: 'achievement-health', values: ['Achievement', 'Health'], reason: 'tension.achievementHealth' },
+  { id: 'freedom-relationships', values: ['Freedom', 'Relationships'], reason: 'tension.freedomRelationships' },
+  { id: 'learning-financial', values: ['Learning', 'Financial Security'], reason: 'tension.learningFinancial' },
+];
+
+// The built-in tensions with their reasons in the translator's language
+export const builtInTensions = (t: Translate = createTranslator()): ValueTension[] =>
+  TENSION_MESSAGES.map(({ id, values, reason }) => ({ id, values, reason: t(reason) }));
+
+export const BUILT_IN_TENSIONS: ValueTension[] = builtInTensions();
+
+// Words in an option that suggest it serves a value; custom values match on their own name
+const VALUE_KEYWORDS: Record<string, string[]> = {
+  'Family': ['family', 'kids', 'children', 'partner', 'parents', 'home', 'spouse', 'wife', 'husband'],
+  'Health': ['health', 'exercise', 'sleep', 'rest', 'doctor', 'burnout', 'therapy'],
+  'Financial Security': ['salary', 'money', 'pay', 'savings', 'income', 'raise', 'bonus', 'pension', 'secure'],
+  'Career Growth': ['career', 'promotion', 'offer', 'senior', 'lead', 'manager', 'role', 'startup', 'skills'],
+  'Happiness': ['happy', 'enjoy', 'fun', 'joy', 'love'],
+  'Freedom': ['freedom', 'free', 'remote', 'flexible', 'independent', 'freelance', 'quit', 'own'],
+  'Stability': ['stay', 'current', 'keep', 'stable', 'steady', 'remain', 'settle', 'permanent'],
+  'Adventure': ['travel', 'abroad', 'move', 'explore', 'new', 'adventure', 'risk', 'sabbatical'],
+  'Learning': ['learn', 'study', 'course', 'degree', 'school', 'master', 'training', 'university'],
+  'Relationships': ['friends', 'relationship', 'partner', 'together', 'dating', 'marry'],
+  'Community': ['community', 'neighbour', 'neighbor', 'volunteer', 'local', 'church'],
+  'Spirituality': ['spiritual', 'faith', 'meditat', 'purpose', 'church'],
+  'Creativity': ['creative', 'art', 'write', 'design', 'music', 'build'],
+  'Achievement': ['achieve', 'goal', 'win', 'promotion', 'success', 'award'],
+  'Balance': ['balance', 'part-time', 'hours', 'flexible', 'time off', 'weekend'],
+};
+
+export interface ConflictInput {
+  values: string[];
+  priorities: Record<string, number>;
+  options: string[];
+  matrix?: DecisionMatrix;
+  tensions?: ValueTension[];
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const keywordsFor = (value: string): string[] => {
+  const known = Object.keys(VALUE_KEYWORDS).find(name => sameName(name, value));
+  return known ? VALUE_KEYWORDS[known] : value.toLowerCase().split(/\s+/).filter(word => word.length > 2);
+};
+
+// Words match at the start of a word, so "move" matches "moving" but "art" doesn't match "start"
+const keywordHits = (text: string, value: string) =>
+  keywordsFor(value).filter(word => new RegExp(`\\b${escapeRegExp(word)}`, 'i').test(text)).length;
+
+/**
+ * How strongly an option serves a value. The user's own matrix scores win
+ * over keyword guesses whenever the value is one of the matrix criteria.
+ */
+const support = (option: string, value: string, matrix?: DecisionMatrix): number => {
+  const criterion = matrix?.criteria.find(item => item.value && sameName(item.value, value));
+  return criterion ? getScore(matrix!, option, criterion.id) : keywordHits(option, value);
+};
+
+const explain = (tension: ValueTension, input: ConflictInput, t: Translate): string => {
+  const { options, matrix, priorities } = input;
+  const [a, b] = tension.values;
+  const [nameA, nameB] = [valueLabel(a, t), valueLabel(b, t)];
+  const quoted = (items: string[]) => formatList(items.map(option => `"${option}"`), t('list.and'));
+  const favoursA = options.filter(option => support(option, a, matrix) > support(option, b, matrix));
+  const favoursB = options.filter(option => support(option, b, matrix) > support(option, a, matrix));
+
+  const sentences = [t('conflict.tension', { a: nameA, b: nameB })];
+  if (tension.reason) {
+    sentences.push(tension.reason);
+  }
+
+  if (favoursA.length > 0 && favoursB.length > 0) {
+    sentences.push(t('conflict.bothSides', { favoursA: quoted(favoursA), a: nameA, favoursB: quoted(favoursB), b: nameB }));
+  } else if (favoursA.length > 0 || favoursB.length > 0) {
+    const [winner, loser, favouring] = favoursA.length > 0 ? [nameA, nameB, favoursA] : [nameB, nameA, favoursB];
+    sentences.push(t('conflict.oneSide', { favouring: quoted(favouring), winner, loser }));
+  } else {
+    sentences.push(t('conflict.neither'));
+  }
+
+  const priorityA = priorities[a] ?? 1;
+  const priorityB = priorities[b] ?? 1;
+  if (priorityA !== priorityB) {
+    sentences.push(priorityA < priorityB
+      ? t('conflict.ranking', { higher: nameA, lower: nameB })
+      : t('conflict.ranking', { higher: nameB, lower: nameA }));
+  }
+
+  return sentences.join(' ');
+};
+
+/**
+ * Every defined tension between two of the selected values, most important
+ * first, each explaining which options favour which side.
+ */
+export const findValueConflicts = (input: ConflictInput, t: Translate = createTranslator()): string[] => {
+  const { values, priorities, tensions = [] } = input;
+  const selected = (name: string) => values.some(value => sameName(value, name));
+  const seen = new Set<string>();
+
+  return [...builtInTensions(t), ...tensions]
+    .filter(tension => tension.values.every(selected))
+    .filter(tension => {
+      // The same pair defined twice (e.g. built-in and custom) is reported once
+      const key = tension.values.map(value => value.toLowerCase()).sort().join('|');
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    })
+    .map(tension => ({
+      tension,
+      weight: tension.values.reduce((sum, value) => sum + priorityWeight(priorities[value]), 0),
+    }))
+    .sort((x, y) => y.weight - x.weight)
+    .map(({ tension }) => explain(tension, input, t));
+};
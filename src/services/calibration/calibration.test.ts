@@ -0,0 +1,107 @@
+import { JournalEntry } from '../../types/journal';
+import {
+  brierScore,
+  brierScoreOverTime,
+  calibrationByBalanceBand,
+  calibrationByTimeHorizon,
+  CalibrationPoint,
+  collectCalibrationPoints,
+  reliabilityBuckets,
+  summarizeCalibration,
+} from './calibration';
+
+const point = (confidence: number, success: boolean, overrides: Partial<CalibrationPoint> = {}): CalibrationPoint => ({
+  entryId: `${confidence}-${success}`,
+  question: 'q',
+  confidence,
+  success,
+  recordedAt: '2025-01-01T00:00:00.000Z',
+  balanceScore: 50,
+  timeHorizon: 50,
+  ...overrides,
+});
+
+const entry = (id: string, confidenceScore: number | undefined, satisfactions: [string, number][]): JournalEntry => ({
+  id,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  decision: { id, question: id, balanceScore: 20, timeHorizon: 90, confidenceScore },
+  analysis: { recommendation: '', factors: [], sentiment: { positive: 0, negative: 0, neutral: 1 } },
+  tags: [],
+  notes: '',
+  checkIns: satisfactions.map(([recordedAt, outcomeSatisfaction], index) => ({
+    id: `${id}-${index}`,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    scheduledFor: recordedAt,
+    remind: false,
+    reflection: { followedThrough: 'yes', outcomeSatisfaction, intuitionMatched: 'yes', recordedAt },
+  })),
+});
+
+describe('collectCalibrationPoints', () => {
+  it('uses the latest reflection and skips entries without an outcome or confidence', () => {
+    const points = collectCalibrationPoints([
+      entry('revised', 80, [['2025-02-01T00:00:00.000Z', 5], ['2025-03-01T00:00:00.000Z', 2]]),
+      entry('pending', 60, []),
+      entry('no-confidence', undefined, [['2025-02-01T00:00:00.000Z', 5]]),
+      entry('happy', 30, [['2025-01-15T00:00:00.000Z', 4]]),
+    ]);
+
+    expect(points).toEqual([
+      expect.objectContaining({ entryId: 'happy', confidence: 0.3, success: true, balanceScore: 20, timeHorizon: 90 }),
+      expect.objectContaining({ entryId: 'revised', confidence: 0.8, success: false, recordedAt: '2025-03-01T00:00:00.000Z' }),
+    ]);
+  });
+});
+
+describe('brierScore', () => {
+  it('is zero for perfect forecasts and 0.25 for constant 50% forecasts', () => {
+    expect(brierScore([point(1, true), point(0, false)])).toBe(0);
+    expect(brierScore([point(0.5, true), point(0.5, false)])).toBe(0.25);
+    expect(brierScore([point(0.9, false)])).toBeCloseTo(0.81);
+  });
+
+  it('tracks a running score over time', () => {
+    expect(brierScoreOverTime([point(1, true), point(1, false)]).map(p => p.brierScore)).toEqual([0, 0.5]);
+  });
+});
+
+describe('reliabilityBuckets', () => {
+  it('groups forecasts by confidence and includes 100% in the last bucket', () => {
+    const buckets = reliabilityBuckets([point(0.1, false), point(0.15, true), point(0.9, true), point(1, false)]);
+
+    expect(buckets.map(bucket => bucket.count)).toEqual([2, 0, 0, 0, 2]);
+    expect(buckets[0]).toEqual(expect.objectContaining({ meanConfidence: 0.125, successRate: 0.5 }));
+    expect(buckets[4]).toEqual(expect.objectContaining({ meanConfidence: 0.95, successRate: 0.5 }));
+  });
+});
+
+describe('summarizeCalibration', () => {
+  it('needs enough outcomes before judging', () => {
+    expect(summarizeCalibration([point(0.9, false)]).verdict).toBe('insufficient-data');
+  });
+
+  it('detects systematic over- and under-confidence', () => {
+    const sure = Array.from({ length: 5 }, (unused, i) => point(0.9, i === 0));
+    const unsure = Array.from({ length: 5 }, (unused, i) => point(0.3, i !== 0));
+    const calibrated = [point(0.6, true), point(0.6, true), point(0.6, true), point(0.6, false), point(0.6, false)];
+
+    expect(summarizeCalibration(sure).verdict).toBe('over-confident');
+    expect(summarizeCalibration(unsure).verdict).toBe('under-confident');
+    expect(summarizeCalibration(calibrated).verdict).toBe('well-calibrated');
+  });
+});
+
+describe('breakdowns', () => {
+  it('splits by balance band and time horizon', () => {
+    const points = [
+      point(0.7, true, { balanceScore: 10, timeHorizon: 10 }),
+      point(0.7, false, { balanceScore: 90, timeHorizon: 90 }),
+      point(0.5, true, { balanceScore: 90, timeHorizon: 50 }),
+    ];
+
+    expect(calibrationByBalanceBand(points).map(group => [group.key, group.count, group.successRate]))
+      .toEqual([['emotional', 1, 1], ['balanced', 0, 0], ['logical', 2, 0.5]]);
+    expect(calibrationByTimeHorizon(points).map(group => [group.key, group.count]))
+      .toEqual([['short-term', 1], ['medium-term', 1], ['long-term', 1]]);
+  });
+});
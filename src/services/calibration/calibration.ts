@@ -0,0 +1,168 @@
+import { JournalEntry, Reflection } from '../../types/journal';
+import { MessageKey } from '../i18n/i18n';
+import { BalanceBand, balanceBand } from '../journal/journalFilters';
+
+export type TimeHorizonBand = 'short-term' | 'medium-term' | 'long-term';
+
+export const TIME_HORIZON_BANDS: { band: TimeHorizonBand; label: MessageKey }[] = [
+  { band: 'short-term', label: 'band.shortTerm' },
+  { band: 'medium-term', label: 'band.mediumTerm' },
+  { band: 'long-term', label: 'band.longTerm' },
+];
+
+// One decision whose confidence can be compared with how it turned out
+export interface CalibrationPoint {
+  entryId: string;
+  question: string;
+  confidence: number; // 0-1, from confidenceScore
+  success: boolean; // outcomeSatisfaction of 4 or 5
+  recordedAt: string; // When the outcome was reflected on
+  balanceScore: number;
+  timeHorizon: number;
+}
+
+export interface ReliabilityBucket {
+  from: number; // Inclusive, 0-1
+  to: number; // Exclusive except for the last bucket
+  count: number;
+  meanConfidence: number;
+  successRate: number;
+}
+
+export interface BrierPoint {
+  recordedAt: string;
+  count: number; // Decisions included so far
+  brierScore: number; // Running score over all decisions up to this one
+}
+
+export type CalibrationVerdict = 'insufficient-data' | 'over-confident' | 'under-confident' | 'well-calibrated';
+
+export interface CalibrationSummary {
+  count: number;
+  meanConfidence: number;
+  successRate: number;
+  brierScore: number;
+  verdict: CalibrationVerdict;
+}
+
+export interface CalibrationGroup<K extends string> extends CalibrationSummary {
+  key: K;
+}
+
+// Below this many outcomes any verdict would be noise
+export const MIN_POINTS_FOR_VERDICT = 5;
+
+// How far average confidence may drift from the success rate before we call it a bias
+const VERDICT_TOLERANCE = 0.1;
+
+export const SUCCESS_THRESHOLD = 4;
+
+export const timeHorizonBand = (timeHorizon: number): TimeHorizonBand => {
+  if (timeHorizon < 40) {
+    return 'short-term';
+  }
+  return timeHorizon <= 60 ? 'medium-term' : 'long-term';
+};
+
+export const latestReflection = (entry: JournalEntry): Reflection | undefined =>
+  (entry.checkIns || [])
+    .map(checkIn => checkIn.reflection)
+    .filter((reflection): reflection is Reflection => !!reflection)
+    .sort((a, b) => b.recordedAt.localeCompare(a.recordedAt))[0];
+
+/**
+ * Pairs each journal entry's confidenceScore with the outcome from its most
+ * recent reflection. Entries without either are skipped.
+ */
+export const collectCalibrationPoints = (entries: JournalEntry[]): CalibrationPoint[] =>
+  entries
+    .flatMap((entry): CalibrationPoint[] => {
+      const reflection = latestReflection(entry);
+      const { confidenceScore } = entry.decision;
+      if (!reflection || confidenceScore === undefined) {
+        return [];
+      }
+      return [{
+        entryId: entry.id,
+        question: entry.decision.question,
+        confidence: confidenceScore / 100,
+        success: reflection.outcomeSatisfaction >= SUCCESS_THRESHOLD,
+        recordedAt: reflection.recordedAt,
+        balanceScore: entry.decision.balanceScore,
+        timeHorizon: entry.decision.timeHorizon ?? 50,
+      }];
+    })
+    .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+
+const mean = (values: number[]) =>
+  values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const outcome = (point: CalibrationPoint) => (point.success ? 1 : 0);
+
+// Mean squared gap between confidence and outcome: 0 is perfect, 0.25 is always saying 50%
+export const brierScore = (points: CalibrationPoint[]): number =>
+  mean(points.map(point => (point.confidence - outcome(point)) ** 2));
+
+export const brierScoreOverTime = (points: CalibrationPoint[]): BrierPoint[] => {
+  let squaredErrorSum = 0;
+  return points.map((point, index) => {
+    squaredErrorSum += (point.confidence - outcome(point)) ** 2;
+    return {
+      recordedAt: point.recordedAt,
+      count: index + 1,
+      brierScore: squaredErrorSum / (index + 1),
+    };
+  });
+};
+
+export const reliabilityBuckets = (points: CalibrationPoint[], bucketCount = 5): ReliabilityBucket[] =>
+  Array.from({ length: bucketCount }, (unused, index) => {
+    const from = index / bucketCount;
+    const to = (index + 1) / bucketCount;
+    const isLast = index === bucketCount - 1;
+    const inBucket = points.filter(point =>
+      point.confidence >= from && (isLast ? point.confidence <= to : point.confidence < to));
+    return {
+      from,
+      to,
+      count: inBucket.length,
+      meanConfidence: mean(inBucket.map(point => point.confidence)),
+      successRate: mean(inBucket.map(outcome)),
+    };
+  });
+
+export const summarizeCalibration = (points: CalibrationPoint[]): CalibrationSummary => {
+  const meanConfidence = mean(points.map(point => point.confidence));
+  const successRate = mean(points.map(outcome));
+
+  let verdict: CalibrationVerdict = 'well-calibrated';
+  if (points.length < MIN_POINTS_FOR_VERDICT) {
+    verdict = 'insufficient-data';
+  } else if (meanConfidence - successRate > VERDICT_TOLERANCE) {
+    verdict = 'over-confident';
+  } else if (successRate - meanConfidence > VERDICT_TOLERANCE) {
+    verdict = 'under-confident';
+  }
+
+  return {
+    count: points.length,
+    meanConfidence,
+    successRate,
+    brierScore: brierScore(points),
+    verdict,
+  };
+};
+
+const groupBy = <K extends string>(
+  points: CalibrationPoint[],
+  keys: K[],
+  keyOf: (point: CalibrationPoint) => K
+): CalibrationGroup<K>[] =>
+  keys.map(key => ({ key, ...summarizeCalibration(points.filter(point => keyOf(point) === key)) }));
+
+// Shows whether gut-led or analysis-led decisions turn out better for this user
+export const calibrationByBalanceBand = (points: CalibrationPoint[]) =>
+  groupBy<BalanceBand>(points, ['emotional', 'balanced', 'logical'], point => balanceBand(point.balanceScore));
+
+export const calibrationByTimeHorizon = (points: CalibrationPoint[]) =>
+  groupBy<TimeHorizonBand>(points, ['short-term', 'medium-term', 'long-term'], point => timeHorizonBand(point.timeHorizon));
@@ -0,0 +1,115 @@
+import { Analysis, Decision } from '../../types/decision';
+import { JournalEntry } from '../../types/journal';
+import { createJournalStorage } from '../journal/journalStorage';
+import { createLocalStorageStore } from '../storage/recordStore';
+import { createCheckInService, findDueCheckIns, isCheckInDue } from './checkInService';
+
+const decision: Decision = {
+  question: 'Should I start running in the mornings?',
+  balanceScore: 40,
+  initialIntuition: 'Yes, I will feel better',
+};
+
+const analysis: Analysis = {
+  recommendation: 'Try it for two weeks',
+  factors: [],
+  sentiment: { positive: 0.6, negative: 0.1, neutral: 0.3 },
+};
+
+let currentTime: Date;
+const now = () => currentTime;
+
+const setup = async () => {
+  const journal = createJournalStorage(createLocalStorageStore<JournalEntry>('journal'), now);
+  const checkIns = createCheckInService(journal, now);
+  const entry = await journal.saveEntry({ decision, analysis, tags: ['Decision'], notes: '' });
+  return { journal, checkIns, entry };
+};
+
+beforeEach(() => {
+  localStorage.clear();
+  currentTime = new Date('2025-05-01T09:00:00.000Z');
+});
+
+describe('checkInService', () => {
+  it('schedules a check-in on the journal entry after the chosen delay', async () => {
+    const { journal, checkIns, entry } = await setup();
+
+    const checkIn = await checkIns.scheduleCheckIn(entry.id, { delayDays: 14, remind: true });
+
+    expect(checkIn).toEqual(expect.objectContaining({
+      createdAt: '2025-05-01T09:00:00.000Z',
+      scheduledFor: '2025-05-15T09:00:00.000Z',
+      remind: true,
+    }));
+    expect((await journal.getEntry(entry.id))?.checkIns).toEqual([checkIn]);
+  });
+
+  it('rejects non-positive delays and unknown entries', async () => {
+    const { checkIns, entry } = await setup();
+
+    await expect(checkIns.scheduleCheckIn(entry.id, { delayDays: 0 })).rejects.toThrow('at least a day');
+    await expect(checkIns.scheduleCheckIn('missing', { delayDays: 7 })).rejects.toThrow('does not exist');
+  });
+
+  it('lists check-ins only once they are due', async () => {
+    const { checkIns, entry } = await setup();
+    await checkIns.scheduleCheckIn(entry.id, { delayDays: 7 });
+
+    currentTime = new Date('2025-05-08T08:59:59.000Z');
+    expect(await checkIns.listDueCheckIns()).toEqual([]);
+
+    currentTime = new Date('2025-05-08T09:00:00.000Z');
+    const due = await checkIns.listDueCheckIns();
+    expect(due).toHaveLength(1);
+    expect(due[0].entry.id).toBe(entry.id);
+  });
+
+  it('records a reflection against the original decision and stops it being due', async () => {
+    const { journal, checkIns, entry } = await setup();
+    const checkIn = await checkIns.scheduleCheckIn(entry.id, { delayDays: 7 });
+    currentTime = new Date('2025-05-10T18:00:00.000Z');
+
+    await checkIns.recordReflection(entry.id, checkIn.id, {
+      followedThrough: 'partially',
+      outcomeSatisfaction: 4,
+      intuitionMatched: 'yes',
+      notes: 'Three runs a week is plenty',
+    });
+
+    const [stored] = (await journal.getEntry(entry.id))?.checkIns || [];
+    expect(stored.reflection).toEqual({
+      followedThrough: 'partially',
+      outcomeSatisfaction: 4,
+      intuitionMatched: 'yes',
+      notes: 'Three runs a week is plenty',
+      recordedAt: '2025-05-10T18:00:00.000Z',
+    });
+    expect(await checkIns.listDueCheckIns()).toEqual([]);
+  });
+
+  it('marks reminders as notified', async () => {
+    const { journal, checkIns, entry } = await setup();
+    const checkIn = await checkIns.scheduleCheckIn(entry.id, { delayDays: 1, remind: true });
+
+    await checkIns.markNotified(entry.id, checkIn.id);
+
+    expect((await journal.getEntry(entry.id))?.checkIns?.[0].notifiedAt).toBe('2025-05-01T09:00:00.000Z');
+  });
+});
+
+describe('findDueCheckIns', () => {
+  it('orders due check-ins oldest first across entries', () => {
+    const base = { decision, analysis, tags: [], notes: '', createdAt: '2025-01-01T00:00:00.000Z' };
+    const at = (id: string, scheduledFor: string) => ({ id, createdAt: base.createdAt, scheduledFor, remind: false });
+    const entries: JournalEntry[] = [
+      { ...base, id: 'a', checkIns: [at('a1', '2025-03-01T00:00:00.000Z'), at('a2', '2025-06-01T00:00:00.000Z')] },
+      { ...base, id: 'b', checkIns: [at('b1', '2025-02-01T00:00:00.000Z')] },
+    ];
+
+    const due = findDueCheckIns(entries, new Date('2025-04-01T00:00:00.000Z'));
+
+    expect(due.map(item => item.checkIn.id)).toEqual(['b1', 'a1']);
+    expect(isCheckInDue(entries[0].checkIns![1], new Date('2025-04-01T00:00:00.000Z'))).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+import { CheckIn, JournalEntry, Reflection } from '../../types/journal';
+import { MessageKey } from '../i18n/i18n';
+import { journalStorage, JournalStorage } from '../journal/journalStorage';
+import { generateId } from '../storage/generateId';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const CHECK_IN_DELAYS: { days: number; label: MessageKey }[] = [
+  { days: 1, label: 'checkIn.delay.tomorrow' },
+  { days: 3, label: 'checkIn.delay.3days' },
+  { days: 7, label: 'checkIn.delay.1week' },
+  { days: 14, label: 'checkIn.delay.2weeks' },
+  { days: 30, label: 'checkIn.delay.1month' },
+  { days: 90, label: 'checkIn.delay.3months' },
+];
+
+export const DEFAULT_CHECK_IN_DELAY_DAYS = 7;
+
+export interface ScheduleOptions {
+  delayDays: number;
+  remind?: boolean;
+}
+
+export interface DueCheckIn {
+  entry: JournalEntry;
+  checkIn: CheckIn;
+}
+
+export interface CheckInService {
+  scheduleCheckIn: (entryId: string, options: ScheduleOptions) => Promise<CheckIn>;
+  listDueCheckIns: () => Promise<DueCheckIn[]>;
+  recordReflection: (entryId: string, checkInId: string, reflection: Omit<Reflection, 'recordedAt'>) => Promise<JournalEntry>;
+  markNotified: (entryId: string, checkInId: string) => Promise<JournalEntry>;
+}
+
+export const isCheckInDue = (checkIn: CheckIn, now: Date): boolean =>
+  !checkIn.reflection && new Date(checkIn.scheduledFor).getTime() <= now.getTime();
+
+// Oldest due first, so the longest-waiting reflection is offered first
+export const findDueCheckIns = (entries: JournalEntry[], now: Date): DueCheckIn[] =>
+  entries
+    .flatMap(entry => (entry.checkIns || [])
+      .filter(checkIn => isCheckInDue(checkIn, now))
+      .map(checkIn => ({ entry, checkIn })))
+    .sort((a, b) => a.checkIn.scheduledFor.localeCompare(b.checkIn.scheduledFor));
+
+export const createCheckInService = (
+  journal: JournalStorage = journalStorage,
+  now: () => Date = () => new Date()
+): CheckInService => {
+  const updateCheckIns = async (entryId: string, update: (checkIns: CheckIn[]) => CheckIn[]) => {
+    const entry = await journal.getEntry(entryId);
+    if (!entry) {
+      throw new Error(`Journal entry ${entryId} does not exist`);
+    }
+    return journal.updateEntry(entryId, { checkIns: update(entry.checkIns || []) });
+  };
+
+  return {
+    scheduleCheckIn: async (entryId, { delayDays, remind = false }) => {
+      if (!(delayDays > 0)) {
+        throw new Error('A check-in must be scheduled at least a day ahead');
+      }
+      const createdAt = now();
+      const checkIn: CheckIn = {
+        id: generateId(),
+        createdAt: createdAt.toISOString(),
+        scheduledFor: new Date(createdAt.getTime() + delayDays * DAY_MS).toISOString(),
+        remind,
+      };
+      await updateCheckIns(entryId, checkIns => [...checkIns, checkIn]);
+      return checkIn;
+    },
+
+    listDueCheckIns: async () => findDueCheckIns(await journal.listEntries(), now()),
+
+    recordReflection: (entryId, checkInId, reflection) =>
+      updateCheckIns(entryId, checkIns => {
+        if (!checkIns.some(checkIn => checkIn.id === checkInId)) {
+          throw new Error(`Check-in ${checkInId} does not exist`);
+        }
+        return checkIns.map(checkIn => checkIn.id === checkInId
+          ? { ...checkIn, reflection: { ...reflection, recordedAt: now().toISOString() } }
+          : checkIn);
+      }),
+
+    markNotified: (entryId, checkInId) =>
+      updateCheckIns(entryId, checkIns => checkIns.map(checkIn => checkIn.id === checkInId
+        ? { ...checkIn, notifiedAt: now().toISOString() }
+        : checkIn)),
+  };
+};
+
+export const checkInService = createCheckInService();
@@ -0,0 +1,38 @@
+import { vault as defaultVault, Vault } from '../encryption/vault';
+import { createTranslator, Translate } from '../i18n/i18n';
+import { DueCheckIn } from './checkInService';
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+// Resolves to true only if the user has allowed notifications
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!notificationsSupported()) {
+    return false;
+  }
+  if (Notification.permission === 'default') {
+    return (await Notification.requestPermission()) === 'granted';
+  }
+  return Notification.permission === 'granted';
+};
+
+// The system shows notifications on the lock screen, so an encrypted decision's question is left out
+export const showCheckInNotification = (
+  { entry, checkIn }: DueCheckIn,
+  onClick: () => void,
+  t: Translate = createTranslator(),
+  vault: Vault = defaultVault
+): boolean => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') {
+    return false;
+  }
+  const notification = new Notification(t('notification.checkIn'), {
+    body: vault.status() === 'disabled' ? entry.decision.question : t('notification.checkInPrivate'),
+    tag: `check-in-${checkIn.id}`,
+  });
+  notification.onclick = () => {
+    window.focus();
+    onClick();
+    notification.close();
+  };
+  return true;
+};
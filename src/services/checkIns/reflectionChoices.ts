@@ -0,0 +1,27 @@
+import { FollowThrough, IntuitionMatch } from '../../types/journal';
+import { MessageKey, Translate } from '../i18n/i18n';
+
+export const FOLLOW_THROUGH_CHOICES: { value: FollowThrough; label: MessageKey }[] = [
+  { value: 'yes', label: 'reflection.followThrough.yes' },
+  { value: 'partially', label: 'reflection.followThrough.partially' },
+  { value: 'no', label: 'reflection.followThrough.no' },
+];
+
+export const INTUITION_CHOICES: { value: IntuitionMatch; label: MessageKey }[] = [
+  { value: 'yes', label: 'reflection.intuition.yes' },
+  { value: 'partly', label: 'reflection.intuition.partly' },
+  { value: 'no', label: 'reflection.intuition.no' },
+];
+
+export const SATISFACTION_LABELS: Record<number, MessageKey> = {
+  1: 'reflection.satisfaction.1',
+  2: 'reflection.satisfaction.2',
+  3: 'reflection.satisfaction.3',
+  4: 'reflection.satisfaction.4',
+  5: 'reflection.satisfaction.5',
+};
+
+export const choiceLabel = <T extends string>(choices: { value: T; label: MessageKey }[], value: T, t: Translate) => {
+  const choice = choices.find(item => item.value === value);
+  return choice ? t(choice.label) : value;
+};
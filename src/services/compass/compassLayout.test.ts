@@ -0,0 +1,45 @@
+import { OptionPosition } from '../../types/decision';
+import { roundPosition, spreadPoints } from './compassLayout';
+
+const gap = (a: OptionPosition, b: OptionPosition) => Math.hypot(a.x - b.x, a.y - b.y);
+
+describe('spreadPoints', () => {
+  it('leaves points that are far enough apart alone', () => {
+    const points = { A: { x: 20, y: 20 }, B: { x: 80, y: 80 } };
+    expect(spreadPoints(points, 8)).toEqual(points);
+  });
+
+  it('separates overlapping and identical points', () => {
+    const spread = spreadPoints({ A: { x: 50, y: 50 }, B: { x: 50, y: 50 }, C: { x: 52, y: 51 } }, 8);
+    const [a, b, c] = [spread.A, spread.B, spread.C];
+
+    expect(gap(a, b)).toBeGreaterThanOrEqual(7.9);
+    expect(gap(a, c)).toBeGreaterThanOrEqual(7.9);
+    expect(gap(b, c)).toBeGreaterThanOrEqual(7.9);
+    expect(spreadPoints({ A: { x: 50, y: 50 }, B: { x: 50, y: 50 } }, 8)).toEqual(
+      spreadPoints({ A: { x: 50, y: 50 }, B: { x: 50, y: 50 } }, 8)
+    );
+  });
+
+  it('keeps points on the compass', () => {
+    const spread = spreadPoints({ A: { x: 100, y: 0 }, B: { x: 99, y: 1 } }, 10);
+    Object.values(spread).forEach(({ x, y }) => {
+      expect(x).toBeGreaterThanOrEqual(0);
+      expect(x).toBeLessThanOrEqual(100);
+      expect(y).toBeGreaterThanOrEqual(0);
+      expect(y).toBeLessThanOrEqual(100);
+    });
+  });
+
+  it('does not change the input', () => {
+    const points = { A: { x: 50, y: 50 }, B: { x: 50, y: 50 } };
+    spreadPoints(points, 8);
+    expect(points).toEqual({ A: { x: 50, y: 50 }, B: { x: 50, y: 50 } });
+  });
+});
+
+describe('roundPosition', () => {
+  it('rounds and clamps to the compass', () => {
+    expect(roundPosition({ x: 42.6, y: 104 })).toEqual({ x: 43, y: 100 });
+  });
+});
@@ -0,0 +1,59 @@
+import { OptionPosition } from '../../types/decision';
+
+// Compass coordinates run from 0 to 100 on both axes
+const MIN = 0;
+const MAX = 100;
+const ITERATIONS = 50;
+
+const clamp = (value: number) => Math.max(MIN, Math.min(MAX, value));
+
+/**
+ * Nudges points apart until no two are closer than `minDistance`, so that
+ * markers for options with similar positions don't hide each other. Only the
+ * drawing moves; the analysed positions stay as they are. Deterministic: two
+ * points in exactly the same place separate along an angle set by their order.
+ */
+export const spreadPoints = (
+  points: Record<string, OptionPosition>,
+  minDistance: number
+): Record<string, OptionPosition> => {
+  const names = Object.keys(points);
+  const spread = names.map(name => ({ ...points[name] }));
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    let moved = false;
+    spread.forEach((a, i) => spread.slice(i + 1).forEach((b, offset) => {
+      const j = i + 1 + offset;
+      let dx = b.x - a.x;
+      let dy = b.y - a.y;
+      let gap = Math.hypot(dx, dy);
+      if (gap >= minDistance) {
+        return;
+      }
+      if (gap === 0) {
+        const angle = (j * 2 * Math.PI) / names.length;
+        dx = Math.cos(angle);
+        dy = Math.sin(angle);
+        gap = 1;
+      }
+      // Each point moves half of the overlap, away from the other
+      const push = (minDistance - gap) / 2 / gap;
+      a.x = clamp(a.x - dx * push);
+      a.y = clamp(a.y - dy * push);
+      b.x = clamp(b.x + dx * push);
+      b.y = clamp(b.y + dy * push);
+      moved = true;
+    }));
+    if (!moved) {
+      break;
+    }
+  }
+
+  return Object.fromEntries(names.map((name, index) => [name, spread[index]]));
+};
+
+// Rounded to whole compass units, which is as precise as dragging gets
+export const roundPosition = ({ x, y }: OptionPosition): OptionPosition => ({
+  x: Math.round(clamp(x)),
+  y: Math.round(clamp(y)),
+});
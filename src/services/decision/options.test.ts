@@ -0,0 +1,24 @@
+import { cleanOptions, formatList, hasAnyOption, moveItem, optionLetter } from './options';
+
+describe('options helpers', () => {
+  it('letters options like spreadsheet columns', () => {
+    expect([0, 1, 25, 26, 27].map(optionLetter)).toEqual(['A', 'B', 'Z', 'AA', 'AB']);
+  });
+
+  it('cleans blank and duplicate options', () => {
+    expect(cleanOptions([' Move ', '', 'Stay', 'Move', '   '])).toEqual(['Move', 'Stay']);
+    expect(hasAnyOption(['', '  '])).toBe(false);
+    expect(hasAnyOption(['', 'Rent'])).toBe(true);
+  });
+
+  it('formats lists for sentences', () => {
+    expect(formatList(['A'])).toBe('A');
+    expect(formatList(['A', 'B'])).toBe('A and B');
+    expect(formatList(['A', 'B', 'C'], 'or')).toBe('A, B or C');
+  });
+
+  it('moves items within bounds only', () => {
+    expect(moveItem(['a', 'b', 'c'], 2, 0)).toEqual(['c', 'a', 'b']);
+    expect(moveItem(['a', 'b', 'c'], 0, -1)).toEqual(['a', 'b', 'c']);
+  });
+});
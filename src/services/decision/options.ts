@@ -0,0 +1,35 @@
+// The wizard lets users weigh this many alternatives at most
+export const MAX_OPTIONS = 8;
+
+// 0 -> "A", 1 -> "B", ... 26 -> "AA"
+export const optionLetter = (index: number): string => {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+};
+
+// Trimmed, non-empty and de-duplicated, in the user's order
+export const cleanOptions = (options: string[] = []): string[] =>
+  Array.from(new Set(options.map(option => option.trim()).filter(option => option !== '')));
+
+export const hasAnyOption = (options: string[] = []) => cleanOptions(options).length > 0;
+
+// "A", "A and B", "A, B and C"
+export const formatList = (items: string[], conjunction = 'and'): string => {
+  if (items.length <= 1) {
+    return items.join('');
+  }
+  return `${items.slice(0, -1).join(', ')} ${conjunction} ${items[items.length - 1]}`;
+};
+
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  if (to < 0 || to >= items.length || from === to) {
+    return items;
+  }
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
@@ -0,0 +1,48 @@
+import { Decision } from '../../types/decision';
+import { isDecision, validateDecision } from './validateDecision';
+
+const decision: Decision = {
+  question: 'Should I move to Lisbon?',
+  balanceScore: 40,
+  timeHorizon: 70,
+  options: ['Move this spring', 'Stay in Berlin'],
+  values: ['Adventure', 'Family'],
+  createdAt: new Date('2025-03-01T09:00:00.000Z'),
+  matrix: {
+    criteria: [{ id: 'c1', name: 'Cost of living', weight: 4 }],
+    scores: { 'Move this spring': { c1: 8 }, 'Stay in Berlin': { c1: 4 } },
+  },
+  rankedValues: [{ id: 'Adventure', name: 'Adventure', priority: 1 }],
+  valueTensions: [{ id: 't1', values: ['Adventure', 'Family'] }],
+};
+
+describe('validateDecision', () => {
+  it('accepts a complete decision, including after a JSON round trip', () => {
+    expect(validateDecision(decision)).toEqual([]);
+    expect(isDecision(JSON.parse(JSON.stringify(decision)))).toBe(true);
+  });
+
+  it('reports every problem it finds', () => {
+    expect(validateDecision({
+      question: 42,
+      balanceScore: '50',
+      options: ['A', 1],
+      createdAt: 'last tuesday',
+      matrix: { criteria: [{ id: 'c1', name: 'Cost' }], scores: { A: { c1: 'high' } } },
+      valueTensions: [{ id: 't1', values: ['Adventure'] }],
+    })).toEqual([
+      'question must be a string',
+      'balanceScore must be a number',
+      'options must be an array of strings',
+      'createdAt must be a date',
+      'matrix.criteria[0] must have an id, a name and a numeric weight',
+      'matrix.scores["A"] must map criteria to numbers',
+      'valueTensions must be tensions with an id and two values',
+    ]);
+  });
+
+  it('rejects non-objects', () => {
+    expect(isDecision(undefined)).toBe(false);
+    expect(validateDecision('Should I?')).toEqual(['decision must be an object']);
+  });
+});
@@ -0,0 +1,93 @@
+import { Decision } from '../../types/decision';
+import { isNumber, isObject, isStringArray } from '../analysis/validateAnalysis';
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+const isOptionalNumber = (value: unknown) => value === undefined || isNumber(value);
+
+/**
+ * Checks that an untrusted value (e.g. an imported file) has the shape of a
+ * Decision. Returns a list of problems; an empty list means the value is valid.
+ * `createdAt` may be a Date or an ISO string, since JSON has no dates.
+ */
+export const validateDecision = (value: unknown): string[] => {
+  const problems: string[] = [];
+
+  if (!isObject(value)) {
+    return ['decision must be an object'];
+  }
+
+  if (typeof value.question !== 'string') {
+    problems.push('question must be a string');
+  }
+  if (!isNumber(value.balanceScore)) {
+    problems.push('balanceScore must be a number');
+  }
+
+  (['id', 'stakes', 'initialIntuition'] as const).forEach(key => {
+    if (!isOptionalString(value[key])) {
+      problems.push(`${key} must be a string`);
+    }
+  });
+  (['confidenceScore', 'timeHorizon'] as const).forEach(key => {
+    if (!isOptionalNumber(value[key])) {
+      problems.push(`${key} must be a number`);
+    }
+  });
+  (['options', 'values'] as const).forEach(key => {
+    if (value[key] !== undefined && !isStringArray(value[key])) {
+      problems.push(`${key} must be an array of strings`);
+    }
+  });
+
+  if (value.createdAt !== undefined && !(value.createdAt instanceof Date) &&
+    (typeof value.createdAt !== 'string' || Number.isNaN(Date.parse(value.createdAt)))) {
+    problems.push('createdAt must be a date');
+  }
+
+  if (value.matrix !== undefined) {
+    const matrix = value.matrix;
+    if (!isObject(matrix) || !Array.isArray(matrix.criteria) || !isObject(matrix.scores)) {
+      problems.push('matrix must have criteria and scores');
+    } else {
+      matrix.criteria.forEach((criterion, index) => {
+        if (!isObject(criterion) || typeof criterion.id !== 'string' ||
+          typeof criterion.name !== 'string' || !isNumber(criterion.weight)) {
+          problems.push(`matrix.criteria[${index}] must have an id, a name and a numeric weight`);
+        }
+      });
+      Object.entries(matrix.scores).forEach(([option, scores]) => {
+        if (!isObject(scores) || !Object.values(scores).every(isNumber)) {
+          problems.push(`matrix.scores["${option}"] must map criteria to numbers`);
+        }
+      });
+    }
+  }
+
+  if (value.rankedValues !== undefined) {
+    if (!Array.isArray(value.rankedValues) || !value.rankedValues.every(item =>
+      isObject(item) && typeof item.id === 'string' && typeof item.name === 'string' && isNumber(item.priority))) {
+      problems.push('rankedValues must be values with an id, a name and a numeric priority');
+    }
+  }
+
+  if (value.valueTensions !== undefined) {
+    if (!Array.isArray(value.valueTensions) || !value.valueTensions.every(item =>
+      isObject(item) && typeof item.id === 'string' && isStringArray(item.values) && item.values.length === 2 &&
+      isOptionalString(item.reason))) {
+      problems.push('valueTensions must be tensions with an id and two values');
+    }
+  }
+
+  if (value.positionCorrections !== undefined) {
+    if (!isObject(value.positionCorrections) || !Object.values(value.positionCorrections).every(position =>
+      isObject(position) && isNumber(position.x) && isNumber(position.y))) {
+      problems.push('positionCorrections must map options to numeric x and y');
+    }
+  }
+
+  return problems;
+};
+
+export const isDecision = (value: unknown): value is Decision =>
+  validateDecision(value).length === 0;
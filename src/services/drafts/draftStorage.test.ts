@@ -0,0 +1,60 @@
+import { Draft, NewDraft } from '../../types/draft';
+import { createLocalStorageStore } from '../storage/recordStore';
+import { createDraftStorage, defaultDraftName } from './draftStorage';
+
+const draft = (id: string, name: string): NewDraft => ({
+  id,
+  name,
+  step: 'context',
+  decision: { question: 'Should I move?', balanceScore: 40, options: ['Move', ''] },
+  matrixSkipped: false,
+});
+
+const clock = (...isoTimes: string[]) => {
+  let index = 0;
+  return () => new Date(isoTimes[Math.min(index++, isoTimes.length - 1)]);
+};
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('draftStorage', () => {
+  it('saves drafts with a timestamp and lists the most recently edited first', async () => {
+    const drafts = createDraftStorage(
+      createLocalStorageStore<Draft>('drafts'),
+      clock('2025-01-01T00:00:00.000Z', '2025-01-02T00:00:00.000Z', '2025-01-03T00:00:00.000Z')
+    );
+    await drafts.saveDraft(draft('a', 'Moving'));
+    await drafts.saveDraft(draft('b', 'New job'));
+    const updated = await drafts.saveDraft({ ...draft('a', 'Moving abroad'), step: 'matrix' });
+
+    expect(updated.updatedAt).toBe('2025-01-03T00:00:00.000Z');
+    const reloaded = createDraftStorage(createLocalStorageStore<Draft>('drafts'));
+    expect(await reloaded.listDrafts()).toEqual([updated, { ...draft('b', 'New job'), updatedAt: '2025-01-02T00:00:00.000Z' }]);
+  });
+
+  it('keeps blank option fields as they were typed', async () => {
+    const drafts = createDraftStorage(createLocalStorageStore<Draft>('drafts'));
+    await drafts.saveDraft(draft('a', 'Moving'));
+    expect((await drafts.listDrafts())[0].decision.options).toEqual(['Move', '']);
+  });
+
+  it('deletes drafts', async () => {
+    const drafts = createDraftStorage(createLocalStorageStore<Draft>('drafts'));
+    await drafts.saveDraft(draft('a', 'Moving'));
+    await drafts.saveDraft(draft('b', 'New job'));
+
+    await drafts.deleteDraft('a');
+
+    expect((await drafts.listDrafts()).map(saved => saved.id)).toEqual(['b']);
+  });
+});
+
+describe('defaultDraftName', () => {
+  it('uses the question, shortened if needed', () => {
+    expect(defaultDraftName('  Should I move?  ')).toBe('Should I move?');
+    expect(defaultDraftName('x'.repeat(80))).toHaveLength(60);
+    expect(defaultDraftName('  ')).toBe('');
+  });
+});
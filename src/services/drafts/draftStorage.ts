@@ -0,0 +1,39 @@
+import { Draft, NewDraft } from '../../types/draft';
+import { createLocalStorageStore, RecordStore } from '../storage/recordStore';
+import { vault } from '../encryption/vault';
+
+const MAX_NAME_LENGTH = 60;
+
+export interface DraftStorage {
+  listDrafts: () => Promise<Draft[]>; // Most recently edited first
+  saveDraft: (draft: NewDraft) => Promise<Draft>; // Creates or replaces the draft with this id
+  deleteDraft: (id: string) => Promise<void>;
+}
+
+// Names a draft after its question until the user gives it a name of their own. Without
+// a question the name stays empty, so it can be shown as "untitled" in the user's language.
+export const defaultDraftName = (question: string): string => {
+  const trimmed = question.trim();
+  return trimmed.length > MAX_NAME_LENGTH ? `${trimmed.slice(0, MAX_NAME_LENGTH - 1)}…` : trimmed;
+};
+
+// localStorage rather than IndexedDB: its writes are synchronous, so a draft survives the tab closing mid-save
+export const createDraftStorage = (
+  store: RecordStore<Draft> = vault.protect<Draft>(createLocalStorageStore('drafts')),
+  now: () => Date = () => new Date()
+): DraftStorage => ({
+  listDrafts: async () => {
+    const drafts = await store.getAll();
+    return drafts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  },
+
+  saveDraft: async (draft) => {
+    const saved: Draft = { ...draft, updatedAt: now().toISOString() };
+    await store.put(saved);
+    return saved;
+  },
+
+  deleteDraft: (id) => store.delete(id),
+});
+
+export const draftStorage = createDraftStorage();
@@ -0,0 +1,60 @@
+// PBKDF2 work factor for new passphrases (OWASP's 2023 advice for SHA-256); stored with each vault
+export const DEFAULT_ITERATIONS = 600000;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12; // The size AES-GCM is designed for
+
+// Ciphertext as stored: both parts base64, the IV fresh for every encryption
+export interface EncryptedPayload {
+  iv: string;
+  data: string;
+}
+
+// Browsers only expose WebCrypto's subtle API on https and localhost
+export const cryptoSupported = (
+  crypto: Crypto | undefined = typeof window !== 'undefined' ? window.crypto : undefined
+): boolean => !!crypto?.subtle;
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array): string => {
+  const view = new Uint8Array(bytes);
+  let binary = '';
+  for (let i = 0; i < view.length; i++) {
+    binary += String.fromCharCode(view[i]);
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+export const randomSalt = (crypto: Crypto): string => toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+
+// A non-extractable AES-GCM key, so the raw key never leaves WebCrypto
+export const deriveKey = async (
+  passphrase: string,
+  salt: string,
+  iterations: number,
+  crypto: Crypto
+): Promise<CryptoKey> => {
+  const passphraseBytes = new TextEncoder().encode(passphrase);
+  const material = await crypto.subtle.importKey('raw', passphraseBytes, 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptJson = async (key: CryptoKey, value: unknown, crypto: Crypto): Promise<EncryptedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const plain = new TextEncoder().encode(JSON.stringify(value));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plain);
+  return { iv: toBase64(iv), data: toBase64(data) };
+};
+
+// Rejects when the key is wrong or the data was tampered with: GCM checks both
+export const decryptJson = async <T>(key: CryptoKey, { iv, data }: EncryptedPayload, crypto: Crypto): Promise<T> => {
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(data));
+  return JSON.parse(new TextDecoder().decode(plain)) as T;
+};
@@ -0,0 +1,186 @@
+import { webcrypto } from 'crypto';
+import { TextDecoder, TextEncoder } from 'util';
+import { createLocalStorageStore, StoredRecord } from '../storage/recordStore';
+import { createVault, VaultLockedError } from './vault';
+
+// jsdom has neither WebCrypto nor the text codecs, so Node's stand in
+Object.assign(global, { TextEncoder, TextDecoder });
+const crypto = webcrypto as unknown as Crypto;
+
+interface Note extends StoredRecord {
+  text: string;
+}
+
+const raw = () => createLocalStorageStore<StoredRecord>('notes');
+const rawText = () => localStorage.getItem('anchor-decisions:notes') || '';
+
+const setup = () => {
+  const vault = createVault({ crypto, iterations: 1000 });
+  return { vault, notes: vault.protect<Note>(raw()) };
+};
+
+const NOTES: Note[] = [{ id: 'a', text: 'my salary' }, { id: 'b', text: 'my health' }];
+
+// Changes the passphrase on storage that fills up after one record has been re-encrypted
+const interruptedChange = async () => {
+  const store = raw();
+  let failing = false;
+  let writes = 0;
+  const vault = createVault({ crypto, iterations: 1000 });
+  const notes = vault.protect<Note>({
+    ...store,
+    put: async (record) => {
+      if (failing && ++writes > 1) {
+        throw new Error('QuotaExceededError');
+      }
+      return store.put(record);
+    },
+  });
+  await vault.enable('correct horse');
+  await notes.put(NOTES[0]);
+  await notes.put(NOTES[1]);
+
+  failing = true;
+  await expect(vault.changePassphrase('correct horse', 'battery staple')).rejects.toThrow('QuotaExceededError');
+  return { vault, notes };
+};
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('createVault', () => {
+  it('stores records as they are until encryption is enabled', async () => {
+    const { vault, notes } = setup();
+    await notes.put({ id: 'a', text: 'my salary' });
+
+    expect(vault.status()).toBe('disabled');
+    expect(await raw().get('a')).toEqual({ id: 'a', text: 'my salary' });
+  });
+
+  it('encrypts what is already stored and everything written afterwards', async () => {
+    const { vault, notes } = setup();
+    await notes.put({ id: 'a', text: 'my salary' });
+
+    await vault.enable('correct horse');
+    await notes.put({ id: 'b', text: 'my health' });
+
+    expect(vault.status()).toBe('unlocked');
+    expect(rawText()).not.toContain('salary');
+    expect(rawText()).not.toContain('health');
+    expect(await raw().get('a')).toEqual({ id: 'a', encrypted: { iv: expect.any(String), data: expect.any(String) } });
+    expect(await notes.getAll()).toEqual([{ id: 'a', text: 'my salary' }, { id: 'b', text: 'my health' }]);
+  });
+
+  it('refuses to read or write while locked', async () => {
+    const { vault, notes } = setup();
+    await vault.enable('correct horse');
+    await notes.put({ id: 'a', text: 'my salary' });
+
+    vault.lock();
+    expect(vault.status()).toBe('locked');
+    await expect(notes.get('a')).rejects.toThrow(VaultLockedError);
+    await expect(notes.put({ id: 'b', text: 'more' })).rejects.toThrow(VaultLockedError);
+  });
+
+  it('unlocks only with the right passphrase, also after a reload', async () => {
+    const { vault, notes } = setup();
+    await vault.enable('correct horse');
+    await notes.put({ id: 'a', text: 'my salary' });
+
+    const reloaded = setup();
+    expect(reloaded.vault.status()).toBe('locked');
+    expect(await reloaded.vault.unlock('wrong horse')).toBe(false);
+    expect(reloaded.vault.status()).toBe('locked');
+    expect(await reloaded.vault.unlock('correct horse')).toBe(true);
+    expect(await reloaded.notes.get('a')).toEqual({ id: 'a', text: 'my salary' });
+  });
+
+  it('re-encrypts everything when the passphrase changes', async () => {
+    const { vault, notes } = setup();
+    await vault.enable('correct horse');
+    await notes.put({ id: 'a', text: 'my salary' });
+    const before = rawText();
+
+    expect(await vault.changePassphrase('wrong horse', 'battery staple')).toBe(false);
+    expect(rawText()).toBe(before);
+
+    expect(await vault.changePassphrase('correct horse', 'battery staple')).toBe(true);
+    expect(rawText()).not.toBe(before);
+    expect(await notes.get('a')).toEqual({ id: 'a', text: 'my salary' });
+
+    const reloaded = setup();
+    expect(await reloaded.vault.unlock('correct horse')).toBe(false);
+    expect(await reloaded.vault.unlock('battery staple')).toBe(true);
+    expect(await reloaded.notes.get('a')).toEqual({ id: 'a', text: 'my salary' });
+  });
+
+  it('keeps every record readable when a passphrase change is interrupted', async () => {
+    const { notes } = await interruptedChange();
+    expect(await notes.getAll()).toEqual(NOTES);
+  });
+
+  it.each(['correct horse', 'battery staple'])('finishes an interrupted change on unlocking with "%s"', async (passphrase) => {
+    await interruptedChange();
+
+    const { vault, notes } = setup();
+    expect(await vault.unlock('wrong horse')).toBe(false);
+    expect(await vault.unlock(passphrase)).toBe(true);
+    expect(await notes.getAll()).toEqual(NOTES);
+    expect(localStorage.getItem('anchor-decisions:vault')).not.toContain('pending');
+
+    const reloaded = setup();
+    expect(await reloaded.vault.unlock('correct horse')).toBe(false);
+    expect(await reloaded.vault.unlock('battery staple')).toBe(true);
+    expect(await reloaded.notes.getAll()).toEqual(NOTES);
+  });
+
+  it('decrypts everything again when encryption is turned off', async () => {
+    const { vault, notes } = setup();
+    await vault.enable('correct horse');
+    await notes.put({ id: 'a', text: 'my salary' });
+
+    expect(await vault.disable('wrong horse')).toBe(false);
+    expect(await vault.disable('correct horse')).toBe(true);
+    expect(vault.status()).toBe('disabled');
+    expect(await raw().get('a')).toEqual({ id: 'a', text: 'my salary' });
+  });
+
+  it('erases the protected data when the passphrase is forgotten', async () => {
+    const { vault, notes } = setup();
+    await vault.enable('correct horse');
+    await notes.put({ id: 'a', text: 'my salary' });
+    vault.lock();
+
+    await vault.erase();
+    expect(vault.status()).toBe('disabled');
+    expect(await notes.getAll()).toEqual([]);
+  });
+
+  it('rejects records that were tampered with', async () => {
+    const { vault, notes } = setup();
+    await vault.enable('correct horse');
+    await notes.put({ id: 'a', text: 'my salary' });
+
+    const stored = JSON.parse(rawText());
+    const { data } = stored.a.encrypted;
+    stored.a.encrypted.data = `${data[0] === 'A' ? 'B' : 'A'}${data.slice(1)}`;
+    localStorage.setItem('anchor-decisions:notes', JSON.stringify(stored));
+    await expect(notes.get('a')).rejects.toThrow();
+  });
+
+  it('tells subscribers about locking and unlocking and keeps the auto-lock setting', async () => {
+    const { vault } = setup();
+    const listener = jest.fn();
+    const unsubscribe = vault.subscribe(listener);
+
+    await vault.enable('correct horse');
+    vault.setAutoLockMinutes(15);
+    vault.lock();
+    unsubscribe();
+    await vault.unlock('correct horse');
+
+    expect(listener.mock.calls).toEqual([['unlocked'], ['unlocked'], ['locked']]);
+    expect(vault.autoLockMinutes()).toBe(15);
+  });
+});
@@ -0,0 +1,317 @@
+import { RecordStore, StoredRecord } from '../storage/recordStore';
+import { decryptJson, DEFAULT_ITERATIONS, deriveKey, EncryptedPayload, encryptJson, randomSalt } from './crypto';
+
+// How an encrypted record is stored; only the id stays readable, so records can still be looked up and deleted
+export interface EncryptedRecord extends StoredRecord {
+  encrypted: EncryptedPayload;
+}
+
+export type VaultStatus = 'disabled' | 'locked' | 'unlocked';
+
+interface VaultSettings {
+  salt: string;
+  iterations: number;
+  verifier: EncryptedPayload; // A known value, so a wrong passphrase is caught before any record is touched
+  autoLockMinutes: number;
+  pending?: PendingChange; // A passphrase change that hasn't re-encrypted every record yet
+}
+
+// Saved before the first record is re-encrypted, so an interrupted change can be finished with either passphrase
+interface PendingChange {
+  settings: VaultSettings; // What the vault uses once the change is finished
+  next: EncryptedPayload; // The new passphrase, under the old key
+  previous: EncryptedPayload; // The old passphrase, under the new key
+}
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const AUTO_LOCK_CHOICES = [1, 5, 15, 30, 60];
+export const DEFAULT_AUTO_LOCK_MINUTES = 5;
+
+const SETTINGS_KEY = 'anchor-decisions:vault';
+const VERIFIER = 'anchor-decisions';
+
+// Thrown when encrypted data is read or written while no passphrase has been entered
+export class VaultLockedError extends Error {}
+
+const isEncrypted = (record: StoredRecord): record is EncryptedRecord =>
+  typeof (record as EncryptedRecord).encrypted === 'object' && (record as EncryptedRecord).encrypted !== null;
+
+export interface Vault {
+  status: () => VaultStatus;
+  subscribe: (listener: (status: VaultStatus) => void) => () => void;
+  protect: <T extends StoredRecord>(store: RecordStore<StoredRecord>) => RecordStore<T>;
+  enable: (passphrase: string) => Promise<void>; // Encrypts everything already stored
+  unlock: (passphrase: string) => Promise<boolean>; // False for a wrong passphrase; finishes an interrupted change
+  lock: () => void;
+  changePassphrase: (current: string, next: string) => Promise<boolean>; // Re-encrypts everything; false if wrong
+  disable: (passphrase: string) => Promise<boolean>; // Decrypts everything again; false for a wrong passphrase
+  erase: () => Promise<void>; // The way out of a forgotten passphrase: deletes the protected data and the passphrase
+  autoLockMinutes: () => number;
+  setAutoLockMinutes: (minutes: number) => void;
+}
+
+export interface VaultOptions {
+  storage?: Storage;
+  crypto?: Crypto;
+  iterations?: number; // For new passphrases; existing vaults keep the count they were created with
+}
+
+/**
+ * Optional at-rest encryption for the stores passed to `protect`. The AES-GCM
+ * key is derived from the user's passphrase with PBKDF2 and only ever held in
+ * memory, so reloading or locking the app means entering the passphrase again.
+ * Nothing is kept that could recover the data without it.
+ */
+export const createVault = ({
+  storage = localStorage,
+  crypto = typeof window !== 'undefined' ? window.crypto : undefined,
+  iterations = DEFAULT_ITERATIONS,
+}: VaultOptions = {}): Vault => {
+  const stores: RecordStore<StoredRecord>[] = [];
+  const listeners = new Set<(status: VaultStatus) => void>();
+  let key: CryptoKey | null = null;
+  let previousKey: CryptoKey | null = null; // Only while a passphrase change is re-encrypting records
+
+  const webCrypto = (): Crypto => {
+    if (!crypto?.subtle) {
+      throw new Error('Encryption needs a browser with WebCrypto, on https or localhost');
+    }
+    return crypto;
+  };
+
+  const loadSettings = (): VaultSettings | undefined => {
+    const raw = storage.getItem(SETTINGS_KEY);
+    return raw ? JSON.parse(raw) as VaultSettings : undefined;
+  };
+
+  const saveSettings = (settings: VaultSettings) => storage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+
+  const status = (): VaultStatus => {
+    if (!loadSettings()) {
+      return 'disabled';
+    }
+    return key ? 'unlocked' : 'locked';
+  };
+
+  const notify = () => {
+    const current = status();
+    listeners.forEach(listener => listener(current));
+  };
+
+  const sealWith = async (sealKey: CryptoKey | null, record: StoredRecord): Promise<StoredRecord> =>
+    sealKey ? { id: record.id, encrypted: await encryptJson(sealKey, record, webCrypto()) } as EncryptedRecord : record;
+
+  // Plain records pass through, so data stored before encryption was enabled stays readable.
+  // Halfway through a passphrase change a record is under either key; GCM rejects the wrong one.
+  const openWith = async (openKeys: CryptoKey[], record: StoredRecord): Promise<StoredRecord> => {
+    if (!isEncrypted(record)) {
+      return record;
+    }
+    if (openKeys.length === 0) {
+      throw new VaultLockedError('Your data is locked. Enter your passphrase to unlock it.');
+    }
+    const [first, ...rest] = openKeys;
+    return rest.reduce(
+      (opened, openKey) => opened.catch(() => decryptJson<StoredRecord>(openKey, record.encrypted, webCrypto())),
+      decryptJson<StoredRecord>(first, record.encrypted, webCrypto())
+    );
+  };
+
+  const readKeys = (): CryptoKey[] => [key, previousKey].filter((candidate): candidate is CryptoKey => !!candidate);
+
+  const currentSealKey = (): CryptoKey | null => {
+    if (status() === 'locked') {
+      throw new VaultLockedError('Your data is locked. Enter your passphrase to unlock it.');
+    }
+    return key;
+  };
+
+  // Resolves to the passphrase's key, or null if it doesn't open this vault
+  const keyFor = async (passphrase: string, settings: VaultSettings): Promise<CryptoKey | null> => {
+    const candidate = await deriveKey(passphrase, settings.salt, settings.iterations, webCrypto());
+    try {
+      await decryptJson(candidate, settings.verifier, webCrypto());
+      return candidate;
+    } catch {
+      return null;
+    }
+  };
+
+  const newSettings = async (passphrase: string, autoLockMinutes: number) => {
+    const salt = randomSalt(webCrypto());
+    const newKey = await deriveKey(passphrase, salt, iterations, webCrypto());
+    const settings: VaultSettings = {
+      salt,
+      iterations,
+      verifier: await encryptJson(newKey, VERIFIER, webCrypto()),
+      autoLockMinutes,
+    };
+    return { settings, newKey };
+  };
+
+  // Every record is decrypted and re-encrypted in memory before the first write,
+  // so a record that can't be read leaves storage exactly as it was
+  const rewriteAll = async (from: CryptoKey[], to: CryptoKey | null) => {
+    const rewritten = await Promise.all(stores.map(async (store) => {
+      const records = await Promise.all((await store.getAll()).map(record => openWith(from, record)));
+      return { store, records: await Promise.all(records.map(record => sealWith(to, record))) };
+    }));
+    for (const { store, records } of rewritten) {
+      for (const record of records) {
+        await store.put(record);
+      }
+    }
+  };
+
+  // Re-encrypts whatever the old key still holds, then forgets the old passphrase
+  const finishChange = async (pending: PendingChange, oldKey: CryptoKey, newKey: CryptoKey) => {
+    key = newKey;
+    previousKey = oldKey;
+    await rewriteAll([newKey, oldKey], newKey);
+    const autoLockMinutes = loadSettings()?.autoLockMinutes ?? pending.settings.autoLockMinutes;
+    saveSettings({ ...pending.settings, autoLockMinutes });
+    previousKey = null;
+    notify();
+  };
+
+  // Either passphrase reveals the other, so both keys are known and the change can be finished
+  const resumeChange = async (
+    passphrase: string,
+    settings: VaultSettings,
+    pending: PendingChange
+  ): Promise<{ key: CryptoKey; passphrase: string } | null> => {
+    const oldKey = await keyFor(passphrase, settings);
+    const next = oldKey ? await decryptJson<string>(oldKey, pending.next, webCrypto()) : passphrase;
+    const newKey = await keyFor(next, pending.settings);
+    if (!newKey) {
+      return null;
+    }
+    const openedOldKey = oldKey
+      || await keyFor(await decryptJson<string>(newKey, pending.previous, webCrypto()), settings);
+    if (!openedOldKey) {
+      return null;
+    }
+    await finishChange(pending, openedOldKey, newKey);
+    return { key: newKey, passphrase: next };
+  };
+
+  return {
+    status,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    protect: <T extends StoredRecord>(store: RecordStore<StoredRecord>): RecordStore<T> => {
+      stores.push(store);
+      return {
+        getAll: async () => {
+          const records = await store.getAll();
+          return Promise.all(records.map(record => openWith(readKeys(), record) as Promise<T>));
+        },
+        get: async (id) => {
+          const record = await store.get(id);
+          return record && openWith(readKeys(), record) as Promise<T>;
+        },
+        put: async (record) => store.put(await sealWith(currentSealKey(), record)),
+        delete: (id) => store.delete(id),
+        clear: () => store.clear(),
+      };
+    },
+
+    enable: async (passphrase) => {
+      if (loadSettings()) {
+        throw new Error('Encryption is already enabled');
+      }
+      const { settings, newKey } = await newSettings(passphrase, DEFAULT_AUTO_LOCK_MINUTES);
+      // The passphrase is saved first: if encrypting is interrupted, unlocking still reads both kinds of record
+      saveSettings(settings);
+      key = newKey;
+      await rewriteAll([], newKey);
+      notify();
+    },
+
+    unlock: async (passphrase) => {
+      const settings = loadSettings();
+      if (!settings) {
+        return true;
+      }
+      if (settings.pending) {
+        return !!await resumeChange(passphrase, settings, settings.pending);
+      }
+      const unlocked = await keyFor(passphrase, settings);
+      if (!unlocked) {
+        return false;
+      }
+      key = unlocked;
+      notify();
+      return true;
+    },
+
+    lock: () => {
+      key = null;
+      previousKey = null;
+      notify();
+    },
+
+    changePassphrase: async (current, next) => {
+      const stored = loadSettings();
+      if (!stored) {
+        return false;
+      }
+      // An earlier change that failed halfway is finished first
+      const opened = stored.pending
+        ? await resumeChange(current, stored, stored.pending)
+        : await keyFor(current, stored).then(currentKey => currentKey && { key: currentKey, passphrase: current });
+      const settings = loadSettings();
+      if (!opened || !settings) {
+        return false;
+      }
+      const { settings: changed, newKey } = await newSettings(next, settings.autoLockMinutes);
+      const pending: PendingChange = {
+        settings: changed,
+        next: await encryptJson(opened.key, next, webCrypto()),
+        previous: await encryptJson(newKey, opened.passphrase, webCrypto()),
+      };
+      saveSettings({ ...settings, pending });
+      await finishChange(pending, opened.key, newKey);
+      return true;
+    },
+
+    disable: async (passphrase) => {
+      const settings = loadSettings();
+      const currentKey = settings && await keyFor(passphrase, settings);
+      if (!settings || !currentKey) {
+        return false;
+      }
+      await rewriteAll([currentKey], null);
+      storage.removeItem(SETTINGS_KEY);
+      key = null;
+      notify();
+      return true;
+    },
+
+    erase: async () => {
+      await Promise.all(stores.map(store => store.clear()));
+      storage.removeItem(SETTINGS_KEY);
+      key = null;
+      previousKey = null;
+      notify();
+    },
+
+    autoLockMinutes: () => loadSettings()?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES,
+
+    setAutoLockMinutes: (minutes) => {
+      const settings = loadSettings();
+      if (settings) {
+        saveSettings({ ...settings, autoLockMinutes: minutes });
+        notify();
+      }
+    },
+  };
+};
+
+export const vault = createVault();
@@ -0,0 +1,127 @@
+import { Decision } from '../../types/decision';
+import { DecisionReport } from '../../types/export';
+import { analyzeDecision } from '../analysis/analyzeDecision';
+import { EXPORT_VERSION, parseDecisionFile, serializeDecisionFile } from './decisionFile';
+
+const decision: Decision = {
+  question: 'Should I adopt a dog?',
+  balanceScore: 35,
+  timeHorizon: 80,
+  options: ['Adopt now', 'Wait until next year'],
+  values: ['Happiness', 'Family'],
+  initialIntuition: 'I have wanted one for years',
+  confidenceScore: 70,
+  createdAt: new Date('2025-01-02T10:00:00.000Z'),
+};
+
+const report: DecisionReport = {
+  decision,
+  analysis: analyzeDecision(decision),
+  tags: ['Decision', 'Health'],
+  notes: 'Talk to the landlord first',
+  createdAt: '2025-01-02T10:00:00.000Z',
+  checkIns: [{
+    id: 'c1',
+    createdAt: '2025-01-02T10:00:00.000Z',
+    scheduledFor: '2025-02-02T10:00:00.000Z',
+    remind: true,
+    reflection: {
+      followedThrough: 'yes',
+      outcomeSatisfaction: 5,
+      intuitionMatched: 'yes',
+      recordedAt: '2025-02-03T10:00:00.000Z',
+    },
+  }],
+};
+
+describe('decision export files', () => {
+  it('round-trips a report', () => {
+    const text = serializeDecisionFile(report, new Date('2025-06-01T00:00:00.000Z'));
+
+    expect(JSON.parse(text)).toMatchObject({
+      format: 'anchor-decision',
+      version: EXPORT_VERSION,
+      exportedAt: '2025-06-01T00:00:00.000Z',
+    });
+    expect(parseDecisionFile(text)).toEqual(report);
+  });
+
+  it('rejects reflections the insights could not read', () => {
+    const withReflection = (reflection: unknown) => {
+      const file = JSON.parse(serializeDecisionFile(report));
+      file.checkIns[0].reflection = reflection;
+      return JSON.stringify(file);
+    };
+
+    expect(() => parseDecisionFile(withReflection('great'))).toThrow('checkIns[0].reflection must be an object');
+    expect(() => parseDecisionFile(withReflection({
+      followedThrough: 'maybe',
+      outcomeSatisfaction: 9,
+      intuitionMatched: 'yes',
+      recordedAt: 20250203,
+    }))).toThrow(
+      'checkIns[0].reflection.followedThrough must be one of yes, partially or no; ' +
+      'checkIns[0].reflection.outcomeSatisfaction must be a whole number from 1 to 5; ' +
+      'checkIns[0].reflection.recordedAt must be a timestamp'
+    );
+    expect(() => parseDecisionFile(withReflection({ ...report.checkIns![0].reflection, intuitionMatched: 'sort of' })))
+      .toThrow('checkIns[0].reflection.intuitionMatched must be one of yes, partly or no');
+  });
+
+  it('round-trips the revisions and the one marked final', () => {
+    const earlier: Decision = { ...decision, options: ['Adopt now'] };
+    const withRevisions: DecisionReport = {
+      ...report,
+      revisions: [
+        { number: 1, createdAt: '2025-01-01T10:00:00.000Z', decision: earlier, analysis: analyzeDecision(earlier) },
+        { number: 2, createdAt: '2025-01-02T10:00:00.000Z', decision, analysis: report.analysis },
+      ],
+      finalRevision: 1,
+    };
+
+    const parsed = parseDecisionFile(serializeDecisionFile(withRevisions));
+    expect(parsed).toEqual(withRevisions);
+    expect(parsed.revisions?.[0].decision.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('rejects revisions that do not hold a decision and its analysis', () => {
+    const file = (fields: object) => JSON.stringify({ ...JSON.parse(serializeDecisionFile(report)), ...fields });
+
+    expect(() => parseDecisionFile(file({ revisions: [{ number: 1, createdAt: 'soon' }] })))
+      .toThrow('revisions[0] must have a number and a createdAt timestamp');
+    expect(() => parseDecisionFile(file({
+      revisions: [{ number: 1, createdAt: '2025-01-01T10:00:00.000Z', decision, analysis: {} }],
+      finalRevision: 2,
+    }))).toThrow(/revisions\[0\]\.analysis: recommendation must be a string.*finalRevision must be the number of one of the revisions/);
+  });
+
+  it('restores the decision date as a Date', () => {
+    const parsed = parseDecisionFile(serializeDecisionFile(report));
+    expect(parsed.decision.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('rejects text that is not an export', () => {
+    expect(() => parseDecisionFile('not json')).toThrow('not valid JSON');
+    expect(() => parseDecisionFile(JSON.stringify({ question: 'Hi' }))).toThrow('not an exported decision');
+  });
+
+  it('rejects files from a newer version', () => {
+    const newer = { ...JSON.parse(serializeDecisionFile(report)), version: EXPORT_VERSION + 1 };
+    expect(() => parseDecisionFile(JSON.stringify(newer))).toThrow('newer version');
+  });
+
+  it('lists every schema problem', () => {
+    const broken = JSON.parse(serializeDecisionFile(report));
+    delete broken.decision.question;
+    broken.analysis.factors = 'none';
+    broken.tags = 'Health';
+    broken.checkIns = [{ id: 'c1' }];
+
+    expect(() => parseDecisionFile(JSON.stringify(broken))).toThrow(
+      "This file doesn't contain a valid decision: decision: question must be a string; " +
+      'analysis: factors must be an array; ' +
+      'checkIns[0] must have an id, createdAt, scheduledFor and remind; ' +
+      'tags must be an array of strings'
+    );
+  });
+});
@@ -0,0 +1,137 @@
+import { Decision } from '../../types/decision';
+import { DecisionExportFile, DecisionReport } from '../../types/export';
+import { isObject, isStringArray, validateAnalysis } from '../analysis/validateAnalysis';
+import { FOLLOW_THROUGH_CHOICES, INTUITION_CHOICES } from '../checkIns/reflectionChoices';
+import { TranslatedError } from '../i18n/i18n';
+import { validateDecision } from '../decision/validateDecision';
+
+export const EXPORT_FORMAT = 'anchor-decision';
+export const EXPORT_VERSION = 1;
+
+export const serializeDecisionFile = (report: DecisionReport, now: Date = new Date()): string => {
+  const file: DecisionExportFile = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    ...report,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const isTimestamp = (value: unknown) => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+const isChoice = (choices: { value: string }[], value: unknown) => choices.some(choice => choice.value === value);
+
+// Insights sort and score reflections, so each answer must be one the reflection form can give
+const validateReflection = (reflection: unknown, path: string): string[] => {
+  if (!isObject(reflection)) {
+    return [`${path} must be an object`];
+  }
+  const problems: string[] = [];
+  if (!isChoice(FOLLOW_THROUGH_CHOICES, reflection.followedThrough)) {
+    problems.push(`${path}.followedThrough must be one of yes, partially or no`);
+  }
+  const satisfaction = reflection.outcomeSatisfaction;
+  if (!Number.isInteger(satisfaction) || (satisfaction as number) < 1 || (satisfaction as number) > 5) {
+    problems.push(`${path}.outcomeSatisfaction must be a whole number from 1 to 5`);
+  }
+  if (!isChoice(INTUITION_CHOICES, reflection.intuitionMatched)) {
+    problems.push(`${path}.intuitionMatched must be one of yes, partly or no`);
+  }
+  if (reflection.notes !== undefined && typeof reflection.notes !== 'string') {
+    problems.push(`${path}.notes must be a string`);
+  }
+  if (!isTimestamp(reflection.recordedAt)) {
+    problems.push(`${path}.recordedAt must be a timestamp`);
+  }
+  return problems;
+};
+
+const validateCheckIns = (value: unknown): string[] => {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    return ['checkIns must be an array'];
+  }
+  return value.flatMap((checkIn, index) => {
+    if (!isObject(checkIn) || typeof checkIn.id !== 'string' || typeof checkIn.createdAt !== 'string' ||
+      typeof checkIn.scheduledFor !== 'string' || typeof checkIn.remind !== 'boolean') {
+      return [`checkIns[${index}] must have an id, createdAt, scheduledFor and remind`];
+    }
+    return checkIn.reflection === undefined ? [] : validateReflection(checkIn.reflection, `checkIns[${index}].reflection`);
+  });
+};
+
+const validateRevisions = (value: unknown, finalRevision: unknown): string[] => {
+  if (value === undefined) {
+    return finalRevision === undefined ? [] : ['finalRevision needs revisions'];
+  }
+  if (!Array.isArray(value)) {
+    return ['revisions must be an array'];
+  }
+  const problems = value.flatMap((revision, index): string[] => {
+    if (!isObject(revision) || !Number.isInteger(revision.number) || (revision.number as number) < 1 ||
+      !isTimestamp(revision.createdAt)) {
+      return [`revisions[${index}] must have a number and a createdAt timestamp`];
+    }
+    return [
+      ...validateDecision(revision.decision).map(problem => `revisions[${index}].decision: ${problem}`),
+      ...validateAnalysis(revision.analysis).map(problem => `revisions[${index}].analysis: ${problem}`),
+    ];
+  });
+  if (finalRevision !== undefined && !value.some(revision => isObject(revision) && revision.number === finalRevision)) {
+    problems.push('finalRevision must be the number of one of the revisions');
+  }
+  return problems;
+};
+
+// JSON turns dates into strings
+const withDate = (decision: Decision): Decision =>
+  (decision.createdAt ? { ...decision, createdAt: new Date(decision.createdAt) } : decision);
+
+/**
+ * Reads an exported file back. Throws with every problem found if the text is
+ * not an export, comes from a newer version of the app, or doesn't match the
+ * Decision/Analysis schema.
+ */
+export const parseDecisionFile = (text: string): DecisionReport => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new TranslatedError('import.error.notJson');
+  }
+
+  if (!isObject(file) || file.format !== EXPORT_FORMAT) {
+    throw new TranslatedError('import.error.notDecision');
+  }
+  if (typeof file.version !== 'number' || file.version > EXPORT_VERSION) {
+    throw new TranslatedError('import.error.newerVersion');
+  }
+
+  const problems = [
+    ...validateDecision(file.decision).map(problem => `decision: ${problem}`),
+    ...validateAnalysis(file.analysis).map(problem => `analysis: ${problem}`),
+    ...validateCheckIns(file.checkIns),
+    ...validateRevisions(file.revisions, file.finalRevision),
+  ];
+  if (file.tags !== undefined && !isStringArray(file.tags)) {
+    problems.push('tags must be an array of strings');
+  }
+  if (file.notes !== undefined && typeof file.notes !== 'string') {
+    problems.push('notes must be a string');
+  }
+  if (problems.length > 0) {
+    throw new TranslatedError('import.error.invalidDecision', undefined, problems);
+  }
+
+  const { format, version, exportedAt, ...report } = file as unknown as DecisionExportFile;
+  return {
+    ...report,
+    decision: withDate(report.decision),
+    ...(report.revisions
+      ? { revisions: report.revisions.map(revision => ({ ...revision, decision: withDate(revision.decision) })) }
+      : {}),
+  };
+};
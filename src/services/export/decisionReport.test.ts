@@ -0,0 +1,84 @@
+import { Analysis, Decision } from '../../types/decision';
+import { DecisionReport } from '../../types/export';
+import { reportFileName, toHtml, toMarkdown } from './decisionReport';
+
+const decision: Decision = {
+  question: 'Should I take the <startup> job?',
+  balanceScore: 60,
+  timeHorizon: 75,
+  options: ['Take the offer', 'Stay at the bank'],
+  values: ['Career Growth', 'Financial Security'],
+  stakes: 'Salary & pension',
+  initialIntuition: "I'm excited but nervous",
+  confidenceScore: 65,
+  positionCorrections: { 'Stay at the bank': { x: 40, y: 30 } },
+};
+
+const analysis: Analysis = {
+  recommendation: 'Lean towards the offer.\nTake a week to check the numbers.',
+  factors: [{ name: 'Career Growth alignment', score: 82, valueAlignment: 'Career Growth', option: 'Take the offer' }],
+  sentiment: {
+    positive: 0.5,
+    negative: 0.3,
+    neutral: 0.2,
+    tone: '🔥 High Tension Detected',
+    emotions: { anticipation: 0.6, fear: 0.4 },
+    highlights: [{ phrase: 'excited', field: 'intuition', score: 2 }],
+  },
+  detectedBiases: [{
+    biasType: 'Status Quo Bias',
+    description: 'Preferring things as they are.',
+    suggestion: 'Imagine you were starting fresh.',
+    evidence: ['Option B ("Stay at the bank") keeps things as they are.'],
+  }],
+  valueConflicts: ['Career Growth and Financial Security pull in different directions.'],
+  optionPositions: { 'Take the offer': { x: 70, y: 80 }, 'Stay at the bank': { x: 40, y: 30 } },
+};
+
+const report: DecisionReport = { decision, analysis, tags: ['Decision', 'Career'], notes: 'Ask about equity' };
+
+describe('decision reports', () => {
+  it('includes every part of the decision in the Markdown', () => {
+    const markdown = toMarkdown(report);
+
+    expect(markdown).toContain('# Should I take the \\<startup\\> job?');
+    [
+      '- Approach: 40% emotional, 60% logical',
+      '- Confidence: 65%',
+      '- A. Take the offer',
+      '- Career Growth',
+      'Salary & pension',
+      "I'm excited but nervous",
+      'Take a week to check the numbers.',
+      '- A. Take the offer: 70% logical, 80% long-term\n',
+      '- B. Stay at the bank: 40% logical, 30% long-term (placed by you)',
+      '- Career Growth alignment: 82/100 (option: Take the offer, value: Career Growth)',
+      '- Status Quo Bias: Preferring things as they are. Why: Option B ("Stay at the bank") keeps things as they are.',
+      '- Career Growth and Financial Security pull in different directions.',
+      '- Emotions: anticipation 60%, fear 40%',
+      'Ask about equity',
+    ].forEach(line => expect(markdown).toContain(line));
+  });
+
+  it('leaves out sections the decision does not have', () => {
+    const markdown = toMarkdown({ decision: { question: 'Quick one?', balanceScore: 50 }, analysis });
+    expect(markdown).not.toContain('## Options');
+    expect(markdown).not.toContain('## Stakes');
+    expect(markdown).not.toContain('## Notes');
+  });
+
+  it('escapes user text in the HTML and includes print styles', () => {
+    const html = toHtml(report);
+
+    expect(html).toContain('<title>Should I take the &lt;startup&gt; job?</title>');
+    expect(html).toContain('Salary &amp; pension');
+    expect(html).toContain('I&#39;m excited but nervous');
+    expect(html).not.toContain('<startup>');
+    expect(html).toContain('@media print');
+  });
+
+  it('names files after the question', () => {
+    expect(reportFileName(report, 'md')).toBe('should-i-take-the-startup-job.md');
+    expect(reportFileName({ ...report, decision: { ...decision, question: '???' } }, 'json')).toBe('decision.json');
+  });
+});
@@ -0,0 +1,255 @@
+import { Emotion } from '../../types/decision';
+import { DecisionReport } from '../../types/export';
+import { biasName } from '../analysis/biases';
+import { choiceLabel, FOLLOW_THROUGH_CHOICES, INTUITION_CHOICES, SATISFACTION_LABELS } from '../checkIns/reflectionChoices';
+import { optionLetter } from '../decision/options';
+import { createTranslator, DEFAULT_LOCALE, formatDate as formatLocaleDate, Locale, MessageKey } from '../i18n/i18n';
+import { tagLabel } from '../journal/journalTags';
+import { valueLabel } from '../values/valueProfile';
+
+// One block of the report; Markdown and HTML render the same sections
+interface ReportSection {
+  title: string;
+  paragraphs?: string[];
+  items?: string[];
+}
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+const formatDate = (value: Date | string | undefined, locale: Locale) =>
+  value ? formatLocaleDate(value, locale, 'long') : '';
+
+const EMOTION_NAMES: Record<Emotion, MessageKey> = {
+  joy: 'emotion.joy',
+  trust: 'emotion.trust',
+  anticipation: 'emotion.anticipation',
+  fear: 'emotion.fear',
+  sadness: 'emotion.sadness',
+  anger: 'emotion.anger',
+};
+
+const reportDate = ({ createdAt, decision }: DecisionReport) => createdAt || decision.createdAt;
+
+/**
+ * The report as a list of titled sections, skipping anything the decision
+ * doesn't have. Headings and labels are in the locale; the analysis text
+ * stays in the language it was written in.
+ */
+export const reportSections = (report: DecisionReport, locale: Locale = DEFAULT_LOCALE): ReportSection[] => {
+  const t = createTranslator(locale);
+  const { decision, analysis, tags, notes, checkIns } = report;
+  const options = decision.options || [];
+  const sections: ReportSection[] = [];
+
+  const overview = [t('report.approach', { emotional: 100 - decision.balanceScore, logical: decision.balanceScore })];
+  if (decision.timeHorizon !== undefined) {
+    overview.push(t('report.timeHorizon', { timeHorizon: decision.timeHorizon }));
+  }
+  if (decision.confidenceScore !== undefined) {
+    overview.push(t('report.confidence', { confidence: decision.confidenceScore }));
+  }
+  if (tags && tags.length > 0) {
+    overview.push(t('report.tags', { tags: tags.map(tag => tagLabel(tag, t)).join(', ') }));
+  }
+  sections.push({ title: t('report.overview'), items: overview });
+
+  if (options.length > 0) {
+    sections.push({ title: t('report.options'), items: options.map((option, index) => `${optionLetter(index)}. ${option}`) });
+  }
+  if (decision.values && decision.values.length > 0) {
+    sections.push({ title: t('report.values'), items: decision.values.map(value => valueLabel(value, t)) });
+  }
+  if (decision.stakes) {
+    sections.push({ title: t('report.stakes'), paragraphs: [decision.stakes] });
+  }
+  if (decision.initialIntuition) {
+    sections.push({ title: t('report.intuition'), paragraphs: [decision.initialIntuition] });
+  }
+  if (decision.matrix && decision.matrix.criteria.length > 0) {
+    sections.push({
+      title: t('report.criteria'),
+      items: decision.matrix.criteria.map(criterion => t('matrix.factor', { criterion: criterion.name, weight: criterion.weight })),
+    });
+  }
+
+  sections.push({ title: t('report.recommendation'), paragraphs: analysis.recommendation.split(/\n+/) });
+
+  if (analysis.matrixRanking && analysis.matrixRanking.length > 0) {
+    sections.push({
+      title: t('report.matrix'),
+      items: analysis.matrixRanking.map(item => `${item.rank}. ${item.option}: ${t('common.score', { score: item.score })}`),
+    });
+  }
+
+  const positions = Object.entries(analysis.optionPositions || {});
+  if (positions.length > 0) {
+    sections.push({
+      title: t('report.compass'),
+      items: positions.map(([option, { x, y }]) => {
+        const index = options.indexOf(option);
+        return t('report.position', {
+          option: index >= 0 ? `${optionLetter(index)}. ${option}` : option,
+          logical: Math.round(x),
+          longTerm: Math.round(y),
+          placed: decision.positionCorrections?.[option] ? 'yes' : 'no',
+        });
+      }),
+    });
+  }
+
+  sections.push({
+    title: t('report.factors'),
+    items: analysis.factors.map(factor => {
+      const details = [
+        factor.option && t('report.factorOption', { option: factor.option }),
+        factor.valueAlignment && t('report.factorValue', { value: valueLabel(factor.valueAlignment, t) }),
+      ].filter(Boolean);
+      return `${factor.name}: ${t('common.score', { score: factor.score })}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+    }),
+  });
+
+  if (analysis.valueConflicts && analysis.valueConflicts.length > 0) {
+    sections.push({ title: t('report.conflicts'), items: analysis.valueConflicts });
+  }
+  if (analysis.detectedBiases && analysis.detectedBiases.length > 0) {
+    sections.push({
+      title: t('report.biases'),
+      items: analysis.detectedBiases.map(bias => [
+        `${biasName(bias.biasType, t)}: ${bias.description}`,
+        ...(bias.evidence && bias.evidence.length > 0 ? [t('report.biasWhy', { evidence: bias.evidence.join(' ') })] : []),
+        t('report.biasSuggestion', { suggestion: bias.suggestion }),
+      ].join(' ')),
+    });
+  }
+  if (analysis.thirdOption) {
+    sections.push({ title: t('report.alternative'), paragraphs: [analysis.thirdOption] });
+  }
+
+  const { sentiment } = analysis;
+  const sentimentItems = [
+    t('report.sentimentShares', {
+      positive: percent(sentiment.positive),
+      negative: percent(sentiment.negative),
+      neutral: percent(sentiment.neutral),
+    }),
+  ];
+  const emotions = (Object.entries(sentiment.emotions || {}) as [Emotion, number][]).sort(([, a], [, b]) => b - a);
+  if (emotions.length > 0) {
+    sentimentItems.push(t('report.emotions', {
+      emotions: emotions.map(([emotion, share]) => `${t(EMOTION_NAMES[emotion]).toLowerCase()} ${percent(share)}`).join(', '),
+    }));
+  }
+  if (sentiment.highlights && sentiment.highlights.length > 0) {
+    sentimentItems.push(t('report.keyPhrases', {
+      phrases: sentiment.highlights.map(highlight => `"${highlight.phrase}"`).join(', '),
+    }));
+  }
+  sections.push({ title: t('report.sentiment'), paragraphs: sentiment.tone ? [sentiment.tone] : [], items: sentimentItems });
+
+  if (notes) {
+    sections.push({ title: t('report.notes'), paragraphs: [notes] });
+  }
+
+  const reflections = (checkIns || []).filter(checkIn => checkIn.reflection);
+  if (reflections.length > 0) {
+    sections.push({
+      title: t('report.checkIns'),
+      items: reflections.map(({ reflection }) => {
+        const { followedThrough, outcomeSatisfaction, intuitionMatched, notes: reflectionNotes, recordedAt } = reflection!;
+        const outcome = SATISFACTION_LABELS[outcomeSatisfaction];
+        return t('report.checkIn', {
+          date: formatDate(recordedAt, locale),
+          followedThrough: choiceLabel(FOLLOW_THROUGH_CHOICES, followedThrough, t),
+          outcome: outcome ? t(outcome) : outcomeSatisfaction,
+          intuition: choiceLabel(INTUITION_CHOICES, intuitionMatched, t),
+        }) + (reflectionNotes ? `. ${reflectionNotes}` : '');
+      }),
+    });
+  }
+
+  return sections;
+};
+
+// Markdown control characters at the start of a line would change the structure
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]#<>|])/g, '\\$1');
+
+export const toMarkdown = (report: DecisionReport, locale: Locale = DEFAULT_LOCALE): string => {
+  const date = formatDate(reportDate(report), locale);
+  const lines = [`# ${escapeMarkdown(report.decision.question)}`, ''];
+  if (date) {
+    lines.push(`_${date}_`, '');
+  }
+
+  reportSections(report, locale).forEach(({ title, paragraphs = [], items = [] }) => {
+    lines.push(`## ${title}`, '');
+    paragraphs.forEach(paragraph => lines.push(escapeMarkdown(paragraph), ''));
+    if (items.length > 0) {
+      items.forEach(item => lines.push(`- ${escapeMarkdown(item)}`));
+      lines.push('');
+    }
+  });
+
+  return lines.join('\n');
+};
+
+export const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const PRINT_STYLES = `
+  body { font-family: Georgia, 'Times New Roman', serif; color: #222; max-width: 44rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+  h1 { font-size: 1.8rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.15rem; border-bottom: 1px solid #ccc; padding-bottom: 0.2rem; margin-top: 1.5rem; }
+  .date { color: #666; margin-top: 0; }
+  section { break-inside: avoid; }
+  li { margin-bottom: 0.3rem; }
+  @page { margin: 2cm; }
+  @media print { body { margin: 0; max-width: none; } }
+`;
+
+/** A standalone, print-optimised HTML document; everything from the decision is escaped. */
+export const toHtml = (report: DecisionReport, locale: Locale = DEFAULT_LOCALE): string => {
+  const title = escapeHtml(report.decision.question);
+  const date = formatDate(reportDate(report), locale);
+
+  const body = reportSections(report, locale)
+    .map(({ title: sectionTitle, paragraphs = [], items = [] }) => [
+      '<section>',
+      `<h2>${escapeHtml(sectionTitle)}</h2>`,
+      ...paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`),
+      items.length > 0 ? `<ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>` : '',
+      '</section>',
+    ].join('\n'))
+    .join('\n');
+
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${locale}">`,
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${title}</title>`,
+    `<style>${PRINT_STYLES}</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${title}</h1>`,
+    date ? `<p class="date">${escapeHtml(date)}</p>` : '',
+    body,
+    '</body>',
+    '</html>',
+  ].join('\n');
+};
+
+// "Should I take the job?" -> "should-i-take-the-job"
+export const reportFileName = (report: DecisionReport, extension: string): string => {
+  const slug = report.decision.question
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '');
+  return `${slug || 'decision'}.${extension}`;
+};
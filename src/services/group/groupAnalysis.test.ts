@@ -0,0 +1,93 @@
+import { GroupDecision, GroupResponse } from '../../types/group';
+import { analyzeGroup } from './groupAnalysis';
+
+const response = (participant: string, changes: Partial<GroupResponse>): GroupResponse => ({
+  id: participant,
+  participant,
+  balanceScore: 50,
+  timeHorizon: 50,
+  values: [],
+  initialIntuition: '',
+  optionScores: {},
+  submittedAt: '2025-01-01T00:00:00.000Z',
+  ...changes,
+});
+
+const group = (responses: GroupResponse[]): GroupDecision => ({
+  id: 'g1',
+  owner: 'Sam',
+  question: 'Where should we live?',
+  options: ['Move', 'Stay', 'Rent'],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  responses,
+});
+
+const sam = response('Sam', {
+  balanceScore: 20,
+  timeHorizon: 70,
+  values: ['Adventure', 'Family'],
+  optionScores: { Move: 9, Stay: 5, Rent: 6 },
+});
+const alex = response('Alex', {
+  balanceScore: 80,
+  timeHorizon: 60,
+  values: ['Stability', 'family'],
+  optionScores: { Move: 2, Stay: 6, Rent: 6 },
+});
+
+describe('analyzeGroup', () => {
+  it('needs at least one response', () => {
+    expect(analyzeGroup(group([]))).toBeUndefined();
+  });
+
+  it('places every participant and the group average on the compass', () => {
+    const analysis = analyzeGroup(group([sam, alex]))!;
+
+    expect(analysis.points).toEqual({ Sam: { x: 20, y: 70 }, Alex: { x: 80, y: 60 } });
+    expect(analysis.average).toEqual({ x: 50, y: 65 });
+  });
+
+  it('measures agreement on the sliders and each option', () => {
+    const analysis = analyzeGroup(group([sam, alex]))!;
+
+    expect(analysis.balance).toMatchObject({ min: 20, max: 80, lowest: ['Sam'], highest: ['Alex'], agreement: 'disagree' });
+    expect(analysis.timeHorizon.agreement).toBe('agree');
+    expect(analysis.options.map(({ option, mean, agreement }) => ({ option, mean, agreement }))).toEqual([
+      { option: 'Rent', mean: 6, agreement: 'agree' },
+      { option: 'Move', mean: 5.5, agreement: 'disagree' },
+      { option: 'Stay', mean: 5.5, agreement: 'agree' },
+    ]);
+    expect(analysis.agreements).toEqual([
+      'Everyone is close on the time horizon: 65% long-term on average.',
+      'Everyone rates "Rent" about the same: 6/10 on average.',
+      'Everyone rates "Stay" about the same: 5.5/10 on average.',
+      'Everyone holds Family as a value here.',
+    ]);
+    expect(analysis.disagreements).toEqual([
+      'You differ on the approach, from 20% to 80% logical. Sam leans on gut feeling, Alex on analysis.',
+      '"Move" divides the group: Alex scored it 2, Sam 9.',
+    ]);
+  });
+
+  it('counts values across participants regardless of case', () => {
+    expect(analyzeGroup(group([sam, alex]))!.values).toEqual([
+      { value: 'Family', participants: ['Sam', 'Alex'] },
+      { value: 'Adventure', participants: ['Sam'] },
+      { value: 'Stability', participants: ['Alex'] },
+    ]);
+  });
+
+  it('finds value tensions that run between participants', () => {
+    const conflicts = analyzeGroup(group([sam, alex]))!.conflicts;
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].tension.values).toEqual(['Adventure', 'Stability']);
+    expect(conflicts[0].participants).toEqual(['Sam', 'Alex']);
+  });
+
+  it('has nothing to compare with a single participant', () => {
+    const analysis = analyzeGroup(group([sam]))!;
+    expect(analysis.agreements).toEqual([]);
+    expect(analysis.disagreements).toEqual([]);
+  });
+});
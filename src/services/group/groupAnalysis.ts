@@ -0,0 +1,186 @@
+import { OptionPosition, ValueTension } from '../../types/decision';
+import { GroupDecision, GroupResponse } from '../../types/group';
+import { BUILT_IN_TENSIONS } from '../analysis/valueConflicts';
+import { formatList } from '../decision/options';
+import { createTranslator, MessageKey, Translate } from '../i18n/i18n';
+import { valueLabel } from '../values/valueProfile';
+
+export type Agreement = 'agree' | 'mixed' | 'disagree';
+
+// How far apart answers can be and still count as agreement, or already count as disagreement
+const SLIDER_AGREE = 20;
+const SLIDER_DISAGREE = 40;
+const SCORE_AGREE = 2;
+const SCORE_DISAGREE = 5;
+
+export interface Spread {
+  mean: number;
+  min: number;
+  max: number;
+  lowest: string[]; // Participants at the minimum
+  highest: string[]; // Participants at the maximum
+  agreement: Agreement;
+}
+
+export interface OptionConsensus extends Spread {
+  option: string;
+  rated: number; // Participants who scored the option
+}
+
+export interface ValueSupport {
+  value: string;
+  participants: string[];
+}
+
+// Two participants who each hold one side of a value tension
+export interface ParticipantConflict {
+  tension: ValueTension;
+  participants: [string, string]; // participants[0] holds tension.values[0], participants[1] the other
+}
+
+export interface GroupAnalysis {
+  points: Record<string, OptionPosition>; // Participant -> balance and time horizon
+  average: OptionPosition;
+  balance: Spread;
+  timeHorizon: Spread;
+  options: OptionConsensus[]; // Highest average score first
+  values: ValueSupport[]; // Most widely held first
+  conflicts: ParticipantConflict[];
+  agreements: string[];
+  disagreements: string[];
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const holds = (response: GroupResponse, value: string) => response.values.some(held => sameName(held, value));
+
+const spread = (entries: [string, number][], agreeWithin: number, disagreeFrom: number): Spread => {
+  const scores = entries.map(([, score]) => score);
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  const range = max - min;
+  return {
+    mean: round(scores.reduce((sum, score) => sum + score, 0) / scores.length),
+    min,
+    max,
+    lowest: entries.filter(([, score]) => score === min).map(([name]) => name),
+    highest: entries.filter(([, score]) => score === max).map(([name]) => name),
+    agreement: range <= agreeWithin ? 'agree' : range >= disagreeFrom ? 'disagree' : 'mixed',
+  };
+};
+
+const optionConsensus = (group: GroupDecision): OptionConsensus[] =>
+  group.options
+    .map((option) => {
+      const scored = group.responses
+        .filter(response => typeof response.optionScores[option] === 'number')
+        .map((response): [string, number] => [response.participant, response.optionScores[option]]);
+      return scored.length > 0
+        ? { option, rated: scored.length, ...spread(scored, SCORE_AGREE, SCORE_DISAGREE) }
+        : undefined;
+    })
+    .filter((consensus): consensus is OptionConsensus => !!consensus)
+    .sort((a, b) => b.mean - a.mean);
+
+const valueSupport = (responses: GroupResponse[]): ValueSupport[] => {
+  const supporters = new Map<string, ValueSupport>();
+  responses.forEach(response => response.values.forEach((value) => {
+    const key = value.toLowerCase();
+    const support = supporters.get(key) || { value, participants: [] };
+    if (!support.participants.includes(response.participant)) {
+      support.participants.push(response.participant);
+    }
+    supporters.set(key, support);
+  }));
+  return Array.from(supporters.values())
+    .sort((a, b) => b.participants.length - a.participants.length || a.value.localeCompare(b.value));
+};
+
+// Conflicts between people, not within one person: each holds one side of the tension and not the other
+const participantConflicts = (responses: GroupResponse[], tensions: ValueTension[]): ParticipantConflict[] =>
+  tensions.flatMap((tension) => {
+    const [a, b] = tension.values;
+    const sideA = responses.filter(response => holds(response, a) && !holds(response, b));
+    const sideB = responses.filter(response => holds(response, b) && !holds(response, a));
+    return sideA.flatMap(first => sideB.map((second): ParticipantConflict => ({
+      tension,
+      participants: [first.participant, second.participant],
+    })));
+  });
+
+const describeSlider = (spreadOf: Spread, agree: MessageKey, differ: MessageKey, t: Translate): string =>
+  spreadOf.agreement === 'agree'
+    ? t(agree, { mean: Math.round(spreadOf.mean) })
+    : t(differ, {
+      min: spreadOf.min,
+      max: spreadOf.max,
+      lowest: formatList(spreadOf.lowest, t('list.and')),
+      lowestCount: spreadOf.lowest.length,
+      highest: formatList(spreadOf.highest, t('list.and')),
+    });
+
+/**
+ * Combines every participant's response: where the group stands on the
+ * compass, how closely their option scores and values line up, and which
+ * value tensions run between people.
+ */
+export const analyzeGroup = (
+  group: GroupDecision,
+  tensions: ValueTension[] = BUILT_IN_TENSIONS,
+  t: Translate = createTranslator()
+): GroupAnalysis | undefined => {
+  const { responses } = group;
+  if (responses.length === 0) {
+    return undefined;
+  }
+
+  const points = Object.fromEntries(responses.map(response =>
+    [response.participant, { x: response.balanceScore, y: response.timeHorizon }]));
+  const balance = spread(responses.map(response => [response.participant, response.balanceScore]), SLIDER_AGREE, SLIDER_DISAGREE);
+  const timeHorizon = spread(responses.map(response => [response.participant, response.timeHorizon]), SLIDER_AGREE, SLIDER_DISAGREE);
+  const options = optionConsensus(group);
+  const values = valueSupport(responses);
+  const conflicts = participantConflicts(responses, tensions);
+
+  const agreements: string[] = [];
+  const disagreements: string[] = [];
+  if (responses.length > 1) {
+    (balance.agreement === 'agree' ? agreements : disagreements)
+      .push(describeSlider(balance, 'group.approach.agree', 'group.approach.differ', t));
+    (timeHorizon.agreement === 'agree' ? agreements : disagreements)
+      .push(describeSlider(timeHorizon, 'group.horizon.agree', 'group.horizon.differ', t));
+
+    options.filter(consensus => consensus.rated > 1).forEach((consensus) => {
+      if (consensus.agreement === 'agree') {
+        agreements.push(t('group.option.agree', { option: consensus.option, mean: consensus.mean }));
+      } else if (consensus.agreement === 'disagree') {
+        disagreements.push(t('group.option.divides', {
+          option: consensus.option,
+          lowest: formatList(consensus.lowest, t('list.and')),
+          min: consensus.min,
+          highest: formatList(consensus.highest, t('list.and')),
+          max: consensus.max,
+        }));
+      }
+    });
+
+    const shared = values.filter(support => support.participants.length === responses.length).map(support => support.value);
+    if (shared.length > 0) {
+      agreements.push(t('group.sharedValues', { values: formatList(shared.map(value => valueLabel(value, t)), t('list.and')) }));
+    }
+  }
+
+  return {
+    points,
+    average: { x: Math.round(balance.mean), y: Math.round(timeHorizon.mean) },
+    balance,
+    timeHorizon,
+    options,
+    values,
+    conflicts,
+    agreements,
+    disagreements,
+  };
+};
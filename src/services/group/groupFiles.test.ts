@@ -0,0 +1,68 @@
+import { GroupDecision, GroupResponse } from '../../types/group';
+import { groupFileName, invitationFor, parseInvitation, parseResponse, serializeInvitation, serializeResponse } from './groupFiles';
+
+const group: GroupDecision = {
+  id: 'g1',
+  owner: 'Sam',
+  question: 'Where should we live?',
+  options: ['Move', 'Stay'],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  responses: [],
+};
+
+const response: GroupResponse = {
+  id: 'r1',
+  participant: 'Alex',
+  balanceScore: 30,
+  timeHorizon: 80,
+  values: ['Adventure'],
+  initialIntuition: 'Move, definitely',
+  optionScores: { Move: 9, Stay: 2 },
+  submittedAt: '2025-01-02T00:00:00.000Z',
+};
+
+describe('group invitations', () => {
+  it('round-trips the question and options', () => {
+    const text = serializeInvitation(invitationFor(group), new Date('2025-01-01T00:00:00.000Z'));
+
+    expect(JSON.parse(text)).toMatchObject({ format: 'anchor-group-invitation', version: 1 });
+    expect(parseInvitation(text)).toEqual({ groupId: 'g1', owner: 'Sam', question: 'Where should we live?', options: ['Move', 'Stay'] });
+  });
+
+  it('explains what is wrong with other files', () => {
+    expect(() => parseInvitation('not json')).toThrow('not valid JSON');
+    expect(() => parseInvitation(serializeResponse('g1', response))).toThrow('not a group decision invitation');
+    expect(() => parseInvitation(JSON.stringify({ format: 'anchor-group-invitation', version: 99 }))).toThrow('newer version');
+    expect(() => parseInvitation(JSON.stringify({ format: 'anchor-group-invitation', version: 1, groupId: 'g1', options: [] })))
+      .toThrow('owner must be a string; question must be a string; options must be a non-empty array of strings');
+  });
+});
+
+describe('group responses', () => {
+  it('round-trips a response for its group', () => {
+    expect(parseResponse(serializeResponse('g1', response), group)).toEqual(response);
+  });
+
+  it('rejects responses for another group', () => {
+    expect(() => parseResponse(serializeResponse('g2', response), group)).toThrow('different group decision');
+  });
+
+  it('rejects damaged responses', () => {
+    const damaged = JSON.stringify({
+      format: 'anchor-group-response',
+      version: 1,
+      groupId: 'g1',
+      response: { ...response, balanceScore: 'high', optionScores: { Move: 'yes' } },
+    });
+    expect(() => parseResponse(damaged, group))
+      .toThrow('balanceScore must be a number; optionScores must map options to numbers');
+  });
+});
+
+describe('groupFileName', () => {
+  it('names files after the question and, for responses, the participant', () => {
+    expect(groupFileName('Where should we live?', 'invitation')).toBe('where-should-we-live-invitation.json');
+    expect(groupFileName('Where should we live?', 'response', 'Alex')).toBe('where-should-we-live-alex-response.json');
+    expect(groupFileName('???', 'invitation')).toBe('group-decision-invitation.json');
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  GroupDecision,
+  GroupInvitation,
+  GroupInvitationFile,
+  GroupResponse,
+  GroupResponseFile,
+} from '../../types/group';
+import { isNumber, isObject, isStringArray } from '../analysis/validateAnalysis';
+import { MessageKey, TranslatedError } from '../i18n/i18n';
+
+export const INVITATION_FORMAT = 'anchor-group-invitation';
+export const RESPONSE_FORMAT = 'anchor-group-response';
+export const GROUP_FILE_VERSION = 1;
+
+export const invitationFor = ({ id, owner, question, options }: GroupDecision): GroupInvitation => ({
+  groupId: id,
+  owner,
+  question,
+  options,
+});
+
+export const serializeInvitation = (invitation: GroupInvitation, now: Date = new Date()): string => {
+  const file: GroupInvitationFile = {
+    format: INVITATION_FORMAT,
+    version: GROUP_FILE_VERSION,
+    exportedAt: now.toISOString(),
+    ...invitation,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export const serializeResponse = (groupId: string, response: GroupResponse, now: Date = new Date()): string => {
+  const file: GroupResponseFile = {
+    format: RESPONSE_FORMAT,
+    version: GROUP_FILE_VERSION,
+    exportedAt: now.toISOString(),
+    groupId,
+    response,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const slug = (text: string) => text
+  .toLowerCase()
+  .replace(/[^a-z0-9]+/g, '-')
+  .replace(/^-+|-+$/g, '')
+  .slice(0, 60)
+  .replace(/-+$/, '');
+
+// "Where should we live?" from Alex -> "where-should-we-live-alex-response.json"
+export const groupFileName = (question: string, kind: 'invitation' | 'response', participant?: string): string =>
+  [slug(question) || 'group-decision', participant && slug(participant), kind].filter(Boolean).join('-') + '.json';
+
+// Shared checks for both file kinds: JSON, the expected format and a version this app understands
+const readFile = (text: string, format: string, notThisKind: MessageKey): Record<string, unknown> => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new TranslatedError('import.error.notJson');
+  }
+  if (!isObject(file) || file.format !== format) {
+    throw new TranslatedError(notThisKind);
+  }
+  if (typeof file.version !== 'number' || file.version > GROUP_FILE_VERSION) {
+    throw new TranslatedError('import.error.newerVersion');
+  }
+  return file;
+};
+
+export const parseInvitation = (text: string): GroupInvitation => {
+  const file = readFile(text, INVITATION_FORMAT, 'respond.error.notInvitation');
+
+  const problems: string[] = [];
+  (['groupId', 'owner', 'question'] as const).forEach(key => {
+    if (typeof file[key] !== 'string') {
+      problems.push(`${key} must be a string`);
+    }
+  });
+  if (!isStringArray(file.options) || file.options.length === 0) {
+    problems.push('options must be a non-empty array of strings');
+  }
+  if (problems.length > 0) {
+    throw new TranslatedError('respond.error.invitationDamaged', undefined, problems);
+  }
+
+  const { groupId, owner, question, options } = file as unknown as GroupInvitationFile;
+  return { groupId, owner, question, options };
+};
+
+const validateResponse = (value: unknown): string[] => {
+  if (!isObject(value)) {
+    return ['response must be an object'];
+  }
+  const problems: string[] = [];
+  (['id', 'participant', 'initialIntuition', 'submittedAt'] as const).forEach(key => {
+    if (typeof value[key] !== 'string') {
+      problems.push(`${key} must be a string`);
+    }
+  });
+  (['balanceScore', 'timeHorizon'] as const).forEach(key => {
+    if (!isNumber(value[key])) {
+      problems.push(`${key} must be a number`);
+    }
+  });
+  if (!isStringArray(value.values)) {
+    problems.push('values must be an array of strings');
+  }
+  if (!isObject(value.optionScores) || !Object.values(value.optionScores).every(isNumber)) {
+    problems.push('optionScores must map options to numbers');
+  }
+  return problems;
+};
+
+/**
+ * Reads a participant's response file. When the group is given, the response
+ * must belong to it; scores for options the group doesn't have are ignored
+ * when the response is stored.
+ */
+export const parseResponse = (text: string, group?: GroupDecision): GroupResponse => {
+  const file = readFile(text, RESPONSE_FORMAT, 'group.error.notResponse');
+
+  const problems = validateResponse(file.response);
+  if (typeof file.groupId !== 'string') {
+    problems.push('groupId must be a string');
+  }
+  if (problems.length > 0) {
+    throw new TranslatedError('group.error.responseDamaged', undefined, problems);
+  }
+  if (group && file.groupId !== group.id) {
+    throw new TranslatedError('group.error.otherGroup');
+  }
+  return (file as unknown as GroupResponseFile).response;
+};
@@ -0,0 +1,85 @@
+import { GroupDecision, NewGroupResponse } from '../../types/group';
+import { createLocalStorageStore } from '../storage/recordStore';
+import { createGroupStorage } from './groupStorage';
+
+const response = (participant: string, optionScores: Record<string, number> = { Move: 7 }): NewGroupResponse => ({
+  participant,
+  balanceScore: 50,
+  timeHorizon: 60,
+  values: ['Family'],
+  initialIntuition: 'Move',
+  optionScores,
+});
+
+const clock = (...isoTimes: string[]) => {
+  let index = 0;
+  return () => new Date(isoTimes[Math.min(index++, isoTimes.length - 1)]);
+};
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('groupStorage', () => {
+  it('creates a group with cleaned options and no responses', async () => {
+    const groups = createGroupStorage(createLocalStorageStore<GroupDecision>('groups'), clock('2025-01-01T00:00:00.000Z'));
+
+    const group = await groups.createGroup({ owner: ' Sam ', question: 'Where should we live? ', options: ['Move', '', 'Stay', 'Move'] });
+
+    expect(group).toEqual({
+      id: expect.stringMatching(/^[0-9a-f-]{36}$/),
+      owner: 'Sam',
+      question: 'Where should we live?',
+      options: ['Move', 'Stay'],
+      createdAt: '2025-01-01T00:00:00.000Z',
+      responses: [],
+    });
+    expect(await groups.getGroup(group.id)).toEqual(group);
+  });
+
+  it('adds responses and replaces a participant who responds again', async () => {
+    const groups = createGroupStorage(
+      createLocalStorageStore<GroupDecision>('groups'),
+      clock('2025-01-01T00:00:00.000Z', '2025-01-02T00:00:00.000Z')
+    );
+    const group = await groups.createGroup({ owner: 'Sam', question: 'Where should we live?', options: ['Move', 'Stay'] });
+
+    await groups.addResponse(group.id, response('Sam'));
+    const updated = await groups.addResponse(group.id, response('sam ', { Move: 3, Stay: 12, Elsewhere: 5 }));
+
+    expect(updated.responses).toHaveLength(1);
+    expect(updated.responses[0]).toMatchObject({ participant: 'sam', optionScores: { Move: 3, Stay: 10 } });
+    expect(updated.updatedAt).toBe('2025-01-02T00:00:00.000Z');
+  });
+
+  it('imports responses as they were submitted and removes them', async () => {
+    const groups = createGroupStorage(createLocalStorageStore<GroupDecision>('groups'));
+    const group = await groups.createGroup({ owner: 'Sam', question: 'Where should we live?', options: ['Move', 'Stay'] });
+
+    const imported = { ...response('Alex'), id: 'r1', submittedAt: '2024-12-31T00:00:00.000Z' };
+    const withAlex = await groups.importResponse(group.id, imported);
+    expect(withAlex.responses).toEqual([imported]);
+
+    const withoutAlex = await groups.removeResponse(group.id, 'r1');
+    expect(withoutAlex.responses).toEqual([]);
+  });
+
+  it('lists groups newest first and deletes them', async () => {
+    const groups = createGroupStorage(
+      createLocalStorageStore<GroupDecision>('groups'),
+      clock('2025-01-01T00:00:00.000Z', '2025-02-01T00:00:00.000Z')
+    );
+    const older = await groups.createGroup({ owner: 'Sam', question: 'First?', options: ['A'] });
+    const newer = await groups.createGroup({ owner: 'Sam', question: 'Second?', options: ['B'] });
+
+    expect((await groups.listGroups()).map(group => group.id)).toEqual([newer.id, older.id]);
+
+    await groups.deleteGroup(older.id);
+    expect((await groups.listGroups()).map(group => group.id)).toEqual([newer.id]);
+  });
+
+  it('rejects responses to missing groups', async () => {
+    const groups = createGroupStorage(createLocalStorageStore<GroupDecision>('groups'));
+    await expect(groups.addResponse('missing', response('Sam'))).rejects.toThrow('does not exist');
+  });
+});
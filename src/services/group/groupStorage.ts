@@ -0,0 +1,83 @@
+import { GroupDecision, GroupResponse, NewGroupDecision, NewGroupResponse } from '../../types/group';
+import { cleanOptions } from '../decision/options';
+import { generateId } from '../storage/generateId';
+import { createRecordStore, RecordStore } from '../storage/recordStore';
+import { vault } from '../encryption/vault';
+
+export interface GroupStorage {
+  listGroups: () => Promise<GroupDecision[]>; // Newest first
+  getGroup: (id: string) => Promise<GroupDecision | undefined>;
+  createGroup: (group: NewGroupDecision) => Promise<GroupDecision>;
+  addResponse: (groupId: string, response: NewGroupResponse) => Promise<GroupDecision>; // Entered on this device
+  importResponse: (groupId: string, response: GroupResponse) => Promise<GroupDecision>; // From a response file
+  removeResponse: (groupId: string, responseId: string) => Promise<GroupDecision>;
+  deleteGroup: (id: string) => Promise<void>;
+}
+
+const sameParticipant = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Only scores for the group's options count, clamped to the 0-10 scale
+const cleanScores = (scores: Record<string, number>, options: string[]) =>
+  Object.fromEntries(options
+    .filter(option => typeof scores[option] === 'number')
+    .map(option => [option, Math.min(10, Math.max(0, scores[option]))]));
+
+export const createGroupStorage = (
+  store: RecordStore<GroupDecision> = vault.protect<GroupDecision>(createRecordStore('groups')),
+  now: () => Date = () => new Date()
+): GroupStorage => {
+  const update = async (groupId: string, change: (group: GroupDecision) => GroupDecision) => {
+    const existing = await store.get(groupId);
+    if (!existing) {
+      throw new Error(`Group decision ${groupId} does not exist`);
+    }
+    const updated = { ...change(existing), updatedAt: now().toISOString() };
+    await store.put(updated);
+    return updated;
+  };
+
+  // A participant who responds again replaces their earlier response
+  const putResponse = (groupId: string, response: GroupResponse) => update(groupId, group => ({
+    ...group,
+    responses: [
+      ...group.responses.filter(existing => !sameParticipant(existing.participant, response.participant)),
+      { ...response, participant: response.participant.trim(), optionScores: cleanScores(response.optionScores, group.options) },
+    ],
+  }));
+
+  return {
+    listGroups: async () => {
+      const groups = await store.getAll();
+      return groups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    getGroup: (id) => store.get(id),
+
+    createGroup: async ({ owner, question, options }) => {
+      const group: GroupDecision = {
+        id: generateId(),
+        owner: owner.trim(),
+        question: question.trim(),
+        options: cleanOptions(options),
+        createdAt: now().toISOString(),
+        responses: [],
+      };
+      await store.put(group);
+      return group;
+    },
+
+    addResponse: (groupId, response) =>
+      putResponse(groupId, { ...response, id: generateId(), submittedAt: now().toISOString() }),
+
+    importResponse: (groupId, response) => putResponse(groupId, response),
+
+    removeResponse: (groupId, responseId) => update(groupId, group => ({
+      ...group,
+      responses: group.responses.filter(response => response.id !== responseId),
+    })),
+
+    deleteGroup: (id) => store.delete(id),
+  };
+};
+
+export const groupStorage = createGroupStorage();
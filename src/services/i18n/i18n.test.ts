@@ -0,0 +1,102 @@
+import {
+  CATALOGUES,
+  createTranslator,
+  detectLocale,
+  errorMessage,
+  formatDate,
+  loadLocalePreference,
+  Locale,
+  MessageKey,
+  saveLocalePreference,
+  TranslatedError,
+} from './i18n';
+import { en } from './messages/en';
+import { messageArguments, parseMessage } from './messageFormat';
+
+const englishKeys = Object.keys(en).sort();
+const translations = (Object.keys(CATALOGUES) as Locale[]).filter(locale => locale !== 'en');
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('message catalogues', () => {
+  it.each(translations)('%s has exactly the English keys', (locale) => {
+    const keys = Object.keys(CATALOGUES[locale]).sort();
+    expect(englishKeys.filter(key => !keys.includes(key))).toEqual([]);
+    expect(keys.filter(key => !englishKeys.includes(key))).toEqual([]);
+  });
+
+  it.each(translations)('%s uses the same arguments as English in every message', (locale) => {
+    const mismatched = englishKeys.filter((key) => {
+      const english = messageArguments(en[key as MessageKey]).sort();
+      const translated = messageArguments(CATALOGUES[locale][key as MessageKey]).sort();
+      return english.join() !== translated.join();
+    });
+    expect(mismatched).toEqual([]);
+  });
+
+  it.each(Object.keys(CATALOGUES) as Locale[])('%s has no malformed messages', (locale) => {
+    Object.values(CATALOGUES[locale]).forEach((pattern) => {
+      expect(() => parseMessage(pattern)).not.toThrow();
+    });
+  });
+});
+
+describe('createTranslator', () => {
+  it('translates into the chosen locale with plurals', () => {
+    expect(createTranslator('en')('insights.decisions', { count: 1 })).toBe('1 decision');
+    expect(createTranslator('es')('insights.decisions', { count: 3 })).toBe('3 decisiones');
+  });
+
+  it('defaults to English', () => {
+    expect(createTranslator()('nav.journal')).toBe('Journal');
+  });
+
+  it('falls back to the key for unknown messages', () => {
+    expect(createTranslator('es')('missing.key' as MessageKey)).toBe('missing.key');
+  });
+});
+
+describe('errorMessage', () => {
+  it('shows a translated error in the user\'s language and anything else as the fallback', () => {
+    const error = new TranslatedError('import.error.invalidDecision', undefined, ['tags must be an array of strings']);
+    expect(error.message).toBe('This file doesn\'t contain a valid decision: tags must be an array of strings');
+    expect(errorMessage(error, createTranslator('es'), 'journal.error.import'))
+      .toBe('Este archivo no contiene una decisión válida.');
+    expect(errorMessage(new Error('Quota exceeded'), createTranslator('es'), 'journal.error.import'))
+      .toBe('No se ha podido importar este archivo.');
+  });
+});
+
+describe('detectLocale', () => {
+  it('picks the first language the app speaks', () => {
+    expect(detectLocale(['fr-FR', 'es-MX', 'en-US'])).toBe('es');
+  });
+
+  it('falls back to English', () => {
+    expect(detectLocale(['fr-FR'])).toBe('en');
+    expect(detectLocale([])).toBe('en');
+  });
+});
+
+describe('locale preference', () => {
+  it('remembers the chosen locale', () => {
+    expect(loadLocalePreference()).toBeUndefined();
+    saveLocalePreference('es');
+    expect(loadLocalePreference()).toBe('es');
+  });
+
+  it('ignores languages the app no longer speaks', () => {
+    localStorage.setItem('anchor-decisions:locale', 'fr');
+    expect(loadLocalePreference()).toBeUndefined();
+  });
+});
+
+describe('formatDate', () => {
+  it('writes dates the way the locale does', () => {
+    const date = new Date(2025, 2, 4);
+    expect(formatDate(date, 'en', 'long')).toBe('March 4, 2025');
+    expect(formatDate(date, 'es', 'long')).toBe('4 de marzo de 2025');
+  });
+});
@@ -0,0 +1,89 @@
+import { en, MessageKey, Messages } from './messages/en';
+import { es } from './messages/es';
+import { formatMessage, MessageValues } from './messageFormat';
+
+export type { MessageKey, Messages } from './messages/en';
+export type { MessageValues } from './messageFormat';
+
+export type Translate = (key: MessageKey, values?: MessageValues) => string;
+
+// Each language is listed under its own name, so it can be found whatever language is showing
+export const LOCALES = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Español' },
+] as const;
+
+export type Locale = typeof LOCALES[number]['code'];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const CATALOGUES: Record<Locale, Messages> = { en, es };
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(locale => locale.code === value);
+
+/**
+ * Looks messages up in the locale's catalogue, falling back to English and
+ * then to the key itself, so a gap shows up on screen rather than as a crash.
+ */
+export const createTranslator = (locale: Locale = DEFAULT_LOCALE): Translate => (key, values) =>
+  formatMessage(CATALOGUES[locale][key] ?? en[key] ?? key, values, locale);
+
+/**
+ * An error that can be shown in the user's language. Its message, for logs and
+ * developers, is the English text followed by any details.
+ */
+export class TranslatedError extends Error {
+  key: MessageKey;
+  values?: MessageValues;
+
+  constructor(key: MessageKey, values?: MessageValues, details: string[] = []) {
+    const text = createTranslator()(key, values);
+    super(details.length > 0 ? `${text.replace(/\.$/, '')}: ${details.join('; ')}` : text);
+    this.key = key;
+    this.values = values;
+  }
+}
+
+// What to tell the user about an error: its own text if it has one, otherwise the fallback
+export const errorMessage = (err: unknown, t: Translate, fallback: MessageKey): string =>
+  (err instanceof TranslatedError ? t(err.key, err.values) : t(fallback));
+
+// The first browser language the app speaks, e.g. "es-MX" -> "es"
+export const detectLocale = (
+  languages: readonly string[] = typeof navigator !== 'undefined' ? navigator.languages || [navigator.language] : []
+): Locale => {
+  const match = languages.map(language => language?.split('-')[0].toLowerCase()).find(isLocale);
+  return match || DEFAULT_LOCALE;
+};
+
+const LOCALE_PREFERENCE_KEY = 'anchor-decisions:locale';
+
+// The user's own choice of language, remembered on this device
+export const loadLocalePreference = (storage: Storage = localStorage): Locale | undefined => {
+  try {
+    const stored = storage.getItem(LOCALE_PREFERENCE_KEY);
+    return isLocale(stored) ? stored : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const saveLocalePreference = (locale: Locale, storage: Storage = localStorage) => {
+  try {
+    storage.setItem(LOCALE_PREFERENCE_KEY, locale);
+  } catch {
+    // Not being able to remember the language only means detecting it again next time
+  }
+};
+
+export type DateStyle = 'date' | 'dateTime' | 'long';
+
+const DATE_FORMATS: Record<DateStyle, Intl.DateTimeFormatOptions> = {
+  date: { year: 'numeric', month: 'short', day: 'numeric' },
+  dateTime: { year: 'numeric', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' },
+  long: { year: 'numeric', month: 'long', day: 'numeric' },
+};
+
+// Dates as the locale writes them, e.g. "Mar 4, 2025" or "4 mar 2025"
+export const formatDate = (value: string | Date, locale: Locale = DEFAULT_LOCALE, style: DateStyle = 'date'): string =>
+  new Intl.DateTimeFormat(locale, DATE_FORMATS[style]).format(new Date(value));
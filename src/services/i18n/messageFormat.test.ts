@@ -0,0 +1,49 @@
+import { formatMessage, messageArguments, parseMessage } from './messageFormat';
+
+describe('formatMessage', () => {
+  it('fills in named arguments and leaves apostrophes alone', () => {
+    expect(formatMessage("Don't forget {name}'s {thing}.", { name: 'Sam', thing: 'keys' })).toBe("Don't forget Sam's keys.");
+  });
+
+  it('formats numbers for the locale', () => {
+    expect(formatMessage('{score}/100', { score: 72.5 }, 'en')).toBe('72.5/100');
+    expect(formatMessage('{score}/100', { score: 72.5 }, 'es')).toBe('72,5/100');
+  });
+
+  it('picks plural branches by exact value first, then by the locale rules', () => {
+    const pattern = '{count, plural, =0 {No responses} one {# response} other {# responses}}';
+    expect(formatMessage(pattern, { count: 0 })).toBe('No responses');
+    expect(formatMessage(pattern, { count: 1 })).toBe('1 response');
+    expect(formatMessage(pattern, { count: 1200 })).toBe('1,200 responses');
+  });
+
+  it('picks select branches and falls back to other', () => {
+    const pattern = '{side, select, logical {Mostly logical} other {Mostly emotional}}';
+    expect(formatMessage(pattern, { side: 'logical' })).toBe('Mostly logical');
+    expect(formatMessage(pattern, { side: 'unknown' })).toBe('Mostly emotional');
+  });
+
+  it('nests arguments and plurals inside branches', () => {
+    const pattern = '{kind, select, group {{count, plural, one {# person} other {# people}} in {name}} other {Just you}}';
+    expect(formatMessage(pattern, { kind: 'group', count: 3, name: 'Team' })).toBe('3 people in Team');
+  });
+
+  it('leaves missing arguments visible', () => {
+    expect(formatMessage('Hello {name}')).toBe('Hello {name}');
+  });
+});
+
+describe('parseMessage', () => {
+  it('rejects malformed patterns', () => {
+    expect(() => parseMessage('Hello {name')).toThrow('expected ","');
+    expect(() => parseMessage('Hello name}')).toThrow('unexpected "}"');
+    expect(() => parseMessage('{n, plural, one {#}}')).toThrow('needs an "other" branch');
+    expect(() => parseMessage('{n, number}')).toThrow('unknown argument type "number"');
+  });
+});
+
+describe('messageArguments', () => {
+  it('lists every argument, including those inside branches', () => {
+    expect(messageArguments('{count, plural, one {# of {total}} other {# of {total} by {name}}}')).toEqual(['count', 'name', 'total']);
+  });
+});
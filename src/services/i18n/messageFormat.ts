@@ -0,0 +1,176 @@
+export type MessageValues = Record<string, string | number>;
+
+// A parsed message: literal text, plain arguments, and plural or select branches
+type MessagePart =
+  | string
+  | { type: 'argument'; name: string }
+  | { type: 'pound' } // "#" inside a plural branch: the number being pluralised
+  | { type: 'plural'; name: string; branches: Record<string, MessagePart[]> }
+  | { type: 'select'; name: string; branches: Record<string, MessagePart[]> };
+
+const parseError = (pattern: string, problem: string) =>
+  new Error(`Invalid message "${pattern}": ${problem}`);
+
+/**
+ * Parses the subset of ICU MessageFormat the catalogues use: `{name}`,
+ * `{count, plural, =0 {…} one {…} other {…}}` with `#` for the number, and
+ * `{kind, select, a {…} other {…}}`. Apostrophes are plain text, so
+ * "don't" needs no escaping; literal braces are not supported.
+ */
+export const parseMessage = (pattern: string): MessagePart[] => {
+  let position = 0;
+
+  const skipSpace = () => {
+    while (/\s/.test(pattern.charAt(position))) {
+      position++;
+    }
+  };
+
+  const readName = (): string => {
+    skipSpace();
+    const match = /^[^\s,{}]+/.exec(pattern.slice(position));
+    if (!match) {
+      throw parseError(pattern, `expected a name at ${position}`);
+    }
+    position += match[0].length;
+    skipSpace();
+    return match[0];
+  };
+
+  const expect = (char: string) => {
+    if (pattern.charAt(position) !== char) {
+      throw parseError(pattern, `expected "${char}" at ${position}`);
+    }
+    position++;
+  };
+
+  const parseBranches = (name: string, type: 'plural' | 'select', inPlural: boolean): MessagePart => {
+    const branches: Record<string, MessagePart[]> = {};
+    skipSpace();
+    while (pattern.charAt(position) !== '}') {
+      const selector = readName();
+      expect('{');
+      branches[selector] = parseParts(inPlural || type === 'plural');
+      expect('}');
+      skipSpace();
+    }
+    if (!branches.other) {
+      throw parseError(pattern, `"${name}" needs an "other" branch`);
+    }
+    return { type, name, branches };
+  };
+
+  const parseArgument = (inPlural: boolean): MessagePart => {
+    const name = readName();
+    if (pattern.charAt(position) === '}') {
+      return { type: 'argument', name };
+    }
+    expect(',');
+    const type = readName();
+    if (type !== 'plural' && type !== 'select') {
+      throw parseError(pattern, `unknown argument type "${type}"`);
+    }
+    expect(',');
+    return parseBranches(name, type, inPlural);
+  };
+
+  // Reads until the closing brace of the enclosing branch, or the end of the pattern
+  const parseParts = (inPlural: boolean): MessagePart[] => {
+    const parts: MessagePart[] = [];
+    let text = '';
+    const flush = () => {
+      if (text) {
+        parts.push(text);
+        text = '';
+      }
+    };
+
+    while (position < pattern.length) {
+      const char = pattern.charAt(position);
+      if (char === '}') {
+        break;
+      }
+      if (char === '{') {
+        flush();
+        position++;
+        parts.push(parseArgument(inPlural));
+        expect('}');
+      } else if (char === '#' && inPlural) {
+        flush();
+        parts.push({ type: 'pound' });
+        position++;
+      } else {
+        text += char;
+        position++;
+      }
+    }
+    flush();
+    return parts;
+  };
+
+  const parts = parseParts(false);
+  if (position < pattern.length) {
+    throw parseError(pattern, `unexpected "}" at ${position}`);
+  }
+  return parts;
+};
+
+// Argument names a message expects, so catalogues can be checked against each other
+export const messageArguments = (pattern: string): string[] => {
+  const names = new Set<string>();
+  const collect = (parts: MessagePart[]) => parts.forEach((part) => {
+    if (typeof part === 'string' || part.type === 'pound') {
+      return;
+    }
+    names.add(part.name);
+    if (part.type !== 'argument') {
+      Object.values(part.branches).forEach(collect);
+    }
+  });
+  collect(parseMessage(pattern));
+  return Array.from(names).sort();
+};
+
+const parsed = new Map<string, MessagePart[]>();
+
+/**
+ * Fills in a message pattern. Numbers are formatted for the locale, plural
+ * branches are chosen by exact match (`=2`) first and the locale's plural
+ * rules second, and missing arguments are left as `{name}` so they stand out.
+ */
+export const formatMessage = (pattern: string, values: MessageValues = {}, locale = 'en'): string => {
+  let parts = parsed.get(pattern);
+  if (!parts) {
+    parts = parseMessage(pattern);
+    parsed.set(pattern, parts);
+  }
+
+  const formatValue = (value: string | number) =>
+    typeof value === 'number' ? new Intl.NumberFormat(locale).format(value) : value;
+
+  const render = (items: MessagePart[], count?: number): string => items.map((part) => {
+    if (typeof part === 'string') {
+      return part;
+    }
+    if (part.type === 'pound') {
+      return count === undefined ? '#' : formatValue(count);
+    }
+    const value = values[part.name];
+    if (value === undefined) {
+      return `{${part.name}}`;
+    }
+    if (part.type === 'argument') {
+      return formatValue(value);
+    }
+    if (part.type === 'select') {
+      return render(part.branches[String(value)] || part.branches.other, count);
+    }
+    const number = Number(value);
+    const branch = part.branches[`=${number}`] ||
+      part.branches[new Intl.PluralRules(locale).select(number)] ||
+      part.branches.other;
+    return render(branch, number);
+  }).join('');
+
+  return render(parts);
+};
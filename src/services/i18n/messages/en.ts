@@ -0,0 +1,774 @@
+/**
+ * The English catalogue is the reference: every other catalogue must have
+ * exactly these keys and the same arguments in each message. Messages use
+ * ICU syntax, e.g. `{count, plural, one {# option} other {# options}}`.
+ */
+export const en = {
+  // Lists and shared words
+  'list.and': 'and',
+  'list.versus': 'vs',
+  'common.none': '(none)',
+  'common.cancel': 'Cancel',
+  'common.delete': 'Delete',
+  'common.close': 'Close',
+  'common.back': 'Back',
+  'common.remove': 'Remove',
+  'common.score': '{score}/100',
+  'common.percent': '{percent}%',
+
+  // Built-in values, tags and biases, shown by their stored English names
+  'value.family': 'Family',
+  'value.health': 'Health',
+  'value.financialSecurity': 'Financial Security',
+  'value.careerGrowth': 'Career Growth',
+  'value.happiness': 'Happiness',
+  'value.freedom': 'Freedom',
+  'value.stability': 'Stability',
+  'value.adventure': 'Adventure',
+  'value.learning': 'Learning',
+  'value.relationships': 'Relationships',
+  'value.community': 'Community',
+  'value.spirituality': 'Spirituality',
+  'value.creativity': 'Creativity',
+  'value.achievement': 'Achievement',
+  'value.balance': 'Balance',
+
+  'tag.decision': 'Decision',
+  'tag.career': 'Career',
+  'tag.relationships': 'Relationships',
+  'tag.finance': 'Finance',
+  'tag.health': 'Health',
+
+  'bias.lossAversion.name': 'Loss Aversion',
+  'bias.lossAversion.description': 'The tendency to prefer avoiding losses over acquiring equivalent gains.',
+  'bias.lossAversion.suggestion': 'Try to evaluate potential gains with the same weight as potential losses.',
+  'bias.lossAversion.evidence': 'Your description dwells on what you could lose ({phrases}) more than on what you could gain.',
+  'bias.confirmation.name': 'Confirmation Bias',
+  'bias.confirmation.description': 'The tendency to search for or interpret information in a way that confirms one\'s preconceptions.',
+  'bias.confirmation.suggestion': 'Actively seek out information that challenges your initial assumptions.',
+  'bias.confirmation.evidence': 'Your intuition mentions only reasons for option {letter} ("{option}"), none for the others.',
+  'bias.confirmation.certainty': 'It sounds settled already ({phrases}).',
+  'bias.recency.name': 'Recency Bias',
+  'bias.recency.description': 'The tendency to weigh recent events more heavily than earlier events.',
+  'bias.recency.suggestion': 'Consider the full history and pattern of outcomes, not just recent experiences.',
+  'bias.recency.evidence': 'Your description leans on recent events ({phrases}).',
+  'bias.recency.shortTerm': 'Your time horizon is short-term ({timeHorizon}/100), which gives recent events even more weight.',
+  'bias.statusQuo.name': 'Status Quo Bias',
+  'bias.statusQuo.description': 'The preference for the current state of affairs, leading to resistance to change.',
+  'bias.statusQuo.suggestion': 'Evaluate the status quo option as critically as you would any new option.',
+  'bias.statusQuo.evidence': 'Option {letter} ("{option}") keeps things as they are.',
+  'bias.statusQuo.leaning': 'Your intuition leans towards it.',
+  'bias.statusQuo.unease': 'Your intuition voices unease about change ({phrases}).',
+  'bias.emotionalReasoning.name': 'Emotional Reasoning',
+  'bias.emotionalReasoning.description': 'Making decisions based on how you feel rather than objective evidence.',
+  'bias.emotionalReasoning.suggestion': 'Acknowledge your emotions, but also look for concrete facts to support your decision.',
+  'bias.emotionalReasoning.approach': 'You describe your approach as {percent}% emotional.',
+  'bias.emotionalReasoning.evidence': 'Your intuition rests on feelings ({phrases}) rather than facts.',
+  'bias.sunkCost.name': 'Sunk Cost Fallacy',
+  'bias.sunkCost.description': 'Continuing with something because of what you have already invested, rather than what it will bring from now on.',
+  'bias.sunkCost.suggestion': 'Imagine you were starting fresh today: would you still choose this, knowing what it will cost from here?',
+  'bias.sunkCost.evidence': 'You point to what has already been invested ({phrases}), which can\'t be recovered either way.',
+  'bias.anchoring.name': 'Anchoring',
+  'bias.anchoring.description': 'Relying too heavily on the first number or reference point you came across.',
+  'bias.anchoring.suggestion': 'Set the figure aside and work out what the option is worth to you from scratch.',
+  'bias.anchoring.evidence': 'You compare against a reference point ({phrases}).',
+  'bias.anchoring.figures': 'The decision revolves around specific figures ({phrases}).',
+  'bias.planningFallacy.name': 'Planning Fallacy',
+  'bias.planningFallacy.description': 'Underestimating how long something will take or how much it will cost, even when past experience says otherwise.',
+  'bias.planningFallacy.suggestion': 'Think of how long similar plans actually took you or others, and add a buffer.',
+  'bias.planningFallacy.evidence': 'You expect things to go smoothly or fast ({phrases}).',
+
+  'tension.adventureStability': 'New experiences usually mean giving up some predictability.',
+  'tension.careerFamily': 'Time and energy invested in work are not available at home.',
+  'tension.freedomFinancial': 'Independence often comes with a less certain income.',
+  'tension.freedomStability': 'Keeping options open makes it harder to settle.',
+  'tension.adventureFinancial': 'Bold moves tend to cost money or put income at risk.',
+  'tension.careerBalance': 'Stepping up at work often eats into the rest of life.',
+  'tension.achievementHealth': 'Pushing hard for a goal can take a toll on rest and wellbeing.',
+  'tension.freedomRelationships': 'Commitments to others limit how freely you can choose.',
+  'tension.learningFinancial': 'Study costs money and often time that could be earning.',
+
+  // The generated analysis
+  'analysis.logical.approach': 'Your approach to "{question}" is primarily logical ({percent}% logical).',
+  'analysis.logical.value': 'While your logical analysis is sound, consider how this decision aligns with your value of {value}.',
+  'analysis.logical.options': 'Between {options}, which option better serves your emotional well-being in the long run?',
+  'analysis.logical.noOptions': 'Remember that even the most logical decisions should account for emotional impact.',
+  'analysis.emotional.approach': 'Your approach to "{question}" is primarily emotional ({percent}% emotional).',
+  'analysis.emotional.stakes': 'Given what\'s at stake ({stakes}), it may be helpful to balance your emotional intuition with some logical analysis.',
+  'analysis.emotional.options': 'Try creating a pros and cons list for {options} to ensure you\'re not overlooking important practical factors.',
+  'analysis.emotional.noOptions': 'Consider writing down the practical pros and cons to complement your emotional intuition.',
+  'analysis.ranking.single': 'Your decision matrix scores "{option}" at {score}/100.',
+  'analysis.ranking.tied': 'Your decision matrix can\'t separate {options}: they all score {score}/100. Revisit the weights of the criteria that matter most to you.',
+  'analysis.ranking.lead': 'Your decision matrix ranks "{winner}" first with {score}/100, {margin} of {points, plural, one {# point} other {# points}} over "{runnerUp}".',
+  'analysis.intuition': 'Your initial intuition was: "{intuition}".',
+  'analysis.horizon.long': 'You\'re focusing on long-term outcomes, which is often beneficial for major life decisions.',
+  'analysis.horizon.short': 'You\'re focusing more on short-term outcomes. Consider if this aligns with the importance of this decision.',
+  'analysis.corrections': 'You moved {options} on the compass. With your placements, "{closest}" sits closest to your own approach.',
+  'analysis.thirdOption': 'Have you considered a hybrid approach? Perhaps you could {first} for a trial period before fully committing to {second}.',
+  'analysis.factor.valueAlignment': '{value} alignment',
+  'analysis.factor.financial': 'Financial impact',
+  'analysis.factor.emotional': 'Emotional well-being',
+  'analysis.factor.longTerm': 'Long-term consequences',
+  'analysis.factor.stakes': 'Impact on {stakes}',
+  'analysis.factor.fit': '{option}: fit with your approach',
+
+  'sentiment.tone': '{tone, select, tension {🔥 High Tension Detected} growth {🌱 Growth-Oriented Language} worried {🌧️ Worried or Discouraged Language} positive {🌤️ Mostly Neutral with Slight Positivity} uneasy {🌥️ Mostly Neutral with Slight Unease} other {⚪ Neutral, Matter-of-Fact Language}}',
+
+  'matrix.factor': '{criterion} (weight {weight})',
+  'matrix.margin.close': 'a very close call',
+  'matrix.margin.modest': 'a modest lead',
+  'matrix.margin.clear': 'a clear lead',
+
+  'revision.input.question': 'Question',
+  'revision.input.approach': 'Approach',
+  'revision.input.timeHorizon': 'Time horizon',
+  'revision.input.options': 'Options',
+  'revision.input.stakes': 'Stakes',
+  'revision.input.values': 'Values',
+  'revision.input.intuition': 'Initial intuition',
+  'revision.input.matrix': 'Decision matrix',
+  'revision.input.placements': 'Compass placements',
+  'revision.logical': '{percent}% logical',
+  'revision.longTerm': '{percent}% long-term',
+  'revision.skipped': '(skipped)',
+  'revision.earlierScores': 'Earlier scores',
+  'revision.rescored': 'Rescored',
+
+  'group.approach.agree': 'Everyone is close on the approach: {mean}% logical on average.',
+  'group.approach.differ': 'You differ on the approach, from {min}% to {max}% logical. {lowest} {lowestCount, plural, one {leans} other {lean}} on gut feeling, {highest} on analysis.',
+  'group.horizon.agree': 'Everyone is close on the time horizon: {mean}% long-term on average.',
+  'group.horizon.differ': 'You differ on the time horizon, from {min}% to {max}% long-term. {lowest} {lowestCount, plural, one {leans} other {lean}} towards the short term, {highest} towards the long term.',
+  'group.option.agree': 'Everyone rates "{option}" about the same: {mean}/10 on average.',
+  'group.option.divides': '"{option}" divides the group: {lowest} scored it {min}, {highest} {max}.',
+  'group.sharedValues': 'Everyone holds {values} as a value here.',
+
+  'checkIn.delay.tomorrow': 'Tomorrow',
+  'checkIn.delay.3days': 'In 3 days',
+  'checkIn.delay.1week': 'In 1 week',
+  'checkIn.delay.2weeks': 'In 2 weeks',
+  'checkIn.delay.1month': 'In 1 month',
+  'checkIn.delay.3months': 'In 3 months',
+
+  'band.emotional': 'Mostly emotional (0-39)',
+  'band.balanced': 'Balanced (40-60)',
+  'band.logical': 'Mostly logical (61-100)',
+  'band.shortTerm': 'Short-term (0-39)',
+  'band.mediumTerm': 'Medium-term (40-60)',
+  'band.longTerm': 'Long-term (61-100)',
+
+  'reflection.followThrough.yes': 'Yes',
+  'reflection.followThrough.partially': 'Partially',
+  'reflection.followThrough.no': 'No',
+  'reflection.intuition.yes': 'Yes, my gut was right',
+  'reflection.intuition.partly': 'Partly',
+  'reflection.intuition.no': 'No, it turned out differently',
+  'reflection.satisfaction.1': 'Very unhappy',
+  'reflection.satisfaction.2': 'Unhappy',
+  'reflection.satisfaction.3': 'Mixed',
+  'reflection.satisfaction.4': 'Happy',
+  'reflection.satisfaction.5': 'Very happy',
+
+  'emotion.joy': 'Joy',
+  'emotion.trust': 'Trust',
+  'emotion.anticipation': 'Anticipation',
+  'emotion.fear': 'Fear',
+  'emotion.sadness': 'Sadness',
+  'emotion.anger': 'Anger',
+
+  // Exported reports
+  'report.overview': 'Overview',
+  'report.approach': 'Approach: {emotional}% emotional, {logical}% logical',
+  'report.timeHorizon': 'Time horizon: {timeHorizon}/100 (0 = short-term, 100 = long-term)',
+  'report.confidence': 'Confidence: {confidence}%',
+  'report.tags': 'Tags: {tags}',
+  'report.options': 'Options',
+  'report.values': 'Values',
+  'report.stakes': 'Stakes',
+  'report.intuition': 'Initial Intuition',
+  'report.criteria': 'Decision Criteria',
+  'report.recommendation': 'Recommendation',
+  'report.matrix': 'Decision Matrix',
+  'report.compass': 'Decision Compass',
+  'report.position': '{option}: {logical}% logical, {longTerm}% long-term{placed, select, yes { (placed by you)} other {}}',
+  'report.factors': 'Key Factors',
+  'report.factorOption': 'option: {option}',
+  'report.factorValue': 'value: {value}',
+  'report.conflicts': 'Value Conflicts',
+  'report.biases': 'Potential Cognitive Biases',
+  'report.biasWhy': 'Why: {evidence}',
+  'report.biasSuggestion': 'Suggestion: {suggestion}',
+  'report.alternative': 'Alternative Approach',
+  'report.sentiment': 'Sentiment',
+  'report.sentimentShares': 'Positive {positive}, negative {negative}, neutral {neutral}',
+  'report.emotions': 'Emotions: {emotions}',
+  'report.keyPhrases': 'Key phrases: {phrases}',
+  'report.notes': 'Notes',
+  'report.checkIns': 'Check-ins',
+  'report.checkIn': '{date}: followed through: {followedThrough}; outcome: {outcome}; intuition: {intuition}',
+
+  'notification.checkIn': 'Time to reflect on a decision',
+  'notification.checkInPrivate': 'Open the app to see which decision is due for a check-in.',
+
+  'safety.title.crisis': 'We\'re here to help',
+  'safety.title.concerning': 'Are you okay?',
+  'safety.title.informational': 'Worth a second opinion',
+  'safety.message.crisis': 'It sounds like you may be going through something really painful. You don\'t have to face it alone. Please reach out to a crisis line or someone you trust right now. If you are in immediate danger, call your local emergency number.',
+  'safety.message.concerning': 'Some of what you wrote suggests a difficult or unsafe situation. Talking it through with a professional, a support line or a trusted person can help before you decide.',
+  'safety.message.informational': 'This decision touches on legal, financial or health risks. It may be worth getting professional advice alongside this analysis.',
+  'safety.region': 'Where are you?',
+  'safety.otherCountries': 'Other countries',
+  'safety.continue': 'Continue',
+  'safety.understand': 'I understand',
+
+  'support.region.US': 'United States',
+  'support.region.CA': 'Canada',
+  'support.region.GB': 'United Kingdom',
+  'support.region.IE': 'Ireland',
+  'support.region.AU': 'Australia',
+  'support.region.DE': 'Germany',
+  'support.region.ES': 'Spain',
+  'support.callOrText988': 'Call or text 988, 24/7.',
+  'support.domesticViolence': 'Support for anyone affected by abuse.',
+  'support.samaritans': 'Call 116 123 for free, 24/7.',
+  'support.shout': 'Text SHOUT to 85258.',
+  'support.lifelineAustralia': 'Call 13 11 14, 24/7.',
+  'support.telefonSeelsorge': 'Free and available around the clock.',
+  'support.telefonoEsperanza': 'Call 717 003 717, 24 hours a day. If you are thinking about suicide, you can also call 024.',
+  'support.findAHelpline': 'Free, confidential helplines in over 130 countries.',
+
+  'conflict.tension': '{a} and {b} may be in tension for this decision.',
+  'conflict.bothSides': '{favoursA} favours {a}, while {favoursB} favours {b}.',
+  'conflict.oneSide': '{favouring} favours {winner}; none of your options clearly protects {loser}.',
+  'conflict.neither': 'None of your options clearly favours one over the other, so ask which one you would regret neglecting.',
+  'conflict.ranking': 'You rank {higher} above {lower}.',
+
+  // The decision wizard
+  'wizard.step.question': 'Question',
+  'wizard.step.intuition': 'Intuition',
+  'wizard.step.context': 'Context',
+  'wizard.step.matrix': 'Matrix',
+  'wizard.step.analysis': 'Analysis',
+  'wizard.error.question': 'Please enter a decision question',
+  'wizard.error.intuition': 'Please share your initial intuition',
+  'wizard.error.options': 'Please enter at least one option you are considering',
+
+  'dashboard.title': 'What are you deciding?',
+  'dashboard.share': 'Share as a link',
+  'dashboard.draftName': 'Draft name',
+  'dashboard.untitledDraft': 'Untitled decision',
+  'dashboard.savedAsYouGo': 'Saved as you go',
+  'dashboard.savedOnceTyping': 'Saved once you start typing',
+  'dashboard.discardDraft': 'Discard Draft',
+  'dashboard.otherDrafts': 'Other Drafts ({count})',
+  'dashboard.question': 'Your Decision Question',
+  'dashboard.questionPlaceholder': 'e.g., Should I accept the new job offer?',
+  'dashboard.approach': 'How are you approaching this decision?',
+  'dashboard.approachHelp': '0 = Fully emotional (gut feeling, intuition, emotions), 100 = Fully logical (facts, analysis, pros/cons)',
+  'dashboard.emotional': 'Emotional',
+  'dashboard.logical': 'Logical',
+  'dashboard.timeHorizon': 'What\'s your time horizon for this decision?',
+  'dashboard.timeHorizonHelp': '0 = Short-term focus (immediate outcomes), 100 = Long-term focus (future impact)',
+  'dashboard.shortTerm': 'Short-term',
+  'dashboard.longTerm': 'Long-term',
+  'dashboard.continue': 'Continue',
+  'dashboard.intuitionTitle': 'What\'s your gut telling you right now?',
+  'dashboard.intuitionHelp': 'Capture your raw first instinct about this decision. Later, you can compare this with your final choice.',
+  'dashboard.intuition': 'Your Initial Intuition',
+  'dashboard.intuitionPlaceholder': 'e.g., I feel like I should take the job, but I\'m nervous about the change',
+  'dashboard.contextTitle': 'Let\'s add some context to your decision',
+  'dashboard.contextHelp': 'Adding more details will help us provide a more insightful analysis',
+  'dashboard.options': 'What options are you considering?',
+  'dashboard.option': 'Option {letter}',
+  'dashboard.optionPlaceholder.first': 'e.g., Accept the job offer',
+  'dashboard.optionPlaceholder.second': 'e.g., Stay at current job',
+  'dashboard.optionPlaceholder.third': 'e.g., Negotiate a remote role',
+  'dashboard.optionPlaceholder.other': 'e.g., Another alternative',
+  'dashboard.moveUp': 'Move up',
+  'dashboard.moveDown': 'Move down',
+  'dashboard.moveOptionUp': 'Move option {letter} up',
+  'dashboard.moveOptionDown': 'Move option {letter} down',
+  'dashboard.removeOption': 'Remove option {letter}',
+  'dashboard.addOption': 'Add Option',
+  'dashboard.stakes': 'What\'s at stake in this decision?',
+  'dashboard.stakesLabel': 'What matters most in this decision',
+  'dashboard.stakesPlaceholder': 'e.g., My career growth and financial stability',
+  'dashboard.values': 'Which of your personal values are relevant to this decision?',
+  'dashboard.selectValues': 'Select up to {max} values',
+  'dashboard.rankedValue': '#{priority} {value}',
+  'dashboard.editValues': 'Edit your value ranking',
+  'dashboard.rankValues': 'Rank your personal values',
+  'dashboard.matrixTitle': 'Score your options',
+  'dashboard.matrixHelp': 'Weigh what matters to you, then score each option from 0 (poor) to 10 (excellent) on every criterion. The weighted totals feed into your analysis.',
+  'dashboard.skipMatrix': 'Skip Matrix',
+  'dashboard.analyze': 'Analyze Decision',
+  'dashboard.analysisTitle': 'Decision Analysis',
+  'dashboard.finalRevisionNote': 'You marked revision {number} as final, so your journal entry and exports use it rather than the analysis above.',
+  'dashboard.confidence': 'How confident are you in acting on this decision?',
+  'dashboard.notConfident': 'Not confident',
+  'dashboard.veryConfident': 'Very confident',
+  'dashboard.confidenceLevel': 'Your confidence level: {confidence}%',
+  'dashboard.journalTitle': 'Decision Journal',
+  'dashboard.journalHelp': 'Save this decision as a journal entry to track your decision-making patterns over time.',
+  'dashboard.savedToJournal': 'Saved to Journal',
+  'dashboard.saveJournalEntry': 'Save as Journal Entry',
+  'dashboard.viewInJournal': 'View in Journal',
+  'dashboard.timeCapsuleTitle': 'Decision Time Capsule',
+  'dashboard.timeCapsuleHelp': 'Schedule a follow-up to reflect on how you feel about your choice.',
+  'dashboard.checkInScheduledFor': 'We\'ll check in with you on {date}.',
+  'dashboard.checkInScheduled': 'Check-in Scheduled',
+  'dashboard.scheduleCheckIn': 'Schedule a Check-in',
+  'dashboard.exportTitle': 'Export Report',
+  'dashboard.exportHelp': 'Download this decision and its analysis, or print it to share or keep on paper.',
+  'dashboard.backTo': 'Back to {step}',
+  'dashboard.startNew': 'Start New Decision',
+  'dashboard.drafts.resumeTitle': 'Resume your unfinished decision?',
+  'dashboard.drafts.title': 'Your drafts',
+  'dashboard.drafts.resumeDescription': 'You have decisions you started but did not finish. Pick one up where you left off, or start a new one.',
+  'dashboard.drafts.description': 'Switch to another unfinished decision. Your current one stays saved as a draft.',
+  'dashboard.drafts.startFresh': 'Start Fresh',
+  'dashboard.discard.title': 'Discard this draft?',
+  'dashboard.discard.description': 'Everything you have entered for this decision will be cleared. This cannot be undone.',
+  'dashboard.discard.keep': 'Keep Draft',
+  'dashboard.discard.confirm': 'Discard',
+  'dashboard.checkIn.title': 'Schedule a Decision Check-in',
+  'dashboard.checkIn.when': 'When would you like to revisit this decision to reflect on how you feel about it?',
+  'dashboard.checkIn.delay': 'Check in',
+  'dashboard.checkIn.explanation': 'We\'ll save your decision details and analysis to your journal. When the check-in is due, you\'ll be asked to reflect on:',
+  'dashboard.checkIn.followThrough': 'Did you follow through with your decision?',
+  'dashboard.checkIn.outcome': 'How do you feel about the outcome?',
+  'dashboard.checkIn.intuition': 'Did your initial intuition match the reality?',
+  'dashboard.checkIn.remind': 'Also remind me with a browser notification when I next open Anchor',
+  'dashboard.checkIn.notNow': 'Not now',
+  'dashboard.checkIn.schedule': 'Schedule Check-in',
+  'dashboard.journal.description': 'Your decision will be saved to your journal for future reference.',
+  'dashboard.journal.summary': 'Decision Summary',
+  'dashboard.journal.tags': 'Tags',
+  'dashboard.journal.notes': 'Additional Notes',
+  'dashboard.journal.notesPlaceholder': 'Add any additional thoughts or context about this decision...',
+  'dashboard.journal.save': 'Save to Journal',
+  'dashboard.error.sharedLink': 'This shared link could not be opened.',
+  'dashboard.error.compass': 'The analysis could not be updated with your compass placement. Please try again.',
+  'dashboard.error.analysis': 'An error occurred while analyzing your decision. Please try again.',
+  'dashboard.error.deleteDraft': 'That draft could not be deleted. Please try again.',
+  'dashboard.error.discardDraft': 'Your draft could not be discarded. Please try again.',
+  'dashboard.error.finalRevision': 'Your journal entry could not be updated with the final revision. Please try again.',
+  'dashboard.error.saveJournal': 'Your journal entry could not be saved. Please try again.',
+  'dashboard.error.scheduleCheckIn': 'Your check-in could not be scheduled. Please try again.',
+
+  // Analysis results
+  'analysisView.matrix': 'Decision Matrix',
+  'analysisView.factors': 'Key Factors',
+  'analysisView.factorOption': 'Option: {option}',
+  'analysisView.factorValue': 'Aligns with your value: {value}',
+  'analysisView.conflicts': 'Value Conflicts',
+  'analysisView.biases': 'Potential Cognitive Biases',
+  'analysisView.suggestion': 'Suggestion:',
+  'analysisView.hideDetails': 'Hide Details',
+  'analysisView.learnMore': 'Learn About This Bias',
+  'analysisView.alternative': 'Alternative Approach',
+  'analysisView.explore': 'Explore This Option',
+  'analysisView.sentiment': 'Sentiment Analysis',
+  'analysisView.positive': 'Positive: {percent}%',
+  'analysisView.negative': 'Negative: {percent}%',
+  'analysisView.neutral': 'Neutral: {percent}%',
+  'analysisView.emotions': 'Emotions in your words:',
+  'analysisView.highlights': 'Words that shaped this:',
+  'analysisView.highlightFrom': 'From your {field}',
+  'analysisView.field.question': 'question',
+  'analysisView.field.intuition': 'initial intuition',
+  'analysisView.field.options': 'options',
+  'analysisView.field.stakes': 'stakes',
+
+  'summary.question': 'Question:',
+  'summary.approach': 'Approach:',
+  'summary.logical': 'Primarily Logical',
+  'summary.emotional': 'Primarily Emotional',
+  'summary.timeHorizon': 'Time Horizon:',
+  'summary.longTerm': 'Long-term Focus',
+  'summary.shortTerm': 'Short-term Focus',
+  'summary.intuition': 'Initial Intuition:',
+  'summary.confidence': 'Confidence Level:',
+  'summary.option': 'Option {letter}:',
+  'summary.stakes': 'Stakes:',
+  'summary.values': 'Values:',
+  'summary.criteria': 'Matrix Criteria:',
+
+  'matrixEditor.criterion': 'Criterion',
+  'matrixEditor.weight': 'Weight',
+  'matrixEditor.weight.minor': 'Minor',
+  'matrixEditor.weight.important': 'Important',
+  'matrixEditor.weight.critical': 'Critical',
+  'matrixEditor.criterionPlaceholder': 'e.g., Commute time',
+  'matrixEditor.criterionName': 'Criterion name',
+  'matrixEditor.unnamed': 'criterion',
+  'matrixEditor.weightOf': 'Weight of {criterion}',
+  'matrixEditor.scoreOf': 'Score of option {letter} for {criterion}',
+  'matrixEditor.removeCriterion': 'Remove criterion',
+  'matrixEditor.removeCriterionNamed': 'Remove criterion {criterion}',
+  'matrixEditor.addCriterion': 'Add Criterion',
+  'matrixEditor.ranking': 'Current ranking',
+
+  'compass.title': 'Decision Compass',
+  'compass.help': 'Drag an option to where you think it belongs, or focus it and use the arrow keys. The analysis updates to match.',
+  'compass.label': 'Decision compass: {markers, select, participant {participants} other {options}} plotted from emotional to logical and from short-term to long-term',
+  'compass.axis.balance': 'Emotional · Logical',
+  'compass.axis.horizon': 'Short-term · Long-term',
+  'compass.quadrant.gutFuture': 'Gut / Future',
+  'compass.quadrant.headFuture': 'Head / Future',
+  'compass.quadrant.gutNow': 'Gut / Now',
+  'compass.quadrant.headNow': 'Head / Now',
+  'compass.you': 'You',
+  'compass.yourApproach': 'your own approach',
+  'compass.reference': '{name}: {logical}% logical, {longTerm}% long-term',
+  'compass.referenceKey': '{name} - {description} ({logical}% logical, {longTerm}% long-term)',
+  'compass.marker': '{markers, select, participant {Participant} other {Option}} {letter}: {option}, {logical}% logical, {longTerm}% long-term{placed, select, yes {, placed by you} other {}}',
+  'compass.position': '{side, select, logical {More logical} other {More emotional}}, {focus, select, long {long-term focused} other {short-term focused}}',
+  'compass.placedByYou': '(placed by you)',
+  'compass.reset': 'Reset Compass Positions',
+
+  // Group decisions
+  'groupResults.agreement.agree': 'agreed',
+  'groupResults.agreement.mixed': 'mixed views',
+  'groupResults.agreement.disagree': 'disputed',
+  'groupResults.group': 'Group',
+  'groupResults.groupApproach': 'the group\'s average approach',
+  'groupResults.optionScores': 'Option Scores',
+  'groupResults.optionScoresHelp': 'The group\'s average score for each option, best first, with the range of individual scores.',
+  'groupResults.score': '{score}/10',
+  'groupResults.needsSecond': 'Agreement and disagreement show up once a second person has responded.',
+  'groupResults.agree': 'Where You Agree',
+  'groupResults.agreeEmpty': 'No clear common ground yet.',
+  'groupResults.differ': 'Where You Differ',
+  'groupResults.differEmpty': 'No major disagreements.',
+  'groupResults.values': 'Values',
+  'groupResults.noValues': 'Nobody has picked a value yet.',
+  'groupResults.conflicts': 'Value Conflicts Between You',
+  'groupResults.conflict': '{first} values {firstValue} while {second} values {secondValue}.',
+  'groupResults.intuitions': 'Initial Intuitions',
+
+  'drafts.delete': 'Delete draft',
+  'drafts.deleteNamed': 'Delete draft {name}',
+  'drafts.details': '{step} step · edited {date}',
+
+  'export.button': 'Export',
+  'export.json': 'Can be imported again',
+  'export.print': 'Print / Save as PDF',
+  'export.error.blocked': 'The print view was blocked. Allow pop-ups for this site and try again.',
+  'export.error.failed': 'This decision could not be exported. Please try again.',
+  'import.error.notJson': 'This file is not valid JSON.',
+  'import.error.newerVersion': 'This file was exported by a newer version of the app.',
+  'import.error.notDecision': 'This file is not an exported decision.',
+  'import.error.invalidDecision': 'This file doesn\'t contain a valid decision.',
+
+  'share.title': 'Share this decision',
+  'share.description': 'The whole decision is stored in the link itself. Nothing is uploaded, so anyone with the link can read it. Only share it with people you trust.',
+  'share.viewOnly': 'View only',
+  'share.editable': 'Open in the wizard so they can work on a copy',
+  'share.includeIntuition': 'Include my initial intuition',
+  'share.link': 'Link',
+  'share.longLink': 'This link is long. Some apps cut off long links, so check that it opens before relying on it.',
+  'share.copied': 'Copied!',
+  'share.copy': 'Copy Link',
+  'share.error.copy': 'The link could not be copied. Select it and copy it yourself.',
+
+  'shared.notice': 'Someone shared this decision with you. It is read-only and stays in this link; nothing is saved unless you open a copy in the wizard.',
+  'shared.openCopy': 'Open a Copy in the Wizard',
+  'shared.error.empty': 'This link does not contain a shared decision.',
+  'shared.error.open': 'This link could not be opened.',
+  'shared.error.damaged': 'This link is damaged or incomplete.',
+  'shared.error.newerVersion': 'This link was made by a newer version of the app.',
+  'shared.error.invalid': 'This link doesn\'t contain a valid decision.',
+
+  // Navigation
+  'nav.decide': 'Decide',
+  'nav.journal': 'Journal',
+  'nav.insights': 'Insights',
+  'nav.groups': 'Groups',
+  'nav.calibration': 'Calibration',
+  'nav.values': 'Values',
+  'nav.security': 'Privacy',
+  'nav.lock': 'Lock',
+  'nav.language': 'Language',
+
+  'revisions.title': 'Revisions',
+  'revisions.help': 'Every time the decision is analysed, the inputs and the analysis are kept as a revision.',
+  'revisions.markHelp': 'Mark the one you are settling on as final.',
+  'revisions.revision': 'Revision {number}',
+  'revisions.latest': 'Latest',
+  'revisions.final': 'Final',
+  'revisions.markFinal': 'Mark as Final',
+  'revisions.unmarkFinal': 'Unmark Final',
+  'revisions.compare': 'Compare Revisions',
+  'revisions.from': 'From',
+  'revisions.to': 'To',
+  'revisions.same': 'These revisions have the same inputs and the same analysis.',
+  'revisions.inputs': 'What You Changed',
+  'revisions.input': 'Input',
+  'revisions.recommendation': 'Recommendation',
+  'revisions.unchanged': 'Unchanged.',
+  'revisions.topRanked': 'Top of the matrix: {before} → {after}',
+  'revisions.factors': 'Factors',
+  'revisions.factor': 'Factor',
+  'revisions.biases': 'Potential Biases',
+  'revisions.positions': 'Compass Positions',
+  'revisions.option': 'Option',
+  'revisions.position': '{logical}% logical, {longTerm}% long-term',
+
+  // Check-ins and reflections
+  'dueCheckIns.reflect': 'Reflect now',
+  'dueCheckIns.due': '{count, plural, one {A decision check-in is due:} other {# decision check-ins are due. Next up:}}',
+
+  // The journal
+  'journal.title': 'Decision Journal',
+  'journal.import': 'Import',
+  'journal.search': 'Search questions, options and notes',
+  'journal.tags': 'Tags',
+  'journal.values': 'Values',
+  'journal.from': 'From',
+  'journal.to': 'To',
+  'journal.approach': 'Approach',
+  'journal.sortBy': 'Sort by',
+  'journal.sort.newest': 'Newest first',
+  'journal.sort.oldest': 'Oldest first',
+  'journal.sort.mostConfident': 'Most confident first',
+  'journal.sort.leastConfident': 'Least confident first',
+  'journal.clearFilters': 'Clear filters',
+  'journal.empty': 'Your journal is empty. Decisions you save after an analysis will appear here.',
+  'journal.noMatches': 'No journal entries match these filters.',
+  'journal.confident': '{confidence}% confident',
+  'journal.error.load': 'Your journal could not be loaded.',
+  'journal.error.import': 'This file could not be imported.',
+
+  'entry.back': 'Back to Journal',
+  'entry.missing': 'This journal entry doesn\'t exist. It may have been deleted.',
+  'entry.saved': 'Saved {date}',
+  'entry.edited': 'Edited {date}',
+  'entry.checkIns': 'Check-ins',
+  'entry.followedThrough': 'Followed through:',
+  'entry.outcome': 'Outcome:',
+  'entry.intuitionMatched': 'Intuition matched reality:',
+  'entry.reflect': 'Reflect Now',
+  'entry.upcoming': 'Upcoming',
+  'entry.notes': 'Your Notes',
+  'entry.savedChanges': 'Your changes have been saved.',
+  'entry.delete': 'Delete Entry',
+  'entry.save': 'Save Changes',
+  'entry.deleteTitle': 'Delete this journal entry?',
+  'entry.deleteDescription': 'The decision, its analysis and your notes will be permanently removed.',
+  'entry.error.load': 'This journal entry could not be loaded.',
+  'entry.error.save': 'Your changes could not be saved. Please try again.',
+  'entry.error.finalRevision': 'The final revision could not be saved. Please try again.',
+  'entry.error.delete': 'This journal entry could not be deleted. Please try again.',
+
+  'reflect.title': 'Decision Check-in',
+  'reflect.missing': 'This check-in doesn\'t exist. The decision may have been deleted.',
+  'reflect.alreadyDone': 'You already reflected on this decision on {date}.',
+  'reflect.viewEntry': 'View Journal Entry',
+  'reflect.madeOn': 'You made this decision on {date}. Take a moment to look back.',
+  'reflect.intuitionWas': 'Your initial intuition was: "{intuition}"',
+  'reflect.learned': 'What did you learn?',
+  'reflect.later': 'Later',
+  'reflect.save': 'Save Reflection',
+  'reflect.error.load': 'This check-in could not be loaded.',
+  'reflect.error.incomplete': 'Please answer all three questions',
+  'reflect.error.save': 'Your reflection could not be saved. Please try again.',
+
+  // Calibration and insights
+  'calibration.title': 'Confidence Calibration',
+  'calibration.help': 'Compares how confident you were when deciding with how things turned out at your check-ins. A decision counts as having turned out well when you rated the outcome 4 or 5 stars.',
+  'calibration.empty': 'No outcomes yet. Schedule a check-in when you save a decision, then reflect on it when it\'s due.',
+  'calibration.summary.count': 'Decisions with outcomes',
+  'calibration.summary.confidence': 'Average confidence',
+  'calibration.summary.brier': 'Brier score (0 is perfect)',
+  'calibration.verdict.insufficient': 'Reflect on at least {min} decisions to see whether you tend to be over- or under-confident.',
+  'calibration.verdict.over': 'You tend to be over-confident: your decisions turn out well less often than your confidence suggests. Consider pausing longer or seeking a second opinion when you feel sure.',
+  'calibration.verdict.under': 'You tend to be under-confident: your decisions turn out well more often than you expect. You can probably trust your judgement a little more.',
+  'calibration.verdict.well': 'You are well calibrated: your confidence closely matches how often your decisions turn out well.',
+  'calibration.reliability': 'Reliability',
+  'calibration.reliabilityHelp': 'Each circle groups decisions by confidence. Circles below the dashed line mean over-confidence; above it, under-confidence. Bigger circles hold more decisions.',
+  'calibration.overTime': 'Brier Score Over Time',
+  'calibration.overTimeHelp': 'Running score across your reflections; a falling line means your confidence is getting more accurate.',
+  'calibration.overTimeLabel': 'Brier score over time',
+  'calibration.byApproach': 'By Approach',
+  'calibration.byTimeHorizon': 'By Time Horizon',
+  'calibration.table.group': 'Group',
+  'calibration.table.decisions': 'Decisions',
+  'calibration.table.confidence': 'Avg. confidence',
+  'calibration.table.success': 'Turned out well',
+  'calibration.table.brier': 'Brier score',
+
+  'reliability.label': 'Reliability diagram of confidence against actual success rate',
+  'reliability.bucket': '{from}-{to}% confident: {success}% turned out well ({count, plural, one {# decision} other {# decisions}})',
+  'reliability.confidence': 'Your confidence',
+
+  'insights.title': 'Decision Patterns',
+  'insights.help': 'Patterns across every decision in your journal. Select a bar or a point to see the decisions behind it.',
+  'insights.empty': 'No decisions yet. Patterns appear here once you save decisions to your journal.',
+  'insights.decisions': '{count, plural, one {# decision} other {# decisions}}',
+  'insights.intuitionMatched': 'Intuition matched reality',
+  'insights.approachOverTime': 'Approach Over Time',
+  'insights.approachOverTimeHelp': '0 is fully emotional, 100 fully logical. Each point is a decision, oldest first.',
+  'insights.approachOverTimeLabel': 'Approach over time',
+  'insights.approach': 'Approach Distribution',
+  'insights.approachHelp': 'How your decisions split between gut-led and analysis-led.',
+  'insights.timeHorizonOverTime': 'Time Horizon Over Time',
+  'insights.timeHorizonOverTimeHelp': '0 is short-term, 100 long-term. Each point is a decision, oldest first.',
+  'insights.timeHorizonOverTimeLabel': 'Time horizon over time',
+  'insights.timeHorizon': 'Time Horizon Distribution',
+  'insights.timeHorizonHelp': 'How far ahead you tend to look.',
+  'insights.values': 'Most Frequent Values',
+  'insights.valuesHelp': 'The values you pick most often when deciding.',
+  'insights.valuesEmpty': 'None of your decisions name a value yet.',
+  'insights.biases': 'Most Frequently Detected Biases',
+  'insights.biasesHelp': 'The thinking traps the analysis spots most often in your decisions.',
+  'insights.biasesEmpty': 'No biases have been detected in your decisions.',
+  'insights.confidence': 'Average Confidence by Tag',
+  'insights.confidenceHelp': 'How sure you were, on average, when acting on decisions with each tag.',
+  'insights.confidenceEmpty': 'None of your decisions have a confidence rating yet.',
+  'insights.intuition': 'Intuition vs Reality',
+  'insights.intuitionHelp': 'For each decision with a scored matrix: did the option your initial intuition pointed to come out on top in the revision you settled on?',
+  'insights.intuitionEmpty': 'Nothing to compare yet. Score your options in the matrix and name one in your intuition to see how often your gut picks your final choice.',
+
+  // The value profile
+  'values.title': 'Your Values',
+  'values.help': 'Rank what matters most to you. Your top {max} values are pre-selected for every new decision, and higher-ranked values weigh more in the analysis. Drag values to reorder them.',
+  'values.empty': 'Your profile is empty. Add values below to start ranking them.',
+  'values.moveUp': 'Move {value} up',
+  'values.moveDown': 'Move {value} down',
+  'values.remove': 'Remove {value}',
+  'values.preselected': 'Pre-selected for new decisions',
+  'values.addOwn': 'Add a value of your own',
+  'values.custom': 'Custom value',
+  'values.customPlaceholder': 'e.g., Independence',
+  'values.add': 'Add',
+  'values.common': 'Or pick from common values',
+  'values.tensions': 'Value Tensions',
+  'values.tensionsHelp': 'When a decision involves both values of a pair, the analysis points out the conflict and which options favour which side. Add pairs that pull against each other in your own life.',
+  'values.firstValue': 'First value',
+  'values.secondValue': 'Second value',
+  'values.tensionReason': 'Why do they conflict? (optional)',
+  'values.error.load': 'Your value profile could not be loaded.',
+  'values.error.save': 'Your value profile could not be saved. Please try again.',
+  'values.error.duplicate': '"{value}" is already in your profile',
+  'values.error.addTension': 'That tension could not be saved. Pick two different values and try again.',
+  'values.error.removeTension': 'That tension could not be removed. Please try again.',
+
+  'groups.title': 'Group Decisions',
+  'groups.respond': 'Respond to an Invitation',
+  'groups.help': 'Decide together with a partner or a small team. You set the question and options; everyone then gives their own view, on this device or by sending a response file.',
+  'groups.responses': '{count, plural, one {# response} other {# responses}}',
+  'groups.start': 'Start a Group Decision',
+  'groups.owner': 'Your Name',
+  'groups.question': 'What is the group deciding?',
+  'groups.questionPlaceholder': 'e.g., Where should we go on holiday this year?',
+  'groups.create': 'Create Group Decision',
+  'groups.error.load': 'Your group decisions could not be loaded.',
+  'groups.error.question': 'Please enter your name and the question the group is deciding',
+  'groups.error.options': 'Please enter at least two options for the group to compare',
+  'groups.error.create': 'The group decision could not be created. Please try again.',
+
+  'group.back': 'Back to Group Decisions',
+  'group.missing': 'This group decision doesn\'t exist. It may have been deleted.',
+  'group.startedBy': 'Started by {owner} on {date}',
+  'group.participants': 'Participants',
+  'group.noResponses': 'Nobody has responded yet. Add responses on this device, or send the invitation file to people elsewhere and import the response files they send back.',
+  'group.removeResponse': 'Remove response',
+  'group.removeResponseOf': 'Remove {participant}\'s response',
+  'group.responded': 'Responded {date}',
+  'group.addResponse': 'Add a Response Here',
+  'group.downloadInvitation': 'Download Invitation',
+  'group.importResponse': 'Import Response',
+  'group.yourResponse': 'Your Response',
+  'group.passDevice': 'Pass the device to each participant in turn. Responding again under the same name replaces the earlier response.',
+  'group.saveResponse': 'Save Response',
+  'group.analysis': 'Group Analysis',
+  'group.delete': 'Delete Group Decision',
+  'group.deleteTitle': 'Delete this group decision?',
+  'group.deleteDescription': 'The question, the options and every participant\'s response will be permanently removed.',
+  'group.error.load': 'This group decision could not be loaded.',
+  'group.error.import': 'This response could not be imported.',
+  'group.error.remove': 'This response could not be removed. Please try again.',
+  'group.error.delete': 'This group decision could not be deleted. Please try again.',
+  'group.error.notResponse': 'This file is not a group decision response.',
+  'group.error.responseDamaged': 'This response is damaged.',
+  'group.error.otherGroup': 'This response belongs to a different group decision.',
+
+  'respond.title': 'Respond to a Group Decision',
+  'respond.help': 'Open the invitation file you were sent. Your answers stay on this device until you send the response file back.',
+  'respond.open': 'Open Invitation',
+  'respond.askedBy': 'Asked by {owner}',
+  'respond.downloaded': 'Your response has been downloaded. Send the file to {owner} so they can import it into the group decision.',
+  'respond.downloadAgain': 'Download Again',
+  'respond.submit': 'Download My Response',
+  'respond.error.open': 'This invitation could not be opened.',
+  'respond.error.notInvitation': 'This file is not a group decision invitation.',
+  'respond.error.invitationDamaged': 'This invitation is damaged.',
+
+  'responseForm.values': 'Your most relevant values (up to {max})',
+  'responseForm.scores': 'How good is each option, from 0 (poor) to 10 (excellent)?',
+  'responseForm.scoreFor': 'Score for {option}',
+  'responseForm.error.name': 'Please enter your name',
+  'responseForm.error.save': 'Your response could not be saved. Please try again.',
+
+
+  // Offline use and installing
+  'pwa.offline': 'You\'re offline. Everything keeps working: your decisions, drafts and journal are stored on this device.',
+  'pwa.offlineReady': 'Anchor is ready to work offline.',
+  'pwa.updateAvailable': 'A new version of Anchor is available. Reloading keeps your drafts.',
+  'pwa.reload': 'Reload',
+  'pwa.later': 'Later',
+  'pwa.install': 'Install',
+  'pwa.installTitle': 'Install Anchor',
+  'pwa.installSteps': 'In Safari, tap the Share button and choose "Add to Home Screen". Anchor then opens from your home screen like any other app and works without a connection.',
+
+  'lock.title': 'Anchor is locked',
+  'lock.intro': 'Your decisions, drafts and journal are encrypted on this device. Enter your passphrase to open them.',
+  'lock.passphrase': 'Passphrase',
+  'lock.unlock': 'Unlock',
+  'lock.wrongPassphrase': 'That passphrase doesn\'t match. Check for typos and try again.',
+  'lock.error': 'Anchor couldn\'t be unlocked. Please try again.',
+  'lock.forgotten': 'Forgot your passphrase? It can\'t be reset or recovered, so your encrypted data can\'t be opened without it. You can erase it and start afresh.',
+  'lock.erase': 'Erase Encrypted Data',
+  'lock.eraseTitle': 'Erase all your encrypted data?',
+  'lock.eraseBody': 'Your journal, check-ins, drafts and group decisions on this device will be deleted for good, and encryption turned off. This cannot be undone.',
+  'security.title': 'Privacy & Encryption',
+  'security.intro': 'Encrypt your journal, check-ins, drafts and group decisions on this device with a passphrase. Without it they can\'t be read, and Anchor locks itself when you step away.',
+  'security.unsupported': 'Encryption needs a browser that supports WebCrypto, and Anchor opened over https.',
+  'security.forgottenWarning': 'There is no way to recover a forgotten passphrase. If you forget it, everything encrypted is lost.',
+  'security.passphrase': 'Passphrase',
+  'security.confirmPassphrase': 'Repeat passphrase',
+  'security.passphraseHelp': 'At least {min} characters. A short sentence is easy to remember and hard to guess.',
+  'security.acknowledge': 'I understand that if I forget my passphrase, my data can\'t be recovered',
+  'security.enable': 'Turn On Encryption',
+  'security.enabled': 'Encryption is on. Your data is unreadable without your passphrase.',
+  'security.lockNow': 'Lock Now',
+  'security.autoLock': 'Lock automatically',
+  'security.autoLockAfter': 'After {minutes, plural, one {# minute} other {# minutes}} of inactivity',
+  'security.change': 'Change passphrase',
+  'security.currentPassphrase': 'Current passphrase',
+  'security.newPassphrase': 'New passphrase',
+  'security.confirmNewPassphrase': 'Repeat new passphrase',
+  'security.changeButton': 'Change Passphrase',
+  'security.changed': 'Your passphrase has been changed and your data encrypted with it.',
+  'security.disable': 'Turn off encryption',
+  'security.disableHelp': 'Your data is decrypted and stored on this device as it was before.',
+  'security.disableButton': 'Turn Off Encryption',
+  'security.disabled': 'Encryption is off.',
+  'security.working': 'Encrypting your data…',
+  'security.error.tooShort': 'Your passphrase needs at least {min} characters.',
+  'security.error.mismatch': 'The passphrases don\'t match.',
+  'security.error.acknowledge': 'Please confirm that you understand a forgotten passphrase can\'t be recovered.',
+  'security.error.wrongPassphrase': 'That passphrase doesn\'t match your current one.',
+  'security.error.failed': 'Something went wrong, and your data was left as it was. Please try again.',
+
+  'sync.synced': 'Synced {time}. Click to sync now.',
+  'sync.never': 'Not synced yet. Click to sync now.',
+  'sync.syncing': 'Syncing…',
+  'sync.pending': '{count, plural, one {# change} other {# changes}} waiting to sync. Click to sync now.',
+  'sync.offline': 'You\'re offline. {count, plural, =0 {Changes will sync} one {# change will sync} other {# changes will sync}} once you\'re back online.',
+  'sync.failed': 'Sync failed. {count, plural, =0 {Nothing was lost} one {# change is kept} other {# changes are kept}} for the next try. Click to try again.',
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
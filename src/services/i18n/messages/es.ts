@@ -0,0 +1,766 @@
+import { Messages } from './en';
+
+export const es: Messages = {
+  // Lists and shared words
+  'list.and': 'y',
+  'list.versus': 'frente a',
+  'common.none': '(ninguno)',
+  'common.cancel': 'Cancelar',
+  'common.delete': 'Eliminar',
+  'common.close': 'Cerrar',
+  'common.back': 'Atrás',
+  'common.remove': 'Quitar',
+  'common.score': '{score}/100',
+  'common.percent': '{percent} %',
+
+  // Built-in values, tags and biases, shown by their stored English names
+  'value.family': 'Familia',
+  'value.health': 'Salud',
+  'value.financialSecurity': 'Seguridad económica',
+  'value.careerGrowth': 'Desarrollo profesional',
+  'value.happiness': 'Felicidad',
+  'value.freedom': 'Libertad',
+  'value.stability': 'Estabilidad',
+  'value.adventure': 'Aventura',
+  'value.learning': 'Aprendizaje',
+  'value.relationships': 'Relaciones',
+  'value.community': 'Comunidad',
+  'value.spirituality': 'Espiritualidad',
+  'value.creativity': 'Creatividad',
+  'value.achievement': 'Logro',
+  'value.balance': 'Equilibrio',
+
+  'tag.decision': 'Decisión',
+  'tag.career': 'Carrera',
+  'tag.relationships': 'Relaciones',
+  'tag.finance': 'Finanzas',
+  'tag.health': 'Salud',
+
+  'bias.lossAversion.name': 'Aversión a la pérdida',
+  'bias.lossAversion.description': 'La tendencia a preferir evitar pérdidas antes que obtener ganancias equivalentes.',
+  'bias.lossAversion.suggestion': 'Intenta valorar las posibles ganancias con el mismo peso que las posibles pérdidas.',
+  'bias.lossAversion.evidence': 'Tu descripción se detiene más en lo que podrías perder ({phrases}) que en lo que podrías ganar.',
+  'bias.confirmation.name': 'Sesgo de confirmación',
+  'bias.confirmation.description': 'La tendencia a buscar o interpretar la información de forma que confirme lo que uno ya piensa.',
+  'bias.confirmation.suggestion': 'Busca activamente información que ponga en duda tus suposiciones iniciales.',
+  'bias.confirmation.evidence': 'Tu intuición solo menciona razones a favor de la opción {letter} («{option}») y ninguna para las demás.',
+  'bias.confirmation.certainty': 'Parece que ya lo tienes decidido ({phrases}).',
+  'bias.recency.name': 'Sesgo de lo reciente',
+  'bias.recency.description': 'La tendencia a dar más peso a los hechos recientes que a los anteriores.',
+  'bias.recency.suggestion': 'Ten en cuenta toda la historia y el patrón de resultados, no solo las experiencias recientes.',
+  'bias.recency.evidence': 'Tu descripción se apoya en hechos recientes ({phrases}).',
+  'bias.recency.shortTerm': 'Tu horizonte temporal es a corto plazo ({timeHorizon}/100), lo que da aún más peso a los hechos recientes.',
+  'bias.statusQuo.name': 'Sesgo del statu quo',
+  'bias.statusQuo.description': 'La preferencia por la situación actual, que lleva a resistirse al cambio.',
+  'bias.statusQuo.suggestion': 'Evalúa la opción de dejar las cosas como están con el mismo espíritu crítico que cualquier opción nueva.',
+  'bias.statusQuo.evidence': 'La opción {letter} («{option}») deja las cosas como están.',
+  'bias.statusQuo.leaning': 'Tu intuición se inclina por ella.',
+  'bias.statusQuo.unease': 'Tu intuición expresa inquietud ante el cambio ({phrases}).',
+  'bias.emotionalReasoning.name': 'Razonamiento emocional',
+  'bias.emotionalReasoning.description': 'Decidir según cómo te sientes en lugar de según pruebas objetivas.',
+  'bias.emotionalReasoning.suggestion': 'Reconoce tus emociones, pero busca también hechos concretos que respalden tu decisión.',
+  'bias.emotionalReasoning.approach': 'Describes tu enfoque como un {percent} % emocional.',
+  'bias.emotionalReasoning.evidence': 'Tu intuición se basa en sentimientos ({phrases}) más que en hechos.',
+  'bias.sunkCost.name': 'Falacia del coste hundido',
+  'bias.sunkCost.description': 'Seguir con algo por lo que ya has invertido en ello, y no por lo que aportará a partir de ahora.',
+  'bias.sunkCost.suggestion': 'Imagina que empiezas de cero hoy: ¿lo seguirías eligiendo sabiendo lo que costará a partir de aquí?',
+  'bias.sunkCost.evidence': 'Mencionas lo que ya se ha invertido ({phrases}), que no se recupera en ningún caso.',
+  'bias.anchoring.name': 'Anclaje',
+  'bias.anchoring.description': 'Apoyarse demasiado en la primera cifra o el primer punto de referencia que encontraste.',
+  'bias.anchoring.suggestion': 'Deja esa cifra a un lado y calcula desde cero cuánto vale la opción para ti.',
+  'bias.anchoring.evidence': 'Comparas con un punto de referencia ({phrases}).',
+  'bias.anchoring.figures': 'La decisión gira en torno a cifras concretas ({phrases}).',
+  'bias.planningFallacy.name': 'Falacia de la planificación',
+  'bias.planningFallacy.description': 'Subestimar cuánto tiempo o dinero costará algo, aunque la experiencia diga lo contrario.',
+  'bias.planningFallacy.suggestion': 'Piensa en cuánto tardaron de verdad planes parecidos, tuyos o de otros, y añade un margen.',
+  'bias.planningFallacy.evidence': 'Esperas que todo salga bien o rápido ({phrases}).',
+
+  'tension.adventureStability': 'Las experiencias nuevas suelen suponer renunciar a algo de previsibilidad.',
+  'tension.careerFamily': 'El tiempo y la energía que dedicas al trabajo no están disponibles en casa.',
+  'tension.freedomFinancial': 'La independencia suele venir con unos ingresos menos seguros.',
+  'tension.freedomStability': 'Mantener las opciones abiertas hace más difícil asentarse.',
+  'tension.adventureFinancial': 'Los pasos audaces suelen costar dinero o poner en riesgo los ingresos.',
+  'tension.careerBalance': 'Dar un paso adelante en el trabajo suele restar espacio al resto de la vida.',
+  'tension.achievementHealth': 'Esforzarse mucho por una meta puede pasar factura al descanso y al bienestar.',
+  'tension.freedomRelationships': 'Los compromisos con otras personas limitan la libertad con la que puedes elegir.',
+  'tension.learningFinancial': 'Estudiar cuesta dinero y a menudo tiempo en el que se podría estar ganando.',
+
+  // The generated analysis
+  'analysis.logical.approach': 'Tu enfoque de «{question}» es sobre todo lógico (un {percent} % lógico).',
+  'analysis.logical.value': 'Aunque tu análisis lógico es sólido, piensa en cómo encaja esta decisión con tu valor de {value}.',
+  'analysis.logical.options': 'Entre {options}, ¿qué opción favorece más tu bienestar emocional a largo plazo?',
+  'analysis.logical.noOptions': 'Recuerda que incluso las decisiones más lógicas deberían tener en cuenta su impacto emocional.',
+  'analysis.emotional.approach': 'Tu enfoque de «{question}» es sobre todo emocional (un {percent} % emocional).',
+  'analysis.emotional.stakes': 'Teniendo en cuenta lo que está en juego ({stakes}), puede ayudarte equilibrar tu intuición emocional con algo de análisis lógico.',
+  'analysis.emotional.options': 'Prueba a hacer una lista de pros y contras para {options} y asegúrate de no pasar por alto factores prácticos importantes.',
+  'analysis.emotional.noOptions': 'Plantéate escribir los pros y contras prácticos para complementar tu intuición emocional.',
+  'analysis.ranking.single': 'Tu matriz de decisión puntúa «{option}» con {score}/100.',
+  'analysis.ranking.tied': 'Tu matriz de decisión no distingue entre {options}: todas obtienen {score}/100. Revisa los pesos de los criterios que más te importan.',
+  'analysis.ranking.lead': 'Tu matriz de decisión sitúa «{winner}» en primer lugar con {score}/100, {margin} de {points, plural, one {# punto} other {# puntos}} sobre «{runnerUp}».',
+  'analysis.intuition': 'Tu intuición inicial fue: «{intuition}».',
+  'analysis.horizon.long': 'Te centras en los resultados a largo plazo, algo que suele ser beneficioso en las grandes decisiones de la vida.',
+  'analysis.horizon.short': 'Te centras más en los resultados a corto plazo. Piensa si eso se corresponde con la importancia de esta decisión.',
+  'analysis.corrections': 'Has movido {options} en la brújula. Con tus colocaciones, «{closest}» es la más cercana a tu propio enfoque.',
+  'analysis.thirdOption': '¿Has pensado en un enfoque intermedio? Quizá podrías {first} durante un periodo de prueba antes de comprometerte del todo con {second}.',
+  'analysis.factor.valueAlignment': 'Coherencia con {value}',
+  'analysis.factor.financial': 'Impacto económico',
+  'analysis.factor.emotional': 'Bienestar emocional',
+  'analysis.factor.longTerm': 'Consecuencias a largo plazo',
+  'analysis.factor.stakes': 'Impacto en {stakes}',
+  'analysis.factor.fit': '{option}: encaje con tu enfoque',
+
+  'sentiment.tone': '{tone, select, tension {🔥 Se detecta mucha tensión} growth {🌱 Lenguaje orientado al crecimiento} worried {🌧️ Lenguaje preocupado o desanimado} positive {🌤️ Sobre todo neutro, con algo de optimismo} uneasy {🌥️ Sobre todo neutro, con algo de inquietud} other {⚪ Lenguaje neutro y objetivo}}',
+
+  'matrix.factor': '{criterion} (peso {weight})',
+  'matrix.margin.close': 'una decisión muy reñida',
+  'matrix.margin.modest': 'una ventaja pequeña',
+  'matrix.margin.clear': 'una ventaja clara',
+
+  'revision.input.question': 'Pregunta',
+  'revision.input.approach': 'Enfoque',
+  'revision.input.timeHorizon': 'Horizonte temporal',
+  'revision.input.options': 'Opciones',
+  'revision.input.stakes': 'Lo que está en juego',
+  'revision.input.values': 'Valores',
+  'revision.input.intuition': 'Intuición inicial',
+  'revision.input.matrix': 'Matriz de decisión',
+  'revision.input.placements': 'Colocaciones en la brújula',
+  'revision.logical': '{percent} % lógico',
+  'revision.longTerm': '{percent} % a largo plazo',
+  'revision.skipped': '(omitida)',
+  'revision.earlierScores': 'Puntuaciones anteriores',
+  'revision.rescored': 'Repuntuada',
+
+  'group.approach.agree': 'Todos estáis cerca en el enfoque: un {mean} % lógico de media.',
+  'group.approach.differ': 'Diferís en el enfoque, de un {min} % a un {max} % lógico. {lowest} {lowestCount, plural, one {se guía} other {se guían}} por la intuición; {highest}, por el análisis.',
+  'group.horizon.agree': 'Todos estáis cerca en el horizonte temporal: un {mean} % a largo plazo de media.',
+  'group.horizon.differ': 'Diferís en el horizonte temporal, de un {min} % a un {max} % a largo plazo. {lowest} {lowestCount, plural, one {mira} other {miran}} al corto plazo; {highest}, al largo plazo.',
+  'group.option.agree': 'Todos valoráis «{option}» de forma parecida: {mean}/10 de media.',
+  'group.option.divides': '«{option}» divide al grupo: {lowest} le dio un {min} y {highest}, un {max}.',
+  'group.sharedValues': 'Todos tenéis {values} como valor en esta decisión.',
+
+  'checkIn.delay.tomorrow': 'Mañana',
+  'checkIn.delay.3days': 'Dentro de 3 días',
+  'checkIn.delay.1week': 'Dentro de 1 semana',
+  'checkIn.delay.2weeks': 'Dentro de 2 semanas',
+  'checkIn.delay.1month': 'Dentro de 1 mes',
+  'checkIn.delay.3months': 'Dentro de 3 meses',
+
+  'band.emotional': 'Sobre todo emocional (0-39)',
+  'band.balanced': 'Equilibrado (40-60)',
+  'band.logical': 'Sobre todo lógico (61-100)',
+  'band.shortTerm': 'Corto plazo (0-39)',
+  'band.mediumTerm': 'Medio plazo (40-60)',
+  'band.longTerm': 'Largo plazo (61-100)',
+
+  'reflection.followThrough.yes': 'Sí',
+  'reflection.followThrough.partially': 'En parte',
+  'reflection.followThrough.no': 'No',
+  'reflection.intuition.yes': 'Sí, mi intuición acertó',
+  'reflection.intuition.partly': 'En parte',
+  'reflection.intuition.no': 'No, salió de otra manera',
+  'reflection.satisfaction.1': 'Muy descontento',
+  'reflection.satisfaction.2': 'Descontento',
+  'reflection.satisfaction.3': 'Sentimientos encontrados',
+  'reflection.satisfaction.4': 'Contento',
+  'reflection.satisfaction.5': 'Muy contento',
+
+  'emotion.joy': 'Alegría',
+  'emotion.trust': 'Confianza',
+  'emotion.anticipation': 'Expectación',
+  'emotion.fear': 'Miedo',
+  'emotion.sadness': 'Tristeza',
+  'emotion.anger': 'Enfado',
+
+  // Exported reports
+  'report.overview': 'Resumen',
+  'report.approach': 'Enfoque: {emotional} % emocional, {logical} % lógico',
+  'report.timeHorizon': 'Horizonte temporal: {timeHorizon}/100 (0 = corto plazo, 100 = largo plazo)',
+  'report.confidence': 'Confianza: {confidence} %',
+  'report.tags': 'Etiquetas: {tags}',
+  'report.options': 'Opciones',
+  'report.values': 'Valores',
+  'report.stakes': 'Lo que está en juego',
+  'report.intuition': 'Intuición inicial',
+  'report.criteria': 'Criterios de decisión',
+  'report.recommendation': 'Recomendación',
+  'report.matrix': 'Matriz de decisión',
+  'report.compass': 'Brújula de decisión',
+  'report.position': '{option}: {logical} % lógico, {longTerm} % a largo plazo{placed, select, yes { (colocada por ti)} other {}}',
+  'report.factors': 'Factores clave',
+  'report.factorOption': 'opción: {option}',
+  'report.factorValue': 'valor: {value}',
+  'report.conflicts': 'Conflictos de valores',
+  'report.biases': 'Posibles sesgos cognitivos',
+  'report.biasWhy': 'Por qué: {evidence}',
+  'report.biasSuggestion': 'Sugerencia: {suggestion}',
+  'report.alternative': 'Enfoque alternativo',
+  'report.sentiment': 'Sentimiento',
+  'report.sentimentShares': 'Positivo {positive}, negativo {negative}, neutro {neutral}',
+  'report.emotions': 'Emociones: {emotions}',
+  'report.keyPhrases': 'Frases clave: {phrases}',
+  'report.notes': 'Notas',
+  'report.checkIns': 'Revisiones',
+  'report.checkIn': '{date}: la llevaste a cabo: {followedThrough}; resultado: {outcome}; intuición: {intuition}',
+
+  'notification.checkIn': 'Es momento de reflexionar sobre una decisión',
+  'notification.checkInPrivate': 'Abre la aplicación para ver qué decisión toca revisar.',
+
+  'safety.title.crisis': 'Estamos aquí para ayudarte',
+  'safety.title.concerning': '¿Estás bien?',
+  'safety.title.informational': 'Merece una segunda opinión',
+  'safety.message.crisis': 'Parece que puedes estar pasando por algo muy doloroso. No tienes que afrontarlo en soledad. Ponte en contacto ahora con una línea de crisis o con alguien de confianza. Si estás en peligro inmediato, llama al número de emergencias de tu zona.',
+  'safety.message.concerning': 'Parte de lo que has escrito sugiere una situación difícil o poco segura. Hablarlo con un profesional, una línea de apoyo o una persona de confianza puede ayudarte antes de decidir.',
+  'safety.message.informational': 'Esta decisión tiene que ver con riesgos legales, económicos o de salud. Puede que merezca la pena buscar asesoramiento profesional además de este análisis.',
+  'safety.region': '¿Dónde estás?',
+  'safety.otherCountries': 'Otros países',
+  'safety.continue': 'Continuar',
+  'safety.understand': 'Entendido',
+
+  'support.region.US': 'Estados Unidos',
+  'support.region.CA': 'Canadá',
+  'support.region.GB': 'Reino Unido',
+  'support.region.IE': 'Irlanda',
+  'support.region.AU': 'Australia',
+  'support.region.DE': 'Alemania',
+  'support.region.ES': 'España',
+  'support.callOrText988': 'Llama o envía un SMS al 988, las 24 horas.',
+  'support.domesticViolence': 'Apoyo para cualquier persona afectada por el maltrato.',
+  'support.samaritans': 'Llama gratis al 116 123, las 24 horas.',
+  'support.shout': 'Envía SHOUT por SMS al 85258.',
+  'support.lifelineAustralia': 'Llama al 13 11 14, las 24 horas.',
+  'support.telefonSeelsorge': 'Gratuito y disponible a cualquier hora.',
+  'support.telefonoEsperanza': 'Llama al 717 003 717, las 24 horas. Si piensas en el suicidio, también puedes llamar al 024.',
+  'support.findAHelpline': 'Líneas de ayuda gratuitas y confidenciales en más de 130 países.',
+
+  'conflict.tension': '{a} y {b} pueden entrar en tensión en esta decisión.',
+  'conflict.bothSides': '{favoursA} favorece {a}, mientras que {favoursB} favorece {b}.',
+  'conflict.oneSide': '{favouring} favorece {winner}; ninguna de tus opciones protege claramente {loser}.',
+  'conflict.neither': 'Ninguna de tus opciones favorece claramente uno sobre el otro, así que pregúntate cuál lamentarías descuidar.',
+  'conflict.ranking': 'Sitúas {higher} por encima de {lower}.',
+
+  // The decision wizard
+  'wizard.step.question': 'Pregunta',
+  'wizard.step.intuition': 'Intuición',
+  'wizard.step.context': 'Contexto',
+  'wizard.step.matrix': 'Matriz',
+  'wizard.step.analysis': 'Análisis',
+  'wizard.error.question': 'Escribe la pregunta sobre la que tienes que decidir',
+  'wizard.error.intuition': 'Comparte tu intuición inicial',
+  'wizard.error.options': 'Escribe al menos una opción que estés valorando',
+
+  'dashboard.title': '¿Qué estás decidiendo?',
+  'dashboard.share': 'Compartir como enlace',
+  'dashboard.draftName': 'Nombre del borrador',
+  'dashboard.untitledDraft': 'Decisión sin título',
+  'dashboard.savedAsYouGo': 'Se guarda sobre la marcha',
+  'dashboard.savedOnceTyping': 'Se guardará en cuanto empieces a escribir',
+  'dashboard.discardDraft': 'Descartar borrador',
+  'dashboard.otherDrafts': 'Otros borradores ({count})',
+  'dashboard.question': 'Tu pregunta',
+  'dashboard.questionPlaceholder': 'p. ej., ¿Debería aceptar la nueva oferta de trabajo?',
+  'dashboard.approach': '¿Cómo estás enfocando esta decisión?',
+  'dashboard.approachHelp': '0 = Totalmente emocional (instinto, intuición, emociones), 100 = Totalmente lógico (hechos, análisis, pros y contras)',
+  'dashboard.emotional': 'Emocional',
+  'dashboard.logical': 'Lógico',
+  'dashboard.timeHorizon': '¿Cuál es tu horizonte temporal para esta decisión?',
+  'dashboard.timeHorizonHelp': '0 = Centrado en el corto plazo (resultados inmediatos), 100 = Centrado en el largo plazo (impacto futuro)',
+  'dashboard.shortTerm': 'Corto plazo',
+  'dashboard.longTerm': 'Largo plazo',
+  'dashboard.continue': 'Continuar',
+  'dashboard.intuitionTitle': '¿Qué te dice tu instinto ahora mismo?',
+  'dashboard.intuitionHelp': 'Anota tu primer impulso sobre esta decisión, tal cual. Más adelante podrás compararlo con tu elección final.',
+  'dashboard.intuition': 'Tu intuición inicial',
+  'dashboard.intuitionPlaceholder': 'p. ej., Siento que debería aceptar el trabajo, pero el cambio me pone nervioso',
+  'dashboard.contextTitle': 'Añadamos algo de contexto a tu decisión',
+  'dashboard.contextHelp': 'Cuantos más detalles añadas, más útil será el análisis',
+  'dashboard.options': '¿Qué opciones estás valorando?',
+  'dashboard.option': 'Opción {letter}',
+  'dashboard.optionPlaceholder.first': 'p. ej., Aceptar la oferta de trabajo',
+  'dashboard.optionPlaceholder.second': 'p. ej., Quedarme en mi trabajo actual',
+  'dashboard.optionPlaceholder.third': 'p. ej., Negociar un puesto en remoto',
+  'dashboard.optionPlaceholder.other': 'p. ej., Otra alternativa',
+  'dashboard.moveUp': 'Subir',
+  'dashboard.moveDown': 'Bajar',
+  'dashboard.moveOptionUp': 'Subir la opción {letter}',
+  'dashboard.moveOptionDown': 'Bajar la opción {letter}',
+  'dashboard.removeOption': 'Quitar la opción {letter}',
+  'dashboard.addOption': 'Añadir opción',
+  'dashboard.stakes': '¿Qué está en juego en esta decisión?',
+  'dashboard.stakesLabel': 'Lo que más importa en esta decisión',
+  'dashboard.stakesPlaceholder': 'p. ej., Mi desarrollo profesional y mi estabilidad económica',
+  'dashboard.values': '¿Cuáles de tus valores personales influyen en esta decisión?',
+  'dashboard.selectValues': 'Elige hasta {max} valores',
+  'dashboard.rankedValue': 'n.º {priority} {value}',
+  'dashboard.editValues': 'Editar la clasificación de tus valores',
+  'dashboard.rankValues': 'Clasifica tus valores personales',
+  'dashboard.matrixTitle': 'Puntúa tus opciones',
+  'dashboard.matrixHelp': 'Da peso a lo que te importa y puntúa cada opción de 0 (mala) a 10 (excelente) en cada criterio. Los totales ponderados se incorporan a tu análisis.',
+  'dashboard.skipMatrix': 'Omitir la matriz',
+  'dashboard.analyze': 'Analizar decisión',
+  'dashboard.analysisTitle': 'Análisis de la decisión',
+  'dashboard.finalRevisionNote': 'Marcaste la revisión {number} como definitiva, así que tu entrada del diario y las exportaciones usan esa en lugar del análisis anterior.',
+  'dashboard.confidence': '¿Cuánta confianza tienes en llevar a cabo esta decisión?',
+  'dashboard.notConfident': 'Poca confianza',
+  'dashboard.veryConfident': 'Mucha confianza',
+  'dashboard.confidenceLevel': 'Tu nivel de confianza: {confidence} %',
+  'dashboard.journalTitle': 'Diario de decisiones',
+  'dashboard.journalHelp': 'Guarda esta decisión como entrada del diario para seguir tus patrones de decisión a lo largo del tiempo.',
+  'dashboard.savedToJournal': 'Guardada en el diario',
+  'dashboard.saveJournalEntry': 'Guardar como entrada del diario',
+  'dashboard.viewInJournal': 'Ver en el diario',
+  'dashboard.timeCapsuleTitle': 'Cápsula del tiempo',
+  'dashboard.timeCapsuleHelp': 'Programa un seguimiento para reflexionar sobre cómo te sientes con tu elección.',
+  'dashboard.checkInScheduledFor': 'Te preguntaremos el {date}.',
+  'dashboard.checkInScheduled': 'Revisión programada',
+  'dashboard.scheduleCheckIn': 'Programar una revisión',
+  'dashboard.exportTitle': 'Exportar informe',
+  'dashboard.exportHelp': 'Descarga esta decisión y su análisis, o imprímela para compartirla o guardarla en papel.',
+  'dashboard.backTo': 'Volver a {step}',
+  'dashboard.startNew': 'Empezar una nueva decisión',
+  'dashboard.drafts.resumeTitle': '¿Retomar tu decisión sin terminar?',
+  'dashboard.drafts.title': 'Tus borradores',
+  'dashboard.drafts.resumeDescription': 'Tienes decisiones que empezaste y no terminaste. Retoma una donde la dejaste o empieza una nueva.',
+  'dashboard.drafts.description': 'Cambia a otra decisión sin terminar. La actual se queda guardada como borrador.',
+  'dashboard.drafts.startFresh': 'Empezar de cero',
+  'dashboard.discard.title': '¿Descartar este borrador?',
+  'dashboard.discard.description': 'Se borrará todo lo que has escrito para esta decisión. No se puede deshacer.',
+  'dashboard.discard.keep': 'Conservar borrador',
+  'dashboard.discard.confirm': 'Descartar',
+  'dashboard.checkIn.title': 'Programar una revisión de la decisión',
+  'dashboard.checkIn.when': '¿Cuándo quieres volver a esta decisión para reflexionar sobre cómo te sientes con ella?',
+  'dashboard.checkIn.delay': 'Revisar',
+  'dashboard.checkIn.explanation': 'Guardaremos los detalles de tu decisión y su análisis en tu diario. Cuando llegue la revisión, te pediremos que reflexiones sobre:',
+  'dashboard.checkIn.followThrough': '¿Llevaste a cabo tu decisión?',
+  'dashboard.checkIn.outcome': '¿Cómo te sientes con el resultado?',
+  'dashboard.checkIn.intuition': '¿Coincidió tu intuición inicial con la realidad?',
+  'dashboard.checkIn.remind': 'Recuérdamelo también con una notificación del navegador la próxima vez que abra Anchor',
+  'dashboard.checkIn.notNow': 'Ahora no',
+  'dashboard.checkIn.schedule': 'Programar revisión',
+  'dashboard.journal.description': 'Tu decisión se guardará en tu diario para que puedas consultarla más adelante.',
+  'dashboard.journal.summary': 'Resumen de la decisión',
+  'dashboard.journal.tags': 'Etiquetas',
+  'dashboard.journal.notes': 'Notas adicionales',
+  'dashboard.journal.notesPlaceholder': 'Añade cualquier otra reflexión o contexto sobre esta decisión...',
+  'dashboard.journal.save': 'Guardar en el diario',
+  'dashboard.error.sharedLink': 'No se ha podido abrir este enlace compartido.',
+  'dashboard.error.compass': 'No se ha podido actualizar el análisis con tu colocación en la brújula. Inténtalo de nuevo.',
+  'dashboard.error.analysis': 'Se ha producido un error al analizar tu decisión. Inténtalo de nuevo.',
+  'dashboard.error.deleteDraft': 'No se ha podido eliminar ese borrador. Inténtalo de nuevo.',
+  'dashboard.error.discardDraft': 'No se ha podido descartar tu borrador. Inténtalo de nuevo.',
+  'dashboard.error.finalRevision': 'No se ha podido actualizar tu entrada del diario con la revisión definitiva. Inténtalo de nuevo.',
+  'dashboard.error.saveJournal': 'No se ha podido guardar tu entrada del diario. Inténtalo de nuevo.',
+  'dashboard.error.scheduleCheckIn': 'No se ha podido programar tu revisión. Inténtalo de nuevo.',
+
+  // Analysis results
+  'analysisView.matrix': 'Matriz de decisión',
+  'analysisView.factors': 'Factores clave',
+  'analysisView.factorOption': 'Opción: {option}',
+  'analysisView.factorValue': 'Coherente con tu valor: {value}',
+  'analysisView.conflicts': 'Conflictos de valores',
+  'analysisView.biases': 'Posibles sesgos cognitivos',
+  'analysisView.suggestion': 'Sugerencia:',
+  'analysisView.hideDetails': 'Ocultar detalles',
+  'analysisView.learnMore': 'Más sobre este sesgo',
+  'analysisView.alternative': 'Enfoque alternativo',
+  'analysisView.explore': 'Explorar esta opción',
+  'analysisView.sentiment': 'Análisis de sentimiento',
+  'analysisView.positive': 'Positivo: {percent} %',
+  'analysisView.negative': 'Negativo: {percent} %',
+  'analysisView.neutral': 'Neutro: {percent} %',
+  'analysisView.emotions': 'Emociones en tus palabras:',
+  'analysisView.highlights': 'Palabras que han influido:',
+  'analysisView.highlightFrom': 'De tu {field}',
+  'analysisView.field.question': 'pregunta',
+  'analysisView.field.intuition': 'intuición inicial',
+  'analysisView.field.options': 'lista de opciones',
+  'analysisView.field.stakes': 'descripción de lo que está en juego',
+
+  'summary.question': 'Pregunta:',
+  'summary.approach': 'Enfoque:',
+  'summary.logical': 'Sobre todo lógico',
+  'summary.emotional': 'Sobre todo emocional',
+  'summary.timeHorizon': 'Horizonte temporal:',
+  'summary.longTerm': 'Centrado en el largo plazo',
+  'summary.shortTerm': 'Centrado en el corto plazo',
+  'summary.intuition': 'Intuición inicial:',
+  'summary.confidence': 'Nivel de confianza:',
+  'summary.option': 'Opción {letter}:',
+  'summary.stakes': 'Lo que está en juego:',
+  'summary.values': 'Valores:',
+  'summary.criteria': 'Criterios de la matriz:',
+
+  'matrixEditor.criterion': 'Criterio',
+  'matrixEditor.weight': 'Peso',
+  'matrixEditor.weight.minor': 'Menor',
+  'matrixEditor.weight.important': 'Importante',
+  'matrixEditor.weight.critical': 'Crucial',
+  'matrixEditor.criterionPlaceholder': 'p. ej., Tiempo de desplazamiento',
+  'matrixEditor.criterionName': 'Nombre del criterio',
+  'matrixEditor.unnamed': 'criterio',
+  'matrixEditor.weightOf': 'Peso de {criterion}',
+  'matrixEditor.scoreOf': 'Puntuación de la opción {letter} en {criterion}',
+  'matrixEditor.removeCriterion': 'Quitar criterio',
+  'matrixEditor.removeCriterionNamed': 'Quitar el criterio {criterion}',
+  'matrixEditor.addCriterion': 'Añadir criterio',
+  'matrixEditor.ranking': 'Clasificación actual',
+
+  'compass.title': 'Brújula de decisión',
+  'compass.help': 'Arrastra una opción hasta donde creas que encaja, o selecciónala y usa las flechas del teclado. El análisis se actualiza en consecuencia.',
+  'compass.label': 'Brújula de decisión: {markers, select, participant {participantes} other {opciones}} situados de emocional a lógico y de corto a largo plazo',
+  'compass.axis.balance': 'Emocional · Lógico',
+  'compass.axis.horizon': 'Corto plazo · Largo plazo',
+  'compass.quadrant.gutFuture': 'Instinto / Futuro',
+  'compass.quadrant.headFuture': 'Cabeza / Futuro',
+  'compass.quadrant.gutNow': 'Instinto / Ahora',
+  'compass.quadrant.headNow': 'Cabeza / Ahora',
+  'compass.you': 'Tú',
+  'compass.yourApproach': 'tu propio enfoque',
+  'compass.reference': '{name}: {logical} % lógico, {longTerm} % a largo plazo',
+  'compass.referenceKey': '{name} - {description} ({logical} % lógico, {longTerm} % a largo plazo)',
+  'compass.marker': '{markers, select, participant {Participante} other {Opción}} {letter}: {option}, {logical} % lógico, {longTerm} % a largo plazo{placed, select, yes {, colocada por ti} other {}}',
+  'compass.position': '{side, select, logical {Más lógica} other {Más emocional}}, {focus, select, long {centrada en el largo plazo} other {centrada en el corto plazo}}',
+  'compass.placedByYou': '(colocada por ti)',
+  'compass.reset': 'Restablecer posiciones de la brújula',
+
+  // Group decisions
+  'groupResults.agreement.agree': 'de acuerdo',
+  'groupResults.agreement.mixed': 'opiniones divididas',
+  'groupResults.agreement.disagree': 'en desacuerdo',
+  'groupResults.group': 'Grupo',
+  'groupResults.groupApproach': 'el enfoque medio del grupo',
+  'groupResults.optionScores': 'Puntuaciones de las opciones',
+  'groupResults.optionScoresHelp': 'La puntuación media del grupo para cada opción, de mejor a peor, con el rango de puntuaciones individuales.',
+  'groupResults.score': '{score}/10',
+  'groupResults.needsSecond': 'Los acuerdos y desacuerdos aparecerán cuando haya respondido una segunda persona.',
+  'groupResults.agree': 'En qué coincidís',
+  'groupResults.agreeEmpty': 'Todavía no hay puntos en común claros.',
+  'groupResults.differ': 'En qué diferís',
+  'groupResults.differEmpty': 'No hay desacuerdos importantes.',
+  'groupResults.values': 'Valores',
+  'groupResults.noValues': 'Nadie ha elegido todavía ningún valor.',
+  'groupResults.conflicts': 'Conflictos de valores entre vosotros',
+  'groupResults.conflict': '{first} valora {firstValue} mientras que {second} valora {secondValue}.',
+  'groupResults.intuitions': 'Intuiciones iniciales',
+
+  'drafts.delete': 'Eliminar borrador',
+  'drafts.deleteNamed': 'Eliminar el borrador {name}',
+  'drafts.details': 'Paso {step} · editado el {date}',
+
+  'export.button': 'Exportar',
+  'export.json': 'Se puede volver a importar',
+  'export.print': 'Imprimir / Guardar como PDF',
+  'export.error.blocked': 'Se ha bloqueado la vista de impresión. Permite las ventanas emergentes en este sitio e inténtalo de nuevo.',
+  'export.error.failed': 'No se ha podido exportar esta decisión. Inténtalo de nuevo.',
+  'import.error.notJson': 'Este archivo no es un JSON válido.',
+  'import.error.newerVersion': 'Este archivo se exportó con una versión más reciente de la aplicación.',
+  'import.error.notDecision': 'Este archivo no es una decisión exportada.',
+  'import.error.invalidDecision': 'Este archivo no contiene una decisión válida.',
+
+  'share.title': 'Compartir esta decisión',
+  'share.description': 'Toda la decisión va dentro del propio enlace. No se sube nada, así que cualquiera que tenga el enlace puede leerla. Compártelo solo con personas de confianza.',
+  'share.viewOnly': 'Solo lectura',
+  'share.editable': 'Abrir en el asistente para que trabajen sobre una copia',
+  'share.includeIntuition': 'Incluir mi intuición inicial',
+  'share.link': 'Enlace',
+  'share.longLink': 'Este enlace es largo. Algunas aplicaciones cortan los enlaces largos, así que comprueba que se abre antes de confiar en él.',
+  'share.copied': '¡Copiado!',
+  'share.copy': 'Copiar enlace',
+  'share.error.copy': 'No se ha podido copiar el enlace. Selecciónalo y cópialo tú.',
+
+  'shared.notice': 'Alguien ha compartido esta decisión contigo. Es de solo lectura y permanece en este enlace; no se guarda nada a menos que abras una copia en el asistente.',
+  'shared.openCopy': 'Abrir una copia en el asistente',
+  'shared.error.empty': 'Este enlace no contiene ninguna decisión compartida.',
+  'shared.error.open': 'No se ha podido abrir este enlace.',
+  'shared.error.damaged': 'Este enlace está dañado o incompleto.',
+  'shared.error.newerVersion': 'Este enlace se creó con una versión más reciente de la aplicación.',
+  'shared.error.invalid': 'Este enlace no contiene una decisión válida.',
+
+  // Navigation
+  'nav.decide': 'Decidir',
+  'nav.journal': 'Diario',
+  'nav.insights': 'Patrones',
+  'nav.groups': 'Grupos',
+  'nav.calibration': 'Calibración',
+  'nav.values': 'Valores',
+  'nav.security': 'Privacidad',
+  'nav.lock': 'Bloquear',
+  'nav.language': 'Idioma',
+
+  'revisions.title': 'Revisiones',
+  'revisions.help': 'Cada vez que se analiza la decisión, los datos y el análisis se guardan como una revisión.',
+  'revisions.markHelp': 'Marca como definitiva aquella por la que te decidas.',
+  'revisions.revision': 'Revisión {number}',
+  'revisions.latest': 'Última',
+  'revisions.final': 'Definitiva',
+  'revisions.markFinal': 'Marcar como definitiva',
+  'revisions.unmarkFinal': 'Desmarcar como definitiva',
+  'revisions.compare': 'Comparar revisiones',
+  'revisions.from': 'Desde',
+  'revisions.to': 'Hasta',
+  'revisions.same': 'Estas revisiones tienen los mismos datos y el mismo análisis.',
+  'revisions.inputs': 'Qué has cambiado',
+  'revisions.input': 'Dato',
+  'revisions.recommendation': 'Recomendación',
+  'revisions.unchanged': 'Sin cambios.',
+  'revisions.topRanked': 'Primera de la matriz: {before} → {after}',
+  'revisions.factors': 'Factores',
+  'revisions.factor': 'Factor',
+  'revisions.biases': 'Posibles sesgos',
+  'revisions.positions': 'Posiciones en la brújula',
+  'revisions.option': 'Opción',
+  'revisions.position': '{logical} % lógico, {longTerm} % a largo plazo',
+
+  // Check-ins and reflections
+  'dueCheckIns.reflect': 'Reflexionar ahora',
+  'dueCheckIns.due': '{count, plural, one {Tienes pendiente una revisión de una decisión:} other {Tienes pendientes # revisiones de decisiones. La siguiente:}}',
+
+  // The journal
+  'journal.title': 'Diario de decisiones',
+  'journal.import': 'Importar',
+  'journal.search': 'Buscar en preguntas, opciones y notas',
+  'journal.tags': 'Etiquetas',
+  'journal.values': 'Valores',
+  'journal.from': 'Desde',
+  'journal.to': 'Hasta',
+  'journal.approach': 'Enfoque',
+  'journal.sortBy': 'Ordenar por',
+  'journal.sort.newest': 'Más recientes primero',
+  'journal.sort.oldest': 'Más antiguas primero',
+  'journal.sort.mostConfident': 'Más confianza primero',
+  'journal.sort.leastConfident': 'Menos confianza primero',
+  'journal.clearFilters': 'Quitar filtros',
+  'journal.empty': 'Tu diario está vacío. Aquí aparecerán las decisiones que guardes después de un análisis.',
+  'journal.noMatches': 'Ninguna entrada del diario coincide con estos filtros.',
+  'journal.confident': '{confidence} % de confianza',
+  'journal.error.load': 'No se ha podido cargar tu diario.',
+  'journal.error.import': 'No se ha podido importar este archivo.',
+
+  'entry.back': 'Volver al diario',
+  'entry.missing': 'Esta entrada del diario no existe. Puede que se haya eliminado.',
+  'entry.saved': 'Guardada el {date}',
+  'entry.edited': 'Editada el {date}',
+  'entry.checkIns': 'Revisiones',
+  'entry.followedThrough': 'La llevaste a cabo:',
+  'entry.outcome': 'Resultado:',
+  'entry.intuitionMatched': 'La intuición coincidió con la realidad:',
+  'entry.reflect': 'Reflexionar ahora',
+  'entry.upcoming': 'Próxima',
+  'entry.notes': 'Tus notas',
+  'entry.savedChanges': 'Se han guardado tus cambios.',
+  'entry.delete': 'Eliminar entrada',
+  'entry.save': 'Guardar cambios',
+  'entry.deleteTitle': '¿Eliminar esta entrada del diario?',
+  'entry.deleteDescription': 'La decisión, su análisis y tus notas se eliminarán para siempre.',
+  'entry.error.load': 'No se ha podido cargar esta entrada del diario.',
+  'entry.error.save': 'No se han podido guardar tus cambios. Inténtalo de nuevo.',
+  'entry.error.finalRevision': 'No se ha podido guardar la revisión definitiva. Inténtalo de nuevo.',
+  'entry.error.delete': 'No se ha podido eliminar esta entrada del diario. Inténtalo de nuevo.',
+
+  'reflect.title': 'Revisión de la decisión',
+  'reflect.missing': 'Esta revisión no existe. Puede que la decisión se haya eliminado.',
+  'reflect.alreadyDone': 'Ya reflexionaste sobre esta decisión el {date}.',
+  'reflect.viewEntry': 'Ver entrada del diario',
+  'reflect.madeOn': 'Tomaste esta decisión el {date}. Tómate un momento para mirar atrás.',
+  'reflect.intuitionWas': 'Tu intuición inicial fue: «{intuition}»',
+  'reflect.learned': '¿Qué has aprendido?',
+  'reflect.later': 'Más tarde',
+  'reflect.save': 'Guardar reflexión',
+  'reflect.error.load': 'No se ha podido cargar esta revisión.',
+  'reflect.error.incomplete': 'Responde a las tres preguntas',
+  'reflect.error.save': 'No se ha podido guardar tu reflexión. Inténtalo de nuevo.',
+
+  // Calibration and insights
+  'calibration.title': 'Calibración de la confianza',
+  'calibration.help': 'Compara la confianza que tenías al decidir con cómo salieron las cosas en tus revisiones. Una decisión cuenta como acertada cuando valoraste el resultado con 4 o 5 estrellas.',
+  'calibration.empty': 'Todavía no hay resultados. Programa una revisión al guardar una decisión y reflexiona sobre ella cuando llegue el momento.',
+  'calibration.summary.count': 'Decisiones con resultado',
+  'calibration.summary.confidence': 'Confianza media',
+  'calibration.summary.brier': 'Puntuación de Brier (0 es perfecto)',
+  'calibration.verdict.insufficient': 'Reflexiona sobre al menos {min} decisiones para ver si tiendes a pecar de exceso o de falta de confianza.',
+  'calibration.verdict.over': 'Tiendes a pecar de exceso de confianza: tus decisiones salen bien con menos frecuencia de lo que sugiere tu confianza. Plantéate pararte a pensar más o pedir una segunda opinión cuando te sientas seguro.',
+  'calibration.verdict.under': 'Tiendes a pecar de falta de confianza: tus decisiones salen bien con más frecuencia de la que esperas. Probablemente puedes fiarte algo más de tu criterio.',
+  'calibration.verdict.well': 'Estás bien calibrado: tu confianza se corresponde de cerca con la frecuencia con que tus decisiones salen bien.',
+  'calibration.reliability': 'Fiabilidad',
+  'calibration.reliabilityHelp': 'Cada círculo agrupa decisiones por nivel de confianza. Los círculos por debajo de la línea discontinua indican exceso de confianza; por encima, falta de confianza. Los círculos más grandes contienen más decisiones.',
+  'calibration.overTime': 'Puntuación de Brier a lo largo del tiempo',
+  'calibration.overTimeHelp': 'Puntuación acumulada a lo largo de tus reflexiones; una línea descendente indica que tu confianza es cada vez más acertada.',
+  'calibration.overTimeLabel': 'Puntuación de Brier a lo largo del tiempo',
+  'calibration.byApproach': 'Por enfoque',
+  'calibration.byTimeHorizon': 'Por horizonte temporal',
+  'calibration.table.group': 'Grupo',
+  'calibration.table.decisions': 'Decisiones',
+  'calibration.table.confidence': 'Confianza media',
+  'calibration.table.success': 'Salieron bien',
+  'calibration.table.brier': 'Puntuación de Brier',
+
+  'reliability.label': 'Diagrama de fiabilidad de la confianza frente a la tasa real de acierto',
+  'reliability.bucket': '{from}-{to} % de confianza: el {success} % salieron bien ({count, plural, one {# decisión} other {# decisiones}})',
+  'reliability.confidence': 'Tu confianza',
+
+  'insights.title': 'Patrones de decisión',
+  'insights.help': 'Patrones de todas las decisiones de tu diario. Selecciona una barra o un punto para ver las decisiones que hay detrás.',
+  'insights.empty': 'Todavía no hay decisiones. Los patrones aparecerán aquí cuando guardes decisiones en tu diario.',
+  'insights.decisions': '{count, plural, one {# decisión} other {# decisiones}}',
+  'insights.intuitionMatched': 'La intuición coincidió con la realidad',
+  'insights.approachOverTime': 'Enfoque a lo largo del tiempo',
+  'insights.approachOverTimeHelp': '0 es totalmente emocional y 100 totalmente lógico. Cada punto es una decisión, de la más antigua a la más reciente.',
+  'insights.approachOverTimeLabel': 'Enfoque a lo largo del tiempo',
+  'insights.approach': 'Distribución del enfoque',
+  'insights.approachHelp': 'Cómo se reparten tus decisiones entre las guiadas por el instinto y las guiadas por el análisis.',
+  'insights.timeHorizonOverTime': 'Horizonte temporal a lo largo del tiempo',
+  'insights.timeHorizonOverTimeHelp': '0 es corto plazo y 100 largo plazo. Cada punto es una decisión, de la más antigua a la más reciente.',
+  'insights.timeHorizonOverTimeLabel': 'Horizonte temporal a lo largo del tiempo',
+  'insights.timeHorizon': 'Distribución del horizonte temporal',
+  'insights.timeHorizonHelp': 'Hasta dónde sueles mirar.',
+  'insights.values': 'Valores más frecuentes',
+  'insights.valuesHelp': 'Los valores que eliges con más frecuencia al decidir.',
+  'insights.valuesEmpty': 'Ninguna de tus decisiones menciona todavía un valor.',
+  'insights.biases': 'Sesgos detectados con más frecuencia',
+  'insights.biasesHelp': 'Las trampas de pensamiento que el análisis detecta más a menudo en tus decisiones.',
+  'insights.biasesEmpty': 'No se han detectado sesgos en tus decisiones.',
+  'insights.confidence': 'Confianza media por etiqueta',
+  'insights.confidenceHelp': 'Cuánta seguridad tenías, de media, al actuar en las decisiones con cada etiqueta.',
+  'insights.confidenceEmpty': 'Ninguna de tus decisiones tiene todavía una valoración de confianza.',
+  'insights.intuition': 'Intuición frente a realidad',
+  'insights.intuitionHelp': 'En cada decisión con una matriz puntuada: ¿la opción a la que apuntaba tu intuición inicial quedó en cabeza en la versión que elegiste como final?',
+  'insights.intuitionEmpty': 'Todavía no hay nada que comparar. Puntúa tus opciones en la matriz y nombra una en tu intuición para ver con qué frecuencia tu instinto acierta tu elección final.',
+
+  // The value profile
+  'values.title': 'Tus valores',
+  'values.help': 'Ordena lo que más te importa. Tus {max} valores principales se preseleccionan en cada nueva decisión, y los valores mejor clasificados pesan más en el análisis. Arrastra los valores para reordenarlos.',
+  'values.empty': 'Tu perfil está vacío. Añade valores abajo para empezar a ordenarlos.',
+  'values.moveUp': 'Subir {value}',
+  'values.moveDown': 'Bajar {value}',
+  'values.remove': 'Quitar {value}',
+  'values.preselected': 'Preseleccionado en las nuevas decisiones',
+  'values.addOwn': 'Añade un valor propio',
+  'values.custom': 'Valor personalizado',
+  'values.customPlaceholder': 'p. ej., Independencia',
+  'values.add': 'Añadir',
+  'values.common': 'O elige entre los valores habituales',
+  'values.tensions': 'Tensiones entre valores',
+  'values.tensionsHelp': 'Cuando una decisión implica los dos valores de una pareja, el análisis señala el conflicto y qué opciones favorecen a cada lado. Añade parejas que tiren en direcciones opuestas en tu vida.',
+  'values.firstValue': 'Primer valor',
+  'values.secondValue': 'Segundo valor',
+  'values.tensionReason': '¿Por qué chocan? (opcional)',
+  'values.error.load': 'No se ha podido cargar tu perfil de valores.',
+  'values.error.save': 'No se ha podido guardar tu perfil de valores. Inténtalo de nuevo.',
+  'values.error.duplicate': '«{value}» ya está en tu perfil',
+  'values.error.addTension': 'No se ha podido guardar esa tensión. Elige dos valores distintos e inténtalo de nuevo.',
+  'values.error.removeTension': 'No se ha podido quitar esa tensión. Inténtalo de nuevo.',
+
+  'groups.title': 'Decisiones en grupo',
+  'groups.respond': 'Responder a una invitación',
+  'groups.help': 'Decide junto con tu pareja o un pequeño equipo. Tú planteas la pregunta y las opciones; después cada persona da su opinión, en este dispositivo o enviando un archivo de respuesta.',
+  'groups.responses': '{count, plural, one {# respuesta} other {# respuestas}}',
+  'groups.start': 'Empezar una decisión en grupo',
+  'groups.owner': 'Tu nombre',
+  'groups.question': '¿Qué está decidiendo el grupo?',
+  'groups.questionPlaceholder': 'p. ej., ¿Adónde deberíamos ir de vacaciones este año?',
+  'groups.create': 'Crear decisión en grupo',
+  'groups.error.load': 'No se han podido cargar tus decisiones en grupo.',
+  'groups.error.question': 'Escribe tu nombre y la pregunta que está decidiendo el grupo',
+  'groups.error.options': 'Escribe al menos dos opciones para que el grupo las compare',
+  'groups.error.create': 'No se ha podido crear la decisión en grupo. Inténtalo de nuevo.',
+
+  'group.back': 'Volver a las decisiones en grupo',
+  'group.missing': 'Esta decisión en grupo no existe. Puede que se haya eliminado.',
+  'group.startedBy': 'Iniciada por {owner} el {date}',
+  'group.participants': 'Participantes',
+  'group.noResponses': 'Todavía no ha respondido nadie. Añade respuestas en este dispositivo o envía el archivo de invitación a otras personas e importa los archivos de respuesta que te devuelvan.',
+  'group.removeResponse': 'Quitar respuesta',
+  'group.removeResponseOf': 'Quitar la respuesta de {participant}',
+  'group.responded': 'Respondió el {date}',
+  'group.addResponse': 'Añadir una respuesta aquí',
+  'group.downloadInvitation': 'Descargar invitación',
+  'group.importResponse': 'Importar respuesta',
+  'group.yourResponse': 'Tu respuesta',
+  'group.passDevice': 'Pasa el dispositivo a cada participante por turnos. Si alguien responde de nuevo con el mismo nombre, se sustituye su respuesta anterior.',
+  'group.saveResponse': 'Guardar respuesta',
+  'group.analysis': 'Análisis del grupo',
+  'group.delete': 'Eliminar decisión en grupo',
+  'group.deleteTitle': '¿Eliminar esta decisión en grupo?',
+  'group.deleteDescription': 'La pregunta, las opciones y las respuestas de todos los participantes se eliminarán para siempre.',
+  'group.error.load': 'No se ha podido cargar esta decisión en grupo.',
+  'group.error.import': 'No se ha podido importar esta respuesta.',
+  'group.error.remove': 'No se ha podido quitar esta respuesta. Inténtalo de nuevo.',
+  'group.error.delete': 'No se ha podido eliminar esta decisión en grupo. Inténtalo de nuevo.',
+  'group.error.notResponse': 'Este archivo no es una respuesta a una decisión en grupo.',
+  'group.error.responseDamaged': 'Esta respuesta está dañada.',
+  'group.error.otherGroup': 'Esta respuesta pertenece a otra decisión en grupo.',
+
+  'respond.title': 'Responder a una decisión en grupo',
+  'respond.help': 'Abre el archivo de invitación que te enviaron. Tus respuestas se quedan en este dispositivo hasta que devuelvas el archivo de respuesta.',
+  'respond.open': 'Abrir invitación',
+  'respond.askedBy': 'Pregunta de {owner}',
+  'respond.downloaded': 'Se ha descargado tu respuesta. Envía el archivo a {owner} para que pueda importarlo en la decisión en grupo.',
+  'respond.downloadAgain': 'Descargar de nuevo',
+  'respond.submit': 'Descargar mi respuesta',
+  'respond.error.open': 'No se ha podido abrir esta invitación.',
+  'respond.error.notInvitation': 'Este archivo no es una invitación a una decisión en grupo.',
+  'respond.error.invitationDamaged': 'Esta invitación está dañada.',
+
+  'responseForm.values': 'Tus valores más relevantes (hasta {max})',
+  'responseForm.scores': '¿Qué tan buena es cada opción, de 0 (mala) a 10 (excelente)?',
+  'responseForm.scoreFor': 'Puntuación de {option}',
+  'responseForm.error.name': 'Escribe tu nombre',
+  'responseForm.error.save': 'No se ha podido guardar tu respuesta. Inténtalo de nuevo.',
+
+  // Offline use and installing
+  'pwa.offline': 'No tienes conexión. Todo sigue funcionando: tus decisiones, borradores y diario se guardan en este dispositivo.',
+  'pwa.offlineReady': 'Anchor ya funciona sin conexión.',
+  'pwa.updateAvailable': 'Hay una nueva versión de Anchor. Al recargar se conservan tus borradores.',
+  'pwa.reload': 'Recargar',
+  'pwa.later': 'Más tarde',
+  'pwa.install': 'Instalar',
+  'pwa.installTitle': 'Instalar Anchor',
+  'pwa.installSteps': 'En Safari, toca el botón Compartir y elige «Añadir a pantalla de inicio». Anchor se abrirá desde tu pantalla de inicio como cualquier otra aplicación y funcionará sin conexión.',
+
+  'lock.title': 'Anchor está bloqueado',
+  'lock.intro': 'Tus decisiones, borradores y diario están cifrados en este dispositivo. Introduce tu frase de contraseña para abrirlos.',
+  'lock.passphrase': 'Frase de contraseña',
+  'lock.unlock': 'Desbloquear',
+  'lock.wrongPassphrase': 'Esa frase de contraseña no coincide. Revisa si hay errores e inténtalo de nuevo.',
+  'lock.error': 'No se pudo desbloquear Anchor. Inténtalo de nuevo.',
+  'lock.forgotten': '¿Olvidaste tu frase de contraseña? No se puede restablecer ni recuperar, así que tus datos cifrados no se pueden abrir sin ella. Puedes borrarlos y empezar de cero.',
+  'lock.erase': 'Borrar datos cifrados',
+  'lock.eraseTitle': '¿Borrar todos tus datos cifrados?',
+  'lock.eraseBody': 'Tu diario, seguimientos, borradores y decisiones en grupo de este dispositivo se eliminarán para siempre y el cifrado se desactivará. Esto no se puede deshacer.',
+  'security.title': 'Privacidad y cifrado',
+  'security.intro': 'Cifra tu diario, seguimientos, borradores y decisiones en grupo en este dispositivo con una frase de contraseña. Sin ella no se pueden leer, y Anchor se bloquea solo cuando te alejas.',
+  'security.unsupported': 'El cifrado necesita un navegador compatible con WebCrypto y que Anchor se abra mediante https.',
+  'security.forgottenWarning': 'No hay forma de recuperar una frase de contraseña olvidada. Si la olvidas, todo lo cifrado se pierde.',
+  'security.passphrase': 'Frase de contraseña',
+  'security.confirmPassphrase': 'Repite la frase de contraseña',
+  'security.passphraseHelp': 'Al menos {min} caracteres. Una frase corta es fácil de recordar y difícil de adivinar.',
+  'security.acknowledge': 'Entiendo que si olvido mi frase de contraseña, mis datos no se podrán recuperar',
+  'security.enable': 'Activar cifrado',
+  'security.enabled': 'El cifrado está activado. Tus datos no se pueden leer sin tu frase de contraseña.',
+  'security.lockNow': 'Bloquear ahora',
+  'security.autoLock': 'Bloqueo automático',
+  'security.autoLockAfter': 'Tras {minutes, plural, one {# minuto} other {# minutos}} de inactividad',
+  'security.change': 'Cambiar la frase de contraseña',
+  'security.currentPassphrase': 'Frase de contraseña actual',
+  'security.newPassphrase': 'Nueva frase de contraseña',
+  'security.confirmNewPassphrase': 'Repite la nueva frase de contraseña',
+  'security.changeButton': 'Cambiar frase de contraseña',
+  'security.changed': 'Tu frase de contraseña se ha cambiado y tus datos se han cifrado con ella.',
+  'security.disable': 'Desactivar el cifrado',
+  'security.disableHelp': 'Tus datos se descifran y se guardan en este dispositivo como antes.',
+  'security.disableButton': 'Desactivar cifrado',
+  'security.disabled': 'El cifrado está desactivado.',
+  'security.working': 'Cifrando tus datos…',
+  'security.error.tooShort': 'Tu frase de contraseña necesita al menos {min} caracteres.',
+  'security.error.mismatch': 'Las frases de contraseña no coinciden.',
+  'security.error.acknowledge': 'Confirma que entiendes que una frase de contraseña olvidada no se puede recuperar.',
+  'security.error.wrongPassphrase': 'Esa frase de contraseña no coincide con la actual.',
+  'security.error.failed': 'Algo salió mal y tus datos se han quedado como estaban. Inténtalo de nuevo.',
+
+  'sync.synced': 'Sincronizado {time}. Haz clic para sincronizar ahora.',
+  'sync.never': 'Aún sin sincronizar. Haz clic para sincronizar ahora.',
+  'sync.syncing': 'Sincronizando…',
+  'sync.pending': '{count, plural, one {# cambio pendiente} other {# cambios pendientes}} de sincronizar. Haz clic para sincronizar ahora.',
+  'sync.offline': 'Estás sin conexión. {count, plural, =0 {Los cambios se sincronizarán} one {# cambio se sincronizará} other {# cambios se sincronizarán}} cuando vuelvas a tener conexión.',
+  'sync.failed': 'La sincronización falló. {count, plural, =0 {No se ha perdido nada} one {Se conserva # cambio} other {Se conservan # cambios}} para el próximo intento. Haz clic para reintentar.',
+};
@@ -0,0 +1,160 @@
+import { JournalEntry } from '../../types/journal';
+import { Revision } from '../../types/revision';
+import {
+  balanceDistribution,
+  biasFrequency,
+  confidenceByTag,
+  intuitionMatches,
+  timeHorizonDistribution,
+  trendPoints,
+  valueFrequency,
+} from './insights';
+
+interface EntryOptions {
+  createdAt: string;
+  balanceScore?: number;
+  timeHorizon?: number;
+  values?: string[];
+  biases?: string[];
+  tags?: string[];
+  confidenceScore?: number;
+}
+
+const entry = (id: string, options: EntryOptions): JournalEntry => ({
+  id,
+  createdAt: options.createdAt,
+  decision: {
+    id,
+    question: `Question ${id}`,
+    balanceScore: options.balanceScore ?? 50,
+    timeHorizon: options.timeHorizon,
+    values: options.values,
+    confidenceScore: options.confidenceScore,
+  },
+  analysis: {
+    recommendation: '',
+    factors: [],
+    sentiment: { positive: 0, negative: 0, neutral: 1 },
+    detectedBiases: (options.biases || []).map(biasType => ({ biasType, description: '', suggestion: '' })),
+  },
+  tags: options.tags || ['Decision'],
+  notes: '',
+  checkIns: [],
+});
+
+const OPTIONS = ['Move to Lisbon', 'Stay in Porto'];
+
+// A revision whose matrix gives each option the rank at the same position
+const revision = (number: number, initialIntuition: string, ranks: number[]): Revision => ({
+  number,
+  createdAt: `2025-04-0${number}T00:00:00.000Z`,
+  decision: { question: 'Where should I live?', balanceScore: 50, options: OPTIONS, initialIntuition },
+  analysis: {
+    recommendation: '',
+    factors: [],
+    sentiment: { positive: 0, negative: 0, neutral: 1 },
+    matrixRanking: OPTIONS.map((option, index) => ({ option, score: 0, rank: ranks[index] })),
+  },
+});
+
+const decided = (id: string, revisions: Revision[], finalRevision?: number): JournalEntry => {
+  const { decision, analysis } = revisions.find(({ number }) => number === finalRevision) || revisions[revisions.length - 1];
+  return { ...entry(id, { createdAt: '2025-04-01T00:00:00.000Z' }), decision, analysis, revisions, finalRevision };
+};
+
+const entries = [
+  entry('b', {
+    createdAt: '2025-02-01T00:00:00.000Z',
+    balanceScore: 80,
+    timeHorizon: 20,
+    values: ['Family', 'Health'],
+    biases: ['Loss Aversion', 'Anchoring'],
+    tags: ['Decision', 'Career'],
+    confidenceScore: 90,
+  }),
+  entry('a', {
+    createdAt: '2025-01-01T00:00:00.000Z',
+    balanceScore: 20,
+    values: ['Family'],
+    biases: ['Loss Aversion'],
+    tags: ['Decision', 'Career'],
+    confidenceScore: 60,
+  }),
+  entry('c', { createdAt: '2025-03-01T00:00:00.000Z', values: ['Adventure', 'Adventure'], tags: ['Decision', 'Health'] }),
+];
+
+describe('insights', () => {
+  it('lists approach and time horizon oldest first', () => {
+    expect(trendPoints(entries)).toEqual([
+      { entryId: 'a', question: 'Question a', createdAt: '2025-01-01T00:00:00.000Z', balanceScore: 20, timeHorizon: 50 },
+      { entryId: 'b', question: 'Question b', createdAt: '2025-02-01T00:00:00.000Z', balanceScore: 80, timeHorizon: 20 },
+      { entryId: 'c', question: 'Question c', createdAt: '2025-03-01T00:00:00.000Z', balanceScore: 50, timeHorizon: 50 },
+    ]);
+  });
+
+  it('distributes decisions over every band, including empty ones', () => {
+    expect(balanceDistribution(entries).map(({ key, entryIds }) => [key, entryIds])).toEqual([
+      ['emotional', ['a']],
+      ['balanced', ['c']],
+      ['logical', ['b']],
+    ]);
+    expect(timeHorizonDistribution(entries).map(({ key, count }) => [key, count])).toEqual([
+      ['short-term', 1],
+      ['medium-term', 2],
+      ['long-term', 0],
+    ]);
+  });
+
+  it('ranks values and biases by how often they occur, counting each entry once', () => {
+    expect(valueFrequency(entries)).toEqual([
+      { key: 'Family', count: 2, entryIds: ['a', 'b'], value: 2 },
+      { key: 'Adventure', count: 1, entryIds: ['c'], value: 1 },
+      { key: 'Health', count: 1, entryIds: ['b'], value: 1 },
+    ]);
+    expect(biasFrequency(entries).map(({ key, count }) => [key, count])).toEqual([
+      ['Loss Aversion', 2],
+      ['Anchoring', 1],
+    ]);
+  });
+
+  it('averages confidence per tag, leaving out unrated decisions', () => {
+    expect(confidenceByTag(entries)).toEqual([
+      { key: 'Career', count: 2, entryIds: ['a', 'b'], value: 75 },
+      { key: 'Decision', count: 2, entryIds: ['a', 'b'], value: 75 },
+    ]);
+  });
+
+  it('compares the initial intuition with the option that tops the final revision', () => {
+    const summary = intuitionMatches([
+      // Settled on the first revision, where Lisbon came out on top
+      decided('yes', [revision(1, 'Lisbon feels right', [1, 2]), revision(2, 'Lisbon feels right', [2, 1])], 1),
+      // The intuition is taken from the first revision, even though the last one rewrote it
+      decided('partly', [revision(1, 'Either Lisbon or Porto', [2, 1]), revision(2, 'Porto', [2, 1])]),
+      decided('no', [revision(1, 'I would pick option B', [1, 2])]),
+      decided('tie', [revision(1, 'Lisbon', [1, 1])]),
+      decided('vague', [revision(1, 'No idea yet', [1, 2])]),
+      ...entries, // No matrix at all
+    ]);
+
+    expect(summary.compared).toBe(3);
+    expect(summary.groups.map(({ key, entryIds }) => [key, entryIds])).toEqual([
+      ['yes', ['yes']],
+      ['partly', ['partly']],
+      ['no', ['no']],
+    ]);
+    expect(summary.matchRate).toBe(0.5);
+  });
+
+  it('handles an empty journal', () => {
+    expect(intuitionMatches([])).toEqual({
+      groups: [
+        { key: 'yes', count: 0, entryIds: [], value: 0 },
+        { key: 'partly', count: 0, entryIds: [], value: 0 },
+        { key: 'no', count: 0, entryIds: [], value: 0 },
+      ],
+      compared: 0,
+      matchRate: 0,
+    });
+    expect(confidenceByTag([])).toEqual([]);
+  });
+});
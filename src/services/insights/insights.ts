@@ -0,0 +1,132 @@
+import { IntuitionMatch, JournalEntry } from '../../types/journal';
+import { optionsMentioned } from '../analysis/biasDetectors';
+import { timeHorizonBand, TimeHorizonBand } from '../calibration/calibration';
+import { cleanOptions } from '../decision/options';
+import { BalanceBand, balanceBand } from '../journal/journalFilters';
+import { chosenRevision } from '../revisions/revisions';
+
+// One bar of an insights chart, with the journal entries behind it
+export interface InsightGroup<K extends string = string> {
+  key: K;
+  count: number;
+  entryIds: string[];
+  value: number; // What the bar shows; the count unless stated otherwise
+}
+
+// One decision on the approach and time horizon timelines
+export interface TrendPoint {
+  entryId: string;
+  question: string;
+  createdAt: string;
+  balanceScore: number;
+  timeHorizon: number;
+}
+
+export interface IntuitionSummary {
+  groups: InsightGroup<IntuitionMatch>[];
+  compared: number; // Decisions with a final choice and an intuition that names an option
+  matchRate: number; // 0-1; "partly" counts as half a match
+}
+
+const MATCH_WEIGHTS: Record<IntuitionMatch, number> = { yes: 1, partly: 0.5, no: 0 };
+
+const mean = (values: number[]) =>
+  values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const byOldest = (entries: JournalEntry[]) => [...entries].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+export const trendPoints = (entries: JournalEntry[]): TrendPoint[] =>
+  byOldest(entries).map(entry => ({
+    entryId: entry.id,
+    question: entry.decision.question,
+    createdAt: entry.createdAt,
+    balanceScore: entry.decision.balanceScore,
+    timeHorizon: entry.decision.timeHorizon ?? 50,
+  }));
+
+/**
+ * Counts entries per key, most frequent first (ties alphabetically). An entry
+ * is counted once per distinct key it has.
+ */
+export const countBy = (entries: JournalEntry[], keysOf: (entry: JournalEntry) => string[]): InsightGroup[] => {
+  const groups = new Map<string, string[]>();
+  byOldest(entries).forEach(entry => {
+    Array.from(new Set(keysOf(entry))).forEach(key => {
+      groups.set(key, [...(groups.get(key) || []), entry.id]);
+    });
+  });
+  return Array.from(groups.entries())
+    .map(([key, entryIds]) => ({ key, count: entryIds.length, entryIds, value: entryIds.length }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+};
+
+// Every band is listed, including empty ones, so the distribution keeps its shape
+const countByBand = <K extends string>(entries: JournalEntry[], bands: K[], bandOf: (entry: JournalEntry) => K) =>
+  bands.map((key): InsightGroup<K> => {
+    const entryIds = byOldest(entries).filter(entry => bandOf(entry) === key).map(entry => entry.id);
+    return { key, count: entryIds.length, entryIds, value: entryIds.length };
+  });
+
+export const balanceDistribution = (entries: JournalEntry[]) =>
+  countByBand<BalanceBand>(entries, ['emotional', 'balanced', 'logical'], entry => balanceBand(entry.decision.balanceScore));
+
+export const timeHorizonDistribution = (entries: JournalEntry[]) =>
+  countByBand<TimeHorizonBand>(
+    entries,
+    ['short-term', 'medium-term', 'long-term'],
+    entry => timeHorizonBand(entry.decision.timeHorizon ?? 50)
+  );
+
+export const valueFrequency = (entries: JournalEntry[]) =>
+  countBy(entries, entry => entry.decision.values || []);
+
+export const biasFrequency = (entries: JournalEntry[]) =>
+  countBy(entries, entry => (entry.analysis.detectedBiases || []).map(bias => bias.biasType));
+
+/** Average confidence (0-100) per tag, highest first; entries without a confidence are left out. */
+export const confidenceByTag = (entries: JournalEntry[]): InsightGroup[] => {
+  const rated = entries.filter(entry => entry.decision.confidenceScore !== undefined);
+  return countBy(rated, entry => entry.tags)
+    .map(group => ({
+      ...group,
+      value: mean(group.entryIds.map(id => rated.find(entry => entry.id === id)!.decision.confidenceScore!)),
+    }))
+    .sort((a, b) => b.value - a.value || a.key.localeCompare(b.key));
+};
+
+/**
+ * Whether the initial intuition pointed at the final choice: the option that
+ * tops the matrix in the revision the user settled on. "Partly" means the
+ * intuition named that option among others. Undefined when there is no single
+ * top option or the intuition names none.
+ */
+const intuitionMatch = (entry: JournalEntry): IntuitionMatch | undefined => {
+  const revisions = entry.revisions || [];
+  const { decision, analysis } = chosenRevision(revisions, entry.finalRevision) || entry;
+  const top = (analysis.matrixRanking || []).filter(option => option.rank === 1);
+  if (top.length !== 1) {
+    return undefined;
+  }
+  const options = cleanOptions(decision.options);
+  const intuition = (revisions[0] || entry).decision.initialIntuition || '';
+  const mentioned = optionsMentioned(intuition, options).map(index => options[index]);
+  if (mentioned.length === 0) {
+    return undefined;
+  }
+  if (!mentioned.includes(top[0].option)) {
+    return 'no';
+  }
+  return mentioned.length === 1 ? 'yes' : 'partly';
+};
+
+/** How often the initial intuition matched the final choice. */
+export const intuitionMatches = (entries: JournalEntry[]): IntuitionSummary => {
+  const compared = entries.filter(entry => intuitionMatch(entry));
+  const matchOf = (entry: JournalEntry) => intuitionMatch(entry)!;
+  const groups = countByBand<IntuitionMatch>(compared, ['yes', 'partly', 'no'], matchOf);
+  return {
+    groups,
+    compared: compared.length,
+    matchRate: mean(compared.map(entry => MATCH_WEIGHTS[matchOf(entry)])),
+  };
+};
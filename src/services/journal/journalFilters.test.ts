@@ -0,0 +1,109 @@
+import { JournalEntry } from '../../types/journal';
+import { balanceBand, collectFacets, filterJournalEntries } from './journalFilters';
+
+const entry = (id: string, overrides: {
+  createdAt: string;
+  question: string;
+  options?: string[];
+  values?: string[];
+  balanceScore?: number;
+  confidenceScore?: number;
+  tags?: string[];
+  notes?: string;
+}): JournalEntry => ({
+  id,
+  createdAt: overrides.createdAt,
+  decision: {
+    id,
+    question: overrides.question,
+    options: overrides.options,
+    values: overrides.values,
+    balanceScore: overrides.balanceScore ?? 50,
+    confidenceScore: overrides.confidenceScore,
+  },
+  analysis: { recommendation: '', factors: [], sentiment: { positive: 0, negative: 0, neutral: 1 } },
+  tags: overrides.tags || ['Decision'],
+  notes: overrides.notes || '',
+});
+
+const entries = [
+  entry('job', {
+    createdAt: '2025-01-10T12:00:00.000Z',
+    question: 'Should I accept the new job offer?',
+    options: ['Accept', 'Stay at current job'],
+    values: ['Career Growth', 'Financial Security'],
+    balanceScore: 80,
+    confidenceScore: 60,
+    tags: ['Decision', 'Career'],
+  }),
+  entry('move', {
+    createdAt: '2025-02-20T12:00:00.000Z',
+    question: 'Should we move closer to family?',
+    options: ['Move to Leeds', 'Stay in London'],
+    values: ['Family'],
+    balanceScore: 20,
+    confidenceScore: 90,
+    notes: 'Mum offered to help with childcare',
+  }),
+  entry('gym', {
+    createdAt: '2025-03-05T12:00:00.000Z',
+    question: 'Join a gym or run outside?',
+    values: ['Health', 'Financial Security'],
+    balanceScore: 50,
+    tags: ['Decision', 'Health'],
+  }),
+];
+
+const ids = (result: JournalEntry[]) => result.map(e => e.id);
+
+describe('filterJournalEntries', () => {
+  it('sorts newest first by default', () => {
+    expect(ids(filterJournalEntries(entries, {}))).toEqual(['gym', 'move', 'job']);
+    expect(ids(filterJournalEntries(entries, {}, 'oldest'))).toEqual(['job', 'move', 'gym']);
+  });
+
+  it('searches question, options and notes case-insensitively by word', () => {
+    expect(ids(filterJournalEntries(entries, { search: 'JOB offer' }))).toEqual(['job']);
+    expect(ids(filterJournalEntries(entries, { search: 'leeds' }))).toEqual(['move']);
+    expect(ids(filterJournalEntries(entries, { search: 'childcare' }))).toEqual(['move']);
+    expect(ids(filterJournalEntries(entries, { search: 'stay' }))).toEqual(['move', 'job']);
+  });
+
+  it('requires every selected tag and value', () => {
+    expect(ids(filterJournalEntries(entries, { tags: ['Career'] }))).toEqual(['job']);
+    expect(ids(filterJournalEntries(entries, { values: ['Financial Security'] }))).toEqual(['gym', 'job']);
+    expect(ids(filterJournalEntries(entries, { values: ['Financial Security', 'Health'] }))).toEqual(['gym']);
+  });
+
+  it('filters by inclusive date range', () => {
+    expect(ids(filterJournalEntries(entries, { from: '2025-02-01', to: '2025-03-05' }))).toEqual(['gym', 'move']);
+    expect(ids(filterJournalEntries(entries, { to: '2025-01-31' }))).toEqual(['job']);
+  });
+
+  it('filters by emotional-vs-logical band', () => {
+    expect(ids(filterJournalEntries(entries, { balanceBands: ['emotional'] }))).toEqual(['move']);
+    expect(ids(filterJournalEntries(entries, { balanceBands: ['balanced', 'logical'] }))).toEqual(['gym', 'job']);
+  });
+
+  it('sorts by confidence with unknown confidence last', () => {
+    expect(ids(filterJournalEntries(entries, {}, 'most-confident'))).toEqual(['move', 'job', 'gym']);
+    expect(ids(filterJournalEntries(entries, {}, 'least-confident'))).toEqual(['job', 'move', 'gym']);
+  });
+});
+
+describe('balanceBand', () => {
+  it('splits scores into three bands', () => {
+    expect([0, 39, 40, 60, 61, 100].map(balanceBand)).toEqual(
+      ['emotional', 'emotional', 'balanced', 'balanced', 'logical', 'logical']
+    );
+  });
+});
+
+describe('collectFacets', () => {
+  it('lists distinct tags and values', () => {
+    expect(collectFacets(entries)).toEqual({
+      tags: ['Career', 'Decision', 'Health'],
+      values: ['Career Growth', 'Family', 'Financial Security', 'Health'],
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { JournalEntry } from '../../types/journal';
+import { MessageKey } from '../i18n/i18n';
+
+export type BalanceBand = 'emotional' | 'balanced' | 'logical';
+
+export const BALANCE_BANDS: { band: BalanceBand; label: MessageKey }[] = [
+  { band: 'emotional', label: 'band.emotional' },
+  { band: 'balanced', label: 'band.balanced' },
+  { band: 'logical', label: 'band.logical' },
+];
+
+export type JournalSort = 'newest' | 'oldest' | 'most-confident' | 'least-confident';
+
+export interface JournalFilters {
+  search?: string; // Matched against question, options and notes
+  tags?: string[]; // Entry must carry every tag
+  values?: string[]; // Entry must include every value
+  from?: string; // YYYY-MM-DD, inclusive, local time
+  to?: string; // YYYY-MM-DD, inclusive, local time
+  balanceBands?: BalanceBand[]; // Entry must fall in one of them
+}
+
+export const balanceBand = (balanceScore: number): BalanceBand => {
+  if (balanceScore < 40) {
+    return 'emotional';
+  }
+  return balanceScore <= 60 ? 'balanced' : 'logical';
+};
+
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+const endOfDay = (date: string) => new Date(`${date}T23:59:59.999`).getTime();
+
+const searchableText = (entry: JournalEntry) =>
+  [entry.decision.question, ...(entry.decision.options || []), entry.notes].join('\n').toLowerCase();
+
+const matches = (entry: JournalEntry, filters: JournalFilters): boolean => {
+  const { search, tags = [], values = [], from, to, balanceBands = [] } = filters;
+
+  // Every search word must appear somewhere, so "job offer" finds "offer for a new job"
+  const words = (search || '').toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length > 0) {
+    const text = searchableText(entry);
+    if (!words.every(word => text.includes(word))) {
+      return false;
+    }
+  }
+
+  if (!tags.every(tag => entry.tags.includes(tag))) {
+    return false;
+  }
+
+  const entryValues = entry.decision.values || [];
+  if (!values.every(value => entryValues.includes(value))) {
+    return false;
+  }
+
+  const created = new Date(entry.createdAt).getTime();
+  if ((from && created < startOfDay(from)) || (to && created > endOfDay(to))) {
+    return false;
+  }
+
+  if (balanceBands.length > 0 && !balanceBands.includes(balanceBand(entry.decision.balanceScore))) {
+    return false;
+  }
+
+  return true;
+};
+
+// Unknown confidence sorts after any recorded confidence in both directions
+const compareConfidence = (a: JournalEntry, b: JournalEntry, direction: 1 | -1) => {
+  const confidenceA = a.decision.confidenceScore;
+  const confidenceB = b.decision.confidenceScore;
+  if (confidenceA === undefined || confidenceB === undefined) {
+    return (confidenceA === undefined ? 1 : 0) - (confidenceB === undefined ? 1 : 0);
+  }
+  return (confidenceA - confidenceB) * direction;
+};
+
+const comparators: Record<JournalSort, (a: JournalEntry, b: JournalEntry) => number> = {
+  newest: (a, b) => b.createdAt.localeCompare(a.createdAt),
+  oldest: (a, b) => a.createdAt.localeCompare(b.createdAt),
+  'most-confident': (a, b) => compareConfidence(a, b, -1) || b.createdAt.localeCompare(a.createdAt),
+  'least-confident': (a, b) => compareConfidence(a, b, 1) || b.createdAt.localeCompare(a.createdAt),
+};
+
+export const filterJournalEntries = (
+  entries: JournalEntry[],
+  filters: JournalFilters,
+  sort: JournalSort = 'newest'
+): JournalEntry[] => entries.filter(entry => matches(entry, filters)).sort(comparators[sort]);
+
+// Distinct tags and values across the journal, for populating the filter pickers
+export const collectFacets = (entries: JournalEntry[]) => {
+  const tags = new Set<string>();
+  const values = new Set<string>();
+  entries.forEach(entry => {
+    entry.tags.forEach(tag => tags.add(tag));
+    (entry.decision.values || []).forEach(value => values.add(value));
+  });
+  return {
+    tags: Array.from(tags).sort(),
+    values: Array.from(values).sort(),
+  };
+};
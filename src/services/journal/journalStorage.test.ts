@@ -0,0 +1,100 @@
+import { Analysis, Decision } from '../../types/decision';
+import { JournalEntry } from '../../types/journal';
+import { createLocalStorageStore } from '../storage/recordStore';
+import { createJournalStorage } from './journalStorage';
+
+const decision: Decision = {
+  question: 'Should I adopt a dog?',
+  balanceScore: 30,
+  timeHorizon: 80,
+  options: ['Adopt now', 'Wait until next year'],
+  values: ['Happiness'],
+  initialIntuition: 'Yes, I have wanted one for years',
+  confidenceScore: 75,
+};
+
+const analysis: Analysis = {
+  recommendation: 'Go for it',
+  factors: [{ name: 'Happiness alignment', score: 90, valueAlignment: 'Happiness' }],
+  sentiment: { positive: 0.7, negative: 0.1, neutral: 0.2 },
+};
+
+const clock = (...isoTimes: string[]) => {
+  let index = 0;
+  return () => new Date(isoTimes[Math.min(index++, isoTimes.length - 1)]);
+};
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('journalStorage', () => {
+  it('saves a complete entry with a generated id and timestamp', async () => {
+    const journal = createJournalStorage(createLocalStorageStore<JournalEntry>('journal'), clock('2025-01-02T10:00:00.000Z'));
+
+    const saved = await journal.saveEntry({ decision, analysis, tags: ['Decision', 'Health'], notes: 'Talk to landlord' });
+
+    expect(saved.id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(saved.createdAt).toBe('2025-01-02T10:00:00.000Z');
+    expect(saved.decision).toEqual({ ...decision, id: saved.id });
+    expect(await journal.getEntry(saved.id)).toEqual(saved);
+  });
+
+  it('lists entries newest first and survives a reload', async () => {
+    const store = createLocalStorageStore<JournalEntry>('journal');
+    const journal = createJournalStorage(store, clock('2025-01-01T00:00:00.000Z', '2025-03-01T00:00:00.000Z'));
+    const older = await journal.saveEntry({ decision, analysis, tags: ['Decision'], notes: '' });
+    const newer = await journal.saveEntry({ decision, analysis, tags: ['Decision'], notes: '' });
+
+    const reloaded = createJournalStorage(createLocalStorageStore<JournalEntry>('journal'));
+    expect((await reloaded.listEntries()).map(entry => entry.id)).toEqual([newer.id, older.id]);
+  });
+
+  it('updates tags and notes', async () => {
+    const journal = createJournalStorage(
+      createLocalStorageStore<JournalEntry>('journal'),
+      clock('2025-01-01T00:00:00.000Z', '2025-01-05T00:00:00.000Z')
+    );
+    const saved = await journal.saveEntry({ decision, analysis, tags: ['Decision'], notes: '' });
+
+    const updated = await journal.updateEntry(saved.id, { notes: 'Adopted Rex', tags: ['Decision', 'Health'] });
+
+    expect(updated).toEqual({ ...saved, notes: 'Adopted Rex', tags: ['Decision', 'Health'], updatedAt: '2025-01-05T00:00:00.000Z' });
+    expect(await journal.getEntry(saved.id)).toEqual(updated);
+  });
+
+  it('imports an entry under a new id but keeps its date and check-ins', async () => {
+    const journal = createJournalStorage(createLocalStorageStore<JournalEntry>('journal'), clock('2025-06-01T00:00:00.000Z'));
+    const checkIns = [{ id: 'c1', createdAt: '2024-01-01T00:00:00.000Z', scheduledFor: '2024-02-01T00:00:00.000Z', remind: false }];
+
+    const imported = await journal.importEntry({
+      decision: { ...decision, id: 'original' },
+      analysis,
+      tags: ['Decision'],
+      notes: '',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      checkIns,
+    });
+
+    expect(imported.id).not.toBe('original');
+    expect(imported.decision.id).toBe(imported.id);
+    expect(imported.createdAt).toBe('2024-01-01T00:00:00.000Z');
+    expect(imported.checkIns).toEqual(checkIns);
+    expect(await journal.getEntry(imported.id)).toEqual(imported);
+  });
+
+  it('rejects updates to missing entries', async () => {
+    const journal = createJournalStorage(createLocalStorageStore<JournalEntry>('journal'));
+    await expect(journal.updateEntry('missing', { notes: 'x' })).rejects.toThrow('does not exist');
+  });
+
+  it('deletes entries', async () => {
+    const journal = createJournalStorage(createLocalStorageStore<JournalEntry>('journal'));
+    const saved = await journal.saveEntry({ decision, analysis, tags: ['Decision'], notes: '' });
+
+    await journal.deleteEntry(saved.id);
+
+    expect(await journal.getEntry(saved.id)).toBeUndefined();
+    expect(await journal.listEntries()).toEqual([]);
+  });
+});
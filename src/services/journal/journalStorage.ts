@@ -0,0 +1,62 @@
+import { ImportedJournalEntry, JournalEntry, JournalEntryChanges, NewJournalEntry } from '../../types/journal';
+import { generateId } from '../storage/generateId';
+import { createRecordStore, RecordStore } from '../storage/recordStore';
+import { vault } from '../encryption/vault';
+import { journalSyncMapping, syncClient } from '../sync';
+
+export interface JournalStorage {
+  listEntries: () => Promise<JournalEntry[]>; // Newest first
+  getEntry: (id: string) => Promise<JournalEntry | undefined>;
+  saveEntry: (entry: NewJournalEntry) => Promise<JournalEntry>;
+  importEntry: (entry: ImportedJournalEntry) => Promise<JournalEntry>; // Keeps the original date and check-ins
+  updateEntry: (id: string, changes: JournalEntryChanges) => Promise<JournalEntry>;
+  deleteEntry: (id: string) => Promise<void>;
+}
+
+export const createJournalStorage = (
+  store: RecordStore<JournalEntry> = syncClient.track(
+    vault.protect<JournalEntry>(createRecordStore('journal')),
+    journalSyncMapping
+  ),
+  now: () => Date = () => new Date()
+): JournalStorage => ({
+  listEntries: async () => {
+    const entries = await store.getAll();
+    return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  },
+
+  getEntry: (id) => store.get(id),
+
+  saveEntry: async (entry) => {
+    const id = generateId();
+    const saved: JournalEntry = {
+      ...entry,
+      id,
+      createdAt: now().toISOString(),
+      decision: { ...entry.decision, id },
+    };
+    await store.put(saved);
+    return saved;
+  },
+
+  importEntry: async (entry) => {
+    const id = generateId();
+    const imported: JournalEntry = { ...entry, id, decision: { ...entry.decision, id } };
+    await store.put(imported);
+    return imported;
+  },
+
+  updateEntry: async (id, changes) => {
+    const existing = await store.get(id);
+    if (!existing) {
+      throw new Error(`Journal entry ${id} does not exist`);
+    }
+    const updated: JournalEntry = { ...existing, ...changes, updatedAt: now().toISOString() };
+    await store.put(updated);
+    return updated;
+  },
+
+  deleteEntry: (id) => store.delete(id),
+});
+
+export const journalStorage = createJournalStorage();
@@ -0,0 +1,21 @@
+import { MessageKey, Translate } from '../i18n/i18n';
+
+// Tags offered when saving to the journal; 'Decision' is always applied
+export const JOURNAL_TAGS = ['Decision', 'Career', 'Relationships', 'Finance', 'Health'];
+
+// Offered tags are stored in English so filters work whatever language the entry was saved in
+const TAG_MESSAGES: Record<string, MessageKey> = {
+  'Decision': 'tag.decision',
+  'Career': 'tag.career',
+  'Relationships': 'tag.relationships',
+  'Finance': 'tag.finance',
+  'Health': 'tag.health',
+};
+
+export const tagLabel = (tag: string, t: Translate): string => (TAG_MESSAGES[tag] ? t(TAG_MESSAGES[tag]) : tag);
+
+export const DEFAULT_JOURNAL_TAG = 'Decision';
+
+// Keeps the default tag on every entry whatever the user picks
+export const withDefaultTag = (tags: string[]): string[] =>
+  tags.includes(DEFAULT_JOURNAL_TAG) ? tags : [DEFAULT_JOURNAL_TAG, ...tags];
@@ -0,0 +1,42 @@
+import { isStandalone, needsManualInstall } from './installPrompt';
+
+const IPHONE_SAFARI =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) ' +
+  'Version/17.4 Mobile/15E148 Safari/604.1';
+const IPHONE_CHROME =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) ' +
+  'CriOS/124.0.6367.88 Mobile/15E148 Safari/604.1';
+const IPAD_SAFARI =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) ' +
+  'Version/17.4 Safari/605.1.15';
+const ANDROID_CHROME =
+  'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) ' +
+  'Chrome/124.0.0.0 Mobile Safari/537.36';
+
+describe('needsManualInstall', () => {
+  it('explains the steps in Safari on iPhones and iPads', () => {
+    expect(needsManualInstall(IPHONE_SAFARI, 5)).toBe(true);
+    expect(needsManualInstall(IPAD_SAFARI, 5)).toBe(true);
+  });
+
+  it('leaves other browsers to their own install prompt', () => {
+    expect(needsManualInstall(IPHONE_CHROME, 5)).toBe(false);
+    expect(needsManualInstall(ANDROID_CHROME, 5)).toBe(false);
+    expect(needsManualInstall(IPAD_SAFARI, 0)).toBe(false); // A Mac, not an iPad
+  });
+});
+
+describe('isStandalone', () => {
+  it('is false in a browser tab', () => {
+    expect(isStandalone()).toBe(false);
+  });
+
+  it('is true when launched as an installed app', () => {
+    window.matchMedia = jest.fn().mockReturnValue({ matches: true });
+    try {
+      expect(isStandalone()).toBe(true);
+    } finally {
+      delete (window as { matchMedia?: unknown }).matchMedia;
+    }
+  });
+});
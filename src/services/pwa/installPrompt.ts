@@ -0,0 +1,25 @@
+// Chromium's install event, which the DOM typings don't include
+export interface BeforeInstallPromptEvent extends Event {
+  prompt: () => Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed'; platform: string }>;
+}
+
+// Already running as an installed app, from the home screen or the app launcher
+export const isStandalone = (): boolean =>
+  (typeof window !== 'undefined' && !!window.matchMedia && window.matchMedia('(display-mode: standalone)').matches) ||
+  (typeof navigator !== 'undefined' && (navigator as Navigator & { standalone?: boolean }).standalone === true);
+
+/**
+ * iPhones and iPads never fire an install event: Safari installs web apps
+ * only from its Share menu, so the app has to explain the steps instead.
+ * iPadOS asks for desktop sites and reports itself as a touch-screen Mac.
+ */
+export const needsManualInstall = (
+  userAgent: string = typeof navigator !== 'undefined' ? navigator.userAgent : '',
+  maxTouchPoints: number = typeof navigator !== 'undefined' ? navigator.maxTouchPoints || 0 : 0
+): boolean => {
+  const appleMobile = /iPhone|iPad|iPod/.test(userAgent) || (/Macintosh/.test(userAgent) && maxTouchPoints > 1);
+  // Other browsers on iOS can't install web apps at all
+  const safari = /Safari/.test(userAgent) && !/CriOS|FxiOS|EdgiOS/.test(userAgent);
+  return appleMobile && safari;
+};
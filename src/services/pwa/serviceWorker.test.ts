@@ -0,0 +1,101 @@
+import { applyUpdate, registerServiceWorker, SKIP_WAITING_MESSAGE } from './serviceWorker';
+
+// Just enough of the service worker API to drive the install and update lifecycle by hand
+class FakeWorker extends EventTarget {
+  state: ServiceWorkerState = 'installing';
+  postMessage = jest.fn();
+
+  becomes(state: ServiceWorkerState) {
+    this.state = state;
+    this.dispatchEvent(new Event('statechange'));
+  }
+}
+
+class FakeRegistration extends EventTarget {
+  installing: FakeWorker | null = null;
+  waiting: FakeWorker | null = null;
+
+  startUpdate() {
+    this.installing = new FakeWorker();
+    this.dispatchEvent(new Event('updatefound'));
+    return this.installing;
+  }
+}
+
+class FakeContainer extends EventTarget {
+  controller: FakeWorker | null = null;
+  registration = new FakeRegistration();
+  register = jest.fn(async () => this.registration);
+}
+
+let container: FakeContainer;
+
+beforeEach(() => {
+  container = new FakeContainer();
+  Object.defineProperty(navigator, 'serviceWorker', { value: container, configurable: true });
+});
+
+afterEach(() => {
+  delete (navigator as { serviceWorker?: unknown }).serviceWorker;
+});
+
+describe('registerServiceWorker', () => {
+  it('does nothing outside production builds', async () => {
+    await expect(registerServiceWorker()).resolves.toBeUndefined();
+    expect(container.register).not.toHaveBeenCalled();
+  });
+
+  it('reports that the app works offline after the first install', async () => {
+    const onOfflineReady = jest.fn();
+    const onUpdate = jest.fn();
+    await registerServiceWorker({ onOfflineReady, onUpdate }, { enabled: true, url: '/service-worker.js' });
+    expect(container.register).toHaveBeenCalledWith('/service-worker.js');
+
+    container.registration.startUpdate().becomes('installed');
+    expect(onOfflineReady).toHaveBeenCalledTimes(1);
+    expect(onUpdate).not.toHaveBeenCalled();
+  });
+
+  it('reports a new version once it is installed alongside the running one', async () => {
+    container.controller = new FakeWorker();
+    const onUpdate = jest.fn();
+    const registration = await registerServiceWorker({ onUpdate }, { enabled: true });
+
+    const worker = container.registration.startUpdate();
+    worker.becomes('installing');
+    expect(onUpdate).not.toHaveBeenCalled();
+    worker.becomes('installed');
+    expect(onUpdate).toHaveBeenCalledWith(registration);
+  });
+
+  it('reports a version that was already waiting when the app opened', async () => {
+    container.controller = new FakeWorker();
+    container.registration.waiting = new FakeWorker();
+    const onUpdate = jest.fn();
+    await registerServiceWorker({ onUpdate }, { enabled: true });
+
+    expect(onUpdate).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('applyUpdate', () => {
+  it('asks the waiting version to take over and reloads once it has', () => {
+    const registration = container.registration;
+    registration.waiting = new FakeWorker();
+    const reload = jest.fn();
+
+    applyUpdate(registration as unknown as ServiceWorkerRegistration, reload);
+    expect(registration.waiting.postMessage).toHaveBeenCalledWith({ type: SKIP_WAITING_MESSAGE });
+    expect(reload).not.toHaveBeenCalled();
+
+    container.dispatchEvent(new Event('controllerchange'));
+    container.dispatchEvent(new Event('controllerchange'));
+    expect(reload).toHaveBeenCalledTimes(1);
+  });
+
+  it('just reloads when nothing is waiting', () => {
+    const reload = jest.fn();
+    applyUpdate(container.registration as unknown as ServiceWorkerRegistration, reload);
+    expect(reload).toHaveBeenCalledTimes(1);
+  });
+});
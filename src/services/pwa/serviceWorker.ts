@@ -0,0 +1,76 @@
+// Sent to a waiting service worker to make it take over; see src/service-worker.ts
+export const SKIP_WAITING_MESSAGE = 'SKIP_WAITING';
+
+export interface ServiceWorkerCallbacks {
+  onUpdate?: (registration: ServiceWorkerRegistration) => void; // A new version is installed and waiting
+  onOfflineReady?: () => void; // The first version is installed, so the app now works offline
+}
+
+export interface RegisterOptions {
+  enabled?: boolean;
+  url?: string;
+}
+
+export const serviceWorkerSupported = () => typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+
+const watchInstalling = (registration: ServiceWorkerRegistration, { onUpdate, onOfflineReady }: ServiceWorkerCallbacks) => {
+  const worker = registration.installing;
+  if (!worker) {
+    return;
+  }
+  worker.addEventListener('statechange', () => {
+    if (worker.state !== 'installed') {
+      return;
+    }
+    // An existing controller means an older version is running this page; without one this is the first install
+    if (navigator.serviceWorker.controller) {
+      onUpdate?.(registration);
+    } else {
+      onOfflineReady?.();
+    }
+  });
+};
+
+/**
+ * Registers the service worker the production build generates from
+ * src/service-worker.ts. Development builds skip it: their bundles change on
+ * every edit, and a cached copy would hide the changes.
+ */
+export const registerServiceWorker = async (
+  callbacks: ServiceWorkerCallbacks = {},
+  {
+    enabled = process.env.NODE_ENV === 'production',
+    url = `${process.env.PUBLIC_URL}/service-worker.js`,
+  }: RegisterOptions = {}
+): Promise<ServiceWorkerRegistration | undefined> => {
+  if (!enabled || !serviceWorkerSupported()) {
+    return undefined;
+  }
+
+  const registration = await navigator.serviceWorker.register(url);
+  // A new version may have finished installing while the app was closed
+  if (registration.waiting && navigator.serviceWorker.controller) {
+    callbacks.onUpdate?.(registration);
+  }
+  watchInstalling(registration, callbacks);
+  registration.addEventListener('updatefound', () => watchInstalling(registration, callbacks));
+  return registration;
+};
+
+// Activates the waiting version and reloads once it controls the page, so the app and its cache match
+export const applyUpdate = (registration: ServiceWorkerRegistration, reload = () => window.location.reload()) => {
+  const { waiting } = registration;
+  if (!waiting) {
+    reload();
+    return;
+  }
+
+  let reloading = false;
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (!reloading) {
+      reloading = true;
+      reload();
+    }
+  });
+  waiting.postMessage({ type: SKIP_WAITING_MESSAGE });
+};
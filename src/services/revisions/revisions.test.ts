@@ -0,0 +1,130 @@
+import { Analysis, Decision } from '../../types/decision';
+import { Revision } from '../../types/revision';
+import { addRevision, chosenRevision, compareRevisions, reviseLatest } from './revisions';
+
+const decision: Decision = {
+  question: 'Should I move abroad?',
+  balanceScore: 40,
+  timeHorizon: 70,
+  options: ['Move', 'Stay'],
+  values: ['Adventure'],
+  initialIntuition: 'Move',
+  matrix: {
+    criteria: [{ id: 'c1', name: 'Cost', weight: 3 }],
+    scores: { Move: { c1: 4 }, Stay: { c1: 8 } },
+  },
+};
+
+const analysis: Analysis = {
+  recommendation: 'Move',
+  factors: [
+    { name: 'Financial impact', score: 50 },
+    { name: 'Adventure alignment', score: 80 },
+  ],
+  sentiment: { positive: 0.5, negative: 0.2, neutral: 0.3 },
+  detectedBiases: [{ biasType: 'Optimism Bias', description: '', suggestion: '' }],
+  optionPositions: { Move: { x: 30, y: 80 }, Stay: { x: 60, y: 40 } },
+  matrixRanking: [{ option: 'Stay', score: 80, rank: 1 }, { option: 'Move', score: 40, rank: 2 }],
+};
+
+const revision = (number: number, changes: Partial<Decision> = {}, analysisChanges: Partial<Analysis> = {}): Revision => ({
+  number,
+  createdAt: `2025-01-0${number}T00:00:00.000Z`,
+  decision: { ...decision, ...changes },
+  analysis: { ...analysis, ...analysisChanges },
+});
+
+describe('addRevision', () => {
+  it('numbers revisions in submission order', () => {
+    const first = addRevision([], decision, analysis, '2025-01-01T00:00:00.000Z');
+    const second = addRevision(first, decision, analysis, '2025-01-02T00:00:00.000Z');
+
+    expect(second.map(({ number, createdAt }) => ({ number, createdAt }))).toEqual([
+      { number: 1, createdAt: '2025-01-01T00:00:00.000Z' },
+      { number: 2, createdAt: '2025-01-02T00:00:00.000Z' },
+    ]);
+  });
+});
+
+describe('reviseLatest', () => {
+  it('replaces only the latest revision and keeps its number', () => {
+    const revisions = [revision(1), revision(2)];
+    const revised = reviseLatest(revisions, decision, { ...analysis, recommendation: 'Stay' });
+
+    expect(revised[0]).toBe(revisions[0]);
+    expect(revised[1]).toEqual({ ...revisions[1], analysis: { ...analysis, recommendation: 'Stay' } });
+    expect(reviseLatest([], decision, analysis)).toEqual([]);
+  });
+});
+
+describe('chosenRevision', () => {
+  it('prefers the final revision and falls back to the latest', () => {
+    const revisions = [revision(1), revision(2), revision(3)];
+    expect(chosenRevision(revisions, 2)?.number).toBe(2);
+    expect(chosenRevision(revisions, null)?.number).toBe(3);
+    expect(chosenRevision([], null)).toBeUndefined();
+  });
+});
+
+describe('compareRevisions', () => {
+  it('finds nothing to report between identical revisions', () => {
+    expect(compareRevisions(revision(1), revision(2))).toEqual({
+      inputs: [],
+      recommendationChanged: false,
+      topRanked: { before: 'Stay', after: 'Stay' },
+      factors: [],
+      biasesAdded: [],
+      biasesRemoved: [],
+      positions: [],
+    });
+  });
+
+  it('lists the inputs the user changed', () => {
+    const comparison = compareRevisions(
+      revision(1),
+      revision(2, { balanceScore: 65, options: ['Move', 'Stay', 'Move later'], stakes: 'Family' })
+    );
+
+    expect(comparison.inputs).toEqual([
+      { label: 'Approach', before: '40% logical', after: '65% logical' },
+      { label: 'Options', before: 'Move, Stay', after: 'Move, Stay, Move later' },
+      { label: 'Stakes', before: '(none)', after: 'Family' },
+    ]);
+  });
+
+  it('notices a rescored matrix and a skipped one', () => {
+    const rescored = compareRevisions(revision(1), revision(2, { matrix: { ...decision.matrix!, scores: { Move: { c1: 9 } } } }));
+    expect(rescored.inputs).toEqual([{ label: 'Decision matrix', before: 'Earlier scores', after: 'Rescored' }]);
+
+    const skipped = compareRevisions(revision(1), revision(2, { matrix: undefined }));
+    expect(skipped.inputs).toEqual([{ label: 'Decision matrix', before: 'Cost ×3', after: '(skipped)' }]);
+  });
+
+  it('shows how the analysis shifted', () => {
+    const comparison = compareRevisions(
+      revision(1),
+      revision(2, {}, {
+        recommendation: 'Stay',
+        factors: [
+          { name: 'Financial impact', score: 55 },
+          { name: 'Adventure alignment', score: 60 },
+          { name: 'Impact on Family', score: 70 },
+        ],
+        detectedBiases: [{ biasType: 'Status Quo Bias', description: '', suggestion: '' }],
+        optionPositions: { Move: { x: 30.4, y: 80 }, Stay: { x: 75, y: 40 } },
+        matrixRanking: [{ option: 'Move', score: 70, rank: 1 }],
+      })
+    );
+
+    expect(comparison.recommendationChanged).toBe(true);
+    expect(comparison.topRanked).toEqual({ before: 'Stay', after: 'Move' });
+    expect(comparison.factors).toEqual([
+      { name: 'Impact on Family', after: 70 },
+      { name: 'Adventure alignment', before: 80, after: 60 },
+      { name: 'Financial impact', before: 50, after: 55 },
+    ]);
+    expect(comparison.biasesAdded).toEqual(['Status Quo Bias']);
+    expect(comparison.biasesRemoved).toEqual(['Optimism Bias']);
+    expect(comparison.positions).toEqual([{ option: 'Stay', before: { x: 60, y: 40 }, after: { x: 75, y: 40 } }]);
+  });
+});
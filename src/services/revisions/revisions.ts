@@ -0,0 +1,145 @@
+import { Analysis, Decision, DecisionMatrix, OptionPosition } from '../../types/decision';
+import { Revision } from '../../types/revision';
+import { createTranslator, MessageKey, Translate } from '../i18n/i18n';
+import { valueLabel } from '../values/valueProfile';
+
+// Positions closer than this are the same place on the compass once rounded for display
+const MIN_POSITION_SHIFT = 1;
+
+export interface InputChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface FactorShift {
+  name: string;
+  before?: number; // Absent when the factor is new in the later revision
+  after?: number; // Absent when the factor was dropped
+}
+
+export interface PositionShift {
+  option: string;
+  before?: OptionPosition;
+  after?: OptionPosition;
+}
+
+export interface RevisionComparison {
+  inputs: InputChange[];
+  recommendationChanged: boolean;
+  topRanked: { before?: string; after?: string }; // Best option in the matrix ranking
+  factors: FactorShift[]; // Biggest shift first
+  biasesAdded: string[];
+  biasesRemoved: string[];
+  positions: PositionShift[];
+}
+
+export const addRevision = (revisions: Revision[], decision: Decision, analysis: Analysis, createdAt: string): Revision[] => [
+  ...revisions,
+  { number: (revisions[revisions.length - 1]?.number || 0) + 1, createdAt, decision, analysis },
+];
+
+// Compass placements refine the latest analysis rather than starting a new revision
+export const reviseLatest = (revisions: Revision[], decision: Decision, analysis: Analysis): Revision[] =>
+  revisions.length === 0
+    ? revisions
+    : [...revisions.slice(0, -1), { ...revisions[revisions.length - 1], decision, analysis }];
+
+// The revision that stands for the decision: the one marked final, otherwise the latest
+export const chosenRevision = (revisions: Revision[], finalRevision?: number | null): Revision | undefined =>
+  revisions.find(revision => revision.number === finalRevision) || revisions[revisions.length - 1];
+
+const describeList = (items: string[] = [], t: Translate) => (items.length > 0 ? items.join(', ') : t('common.none'));
+
+const describeText = (text = '', t: Translate) => text.trim() || t('common.none');
+
+const describeMatrix = (matrix: DecisionMatrix | undefined, t: Translate) =>
+  matrix
+    ? describeList(matrix.criteria.map(criterion => `${criterion.name} ×${criterion.weight}`), t)
+    : t('revision.skipped');
+
+const INPUTS: { label: MessageKey; describe: (decision: Decision, t: Translate) => string }[] = [
+  { label: 'revision.input.question', describe: (decision, t) => describeText(decision.question, t) },
+  { label: 'revision.input.approach', describe: (decision, t) => t('revision.logical', { percent: decision.balanceScore }) },
+  { label: 'revision.input.timeHorizon', describe: (decision, t) => t('revision.longTerm', { percent: decision.timeHorizon ?? 50 }) },
+  { label: 'revision.input.options', describe: (decision, t) => describeList(decision.options, t) },
+  { label: 'revision.input.stakes', describe: (decision, t) => describeText(decision.stakes, t) },
+  { label: 'revision.input.values', describe: (decision, t) => describeList(decision.values?.map(value => valueLabel(value, t)), t) },
+  { label: 'revision.input.intuition', describe: (decision, t) => describeText(decision.initialIntuition, t) },
+  { label: 'revision.input.matrix', describe: (decision, t) => describeMatrix(decision.matrix, t) },
+  {
+    label: 'revision.input.placements',
+    describe: (decision, t) => describeList(Object.keys(decision.positionCorrections || {}), t),
+  },
+];
+
+const compareInputs = (from: Decision, to: Decision, t: Translate): InputChange[] => {
+  const changed = INPUTS
+    .map(({ label, describe }) => ({ label, before: describe(from, t), after: describe(to, t) }))
+    .filter(change => change.before !== change.after);
+
+  // Rescoring keeps the criteria the same, so it only shows up in the scores
+  const matrixRescored = !changed.some(change => change.label === 'revision.input.matrix') &&
+    JSON.stringify(from.matrix?.scores || {}) !== JSON.stringify(to.matrix?.scores || {});
+  if (matrixRescored) {
+    changed.push({ label: 'revision.input.matrix', before: t('revision.earlierScores'), after: t('revision.rescored') });
+  }
+  return changed.map(change => ({ ...change, label: t(change.label) }));
+};
+
+const compareFactors = (from: Analysis, to: Analysis): FactorShift[] => {
+  const before = new Map(from.factors.map(factor => [factor.name, factor.score]));
+  const after = new Map(to.factors.map(factor => [factor.name, factor.score]));
+  const names = Array.from(new Set([...Array.from(before.keys()), ...Array.from(after.keys())]));
+  const size = (shift: FactorShift) =>
+    shift.before === undefined || shift.after === undefined ? Infinity : Math.abs(shift.after - shift.before);
+
+  return names
+    .map(name => ({
+      name,
+      ...(before.has(name) ? { before: before.get(name) } : {}),
+      ...(after.has(name) ? { after: after.get(name) } : {}),
+    }))
+    .filter(shift => shift.before !== shift.after)
+    .sort((a, b) => size(b) - size(a));
+};
+
+const comparePositions = (from: Analysis, to: Analysis): PositionShift[] => {
+  const before = from.optionPositions || {};
+  const after = to.optionPositions || {};
+  const options = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return options
+    .filter((option) => {
+      const a = before[option];
+      const b = after[option];
+      return !a || !b || Math.hypot(a.x - b.x, a.y - b.y) >= MIN_POSITION_SHIFT;
+    })
+    .map(option => ({
+      option,
+      ...(before[option] ? { before: before[option] } : {}),
+      ...(after[option] ? { after: after[option] } : {}),
+    }));
+};
+
+/**
+ * What changed between two revisions: the inputs the user edited, then how
+ * the analysis responded to them.
+ */
+export const compareRevisions = (from: Revision, to: Revision, t: Translate = createTranslator()): RevisionComparison => {
+  const biasesBefore = (from.analysis.detectedBiases || []).map(bias => bias.biasType);
+  const biasesAfter = (to.analysis.detectedBiases || []).map(bias => bias.biasType);
+
+  return {
+    inputs: compareInputs(from.decision, to.decision, t),
+    recommendationChanged: from.analysis.recommendation !== to.analysis.recommendation,
+    topRanked: {
+      before: from.analysis.matrixRanking?.[0]?.option,
+      after: to.analysis.matrixRanking?.[0]?.option,
+    },
+    factors: compareFactors(from.analysis, to.analysis),
+    biasesAdded: biasesAfter.filter(bias => !biasesBefore.includes(bias)),
+    biasesRemoved: biasesBefore.filter(bias => !biasesAfter.includes(bias)),
+    positions: comparePositions(from.analysis, to.analysis),
+  };
+};
@@ -0,0 +1,114 @@
+import { findNewMatches, highestSeverity, matchKey, screenFields, screenText } from './safetyScreening';
+import { defaultRegionCode, INTERNATIONAL_REGION, loadRegionPreference, saveRegionPreference } from './supportResources';
+
+// Everyday decision language that a substring check used to flag
+const FALSE_POSITIVES = [
+  'Should I take a course to improve my skills?',
+  'Should I go on a diet before the wedding?',
+  'I want more harmony at home',
+  'This commute is killing me',
+  'Should we kill the side project and focus?',
+  'I am a die-hard fan of the city',
+  'I am dying to try living abroad',
+  'It hit me that I need a change',
+  'I will stick to my guns on the salary',
+  'The deadline is tight and this job is a dead end',
+  'I bombed the interview last week',
+  'Should I attack the debt or invest first?',
+  'My harmful habit is doom-scrolling',
+  'The studio had a killer view',
+  'Should I study medicine?',
+  'Would taking this job kill my career?',
+  'Will this hurt my chances of promotion?',
+  'Should I shoot my wedding photos myself?',
+  'Should I buy a knife set for the kitchen?',
+  'Should we get a gun dog?',
+  'Me muero de ganas de mudarme a Madrid',
+  'Quiero vivir en otra ciudad',
+  'No quiero vivir en Madrid',
+  'No quiero vivir con mis padres',
+  'Would breaking up with him hurt him?',
+  'Will moving abroad hurt my family?',
+  'Would quitting hurt my kids?',
+  "Will this hurt my parents' feelings?",
+  'I am hopeless at cooking',
+  'Is it worth fixing the car if the car is worthless?',
+  'Este trabajo me mata de aburrimiento',
+];
+
+const TRUE_POSITIVES: [string, string][] = [
+  ['I want to kill myself', 'crisis'],
+  ["I've been thinking about suicide", 'crisis'],
+  ['Lately I feel suicidal', 'crisis'],
+  ['I have been hurting myself again', 'crisis'],
+  ['Should I end my life?', 'crisis'],
+  ['Sometimes I just want to die', 'crisis'],
+  ['Everyone would be better off if I was gone, I wish I was dead', 'crisis'],
+  ["I don't want to live anymore", 'crisis'],
+  ['I’m thinking about self-harm', 'crisis'],
+  ['I want to attack him for what he did', 'concerning'],
+  ['I want revenge on my old boss', 'concerning'],
+  ['Should I buy a gun to protect myself from him?', 'concerning'],
+  ['I could get a knife for protection', 'concerning'],
+  ['Sometimes I want to hit back and stab my ex', 'concerning'],
+  ['I could kill my boss after that meeting', 'concerning'],
+  ['My partner hits me when he drinks', 'concerning'],
+  ['Should I leave my abusive relationship?', 'concerning'],
+  ['I feel hopeless about work', 'concerning'],
+  ['Everything is hopeless', 'concerning'],
+  ["I'm worthless and I can't see a way out", 'concerning'],
+  ['Is it illegal to sublet my flat?', 'informational'],
+  ['My brother keeps gambling our savings', 'informational'],
+  ['A veces pienso en el suicidio', 'crisis'],
+  ['Ya no quiero vivir así', 'crisis'],
+  ['No quiero vivir más', 'crisis'],
+  ['Mi pareja me pega cuando bebe', 'concerning'],
+  ['¿Es ilegal subarrendar mi piso?', 'informational'],
+];
+
+describe('safetyScreening', () => {
+  it.each(FALSE_POSITIVES)('does not flag "%s"', (text) => {
+    expect(screenText(text, 'question')).toEqual([]);
+  });
+
+  it.each(TRUE_POSITIVES)('flags "%s" as %s', (text, severity) => {
+    expect(highestSeverity(screenText(text, 'question'))).toBe(severity);
+  });
+
+  it('screens every field and reports the most severe match first', () => {
+    const matches = screenFields({
+      question: 'Is it illegal to break my lease?',
+      intuition: 'Honestly I want to end it all',
+      stakes: undefined,
+    });
+    expect(matches.map(match => [match.field, match.severity, match.phrase])).toEqual([
+      ['intuition', 'crisis', 'end it all'],
+      ['question', 'informational', 'illegal'],
+    ]);
+  });
+
+  it('only reports matches that have not been acknowledged', () => {
+    const matches = screenFields({ question: 'I want revenge', notes: 'I want revenge and to buy a gun to scare him' });
+    const acknowledged = new Set([matchKey(matches[0])]);
+    expect(findNewMatches(matches, acknowledged).map(match => match.ruleId)).toEqual(['weapon']);
+  });
+});
+
+describe('supportResources', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('picks the configured region, then the browser country, then the international directory', () => {
+    expect(defaultRegionCode({ REACT_APP_SAFETY_REGION: 'gb' }, 'en-US')).toBe('GB');
+    expect(defaultRegionCode({}, 'en-AU')).toBe('AU');
+    expect(defaultRegionCode({}, 'pt-BR')).toBe(INTERNATIONAL_REGION);
+    expect(defaultRegionCode({}, 'en')).toBe(INTERNATIONAL_REGION);
+  });
+
+  it('remembers the region the user picked', () => {
+    expect(loadRegionPreference()).toBeUndefined();
+    saveRegionPreference('IE');
+    expect(loadRegionPreference()).toBe('IE');
+  });
+});
@@ -0,0 +1,117 @@
+import { SafetyMatch, SafetyRule, SafetySeverity } from '../../types/safety';
+import { MessageKey } from '../i18n/i18n';
+
+// The people a decision can involve, as they follow "my"
+const RELATIONSHIPS =
+  '(partner|wife|husband|boyfriend|girlfriend|ex|spouse|boss|manager|colleague|coworker|co-worker|neighbou?r|landlord|'
+  + 'flatmate|roommate|friend|brother|sister|mother|father|mum|mom|dad|parents|son|daughter|child|kids|family)';
+
+export const SEVERITY_ORDER: SafetySeverity[] = ['crisis', 'concerning', 'informational'];
+
+/**
+ * Phrases rather than single words, so everyday language ("skill", "diet",
+ * "harmony", "this commute is killing me") never matches. Every pattern is
+ * wrapped in word boundaries by `screenText`, so patterns must start and end
+ * with an unaccented letter. Every language the app speaks has its own rules.
+ */
+export const SAFETY_RULES: SafetyRule[] = [
+  // Risk to the user's own life or safety
+  { id: 'suicide', severity: 'crisis', pattern: /suicid(e|al)/ },
+  { id: 'kill-myself', severity: 'crisis', pattern: /(kill|killing|hurt|hurting|harm|harming|cut|cutting) myself/ },
+  { id: 'self-harm', severity: 'crisis', pattern: /self[- ]?harm(ing)?/ },
+  { id: 'end-my-life', severity: 'crisis', pattern: /(end|ending|take|taking) my (own )?life/ },
+  { id: 'end-it-all', severity: 'crisis', pattern: /end it all/ },
+  { id: 'want-to-die', severity: 'crisis', pattern: /(want|wanted|wish|going) to die/ },
+  { id: 'better-off-dead', severity: 'crisis', pattern: /(better off|wish i was|wish i were) dead/ },
+  { id: 'no-reason-to-live', severity: 'crisis', pattern: /(no reason|nothing) to live for|don'?t want to (live|be alive|be here) any ?more/ },
+  { id: 'overdose', severity: 'crisis', pattern: /overdos(e|ing)/ },
+  { id: 'suicidio', severity: 'crisis', pattern: /suicid(io|arme|arse)/ },
+  { id: 'quitarme-la-vida', severity: 'crisis', pattern: /(quitarme|acabar con|terminar con) (la|mi) vida/ },
+  { id: 'quiero-morir', severity: 'crisis', pattern: /(quiero|quisiera|deseo) morir(me)?/ },
+  { id: 'hacerme-dano', severity: 'crisis', pattern: /(hacerme|me hago) da(ñ|n)o/ },
+  // Not "no quiero vivir en Madrid" or "con mis padres": where or with whom to live is an everyday decision
+  {
+    id: 'no-quiero-vivir',
+    severity: 'crisis',
+    pattern: /no (quiero|vale la pena|merece la pena) (seguir )?vivir(?! (en|con|cerca|lejos|junto|solos?|solas?|fuera)\b| (aqu|all|ah)[ií])/,
+  },
+
+  // Harm to others, violence or abuse, and signs of deep distress
+  // Only people can be harmed here: "kill my career" or "shoot my wedding photos" is everyday language.
+  // "Hurt" is left out, as a decision that might hurt someone's feelings is an everyday question too
+  {
+    id: 'harm-others',
+    severity: 'concerning',
+    pattern: new RegExp(`(kill|attack|murder|stab|shoot) (him|her|them|someone|somebody|my (ex-)?${RELATIONSHIPS})`),
+  },
+  { id: 'revenge', severity: 'concerning', pattern: /revenge/ },
+  // A weapon alone is a kitchen knife or a gun dog; it needs a reason to hurt or to defend
+  {
+    id: 'weapon',
+    severity: 'concerning',
+    pattern: new RegExp(
+      '(buy|buying|get|getting|own|owning|carry|carrying|use|using) an? (gun|firearm|weapon|knife) '
+      + '(to (hurt|kill|scare|threaten|protect myself|defend myself)|for (protection|self[- ]defen[cs]e))',
+    ),
+  },
+  { id: 'abuse', severity: 'concerning', pattern: /(abuse[sd]?|abusive|domestic violence)/ },
+  {
+    id: 'hurts-me',
+    severity: 'concerning',
+    pattern: /(he|she|they|partner|husband|wife|boyfriend|girlfriend|parent|dad|mum|mom) (hits|hit|beats|beat|threatens|threatened|chokes|choked|hurts|hurt) me/,
+  },
+  // About the user or their life, not "hopeless at cooking" or "the car is worthless"
+  {
+    id: 'hopeless',
+    severity: 'concerning',
+    pattern: new RegExp(
+      "(i (feel|felt|am|was)|i'?m|feeling|everything (is|feels|seems)|life (is|feels|seems)|it all (feels|seems)) "
+      + "(so |completely |totally |utterly |really )?(hopeless|worthless)(?! (at|with|when)\\b)"
+      + "|can'?t go on|can'?t cope any ?more",
+    ),
+  },
+  { id: 'maltrato', severity: 'concerning', pattern: /(maltrato|me maltrata|violencia (de g[eé]nero|dom[eé]stica))/ },
+  { id: 'me-pega', severity: 'concerning', pattern: /(me pega|me golpea|me amenaza)/ },
+  { id: 'sin-esperanza', severity: 'concerning', pattern: /(sin esperanza|ya no puedo m[aá]s)/ },
+
+  // Topics where professional advice matters
+  { id: 'illegal', severity: 'informational', pattern: /(illegal|illegally|crime|criminal)/ },
+  { id: 'stealing', severity: 'informational', pattern: /(steal|stealing|stole|fraud)/ },
+  { id: 'drugs', severity: 'informational', pattern: /(drugs|cocaine|heroin|meth)/ },
+  { id: 'gambling', severity: 'informational', pattern: /(gambling|gamble|betting debts?)/ },
+  { id: 'ilegal', severity: 'informational', pattern: /(ilegal|ilegalmente|delito)/ },
+  { id: 'apuestas', severity: 'informational', pattern: /(apuestas|ludopat[ií]a)/ },
+];
+
+const normalise = (text: string) => text.replace(/[’]/g, "'");
+
+/** Every rule that matches the text, each reported once per field. */
+export const screenText = (text: string, field: string, rules: SafetyRule[] = SAFETY_RULES): SafetyMatch[] => {
+  const normalised = normalise(text);
+  return rules.flatMap(rule => {
+    const match = new RegExp(`\\b(?:${rule.pattern.source})\\b`, 'i').exec(normalised);
+    return match ? [{ ruleId: rule.id, severity: rule.severity, field, phrase: match[0] }] : [];
+  });
+};
+
+/** Screens every free-text field, most severe matches first. */
+export const screenFields = (fields: Record<string, string | undefined>, rules: SafetyRule[] = SAFETY_RULES): SafetyMatch[] =>
+  Object.entries(fields)
+    .flatMap(([field, text]) => (text ? screenText(text, field, rules) : []))
+    .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+
+export const highestSeverity = (matches: SafetyMatch[]): SafetySeverity | null =>
+  SEVERITY_ORDER.find(severity => matches.some(match => match.severity === severity)) || null;
+
+// A match is the same if the same rule fires on the same words, whichever field it is in
+export const matchKey = (match: SafetyMatch) => `${match.ruleId}:${match.phrase.toLowerCase()}`;
+
+/** Matches the user hasn't been prompted about yet. */
+export const findNewMatches = (matches: SafetyMatch[], acknowledged: Set<string>): SafetyMatch[] =>
+  matches.filter(match => !acknowledged.has(matchKey(match)));
+
+export const SAFETY_MESSAGES: Record<SafetySeverity, MessageKey> = {
+  crisis: 'safety.message.crisis',
+  concerning: 'safety.message.concerning',
+  informational: 'safety.message.informational',
+};
@@ -0,0 +1,122 @@
+import { MessageKey } from '../i18n/i18n';
+
+export const INTERNATIONAL_REGION = 'INTL';
+
+export interface SupportResource {
+  name: string; // The organisation's own name, which isn't translated
+  description: MessageKey;
+  url: string;
+  phone?: string;
+}
+
+export interface SupportRegion {
+  code: string; // ISO 3166 country code, or "INTL"
+  name: MessageKey;
+  resources: SupportResource[];
+}
+
+// Free, confidential lines; keep the international directory last as the fallback
+export const SUPPORT_REGIONS: SupportRegion[] = [
+  {
+    code: 'US',
+    name: 'support.region.US',
+    resources: [
+      { name: '988 Suicide & Crisis Lifeline', description: 'support.callOrText988', url: 'https://988lifeline.org/', phone: '988' },
+      { name: 'National Domestic Violence Hotline', description: 'support.domesticViolence', url: 'https://www.thehotline.org/', phone: '1-800-799-7233' },
+    ],
+  },
+  {
+    code: 'CA',
+    name: 'support.region.CA',
+    resources: [
+      { name: '988 Suicide Crisis Helpline', description: 'support.callOrText988', url: 'https://988.ca/', phone: '988' },
+    ],
+  },
+  {
+    code: 'GB',
+    name: 'support.region.GB',
+    resources: [
+      { name: 'Samaritans', description: 'support.samaritans', url: 'https://www.samaritans.org/', phone: '116 123' },
+      { name: 'Shout', description: 'support.shout', url: 'https://giveusashout.org/', phone: '85258' },
+    ],
+  },
+  {
+    code: 'IE',
+    name: 'support.region.IE',
+    resources: [
+      { name: 'Samaritans Ireland', description: 'support.samaritans', url: 'https://www.samaritans.org/ireland/', phone: '116 123' },
+    ],
+  },
+  {
+    code: 'AU',
+    name: 'support.region.AU',
+    resources: [
+      { name: 'Lifeline Australia', description: 'support.lifelineAustralia', url: 'https://www.lifeline.org.au/', phone: '13 11 14' },
+    ],
+  },
+  {
+    code: 'DE',
+    name: 'support.region.DE',
+    resources: [
+      { name: 'TelefonSeelsorge', description: 'support.telefonSeelsorge', url: 'https://www.telefonseelsorge.de/', phone: '0800 111 0 111' },
+    ],
+  },
+  {
+    code: 'ES',
+    name: 'support.region.ES',
+    resources: [
+      {
+        name: 'Teléfono de la Esperanza',
+        description: 'support.telefonoEsperanza',
+        url: 'https://telefonodelaesperanza.org/',
+        phone: '717 003 717',
+      },
+    ],
+  },
+  {
+    code: INTERNATIONAL_REGION,
+    name: 'safety.otherCountries',
+    resources: [
+      { name: 'Find A Helpline', description: 'support.findAHelpline', url: 'https://findahelpline.com/' },
+    ],
+  },
+];
+
+export const findRegion = (code: string | undefined): SupportRegion | undefined =>
+  SUPPORT_REGIONS.find(region => region.code === code?.toUpperCase());
+
+/**
+ * The region to offer by default: REACT_APP_SAFETY_REGION if the deployment
+ * sets one, then the country in the browser language (e.g. "en-GB"), then
+ * the international directory.
+ */
+export const defaultRegionCode = (
+  env: Record<string, string | undefined> = process.env,
+  language: string | undefined = typeof navigator !== 'undefined' ? navigator.language : undefined
+): string => {
+  const configured = findRegion(env.REACT_APP_SAFETY_REGION);
+  if (configured) {
+    return configured.code;
+  }
+  const country = language?.split('-')[1];
+  return findRegion(country)?.code || INTERNATIONAL_REGION;
+};
+
+const REGION_PREFERENCE_KEY = 'anchor-decisions:safety-region';
+
+// The user's own choice of region, remembered on this device
+export const loadRegionPreference = (storage: Storage = localStorage): string | undefined => {
+  try {
+    return findRegion(storage.getItem(REGION_PREFERENCE_KEY) || undefined)?.code;
+  } catch {
+    return undefined;
+  }
+};
+
+export const saveRegionPreference = (code: string, storage: Storage = localStorage) => {
+  try {
+    storage.setItem(REGION_PREFERENCE_KEY, code);
+  } catch {
+    // Not being able to remember the region only means asking again next time
+  }
+};
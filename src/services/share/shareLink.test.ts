@@ -0,0 +1,102 @@
+import { compressToEncodedURIComponent } from 'lz-string';
+import { Decision } from '../../types/decision';
+import { SharedDecision } from '../../types/share';
+import { analyzeDecision } from '../analysis/analyzeDecision';
+import {
+  decodeSharedDecision,
+  encodeSharedDecision,
+  readShareFragment,
+  SHARE_VERSION,
+  shareFragment,
+  shareUrl,
+  withoutIntuition,
+} from './shareLink';
+
+const decision: Decision = {
+  question: 'Should I keep my current job or join the startup?',
+  balanceScore: 40,
+  timeHorizon: 70,
+  options: ['Stay at my current job', 'Join the startup'],
+  stakes: 'Salary, pension and my team',
+  values: ['Career Growth', 'Financial Security'],
+  initialIntuition: "I feel nervous about leaving, staying at my current job is comfortable",
+  confidenceScore: 60,
+};
+
+const shared: SharedDecision = { decision, analysis: analyzeDecision(decision), step: 'analysis' };
+
+describe('shareable links', () => {
+  it('round-trips the wizard state and analysis', () => {
+    expect(decodeSharedDecision(encodeSharedDecision(shared))).toEqual(shared);
+    expect(readShareFragment(shareFragment(shared))).toEqual(shared);
+  });
+
+  it('compresses the state into URL-safe characters', () => {
+    const encoded = encodeSharedDecision(shared);
+    expect(encoded).toMatch(/^[A-Za-z0-9+\-$]+$/);
+    expect(encoded.length).toBeLessThan(JSON.stringify(shared).length);
+  });
+
+  it('builds view-only and editable links that keep the state in the fragment', () => {
+    expect(shareUrl(shared, { readOnly: true, includeIntuition: true }, 'https://example.org'))
+      .toMatch(/^https:\/\/example\.org\/shared#d=/);
+    expect(shareUrl(shared, { readOnly: false, includeIntuition: true }, 'https://example.org'))
+      .toMatch(/^https:\/\/example\.org\/decide#d=/);
+  });
+
+  it('can leave out the intuition and everything the analysis says about it', () => {
+    expect(shared.analysis!.sentiment.highlights!.some(highlight => highlight.field === 'intuition')).toBe(true);
+    expect(JSON.stringify(shared.analysis!.detectedBiases)).toMatch(/intuition/i);
+
+    const stripped = withoutIntuition(shared);
+    expect(stripped.decision.initialIntuition).toBeUndefined();
+    expect(stripped.decision.question).toBe(decision.question);
+    expect(stripped.analysis!.sentiment.highlights!.some(highlight => highlight.field === 'intuition')).toBe(false);
+    expect(JSON.stringify(stripped.analysis!.detectedBiases)).not.toMatch(/intuition/i);
+    expect(stripped.analysis!.sentiment).toEqual(analyzeDecision({ ...decision, initialIntuition: '' }).sentiment);
+
+    const url = shareUrl(shared, { readOnly: true, includeIntuition: false }, 'https://example.org');
+    expect(JSON.stringify(readShareFragment(url.slice(url.indexOf('#'))))).not.toContain('nervous');
+  });
+
+  it('leaves out an intuition that was typed with surrounding spaces', () => {
+    const untrimmed = { ...decision, initialIntuition: '  My secret reason is Sam ' };
+    const analysis = analyzeDecision(untrimmed);
+    expect(analysis.recommendation).toContain('My secret reason is Sam');
+
+    const stripped = withoutIntuition({ decision: untrimmed, analysis });
+    expect(JSON.stringify(stripped)).not.toContain('secret reason');
+    expect(stripped.analysis!.recommendation).toContain('(not shared)');
+  });
+
+  it('works out the bias evidence again without the intuition, in the language of the analysis', () => {
+    const analysis = analyzeDecision(decision, { locale: 'es' });
+    expect(JSON.stringify(analysis.detectedBiases)).toMatch(/intuición/);
+
+    const stripped = withoutIntuition({ decision, analysis });
+    expect(JSON.stringify(stripped.analysis!.detectedBiases)).not.toMatch(/intuición|nervous|comfortable/);
+    expect(stripped.analysis!.detectedBiases!.map(bias => bias.biasType))
+      .toEqual(analyzeDecision({ ...decision, initialIntuition: '' }).detectedBiases!.map(bias => bias.biasType));
+    expect(stripped.analysis!.sentiment.tone).toBe(analyzeDecision({ ...decision, initialIntuition: '' }, { locale: 'es' }).sentiment.tone);
+
+    // Analyses saved before they recorded their language are recognised by their tone
+    const { locale, ...unlabelled } = analysis;
+    expect(withoutIntuition({ decision, analysis: unlabelled }).analysis!.sentiment.tone)
+      .toBe(stripped.analysis!.sentiment.tone);
+  });
+
+  it('ignores fragments that are not shares', () => {
+    expect(readShareFragment('')).toBeUndefined();
+    expect(readShareFragment('#section-2')).toBeUndefined();
+  });
+
+  it('rejects damaged, newer or invalid links', () => {
+    expect(() => decodeSharedDecision('not-a-share')).toThrow('damaged');
+    expect(() => decodeSharedDecision(compressToEncodedURIComponent(JSON.stringify({ ...shared, v: SHARE_VERSION + 1 }))))
+      .toThrow('newer version');
+    expect(() => decodeSharedDecision(compressToEncodedURIComponent(JSON.stringify({ v: 1, decision: { question: 1 } }))))
+      .toThrow("doesn't contain a valid decision");
+    expect(() => decodeSharedDecision(compressToEncodedURIComponent(JSON.stringify({ v: 1, decision, step: 'done' }))))
+      .toThrow('step is not a wizard step');
+  });
+});
@@ -0,0 +1,111 @@
+import { compressToEncodedURIComponent, decompressFromEncodedURIComponent } from 'lz-string';
+import { Analysis } from '../../types/decision';
+import { SharedDecision, ShareOptions } from '../../types/share';
+import { BIAS_DETECTORS } from '../analysis/biasDetectors';
+import { analysisInput } from '../analysis/analyzeDecision';
+import { isObject, validateAnalysis } from '../analysis/validateAnalysis';
+import { analyzeSentiment, toneLocale } from '../analysis/sentiment';
+import { createTranslator, DEFAULT_LOCALE, isLocale, TranslatedError } from '../i18n/i18n';
+import { validateDecision } from '../decision/validateDecision';
+import { DECIDE_PATH, decisionWizard } from '../wizard/decisionWizard';
+
+export const SHARE_VERSION = 1;
+export const SHARED_VIEW_PATH = '/shared';
+
+// The fragment looks like "#d=<compressed JSON>"; fragments never reach a server
+const FRAGMENT_PREFIX = '#d=';
+
+// Many chat and mail clients cut off longer links
+export const LONG_LINK_LENGTH = 2000;
+
+const REDACTED = '(not shared)';
+
+/**
+ * Removes the initial intuition and every part of the analysis that quotes or
+ * describes it, so none of its wording can be read back from the link.
+ * Sentiment and bias evidence are worked out again without the intuition, in
+ * the language the analysis was written in; biases the engine has no detector
+ * for keep no evidence.
+ */
+export const withoutIntuition = ({ decision, analysis, step }: SharedDecision): SharedDecision => {
+  const { initialIntuition, ...rest } = decision;
+  const shared: SharedDecision = { decision: rest, ...(step ? { step } : {}) };
+  if (!analysis) {
+    return shared;
+  }
+
+  // The analysis quotes the trimmed intuition, the wizard state may not be trimmed
+  const quotes = Array.from(new Set([initialIntuition, initialIntuition?.trim()]))
+    .filter((quote): quote is string => Boolean(quote))
+    .sort((a, b) => b.length - a.length);
+  const redact = (text: string) => quotes.reduce((result, quote) => result.split(quote).join(REDACTED), text);
+
+  const locale = isLocale(analysis.locale) ? analysis.locale : toneLocale(analysis.sentiment.tone) || DEFAULT_LOCALE;
+  const t = createTranslator(locale);
+  const input = analysisInput(rest);
+  const evidenceWithout = (biasType: string) =>
+    BIAS_DETECTORS.find(detector => detector.biasType === biasType)?.detect(input, t) || [];
+  const detectedBiases = analysis.detectedBiases
+    ?.map(bias => (bias.evidence ? { ...bias, evidence: evidenceWithout(bias.biasType) } : bias))
+    .filter(bias => !bias.evidence || bias.evidence.length > 0);
+
+  const stripped: Analysis = {
+    ...analysis,
+    recommendation: redact(analysis.recommendation),
+    sentiment: analyzeSentiment(input, locale),
+    ...(detectedBiases ? { detectedBiases } : {}),
+    ...(analysis.thirdOption ? { thirdOption: redact(analysis.thirdOption) } : {}),
+  };
+  return { ...shared, analysis: stripped };
+};
+
+export const encodeSharedDecision = (shared: SharedDecision): string =>
+  compressToEncodedURIComponent(JSON.stringify({ v: SHARE_VERSION, ...shared }));
+
+/** Throws if the data is damaged, from a newer version, or not a valid decision. */
+export const decodeSharedDecision = (data: string): SharedDecision => {
+  const json = decompressFromEncodedURIComponent(data);
+  let payload: unknown;
+  try {
+    payload = json ? JSON.parse(json) : undefined;
+  } catch {
+    payload = undefined;
+  }
+
+  if (!isObject(payload)) {
+    throw new TranslatedError('shared.error.damaged');
+  }
+  if (typeof payload.v !== 'number' || payload.v > SHARE_VERSION) {
+    throw new TranslatedError('shared.error.newerVersion');
+  }
+
+  const problems = [
+    ...validateDecision(payload.decision),
+    ...(payload.analysis !== undefined ? validateAnalysis(payload.analysis) : []),
+  ];
+  if (payload.step !== undefined && !decisionWizard.isStep(payload.step)) {
+    problems.push('step is not a wizard step');
+  }
+  if (problems.length > 0) {
+    throw new TranslatedError('shared.error.invalid', undefined, problems);
+  }
+
+  const { v, ...shared } = payload as unknown as SharedDecision & { v: number };
+  return shared;
+};
+
+/** The shared decision in a URL fragment, or undefined if the fragment isn't a share. */
+export const readShareFragment = (hash: string): SharedDecision | undefined =>
+  hash.startsWith(FRAGMENT_PREFIX) ? decodeSharedDecision(hash.slice(FRAGMENT_PREFIX.length)) : undefined;
+
+export const shareFragment = (shared: SharedDecision): string =>
+  `${FRAGMENT_PREFIX}${encodeSharedDecision(shared)}`;
+
+export const shareUrl = (
+  shared: SharedDecision,
+  { readOnly, includeIntuition }: ShareOptions,
+  origin: string = window.location.origin
+): string => {
+  const path = readOnly ? SHARED_VIEW_PATH : DECIDE_PATH;
+  return `${origin}${path}${shareFragment(includeIntuition ? shared : withoutIntuition(shared))}`;
+};
@@ -0,0 +1,49 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { createIndexedDbStore, createLocalStorageStore, RecordStore } from './recordStore';
+
+interface Note {
+  id: string;
+  text: string;
+}
+
+const backends: [string, () => RecordStore<Note>][] = [
+  ['IndexedDB', () => createIndexedDbStore<Note>('notes', new IDBFactory())],
+  ['localStorage', () => createLocalStorageStore<Note>('notes')],
+];
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe.each(backends)('%s record store', (label, createStore) => {
+  it('creates, reads, updates and deletes records', async () => {
+    const store = createStore();
+
+    await store.put({ id: 'a', text: 'first' });
+    await store.put({ id: 'b', text: 'second' });
+    expect(await store.get('a')).toEqual({ id: 'a', text: 'first' });
+
+    await store.put({ id: 'a', text: 'changed' });
+    expect(await store.get('a')).toEqual({ id: 'a', text: 'changed' });
+
+    await store.delete('b');
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.getAll()).toEqual([{ id: 'a', text: 'changed' }]);
+
+    await store.clear();
+    expect(await store.getAll()).toEqual([]);
+  });
+});
+
+describe('localStorage record store', () => {
+  it('persists across store instances', async () => {
+    await createLocalStorageStore<Note>('notes').put({ id: 'a', text: 'kept' });
+    expect(await createLocalStorageStore<Note>('notes').getAll()).toEqual([{ id: 'a', text: 'kept' }]);
+  });
+
+  it('treats unreadable data as empty', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem('anchor-decisions:notes', '{not json');
+    expect(await createLocalStorageStore<Note>('notes').getAll()).toEqual([]);
+  });
+});
@@ -0,0 +1,144 @@
+export interface StoredRecord {
+  id: string;
+}
+
+/**
+ * Minimal async key/value store for JSON-serialisable records keyed by `id`.
+ * Both backends below implement it, so callers never care which one they got.
+ */
+export interface RecordStore<T extends StoredRecord> {
+  getAll: () => Promise<T[]>;
+  get: (id: string) => Promise<T | undefined>;
+  put: (record: T) => Promise<void>;
+  delete: (id: string) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+const DATABASE_PREFIX = 'anchor-decisions';
+const OBJECT_STORE = 'records';
+
+const requestToPromise = <R>(request: IDBRequest<R>): Promise<R> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (name: string, idb: IDBFactory): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = idb.open(`${DATABASE_PREFIX}:${name}`, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(OBJECT_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error(`Opening the "${name}" database was blocked`));
+  });
+
+// One database per store keeps schema upgrades of unrelated stores independent
+export const createIndexedDbStore = <T extends StoredRecord>(
+  name: string,
+  idb: IDBFactory = indexedDB
+): RecordStore<T> => {
+  let database: Promise<IDBDatabase> | null = null;
+  const getDatabase = () => {
+    if (!database) {
+      database = openDatabase(name, idb);
+      database.catch(() => { database = null; });
+    }
+    return database;
+  };
+
+  const run = async <R>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> => {
+    const db = await getDatabase();
+    const transaction = db.transaction(OBJECT_STORE, mode);
+    const result = await requestToPromise(action(transaction.objectStore(OBJECT_STORE)));
+    if (mode === 'readwrite') {
+      await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+    }
+    return result;
+  };
+
+  return {
+    getAll: () => run('readonly', store => store.getAll() as IDBRequest<T[]>),
+    get: (id) => run('readonly', store => store.get(id) as IDBRequest<T | undefined>),
+    put: async (record) => { await run('readwrite', store => store.put(record)); },
+    delete: async (id) => { await run('readwrite', store => store.delete(id)); },
+    clear: async () => { await run('readwrite', store => store.clear()); },
+  };
+};
+
+export const createLocalStorageStore = <T extends StoredRecord>(
+  name: string,
+  storage: Storage = localStorage
+): RecordStore<T> => {
+  const key = `${DATABASE_PREFIX}:${name}`;
+
+  const read = (): Record<string, T> => {
+    const raw = storage.getItem(key);
+    if (!raw) {
+      return {};
+    }
+    try {
+      return JSON.parse(raw) as Record<string, T>;
+    } catch {
+      console.error(`Discarding unreadable "${name}" data in localStorage`);
+      return {};
+    }
+  };
+
+  const write = (records: Record<string, T>) => {
+    storage.setItem(key, JSON.stringify(records));
+  };
+
+  return {
+    getAll: async () => Object.values(read()),
+    get: async (id) => read()[id],
+    put: async (record) => {
+      write({ ...read(), [record.id]: record });
+    },
+    delete: async (id) => {
+      const { [id]: removed, ...rest } = read();
+      write(rest);
+    },
+    clear: async () => {
+      storage.removeItem(key);
+    },
+  };
+};
+
+/**
+ * Uses IndexedDB where the browser offers it and falls back to localStorage
+ * when it is missing or refuses to open (e.g. some private browsing modes).
+ */
+export const createRecordStore = <T extends StoredRecord>(name: string): RecordStore<T> => {
+  const fallback = () => createLocalStorageStore<T>(name);
+  if (typeof indexedDB === 'undefined') {
+    return fallback();
+  }
+
+  const primary = createIndexedDbStore<T>(name);
+  let active: Promise<RecordStore<T>> | null = null;
+  const resolveStore = () => {
+    if (!active) {
+      active = primary.getAll()
+        .then(() => primary)
+        .catch((err) => {
+          console.warn(`IndexedDB unavailable for "${name}", using localStorage instead:`, err);
+          return fallback();
+        });
+    }
+    return active;
+  };
+
+  return {
+    getAll: async () => (await resolveStore()).getAll(),
+    get: async (id) => (await resolveStore()).get(id),
+    put: async (record) => (await resolveStore()).put(record),
+    delete: async (id) => (await resolveStore()).delete(id),
+    clear: async () => (await resolveStore()).clear(),
+  };
+};
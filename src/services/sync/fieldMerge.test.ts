@@ -0,0 +1,74 @@
+import { FieldChange, SyncedRecord } from '../../types/sync';
+import { applyChange, changedFields, currentFields, mergeRecords, sameValue } from './fieldMerge';
+
+const change = (changedAt: string, fields: Record<string, unknown>, deleted?: boolean): FieldChange =>
+  ({ collection: 'journal', id: 'entry', changedAt, fields, ...(deleted ? { deleted } : {}) });
+
+const apply = (...changes: FieldChange[]) =>
+  changes.reduce<SyncedRecord | undefined>((record, next) => applyChange(record, next), undefined) as SyncedRecord;
+
+describe('applyChange', () => {
+  it('keeps the latest write of every field, whatever order the writes arrive in', () => {
+    const laptop = change('2026-03-01T10:00:00.000Z', { notes: 'From the laptop', tags: ['Work'] });
+    const phone = change('2026-03-01T10:05:00.000Z', { notes: 'From the phone' });
+
+    const expected = { notes: 'From the phone', tags: ['Work'] };
+    expect(currentFields(apply(laptop, phone))).toEqual(expected);
+    expect(currentFields(apply(phone, laptop))).toEqual(expected);
+  });
+
+  it('settles writes made at the same instant the same way everywhere', () => {
+    const a = change('2026-03-01T10:00:00.000Z', { notes: 'A' });
+    const b = change('2026-03-01T10:00:00.000Z', { notes: 'B' });
+
+    expect(currentFields(apply(a, b))).toEqual(currentFields(apply(b, a)));
+  });
+
+  it('clears fields set to null', () => {
+    const record = apply(
+      change('2026-03-01T10:00:00.000Z', { notes: 'Draft', finalRevision: 2 }),
+      change('2026-03-01T11:00:00.000Z', { finalRevision: null })
+    );
+
+    expect(currentFields(record)).toEqual({ notes: 'Draft' });
+  });
+
+  it('hides a deleted record until a later edit brings it back whole', () => {
+    const written = change('2026-03-01T10:00:00.000Z', { notes: 'Old', tags: ['Work'] });
+    const deleted = change('2026-03-01T11:00:00.000Z', {}, true);
+    const editedLater = change('2026-03-01T12:00:00.000Z', { notes: 'New' });
+    const editedEarlier = change('2026-03-01T10:30:00.000Z', { notes: 'Stale' });
+
+    expect(currentFields(apply(written, deleted))).toBeUndefined();
+    expect(currentFields(apply(written, deleted, editedEarlier))).toBeUndefined();
+    expect(currentFields(apply(written, deleted, editedLater))).toEqual({ notes: 'New', tags: ['Work'] });
+  });
+});
+
+describe('mergeRecords', () => {
+  it('gives the same result in either order', () => {
+    const a = apply(change('2026-03-01T10:00:00.000Z', { notes: 'A', tags: ['One'] }));
+    const b = apply(change('2026-03-01T09:00:00.000Z', { notes: 'B', analysis: { recommendation: 'B' } }));
+
+    expect(mergeRecords(a, b)).toEqual(mergeRecords(b, a));
+    expect(currentFields(mergeRecords(a, b))).toEqual({ notes: 'A', tags: ['One'], analysis: { recommendation: 'B' } });
+  });
+});
+
+describe('changedFields', () => {
+  it('lists changed and new fields, and removed ones as null', () => {
+    const before = { notes: 'Same', tags: ['Work'], finalRevision: 1, analysis: { a: 1, b: 2 } };
+    const after = { notes: 'Same', tags: ['Work', 'Home'], analysis: { b: 2, a: 1 }, updatedAt: '2026-03-01' };
+
+    expect(changedFields(before, after)).toEqual({ tags: ['Work', 'Home'], finalRevision: null, updatedAt: '2026-03-01' });
+    expect(changedFields(undefined, { notes: 'New' })).toEqual({ notes: 'New' });
+  });
+});
+
+describe('sameValue', () => {
+  it('ignores key order and undefined keys, and compares dates as JSON does', () => {
+    expect(sameValue({ a: 1, b: { c: [1, 2] } }, { b: { c: [1, 2] }, a: 1, d: undefined })).toBe(true);
+    expect(sameValue(new Date('2026-03-01T10:00:00.000Z'), '2026-03-01T10:00:00.000Z')).toBe(true);
+    expect(sameValue([1, 2], [2, 1])).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+import { FieldChange, SyncCollection, SyncedRecord, SyncFields } from '../../types/sync';
+
+export const SYNC_COLLECTIONS: SyncCollection[] = ['decisions', 'journal', 'check-ins', 'value-profiles'];
+
+export const isSyncCollection = (value: unknown): value is SyncCollection =>
+  SYNC_COLLECTIONS.some(collection => collection === value);
+
+export const recordKey = (collection: SyncCollection, id: string) => `${collection}/${id}`;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// JSON with sorted keys, so equal values always serialise the same way
+const canonical = (value: unknown): string =>
+  JSON.stringify(value, (key, nested: unknown) => (isPlainObject(nested)
+    ? Object.keys(nested).sort().reduce<Record<string, unknown>>((sorted, name) => {
+      sorted[name] = nested[name];
+      return sorted;
+    }, {})
+    : nested)) ?? 'null';
+
+// Equality of JSON values: key order and undefined keys don't matter, dates compare as their ISO strings
+export const sameValue = (a: unknown, b: unknown): boolean => canonical(a) === canonical(b);
+
+// The later write wins. Writes at the same instant go to the larger value, so every copy settles on the same one
+const wins = (time: string, value: unknown, currentTime: string | undefined, currentValue: unknown) =>
+  currentTime === undefined || time > currentTime ||
+  (time === currentTime && canonical(value) > canonical(currentValue));
+
+const emptyRecord = (collection: SyncCollection, id: string): SyncedRecord =>
+  ({ collection, id, fields: {}, fieldTimes: {}, revision: 0 });
+
+const mergeField = (record: SyncedRecord, field: string, value: unknown, time: string) => {
+  if (wins(time, value, record.fieldTimes[field], record.fields[field])) {
+    record.fields[field] = value === undefined ? null : value;
+    record.fieldTimes[field] = time;
+  }
+};
+
+const copy = (record: SyncedRecord): SyncedRecord =>
+  ({ ...record, fields: { ...record.fields }, fieldTimes: { ...record.fieldTimes } });
+
+// Last-write-wins per field: each field of the change only replaces one that was written earlier
+export const applyChange = (record: SyncedRecord | undefined, change: FieldChange): SyncedRecord => {
+  const merged = copy(record || emptyRecord(change.collection, change.id));
+  Object.entries(change.fields || {}).forEach(([field, value]) => mergeField(merged, field, value, change.changedAt));
+  if (change.deleted && (!merged.deletedAt || change.changedAt > merged.deletedAt)) {
+    merged.deletedAt = change.changedAt;
+  }
+  return merged;
+};
+
+// Combines two copies of a record; the result is the same whichever order they come in
+export const mergeRecords = (record: SyncedRecord | undefined, incoming: SyncedRecord): SyncedRecord => {
+  const merged = copy(record || emptyRecord(incoming.collection, incoming.id));
+  Object.entries(incoming.fields).forEach(([field, value]) =>
+    mergeField(merged, field, value, incoming.fieldTimes[field]));
+  if (incoming.deletedAt && (!merged.deletedAt || incoming.deletedAt > merged.deletedAt)) {
+    merged.deletedAt = incoming.deletedAt;
+  }
+  merged.revision = Math.max(merged.revision, incoming.revision);
+  return merged;
+};
+
+/**
+ * The record as it currently reads, or undefined while it is deleted. Cleared
+ * fields are left out. An edit made after a deletion brings the whole record
+ * back, its last copy with the edit on top: an edit usually touches a field or
+ * two, and those alone would not make a complete document.
+ */
+export const currentFields = ({ fields, fieldTimes, deletedAt }: SyncedRecord): SyncFields | undefined => {
+  if (deletedAt && !Object.values(fieldTimes).some(time => time > deletedAt)) {
+    return undefined;
+  }
+  return Object.keys(fields)
+    .filter(field => fields[field] !== null)
+    .reduce<SyncFields>((current, field) => ({ ...current, [field]: fields[field] }), {});
+};
+
+// The fields that differ between two versions of a document; removed fields come back as null
+export const changedFields = (before: SyncFields | undefined, after: SyncFields): SyncFields => {
+  const changed: SyncFields = {};
+  Object.entries(after).forEach(([field, value]) => {
+    if (value !== undefined && !sameValue(before?.[field], value)) {
+      changed[field] = value;
+    }
+  });
+  Object.keys(before || {}).forEach((field) => {
+    if (after[field] === undefined && before?.[field] !== undefined) {
+      changed[field] = null;
+    }
+  });
+  return changed;
+};
@@ -0,0 +1,21 @@
+import { vault } from '../encryption/vault';
+import { createLocalStorageStore, createRecordStore } from '../storage/recordStore';
+import { createSyncClient, QueuedChange, ReplicaRecord, SyncClient, SyncState } from './syncClient';
+
+export type { SyncClient, SyncEvent, SyncResult } from './syncClient';
+export { journalSyncMapping, valueProfileSyncMapping } from './syncMappings';
+
+/**
+ * Set REACT_APP_SYNC_URL to sync through a self-hosted server (see server/README.md),
+ * and REACT_APP_SYNC_TOKEN if it was started with one; otherwise nothing leaves the device.
+ * The queue and the replica hold copies of the journal, so they are encrypted along with it.
+ */
+export const createSyncClientFromEnv = (env: NodeJS.ProcessEnv = process.env): SyncClient => createSyncClient({
+  baseUrl: env.REACT_APP_SYNC_URL || undefined,
+  token: env.REACT_APP_SYNC_TOKEN || undefined,
+  queue: vault.protect<QueuedChange>(createLocalStorageStore('sync-queue')),
+  replica: vault.protect<ReplicaRecord>(createRecordStore('sync-replica')),
+  state: vault.protect<SyncState>(createLocalStorageStore('sync-state')),
+});
+
+export const syncClient = createSyncClientFromEnv();
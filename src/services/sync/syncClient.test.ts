@@ -0,0 +1,260 @@
+import { Analysis, Value } from '../../types/decision';
+import { JournalEntry, NewJournalEntry } from '../../types/journal';
+import { RejectedDocument, SyncedRecord, SyncRequest, SyncResponse } from '../../types/sync';
+import { createJournalStorage } from '../journal/journalStorage';
+import { createLocalStorageStore, StoredRecord } from '../storage/recordStore';
+import { createValueProfileStorage } from '../values/valueProfileStorage';
+import { applyChange, recordKey } from './fieldMerge';
+import { createSyncClient } from './syncClient';
+import { journalSyncMapping, valueProfileSyncMapping } from './syncMappings';
+
+const analysis: Analysis = {
+  recommendation: 'Go for it',
+  factors: [],
+  sentiment: { positive: 0.5, negative: 0.1, neutral: 0.4 },
+};
+
+const newEntry: NewJournalEntry = {
+  decision: { question: 'Move abroad?', balanceScore: 60 },
+  analysis,
+  tags: [],
+  notes: '',
+};
+
+// The sync endpoint's behaviour, in memory: merge the changes, return everything newer than `since`.
+// Documents `refuses` picks out, as the changes would leave them, are rejected instead
+const createFakeServer = (refuses: (record: SyncedRecord) => boolean = () => false) => {
+  const records = new Map<string, SyncedRecord>();
+  let revision = 0;
+  let reachable = true;
+
+  const handle = ({ since, changes }: SyncRequest): SyncResponse => {
+    const preview = new Map<string, SyncedRecord>();
+    changes.forEach((change) => {
+      const key = recordKey(change.collection, change.id);
+      preview.set(key, applyChange(preview.get(key) || records.get(key), change));
+    });
+    const rejected: RejectedDocument[] = Array.from(preview.values()).filter(refuses)
+      .map(({ collection, id }) => ({ collection, id, problems: ['Refused'] }));
+    changes
+      .filter(change => !rejected.some(({ collection, id }) => collection === change.collection && id === change.id))
+      .forEach((change) => {
+        const key = recordKey(change.collection, change.id);
+        records.set(key, { ...applyChange(records.get(key), change), revision: ++revision });
+      });
+    return {
+      revision,
+      records: Array.from(records.values()).filter(record => record.revision > since),
+      ...(rejected.length > 0 ? { rejected } : {}),
+    };
+  };
+
+  const fetchImpl = jest.fn(async (url: RequestInfo | URL, init?: RequestInit) => {
+    if (!reachable) {
+      throw new TypeError('Failed to fetch');
+    }
+    const body = handle(JSON.parse(init?.body as string));
+    return { ok: true, status: 200, json: async () => JSON.parse(JSON.stringify(body)) } as Response;
+  });
+
+  return { fetchImpl, records, setReachable: (value: boolean) => { reachable = value; } };
+};
+
+type FakeServer = ReturnType<typeof createFakeServer>;
+
+let time: number;
+const now = () => new Date(time);
+const later = (minutes: number) => {
+  time += minutes * 60 * 1000;
+};
+
+// A device with its own stores, all in localStorage under the device's name
+const createDevice = (name: string, server: FakeServer) => {
+  let online = true;
+  const store = <T extends StoredRecord>(suffix: string) => createLocalStorageStore<T>(`${name}:${suffix}`);
+  const client = createSyncClient({
+    baseUrl: 'https://sync.example.com/',
+    queue: store('queue'),
+    replica: store('replica'),
+    state: store('state'),
+    fetchImpl: server.fetchImpl,
+    now,
+    isOnline: () => online,
+  });
+  return {
+    client,
+    journal: createJournalStorage(client.track(store<JournalEntry>('journal'), journalSyncMapping), now),
+    values: createValueProfileStorage(client.track(store<Value>('values'), valueProfileSyncMapping)),
+    setOnline: (value: boolean) => { online = value; },
+  };
+};
+
+beforeEach(() => {
+  localStorage.clear();
+  time = Date.parse('2026-03-01T10:00:00.000Z');
+});
+
+describe('createSyncClient', () => {
+  it('queues edits made offline and sends them once back online', async () => {
+    const server = createFakeServer();
+    const laptop = createDevice('laptop', server);
+    laptop.setOnline(false);
+
+    await laptop.journal.saveEntry(newEntry);
+
+    await expect(laptop.client.sync()).rejects.toThrow('offline');
+    expect(server.fetchImpl).not.toHaveBeenCalled();
+    expect(await laptop.client.pendingChanges()).toBe(2); // The entry and its decision
+
+    laptop.setOnline(true);
+    expect(await laptop.client.sync()).toEqual({ sent: 2, received: 2, rejected: 0 });
+    expect(server.fetchImpl).toHaveBeenCalledWith('https://sync.example.com/api/sync', expect.anything());
+    expect(await laptop.client.pendingChanges()).toBe(0);
+    expect(await laptop.client.lastSyncedAt()).toBe('2026-03-01T10:00:00.000Z');
+  });
+
+  it('keeps the queue when the server cannot be reached', async () => {
+    const server = createFakeServer();
+    const laptop = createDevice('laptop', server);
+    await laptop.journal.saveEntry(newEntry);
+
+    server.setReachable(false);
+    await expect(laptop.client.sync()).rejects.toThrow('Sync request failed: Failed to fetch');
+    expect(await laptop.client.pendingChanges()).toBe(2);
+
+    server.setReachable(true);
+    await laptop.client.sync();
+    expect(server.records.size).toBe(2);
+  });
+
+  it('brings the entries of one device to the other, check-ins included', async () => {
+    const server = createFakeServer();
+    const laptop = createDevice('laptop', server);
+    const phone = createDevice('phone', server);
+    const saved = await laptop.journal.saveEntry({
+      decision: { question: 'Move abroad?', balanceScore: 60, options: ['Go', 'Stay'] },
+      analysis,
+      tags: ['Life'],
+      notes: '',
+    });
+    const withCheckIn = await laptop.journal.updateEntry(saved.id, {
+      checkIns: [{ id: 'c1', createdAt: saved.createdAt, scheduledFor: '2026-03-08T10:00:00.000Z', remind: true }],
+    });
+
+    await laptop.client.sync();
+    await phone.client.sync();
+
+    expect(await phone.journal.listEntries()).toEqual([withCheckIn]);
+    expect(await phone.client.pendingChanges()).toBe(0);
+  });
+
+  it('merges edits to different fields and keeps the later edit of the same field', async () => {
+    const server = createFakeServer();
+    const laptop = createDevice('laptop', server);
+    const phone = createDevice('phone', server);
+    const saved = await laptop.journal.saveEntry(newEntry);
+    await laptop.client.sync();
+    await phone.client.sync();
+
+    later(1);
+    await laptop.journal.updateEntry(saved.id, { notes: 'Asked my sister', tags: ['Family'] });
+    later(1);
+    await phone.journal.updateEntry(saved.id, {
+      tags: ['Career'],
+      decision: { ...saved.decision, question: 'Move to Lisbon?' },
+    });
+    await laptop.client.sync();
+    await phone.client.sync();
+    await laptop.client.sync();
+
+    const onLaptop = await laptop.journal.getEntry(saved.id);
+    expect(onLaptop).toEqual(await phone.journal.getEntry(saved.id));
+    expect(onLaptop).toMatchObject({ notes: 'Asked my sister', tags: ['Career'], decision: { question: 'Move to Lisbon?' } });
+  });
+
+  it('keeps check-ins added on both devices to the same entry', async () => {
+    const server = createFakeServer();
+    const laptop = createDevice('laptop', server);
+    const phone = createDevice('phone', server);
+    const saved = await laptop.journal.saveEntry(newEntry);
+    await laptop.client.sync();
+    await phone.client.sync();
+
+    const checkIn = (id: string) => ({ id, createdAt: now().toISOString(), scheduledFor: '2026-04-01T10:00:00.000Z', remind: false });
+    await laptop.journal.updateEntry(saved.id, { checkIns: [checkIn('from-laptop')] });
+    later(1);
+    await phone.journal.updateEntry(saved.id, { checkIns: [checkIn('from-phone')] });
+    await laptop.client.sync();
+    await phone.client.sync();
+
+    const entry = await phone.journal.getEntry(saved.id);
+    expect(entry?.checkIns?.map(({ id }) => id)).toEqual(['from-laptop', 'from-phone']);
+  });
+
+  it('removes deleted entries on the other devices', async () => {
+    const server = createFakeServer();
+    const laptop = createDevice('laptop', server);
+    const phone = createDevice('phone', server);
+    const saved = await laptop.journal.saveEntry(newEntry);
+    await laptop.client.sync();
+    await phone.client.sync();
+
+    later(1);
+    await phone.journal.deleteEntry(saved.id);
+    await phone.client.sync();
+    await laptop.client.sync();
+
+    expect(await laptop.journal.listEntries()).toEqual([]);
+  });
+
+  it('syncs the value profile as a whole', async () => {
+    const server = createFakeServer();
+    const laptop = createDevice('laptop', server);
+    const phone = createDevice('phone', server);
+    await laptop.values.saveProfile([{ id: 'v1', name: 'Family', priority: 1 }, { id: 'v2', name: 'Health', priority: 2 }]);
+    await laptop.client.sync();
+    await phone.client.sync();
+
+    later(1);
+    const reordered = await phone.values.saveProfile([{ id: 'v2', name: 'Health', priority: 1 }, { id: 'v1', name: 'Family', priority: 2 }]);
+    await phone.client.sync();
+    await laptop.client.sync();
+
+    expect(await laptop.values.getProfile()).toEqual(reordered);
+  });
+
+  it('holds back a document the server refuses until it is edited again', async () => {
+    const server = createFakeServer(({ collection, fields }) => collection === 'journal' && fields.notes === 'Too long');
+    const laptop = createDevice('laptop', server);
+    const saved = await laptop.journal.saveEntry({ ...newEntry, notes: 'Too long' });
+
+    expect(await laptop.client.sync()).toEqual({ sent: 1, received: 1, rejected: 1 });
+    expect(await laptop.client.pendingChanges()).toBe(0);
+    expect(await laptop.journal.getEntry(saved.id)).toEqual(saved); // Still there to be fixed
+    await laptop.client.sync();
+    expect(JSON.parse(server.fetchImpl.mock.calls[1][1]?.body as string).changes).toEqual([]);
+
+    later(1);
+    await laptop.journal.updateEntry(saved.id, { notes: 'Shorter' });
+    expect(await laptop.client.sync()).toMatchObject({ sent: 2, rejected: 0 }); // The held-back change goes too
+    expect(server.records.get(recordKey('journal', saved.id))?.fields).toMatchObject({ notes: 'Shorter', tags: [] });
+  });
+
+  it('sends what was stored before sync was set up', async () => {
+    const server = createFakeServer();
+    const untracked = createJournalStorage(createLocalStorageStore<JournalEntry>('laptop:journal'), now);
+    await untracked.saveEntry(newEntry);
+
+    const laptop = createDevice('laptop', server);
+    expect(await laptop.client.sync()).toMatchObject({ sent: 2 });
+  });
+
+  it('leaves stores untracked without a server', async () => {
+    const store = createLocalStorageStore<JournalEntry>('journal');
+    const client = createSyncClient({});
+
+    expect(client.enabled).toBe(false);
+    expect(client.track(store, journalSyncMapping)).toBe(store);
+    await expect(client.sync()).rejects.toThrow('Sync is not set up');
+  });
+});
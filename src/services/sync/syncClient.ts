@@ -0,0 +1,313 @@
+import { FieldChange, SyncDocument, SyncedRecord, SyncRequest, SyncResponse } from '../../types/sync';
+import { generateId } from '../storage/generateId';
+import { createLocalStorageStore, createRecordStore, RecordStore, StoredRecord } from '../storage/recordStore';
+import { applyChange, changedFields, currentFields, mergeRecords, recordKey, sameValue } from './fieldMerge';
+import { SyncMapping } from './syncMappings';
+
+// A local edit waiting for the server; it stays queued until a sync has delivered it
+export interface QueuedChange extends StoredRecord {
+  change: FieldChange;
+  rejected?: string[]; // Why the server refused the document; held back until the document is edited again
+}
+
+// The last copy of a server record this device has seen, stored under its collection and id
+export interface ReplicaRecord extends StoredRecord {
+  record: SyncedRecord;
+}
+
+export interface SyncState extends StoredRecord {
+  revision: number; // The server revision the replica is up to date with
+  syncedAt?: string; // ISO timestamp
+}
+
+export interface SyncResult {
+  sent: number; // Queued changes the server accepted
+  received: number; // Records that came back, including the ones just sent
+  rejected: number; // Queued changes held back because the server refused their document
+}
+
+// What subscribers hear about: local changes joining the queue, and a sync finishing
+export type SyncEvent = 'queued' | 'synced';
+
+export interface SyncClient {
+  enabled: boolean;
+  track: <T extends StoredRecord>(store: RecordStore<T>, mapping: SyncMapping<T>) => RecordStore<T>;
+  sync: () => Promise<SyncResult>; // Rejects when the server can't be reached; the queue is kept for the next try
+  pendingChanges: () => Promise<number>;
+  lastSyncedAt: () => Promise<string | undefined>;
+  subscribe: (listener: (event: SyncEvent) => void) => () => void;
+}
+
+export interface SyncClientOptions {
+  baseUrl?: string; // e.g. "https://sync.example.com"; without one, sync is off and stores are left untracked
+  token?: string; // Sent as a bearer token, for servers started with SYNC_TOKEN
+  queue?: RecordStore<QueuedChange>;
+  replica?: RecordStore<ReplicaRecord>;
+  state?: RecordStore<SyncState>;
+  timeoutMs?: number;
+  fetchImpl?: typeof fetch;
+  now?: () => Date;
+  isOnline?: () => boolean;
+}
+
+// What sync needs from each tracked store
+interface TrackedStore {
+  collect: (records: Map<string, SyncedRecord>, queued: QueuedChange[]) => Promise<FieldChange[]>;
+  apply: (records: Map<string, SyncedRecord>, queued: QueuedChange[]) => Promise<void>;
+}
+
+const STATE_ID = 'sync';
+
+const trimTrailingSlash = (url: string) => url.replace(/\/+$/, '');
+
+const browserIsOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+// What the server will hold once the queue has been sent: its last known copy with the queued changes on top
+const shadowDocuments = (
+  records: Map<string, SyncedRecord>,
+  queued: QueuedChange[],
+  collections: SyncMapping<StoredRecord>['collections']
+): Map<string, SyncDocument> => {
+  const shadow = new Map(Array.from(records).filter(([, record]) => collections.includes(record.collection)));
+  queued
+    .filter(({ change }) => collections.includes(change.collection))
+    .forEach(({ change }) => {
+      const key = recordKey(change.collection, change.id);
+      shadow.set(key, applyChange(shadow.get(key), change));
+    });
+
+  const documents = new Map<string, SyncDocument>();
+  shadow.forEach((record, key) => {
+    const fields = currentFields(record);
+    if (fields) {
+      documents.set(key, { collection: record.collection, id: record.id, fields });
+    }
+  });
+  return documents;
+};
+
+/**
+ * Keeps tracked stores in sync with a self-hosted sync server. Every write to
+ * a tracked store queues the fields it changed, timed by this device's clock,
+ * and a sync sends the queue and merges back whatever other devices changed,
+ * field by field with the last write winning. While offline, or when the
+ * server can't be reached, changes simply wait in the queue.
+ */
+export const createSyncClient = ({
+  baseUrl,
+  token,
+  queue = createLocalStorageStore<QueuedChange>('sync-queue'),
+  replica = createRecordStore<ReplicaRecord>('sync-replica'),
+  state = createLocalStorageStore<SyncState>('sync-state'),
+  timeoutMs = 15000,
+  fetchImpl,
+  now = () => new Date(),
+  isOnline = browserIsOnline,
+}: SyncClientOptions = {}): SyncClient => {
+  const tracked: TrackedStore[] = [];
+  const listeners = new Set<(event: SyncEvent) => void>();
+  let lastStamp = 0;
+  let steps: Promise<unknown> = Promise.resolve();
+  let running: Promise<SyncResult> | null = null;
+
+  const notify = (event: SyncEvent) => listeners.forEach(listener => listener(event));
+
+  // Steps that touch the queue, the replica or tracked stores run one at a time, so none sees another half done
+  const exclusive = <R>(step: () => Promise<R>): Promise<R> => {
+    const result = steps.then(step);
+    steps = result.catch(() => undefined);
+    return result;
+  };
+
+  // Strictly increasing, so edits made within the same millisecond still win in the order they were made
+  const stamp = () => {
+    lastStamp = Math.max(now().getTime(), lastStamp + 1);
+    return new Date(lastStamp).toISOString();
+  };
+
+  const loadReplica = async () =>
+    new Map((await replica.getAll()).map(({ id, record }): [string, SyncedRecord] => [id, record]));
+
+  const loadQueue = async () =>
+    (await queue.getAll()).sort((a, b) => a.change.changedAt.localeCompare(b.change.changedAt));
+
+  // Queues whatever differs between the stores and what the server will hold
+  const collect = async (stores: TrackedStore[]) => {
+    const records = await loadReplica();
+    const queued = await loadQueue();
+    const changes: FieldChange[] = [];
+    for (const store of stores) {
+      changes.push(...await store.collect(records, queued));
+    }
+    await Promise.all(changes.map(change => queue.put({ id: generateId(), change })));
+    // A new edit to a refused document may be what fixes it, so its held-back changes go out with it
+    const edited = new Set(changes.map(({ collection, id }) => recordKey(collection, id)));
+    await Promise.all(queued
+      .filter(({ rejected, change }) => rejected && edited.has(recordKey(change.collection, change.id)))
+      .map(({ rejected, ...held }) => queue.put(held)));
+    if (changes.length > 0) {
+      notify('queued');
+    }
+  };
+
+  const send = async (request: SyncRequest): Promise<SyncResponse> => {
+    const doFetch = fetchImpl || fetch;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    let response: Response;
+    try {
+      response = await doFetch(`${trimTrailingSlash(baseUrl || '')}/api/sync`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify(request),
+        signal: controller.signal,
+      });
+    } catch (err) {
+      const reason = controller.signal.aborted ? `timed out after ${timeoutMs}ms` : (err as Error).message;
+      throw new Error(`Sync request failed: ${reason}`);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Sync server responded with ${response.status}`);
+    }
+    const body = await response.json().catch(() => undefined) as SyncResponse | undefined;
+    if (typeof body?.revision !== 'number' || !Array.isArray(body.records)) {
+      throw new Error('Sync server returned an invalid response');
+    }
+    return body;
+  };
+
+  const runSync = async (): Promise<SyncResult> => {
+    if (!baseUrl) {
+      throw new Error('Sync is not set up');
+    }
+    if (!isOnline()) {
+      throw new Error('Sync skipped: the device is offline');
+    }
+
+    // Collecting first also picks up records stored before sync was set up
+    const { since, sent } = await exclusive(async () => {
+      await collect(tracked);
+      const unsent = (await loadQueue()).filter(({ rejected }) => !rejected);
+      return { since: (await state.get(STATE_ID))?.revision ?? 0, sent: unsent };
+    });
+    // Tracked stores stay writable while the request is out; their edits queue up behind it
+    const response = await send({ since, changes: sent.map(({ change }) => change) });
+    const refused = new Map((response.rejected || [])
+      .map(({ collection, id, problems }): [string, string[]] => [recordKey(collection, id), problems]));
+    const problemsOf = ({ change }: QueuedChange) => refused.get(recordKey(change.collection, change.id));
+
+    await exclusive(async () => {
+      const records = await loadReplica();
+      response.records.forEach((record) => {
+        const key = recordKey(record.collection, record.id);
+        records.set(key, mergeRecords(records.get(key), record));
+      });
+      // The stores are updated before the replica: if that is cut short, the next sync
+      // finds their new contents unsent and queues values the server already has
+      const queued = await loadQueue();
+      for (const store of tracked) {
+        await store.apply(records, queued);
+      }
+      for (const record of response.records) {
+        const key = recordKey(record.collection, record.id);
+        await replica.put({ id: key, record: records.get(key) as SyncedRecord });
+      }
+      // Resending a refused document unchanged would only be refused again, and would hold up nothing else,
+      // so it stays on this device, still readable, until the user edits it
+      await Promise.all(sent.map((queued) => {
+        const problems = problemsOf(queued);
+        return problems ? queue.put({ ...queued, rejected: problems }) : queue.delete(queued.id);
+      }));
+      await state.put({ id: STATE_ID, revision: response.revision, syncedAt: now().toISOString() });
+    });
+    notify('synced');
+    const rejected = sent.filter(problemsOf).length;
+    return { sent: sent.length - rejected, received: response.records.length, rejected };
+  };
+
+  return {
+    enabled: !!baseUrl,
+
+    track: <T extends StoredRecord>(store: RecordStore<T>, mapping: SyncMapping<T>): RecordStore<T> => {
+      if (!baseUrl) {
+        return store;
+      }
+
+      const trackedStore: TrackedStore = {
+        collect: async (records, queued) => {
+          const known = shadowDocuments(records, queued, mapping.collections);
+          const changedAt = stamp();
+          const changes: FieldChange[] = [];
+          mapping.toDocuments(await store.getAll()).forEach(({ collection, id, fields }) => {
+            const key = recordKey(collection, id);
+            const changed = changedFields(known.get(key)?.fields, fields);
+            if (Object.keys(changed).length > 0) {
+              changes.push({ collection, id, changedAt, fields: changed });
+            }
+            known.delete(key);
+          });
+          known.forEach(({ collection, id }) => changes.push({ collection, id, changedAt, deleted: true }));
+          return changes;
+        },
+
+        // Writes only the records that differ, straight to the store so nothing is queued again
+        apply: async (records, queued) => {
+          const shadow = shadowDocuments(records, queued, mapping.collections);
+          const wanted = mapping.fromDocuments(Array.from(shadow.values()));
+          const existing = new Map((await store.getAll()).map((record): [string, T] => [record.id, record]));
+          for (const record of wanted) {
+            if (!sameValue(existing.get(record.id), record)) {
+              await store.put(record);
+            }
+            existing.delete(record.id);
+          }
+          for (const id of Array.from(existing.keys())) {
+            await store.delete(id);
+          }
+        },
+      };
+      tracked.push(trackedStore);
+
+      const recorded = (write: () => Promise<void>) => exclusive(async () => {
+        await write();
+        await collect([trackedStore]);
+      });
+
+      return {
+        getAll: () => store.getAll(),
+        get: (id) => store.get(id),
+        put: (record) => recorded(() => store.put(record)),
+        delete: (id) => recorded(() => store.delete(id)),
+        clear: () => recorded(() => store.clear()),
+      };
+    },
+
+    sync: () => {
+      if (!running) {
+        running = runSync().finally(() => {
+          running = null;
+        });
+      }
+      return running;
+    },
+
+    pendingChanges: async () => (await queue.getAll()).filter(({ rejected }) => !rejected).length,
+
+    lastSyncedAt: async () => (await state.get(STATE_ID))?.syncedAt,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
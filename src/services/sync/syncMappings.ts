@@ -0,0 +1,80 @@
+import { Decision, Value } from '../../types/decision';
+import { CheckIn, JournalEntry } from '../../types/journal';
+import { SyncCollection, SyncDocument, SyncFields } from '../../types/sync';
+import { StoredRecord } from '../storage/recordStore';
+import { rankValues } from '../values/valueProfile';
+
+/**
+ * How the records of one local store are laid out on the sync server. Turning
+ * records into documents and back must give the same records again, or every
+ * sync would rewrite them.
+ */
+export interface SyncMapping<T extends StoredRecord> {
+  collections: SyncCollection[]; // Every document in these belongs to this store
+  toDocuments: (records: T[]) => SyncDocument[];
+  fromDocuments: (documents: SyncDocument[]) => T[];
+}
+
+const withoutKeys = (value: object, keys: string[]): SyncFields =>
+  Object.entries(value)
+    .filter(([key, field]) => !keys.includes(key) && field !== undefined)
+    .reduce<SyncFields>((fields, [key, field]) => ({ ...fields, [key]: field }), {});
+
+// The entry's own fields go to "journal", its decision to "decisions" under the entry's id,
+// and every check-in to "check-ins" with the entry it belongs to
+export const journalSyncMapping: SyncMapping<JournalEntry> = {
+  collections: ['journal', 'decisions', 'check-ins'],
+
+  toDocuments: (entries) => entries.flatMap(entry => [
+    { collection: 'journal' as const, id: entry.id, fields: withoutKeys(entry, ['id', 'decision', 'checkIns']) },
+    { collection: 'decisions' as const, id: entry.id, fields: withoutKeys(entry.decision, ['id']) },
+    ...(entry.checkIns || []).map(checkIn => ({
+      collection: 'check-ins' as const,
+      id: checkIn.id,
+      fields: { ...withoutKeys(checkIn, ['id']), entryId: entry.id },
+    })),
+  ]),
+
+  // An entry whose decision isn't there (yet) can't be shown, so it is left out
+  fromDocuments: (documents) => {
+    const decisions = new Map<string, SyncFields>();
+    const checkIns = new Map<string, CheckIn[]>();
+    documents.forEach(({ collection, id, fields }) => {
+      if (collection === 'decisions') {
+        decisions.set(id, fields);
+      } else if (collection === 'check-ins' && typeof fields.entryId === 'string') {
+        const checkIn = { ...withoutKeys(fields, ['entryId']), id } as unknown as CheckIn;
+        checkIns.set(fields.entryId, [...(checkIns.get(fields.entryId) || []), checkIn]);
+      }
+    });
+
+    return documents
+      .filter(({ collection, id }) => collection === 'journal' && decisions.has(id))
+      .map(({ id, fields }) => {
+        const entryCheckIns = (checkIns.get(id) || [])
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id));
+        return {
+          ...fields,
+          id,
+          decision: { ...decisions.get(id), id } as unknown as Decision,
+          ...(entryCheckIns.length > 0 ? { checkIns: entryCheckIns } : {}),
+        } as unknown as JournalEntry;
+      });
+  },
+};
+
+const VALUE_PROFILE_ID = 'default';
+
+// A ranking only makes sense as a whole, so the profile is one document and the last one saved wins
+export const valueProfileSyncMapping: SyncMapping<Value> = {
+  collections: ['value-profiles'],
+
+  toDocuments: (values) => (values.length > 0
+    ? [{ collection: 'value-profiles', id: VALUE_PROFILE_ID, fields: { values: rankValues(values) } }]
+    : []),
+
+  fromDocuments: (documents) => {
+    const profile = documents.find(({ id }) => id === VALUE_PROFILE_ID);
+    return profile && Array.isArray(profile.fields.values) ? profile.fields.values as Value[] : [];
+  },
+};
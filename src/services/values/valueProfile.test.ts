@@ -0,0 +1,58 @@
+import { Value } from '../../types/decision';
+import {
+  addValue,
+  defaultSelection,
+  moveValue,
+  priorityWeight,
+  rankSelection,
+  rankValues,
+  removeValue,
+  valueChoices,
+} from './valueProfile';
+
+const profile: Value[] = [
+  { id: 'health', name: 'Health', priority: 2 },
+  { id: 'family', name: 'Family', priority: 1 },
+  { id: 'craft', name: 'Craftsmanship', priority: 5 },
+  { id: 'freedom', name: 'Freedom', priority: 3 },
+];
+
+describe('valueProfile', () => {
+  it('ranks values and closes gaps in the priorities', () => {
+    expect(rankValues(profile).map(value => [value.name, value.priority])).toEqual([
+      ['Family', 1], ['Health', 2], ['Freedom', 3], ['Craftsmanship', 4],
+    ]);
+  });
+
+  it('adds custom values at the bottom and ignores duplicates', () => {
+    const added = addValue(profile, ' Independence ', () => 'new');
+    expect(added[added.length - 1]).toEqual({ id: 'new', name: 'Independence', priority: 5 });
+    expect(addValue(profile, 'family', () => 'dup')).toHaveLength(4);
+  });
+
+  it('reorders and removes values', () => {
+    expect(moveValue(profile, 3, 0).map(value => value.name)).toEqual(['Craftsmanship', 'Family', 'Health', 'Freedom']);
+    expect(removeValue(profile, 'family').map(value => value.priority)).toEqual([1, 2, 3]);
+  });
+
+  it('weighs higher priorities more', () => {
+    expect(priorityWeight(1)).toBe(1);
+    expect(priorityWeight(5)).toBe(0.5);
+    expect(priorityWeight(2)).toBeGreaterThan(priorityWeight(3));
+  });
+
+  it('orders a selection by the profile and ranks unknown values last', () => {
+    expect(rankSelection(['Adventure', 'Freedom', 'Family'], profile)).toEqual([
+      { id: 'family', name: 'Family', priority: 1 },
+      { id: 'freedom', name: 'Freedom', priority: 3 },
+      { id: 'Adventure', name: 'Adventure', priority: 5 },
+    ]);
+  });
+
+  it('pre-selects the top values and offers profile values first', () => {
+    expect(defaultSelection(profile)).toEqual(['Family', 'Health', 'Freedom']);
+    const choices = valueChoices(profile);
+    expect(choices.slice(0, 4)).toEqual(['Family', 'Health', 'Freedom', 'Craftsmanship']);
+    expect(choices.filter(choice => choice === 'Family')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,88 @@
+import { Value } from '../../types/decision';
+import { generateId } from '../storage/generateId';
+import { moveItem } from '../decision/options';
+import { MessageKey, Translate } from '../i18n/i18n';
+
+// Values offered to everyone; the profile can add custom ones on top
+export const BUILT_IN_VALUES = [
+  'Family', 'Health', 'Financial Security', 'Career Growth', 'Happiness',
+  'Freedom', 'Stability', 'Adventure', 'Learning', 'Relationships', 'Community',
+  'Spirituality', 'Creativity', 'Achievement', 'Balance'
+];
+
+// Built-in values are stored by their English names and translated for display
+const VALUE_MESSAGES: Record<string, MessageKey> = {
+  'Family': 'value.family',
+  'Health': 'value.health',
+  'Financial Security': 'value.financialSecurity',
+  'Career Growth': 'value.careerGrowth',
+  'Happiness': 'value.happiness',
+  'Freedom': 'value.freedom',
+  'Stability': 'value.stability',
+  'Adventure': 'value.adventure',
+  'Learning': 'value.learning',
+  'Relationships': 'value.relationships',
+  'Community': 'value.community',
+  'Spirituality': 'value.spirituality',
+  'Creativity': 'value.creativity',
+  'Achievement': 'value.achievement',
+  'Balance': 'value.balance',
+};
+
+// A value's display name; custom values are shown as the user wrote them
+export const valueLabel = (name: string, t: Translate): string =>
+  VALUE_MESSAGES[name] ? t(VALUE_MESSAGES[name]) : name;
+
+// How many of the top-ranked values a new decision starts with
+export const MAX_DECISION_VALUES = 3;
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Most important first, renumbered so priorities are always 1..n without gaps
+export const rankValues = (values: Value[]): Value[] =>
+  [...values]
+    .sort((a, b) => a.priority - b.priority)
+    .map((value, index) => ({ ...value, priority: index + 1 }));
+
+export const hasValue = (profile: Value[], name: string) => profile.some(value => sameName(value.name, name));
+
+// New values join at the bottom; names already in the profile are ignored
+export const addValue = (profile: Value[], name: string, createId: () => string = generateId): Value[] => {
+  const trimmed = name.trim();
+  if (!trimmed || hasValue(profile, trimmed)) {
+    return rankValues(profile);
+  }
+  return rankValues([...profile, { id: createId(), name: trimmed, priority: profile.length + 1 }]);
+};
+
+export const removeValue = (profile: Value[], id: string): Value[] =>
+  rankValues(profile.filter(value => value.id !== id));
+
+export const moveValue = (profile: Value[], from: number, to: number): Value[] =>
+  moveItem(rankValues(profile), from, to).map((value, index) => ({ ...value, priority: index + 1 }));
+
+/**
+ * How much a value counts relative to the user's top value: 1 for priority 1,
+ * halving by priority 5. Values outside the profile count as priority 1 so
+ * decisions made before a profile existed keep their old weight.
+ */
+export const priorityWeight = (priority = 1): number => 1 / (1 + (Math.max(1, priority) - 1) * 0.25);
+
+// The profile entries for the values chosen on a decision, in profile order
+export const rankSelection = (selected: string[], profile: Value[]): Value[] => {
+  const ranked = rankValues(profile);
+  const known = ranked.filter(value => selected.some(name => sameName(name, value.name)));
+  const unknown = selected
+    .filter(name => !hasValue(ranked, name))
+    .map((name, index) => ({ id: name, name, priority: ranked.length + index + 1 }));
+  return [...known, ...unknown];
+};
+
+export const defaultSelection = (profile: Value[]): string[] =>
+  rankValues(profile).slice(0, MAX_DECISION_VALUES).map(value => value.name);
+
+// Profile values first, then the built-ins the profile doesn't have yet
+export const valueChoices = (profile: Value[]): string[] => [
+  ...rankValues(profile).map(value => value.name),
+  ...BUILT_IN_VALUES.filter(name => !hasValue(profile, name)),
+];
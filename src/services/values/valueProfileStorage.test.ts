@@ -0,0 +1,51 @@
+import { Value } from '../../types/decision';
+import { createLocalStorageStore } from '../storage/recordStore';
+import { createValueProfileStorage } from './valueProfileStorage';
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('valueProfileStorage', () => {
+  it('starts empty and returns the saved profile ranked', async () => {
+    const storage = createValueProfileStorage(createLocalStorageStore<Value>('values'));
+    expect(await storage.getProfile()).toEqual([]);
+
+    await storage.saveProfile([
+      { id: 'b', name: 'Health', priority: 4 },
+      { id: 'a', name: 'Family', priority: 2 },
+    ]);
+
+    expect(await storage.getProfile()).toEqual([
+      { id: 'a', name: 'Family', priority: 1 },
+      { id: 'b', name: 'Health', priority: 2 },
+    ]);
+  });
+
+  it('drops values removed from the profile', async () => {
+    const storage = createValueProfileStorage(createLocalStorageStore<Value>('values'));
+    await storage.saveProfile([{ id: 'a', name: 'Family', priority: 1 }, { id: 'b', name: 'Health', priority: 2 }]);
+    await storage.saveProfile([{ id: 'b', name: 'Health', priority: 1 }]);
+
+    expect(await storage.getProfile()).toEqual([{ id: 'b', name: 'Health', priority: 1 }]);
+  });
+
+  it('only writes the values that changed', async () => {
+    const store = createLocalStorageStore<Value>('values');
+    const storage = createValueProfileStorage(store);
+    await storage.saveProfile([
+      { id: 'a', name: 'Family', priority: 1 },
+      { id: 'b', name: 'Health', priority: 2 },
+      { id: 'c', name: 'Career', priority: 3 },
+    ]);
+    const put = jest.spyOn(store, 'put');
+    const remove = jest.spyOn(store, 'delete');
+    const clear = jest.spyOn(store, 'clear');
+
+    await storage.saveProfile([{ id: 'a', name: 'Family', priority: 1 }, { id: 'c', name: 'Career', priority: 2 }]);
+
+    expect(put.mock.calls).toEqual([[{ id: 'c', name: 'Career', priority: 2 }]]);
+    expect(remove.mock.calls).toEqual([['b']]);
+    expect(clear).not.toHaveBeenCalled();
+  });
+});
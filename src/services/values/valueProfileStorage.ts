@@ -0,0 +1,32 @@
+import { Value } from '../../types/decision';
+import { createRecordStore, RecordStore } from '../storage/recordStore';
+import { syncClient, valueProfileSyncMapping } from '../sync';
+import { sameValue } from '../sync/fieldMerge';
+import { rankValues } from './valueProfile';
+
+export interface ValueProfileStorage {
+  getProfile: () => Promise<Value[]>; // Most important first
+  saveProfile: (profile: Value[]) => Promise<Value[]>;
+}
+
+export const createValueProfileStorage = (
+  store: RecordStore<Value> = syncClient.track(createRecordStore<Value>('values'), valueProfileSyncMapping)
+): ValueProfileStorage => ({
+  getProfile: async () => rankValues(await store.getAll()),
+
+  // The profile is saved whole, but only the values that changed are written. Sync still sends
+  // the profile as one document whose `values` field holds all of them
+  saveProfile: async (profile) => {
+    const ranked = rankValues(profile);
+    const existing = new Map((await store.getAll()).map((value): [string, Value] => [value.id, value]));
+    for (const id of Array.from(existing.keys()).filter(id => !ranked.some(value => value.id === id))) {
+      await store.delete(id);
+    }
+    for (const value of ranked.filter(value => !sameValue(existing.get(value.id), value))) {
+      await store.put(value);
+    }
+    return ranked;
+  },
+});
+
+export const valueProfileStorage = createValueProfileStorage();
@@ -0,0 +1,25 @@
+import { ValueTension } from '../../types/decision';
+import { createLocalStorageStore } from '../storage/recordStore';
+import { createValueTensionStorage } from './valueTensionStorage';
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('valueTensionStorage', () => {
+  it('adds, lists and removes custom tensions', async () => {
+    const storage = createValueTensionStorage(createLocalStorageStore<ValueTension>('value-tensions'));
+
+    const added = await storage.addTension([' Creativity ', 'Financial Security'], ' Art rarely pays ');
+    expect(added).toEqual({ id: added.id, values: ['Creativity', 'Financial Security'], reason: 'Art rarely pays' });
+    expect(await storage.listTensions()).toEqual([added]);
+
+    await storage.removeTension(added.id);
+    expect(await storage.listTensions()).toEqual([]);
+  });
+
+  it('rejects a value paired with itself', async () => {
+    const storage = createValueTensionStorage(createLocalStorageStore<ValueTension>('value-tensions'));
+    await expect(storage.addTension(['Family', 'family'])).rejects.toThrow('two different values');
+  });
+});
@@ -0,0 +1,32 @@
+import { ValueTension } from '../../types/decision';
+import { generateId } from '../storage/generateId';
+import { createRecordStore, RecordStore } from '../storage/recordStore';
+
+export interface ValueTensionStorage {
+  listTensions: () => Promise<ValueTension[]>;
+  addTension: (values: [string, string], reason?: string) => Promise<ValueTension>;
+  removeTension: (id: string) => Promise<void>;
+}
+
+export const createValueTensionStorage = (
+  store: RecordStore<ValueTension> = createRecordStore<ValueTension>('value-tensions')
+): ValueTensionStorage => ({
+  listTensions: async () => {
+    const tensions = await store.getAll();
+    return tensions.sort((a, b) => a.values.join().localeCompare(b.values.join()));
+  },
+
+  addTension: async (values, reason) => {
+    const [a, b] = values.map(value => value.trim());
+    if (!a || !b || a.toLowerCase() === b.toLowerCase()) {
+      throw new Error('A value tension needs two different values');
+    }
+    const tension: ValueTension = { id: generateId(), values: [a, b], ...(reason?.trim() ? { reason: reason.trim() } : {}) };
+    await store.put(tension);
+    return tension;
+  },
+
+  removeTension: (id) => store.delete(id),
+});
+
+export const valueTensionStorage = createValueTensionStorage();
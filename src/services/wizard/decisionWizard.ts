@@ -0,0 +1,46 @@
+import { WizardStep } from '../../types/decision';
+import { hasAnyOption } from '../decision/options';
+import { MessageKey } from '../i18n/i18n';
+import { createWizardMachine, StepDefinition } from './wizardMachine';
+
+export const DECIDE_PATH = '/decide';
+
+// What the step guards and validation look at
+export interface DecisionWizardState {
+  question: string;
+  initialIntuition: string;
+  options: string[];
+  analysed: boolean; // An analysis exists for the current inputs
+}
+
+// Labels and validation messages are catalogue keys, translated where they are shown
+export const DECISION_STEPS: StepDefinition<WizardStep, DecisionWizardState, MessageKey>[] = [
+  {
+    id: 'question',
+    label: 'wizard.step.question',
+    validate: state => (state.question.trim() ? null : 'wizard.error.question'),
+  },
+  {
+    id: 'intuition',
+    label: 'wizard.step.intuition',
+    validate: state => (state.initialIntuition.trim() ? null : 'wizard.error.intuition'),
+  },
+  {
+    id: 'context',
+    label: 'wizard.step.context',
+    validate: state => (hasAnyOption(state.options) ? null : 'wizard.error.options'),
+  },
+  {
+    id: 'matrix',
+    label: 'wizard.step.matrix',
+  },
+  {
+    id: 'analysis',
+    label: 'wizard.step.analysis',
+    guard: state => state.analysed,
+  },
+];
+
+export const decisionWizard = createWizardMachine(DECISION_STEPS);
+
+export const stepPath = (step: WizardStep) => `${DECIDE_PATH}/${step}`;
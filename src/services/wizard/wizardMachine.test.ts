@@ -0,0 +1,71 @@
+import { decisionWizard, DecisionWizardState } from './decisionWizard';
+import { createWizardMachine } from './wizardMachine';
+
+const empty: DecisionWizardState = { question: '', initialIntuition: '', options: ['', ''], analysed: false };
+const complete: DecisionWizardState = {
+  question: 'Should I move?',
+  initialIntuition: 'Yes',
+  options: ['Move', 'Stay'],
+  analysed: true,
+};
+
+describe('createWizardMachine', () => {
+  const machine = createWizardMachine<'a' | 'b' | 'c', { done: boolean }>([
+    { id: 'a', label: 'First', validate: state => (state.done ? null : 'Finish the first step') },
+    { id: 'b', label: 'Second' },
+    { id: 'c', label: 'Third', guard: state => state.done },
+  ]);
+
+  it('derives transitions, labels and progress from the step order', () => {
+    expect(machine.next('a')).toBe('b');
+    expect(machine.next('c')).toBeUndefined();
+    expect(machine.previous('b')).toBe('a');
+    expect(machine.previous('a')).toBeUndefined();
+    expect(machine.label('b')).toBe('Second');
+    expect(machine.steps.map(step => machine.progress(step.id))).toEqual([33, 67, 100]);
+  });
+
+  it('recognises its steps', () => {
+    expect(machine.isStep('b')).toBe(true);
+    expect(machine.isStep('d')).toBe(false);
+    expect(machine.isStep(undefined)).toBe(false);
+  });
+
+  it('reports why a step cannot be left', () => {
+    expect(machine.validate('a', { done: false })).toBe('Finish the first step');
+    expect(machine.validate('a', { done: true })).toBeNull();
+    expect(machine.validate('b', { done: false })).toBeNull();
+  });
+
+  it('rejects an empty definition', () => {
+    expect(() => createWizardMachine([])).toThrow('at least one step');
+  });
+});
+
+describe('decisionWizard', () => {
+  it('starts at the question', () => {
+    expect(decisionWizard.resolve(undefined, complete)).toBe('question');
+  });
+
+  it('shows a requested step once every earlier step is complete', () => {
+    expect(decisionWizard.resolve('matrix', complete)).toBe('matrix');
+    expect(decisionWizard.resolve('analysis', complete)).toBe('analysis');
+  });
+
+  it('sends the user back to the first unfinished step', () => {
+    expect(decisionWizard.resolve('context', empty)).toBe('question');
+    expect(decisionWizard.resolve('matrix', { ...complete, initialIntuition: ' ' })).toBe('intuition');
+    expect(decisionWizard.resolve('matrix', { ...complete, options: ['', ''] })).toBe('context');
+  });
+
+  it('only shows the analysis once there is one', () => {
+    expect(decisionWizard.resolve('analysis', { ...complete, analysed: false })).toBe('matrix');
+  });
+
+  it('validates each step with a message key for the user', () => {
+    expect(decisionWizard.validate('question', empty)).toBe('wizard.error.question');
+    expect(decisionWizard.validate('intuition', empty)).toBe('wizard.error.intuition');
+    expect(decisionWizard.validate('context', empty)).toBe('wizard.error.options');
+    expect(decisionWizard.validate('matrix', empty)).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+// Message is the type of labels and validation messages, e.g. catalogue keys the UI translates
+export interface StepDefinition<Step extends string, State, Message extends string = string> {
+  id: Step; // Also the step's URL segment
+  label: Message;
+  validate?: (state: State) => Message | null; // Why the user cannot move past this step yet
+  guard?: (state: State) => boolean; // Whether the step can be shown at all
+}
+
+export interface WizardMachine<Step extends string, State, Message extends string = string> {
+  steps: StepDefinition<Step, State, Message>[];
+  isStep: (value: unknown) => value is Step;
+  label: (step: Step) => Message;
+  next: (step: Step) => Step | undefined;
+  previous: (step: Step) => Step | undefined;
+  progress: (step: Step) => number; // Percent, reaching 100 on the last step
+  validate: (step: Step, state: State) => Message | null;
+  resolve: (requested: Step | undefined, state: State) => Step;
+}
+
+/**
+ * A linear wizard described by its steps, in order. Transitions, labels and
+ * progress all follow from the list, so a step is added by inserting its
+ * definition where it belongs.
+ */
+export const createWizardMachine = <Step extends string, State, Message extends string = string>(
+  steps: StepDefinition<Step, State, Message>[]
+): WizardMachine<Step, State, Message> => {
+  if (steps.length === 0) {
+    throw new Error('A wizard needs at least one step.');
+  }
+
+  const indexOf = (step: Step) => steps.findIndex(definition => definition.id === step);
+  const stepAt = (index: number): Step | undefined => steps[index]?.id;
+
+  return {
+    steps,
+
+    isStep: (value): value is Step => steps.some(definition => definition.id === value),
+
+    // Unknown steps get the first step's label, as resolve() would send the user there
+    label: step => steps[Math.max(indexOf(step), 0)].label,
+
+    next: step => stepAt(indexOf(step) + 1),
+
+    previous: step => {
+      const index = indexOf(step);
+      return index > 0 ? stepAt(index - 1) : undefined;
+    },
+
+    progress: step => Math.round(((indexOf(step) + 1) / steps.length) * 100),
+
+    validate: (step, state) => steps[indexOf(step)]?.validate?.(state) || null,
+
+    /**
+     * The step to show when the user asks for one, e.g. by URL or the browser's
+     * back and forward buttons: the requested step if every step before it is
+     * complete and its guard allows it, otherwise the first step that still
+     * needs the user.
+     */
+    resolve: (requested, state) => {
+      const target = requested === undefined ? 0 : Math.max(indexOf(requested), 0);
+      for (let index = 0; index <= target; index++) {
+        const definition = steps[index];
+        if (definition.guard && !definition.guard(state)) {
+          return stepAt(Math.max(index - 1, 0))!;
+        }
+        if (index < target && definition.validate?.(state)) {
+          return definition.id;
+        }
+      }
+      return steps[target].id;
+    },
+  };
+};
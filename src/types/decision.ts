@@ -9,6 +9,39 @@ export interface Decision {
   initialIntuition?: string;
   confidenceScore?: number; // 0-100%
   timeHorizon?: number; // 0 = short-term, 100 = long-term
+  matrix?: DecisionMatrix;
+  rankedValues?: Value[]; // Profile ranking of `values` when the decision was made
+  valueTensions?: ValueTension[]; // User-defined tensions on top of the built-in ones
+  positionCorrections?: Record<string, OptionPosition>; // Option -> where the user dragged it on the compass
+}
+
+// Steps of the decision wizard, in order
+export type WizardStep = 'question' | 'intuition' | 'context' | 'matrix' | 'analysis';
+
+// Two values that tend to pull a decision in different directions
+export interface ValueTension {
+  id: string;
+  values: [string, string];
+  reason?: string;
+}
+
+export interface Criterion {
+  id: string;
+  name: string;
+  weight: number; // 1 = minor, 5 = critical
+  value?: string; // The personal value this criterion was seeded from
+}
+
+// Options x criteria scoring grid the user fills in before the analysis
+export interface DecisionMatrix {
+  criteria: Criterion[];
+  scores: Record<string, Record<string, number>>; // option -> criterion id -> 0-10
+}
+
+export interface RankedOption {
+  option: string;
+  score: number; // Weighted total, 0-100
+  rank: number; // 1 = best; tied options share a rank
 }
 
 export interface Value {
@@ -16,3 +49,53 @@ export interface Value {
   name: string;
   priority: number;
 }
+
+export interface Factor {
+  name: string;
+  score: number;
+  valueAlignment?: string; // Which value this factor aligns with
+  option?: string; // Which option this factor scores, if it is option-specific
+}
+
+export interface Sentiment {
+  positive: number; // positive, negative and neutral sum to 1
+  negative: number;
+  neutral: number;
+  tone?: string; // Descriptive tone like "Mostly Neutral with Slight Positivity"
+  compound?: number; // Overall valence, -1 (negative) to 1 (positive)
+  emotions?: Partial<Record<Emotion, number>>; // Share of the emotional words, sums to 1
+  highlights?: SentimentHighlight[]; // Strongest first
+}
+
+export type Emotion = 'joy' | 'trust' | 'anticipation' | 'fear' | 'sadness' | 'anger';
+
+// A phrase from the user's own words that moved the sentiment
+export interface SentimentHighlight {
+  phrase: string; // Including any negation or intensifier, e.g. "not happy"
+  field: 'question' | 'intuition' | 'options' | 'stakes';
+  score: number; // Signed valence after modifiers
+}
+
+export interface BiasDetection {
+  biasType: string; // e.g., "Loss Aversion", "Confirmation Bias"
+  description: string;
+  suggestion: string;
+  evidence?: string[]; // What in the decision triggered the detection
+}
+
+export interface OptionPosition {
+  x: number; // Emotional (0) to Logical (100)
+  y: number; // Short-term (0) to Long-term (100)
+}
+
+export interface Analysis {
+  recommendation: string;
+  factors: Factor[];
+  sentiment: Sentiment;
+  detectedBiases?: BiasDetection[];
+  valueConflicts?: string[];
+  optionPositions?: Record<string, OptionPosition>; // Map option names to positions
+  thirdOption?: string;
+  matrixRanking?: RankedOption[]; // Best first, when the decision has a scored matrix
+  locale?: string; // Language the text is written in, e.g. "es"
+}
@@ -0,0 +1,14 @@
+import { SharedDecision } from './share';
+import { Revision } from './revision';
+
+// An unfinished decision, autosaved while the user works through the wizard
+export interface Draft extends SharedDecision {
+  id: string;
+  name: string;
+  updatedAt: string; // ISO timestamp
+  matrixSkipped?: boolean; // The user chose to analyse without the matrix
+  revisions?: Revision[];
+  finalRevision?: number;
+}
+
+export type NewDraft = Omit<Draft, 'updatedAt'>;
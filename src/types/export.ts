@@ -0,0 +1,21 @@
+import { Analysis, Decision } from './decision';
+import { CheckIn } from './journal';
+import { Revision } from './revision';
+
+// Everything a report or export file contains about one decision
+export interface DecisionReport {
+  decision: Decision;
+  analysis: Analysis;
+  tags?: string[];
+  notes?: string;
+  checkIns?: CheckIn[];
+  createdAt?: string; // ISO timestamp the decision was saved to the journal
+  revisions?: Revision[]; // Every analysis of the decision, oldest first
+  finalRevision?: number; // The revision the user settled on
+}
+
+export interface DecisionExportFile extends DecisionReport {
+  format: 'anchor-decision';
+  version: number; // Bumped whenever the file layout changes incompatibly
+  exportedAt: string; // ISO timestamp
+}
@@ -0,0 +1,48 @@
+// One participant's view of a group decision
+export interface GroupResponse {
+  id: string;
+  participant: string; // Name, unique within the group
+  balanceScore: number; // 0 = fully emotional, 100 = fully logical
+  timeHorizon: number; // 0 = short-term, 100 = long-term
+  values: string[];
+  initialIntuition: string;
+  optionScores: Record<string, number>; // Option -> 0-10
+  submittedAt: string; // ISO timestamp
+}
+
+export type NewGroupResponse = Omit<GroupResponse, 'id' | 'submittedAt'>;
+
+// A decision several people weigh in on; the owner sets the question and options
+export interface GroupDecision {
+  id: string;
+  owner: string;
+  question: string;
+  options: string[];
+  createdAt: string; // ISO timestamp
+  updatedAt?: string;
+  responses: GroupResponse[];
+}
+
+export type NewGroupDecision = Pick<GroupDecision, 'owner' | 'question' | 'options'>;
+
+// What a remote participant needs to respond, sent to them as a file
+export interface GroupInvitation {
+  groupId: string;
+  owner: string;
+  question: string;
+  options: string[];
+}
+
+export interface GroupInvitationFile extends GroupInvitation {
+  format: 'anchor-group-invitation';
+  version: number;
+  exportedAt: string;
+}
+
+export interface GroupResponseFile {
+  format: 'anchor-group-response';
+  version: number;
+  exportedAt: string;
+  groupId: string;
+  response: GroupResponse;
+}
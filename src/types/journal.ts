@@ -0,0 +1,46 @@
+import { Analysis, Decision } from './decision';
+import { Revision } from './revision';
+
+export type FollowThrough = 'yes' | 'partially' | 'no';
+
+export type IntuitionMatch = 'yes' | 'partly' | 'no';
+
+export interface Reflection {
+  followedThrough: FollowThrough;
+  outcomeSatisfaction: number; // 1 = very unhappy, 5 = very happy with how it turned out
+  intuitionMatched: IntuitionMatch; // Did initialIntuition match the reality?
+  notes?: string;
+  recordedAt: string; // ISO timestamp
+}
+
+// A scheduled follow-up on a saved decision (the "Decision Time Capsule")
+export interface CheckIn {
+  id: string;
+  createdAt: string; // ISO timestamp
+  scheduledFor: string; // ISO timestamp the check-in becomes due
+  remind: boolean; // Show a browser notification when due
+  notifiedAt?: string;
+  reflection?: Reflection; // Present once the check-in is completed
+}
+
+export interface JournalEntry {
+  id: string;
+  createdAt: string; // ISO timestamp, so entries survive JSON storage unchanged
+  updatedAt?: string;
+  decision: Decision;
+  analysis: Analysis;
+  tags: string[];
+  notes: string;
+  checkIns?: CheckIn[];
+  revisions?: Revision[]; // Every analysis of the decision, oldest first
+  finalRevision?: number; // The revision the user settled on; decision and analysis come from it
+}
+
+export type NewJournalEntry = Omit<JournalEntry, 'id' | 'createdAt' | 'updatedAt' | 'checkIns'>;
+
+// An entry from an exported file; it gets a new id but keeps its history
+export type ImportedJournalEntry = Omit<JournalEntry, 'id' | 'updatedAt'>;
+
+export type JournalEntryChanges = Partial<
+  Pick<JournalEntry, 'tags' | 'notes' | 'checkIns' | 'decision' | 'analysis' | 'revisions' | 'finalRevision'>
+>;
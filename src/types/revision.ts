@@ -0,0 +1,9 @@
+import { Analysis, Decision } from './decision';
+
+// One submission of a decision for analysis; resubmitting after edits adds the next revision
+export interface Revision {
+  number: number; // 1-based, in submission order
+  createdAt: string; // ISO timestamp
+  decision: Decision;
+  analysis: Analysis;
+}
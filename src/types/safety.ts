@@ -0,0 +1,15 @@
+// Most to least urgent
+export type SafetySeverity = 'crisis' | 'concerning' | 'informational';
+
+export interface SafetyRule {
+  id: string;
+  severity: SafetySeverity;
+  pattern: RegExp; // Matched case-insensitively at word boundaries
+}
+
+export interface SafetyMatch {
+  ruleId: string;
+  severity: SafetySeverity;
+  field: string; // Which free-text field it was found in, e.g. "question"
+  phrase: string; // The text that matched
+}
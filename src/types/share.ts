@@ -0,0 +1,13 @@
+import { Analysis, Decision, WizardStep } from './decision';
+
+// Wizard state carried in a shareable link's URL fragment
+export interface SharedDecision {
+  decision: Decision;
+  analysis?: Analysis; // Present once the decision has been analysed
+  step?: WizardStep; // Where the wizard was when the link was made
+}
+
+export interface ShareOptions {
+  readOnly: boolean; // Opens a read-only view instead of the wizard
+  includeIntuition: boolean;
+}
@@ -0,0 +1,47 @@
+// What the sync server stores. A journal entry is split across the first three,
+// so its decision and each check-in merge field by field on their own
+export type SyncCollection = 'decisions' | 'journal' | 'check-ins' | 'value-profiles';
+
+export type SyncFields = Record<string, unknown>; // Top-level fields of a document, without its id
+
+// A document as a device holds it
+export interface SyncDocument {
+  collection: SyncCollection;
+  id: string;
+  fields: SyncFields;
+}
+
+// A document with the time every field was last written, so copies can be merged in any order
+export interface SyncedRecord extends SyncDocument {
+  fieldTimes: Record<string, string>; // Field -> ISO timestamp of the write that set it
+  deletedAt?: string; // Fields written after this bring the document back
+  revision: number; // The server's change counter at the last change; 0 until the server has it
+}
+
+// One edit as made on a device, timed by that device's clock
+export interface FieldChange {
+  collection: SyncCollection;
+  id: string;
+  changedAt: string; // ISO timestamp
+  fields?: SyncFields; // Only the fields that changed; null clears one
+  deleted?: boolean;
+}
+
+// POST /api/sync: the device's queued changes, and everything the server has had since it last asked
+export interface SyncRequest {
+  since: number;
+  changes: FieldChange[];
+}
+
+// A document whose changes the server refused because they would leave it invalid
+export interface RejectedDocument {
+  collection: SyncCollection;
+  id: string;
+  problems: string[];
+}
+
+export interface SyncResponse {
+  revision: number; // Ask with this next time
+  records: SyncedRecord[];
+  rejected?: RejectedDocument[]; // Every other document's changes were applied
+}